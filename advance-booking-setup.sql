@@ -0,0 +1,42 @@
+-- Advance Booking Rules: enforce each service's min/max advance booking window
+-- Run this in your Supabase SQL Editor after supabase-setup.sql
+
+-- Rejects new bookings that start too soon or too far ahead. The HINT lets the app
+-- recognise the error and show the message to the client as is.
+CREATE OR REPLACE FUNCTION enforce_advance_booking_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_min_hours INTEGER;
+  v_max_days INTEGER;
+BEGIN
+  SELECT min_advance_booking_hours, max_advance_booking_days
+  INTO v_min_hours, v_max_days
+  FROM services
+  WHERE id = NEW.service_id;
+
+  IF NEW.start_time < NOW() + make_interval(hours => COALESCE(v_min_hours, 0)) THEN
+    IF COALESCE(v_min_hours, 0) > 0 THEN
+      RAISE EXCEPTION 'This service must be booked at least % hour% in advance',
+        v_min_hours, CASE WHEN v_min_hours = 1 THEN '' ELSE 's' END
+        USING HINT = 'advance_booking_too_soon';
+    ELSE
+      RAISE EXCEPTION 'This time has already passed'
+        USING HINT = 'advance_booking_too_soon';
+    END IF;
+  END IF;
+
+  IF v_max_days IS NOT NULL AND v_max_days > 0
+     AND NEW.start_time > NOW() + make_interval(days => v_max_days) THEN
+    RAISE EXCEPTION 'This service can only be booked up to % day% in advance',
+      v_max_days, CASE WHEN v_max_days = 1 THEN '' ELSE 's' END
+      USING HINT = 'advance_booking_too_far';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only new bookings: studios may still reschedule existing ones at short notice
+DROP TRIGGER IF EXISTS enforce_advance_booking_rules ON bookings;
+CREATE TRIGGER enforce_advance_booking_rules BEFORE INSERT ON bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_advance_booking_rules();
@@ -0,0 +1,36 @@
+-- Balance Payments: collect what's left after a deposit
+-- Run this in your Supabase SQL Editor after booking-holds-setup.sql
+
+-- What has been paid so far. The balance due is total_price_cents minus both.
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS deposit_paid_cents INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS final_payment_cents INTEGER NOT NULL DEFAULT 0;
+
+-- The card saved at checkout is charged for the balance; if that fails (or there's
+-- no card) the client is emailed a payment link instead
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS stripe_payment_intent_id TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS balance_requested_at TIMESTAMP WITH TIME ZONE;
+
+-- The payment link opens this Checkout session again while it's still open
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS balance_session_id TEXT;
+
+-- A day before the session (the default) or once it has ended
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS balance_due_timing TEXT NOT NULL DEFAULT 'before_session'
+  CHECK (balance_due_timing IN ('before_session', 'after_session'));
+
+CREATE INDEX IF NOT EXISTS idx_bookings_balance_due
+  ON bookings(start_time) WHERE payment_status IN ('pending', 'deposit_paid') AND balance_requested_at IS NULL;
+
+-- Backfill bookings paid before the amounts were tracked
+UPDATE bookings b
+SET deposit_paid_cents = ROUND(b.total_price_cents * s.deposit_percentage / 100.0)
+FROM services s
+WHERE s.id = b.service_id
+  AND b.payment_status = 'deposit_paid'
+  AND b.deposit_paid_cents = 0;
+
+UPDATE bookings
+SET final_payment_cents = total_price_cents
+WHERE payment_status = 'paid'
+  AND deposit_paid_cents = 0
+  AND final_payment_cents = 0;
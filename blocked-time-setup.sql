@@ -0,0 +1,34 @@
+-- Studio Blocked Time: maintenance days, holidays and recurring blocks
+-- Run this in your Supabase SQL Editor after supabase-setup.sql
+
+CREATE TABLE IF NOT EXISTS studio_blocked_times (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  studio_id UUID REFERENCES studios(id) ON DELETE CASCADE,
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  reason TEXT,
+  recurring BOOLEAN DEFAULT false,
+  recurrence_pattern TEXT CHECK (recurrence_pattern IN ('weekly', 'monthly')),
+  recurrence_end DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  CHECK (end_time > start_time),
+  CHECK (NOT recurring OR recurrence_pattern IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_studio_blocked_times_studio_id ON studio_blocked_times(studio_id, start_time);
+
+ALTER TABLE studio_blocked_times ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can view blocked time (needed to compute public availability)
+CREATE POLICY "Blocked times are viewable by everyone" ON studio_blocked_times
+  FOR SELECT USING (true);
+
+-- Studio owners can manage their blocked time
+CREATE POLICY "Studio owners can manage their blocked times" ON studio_blocked_times
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM studios 
+      WHERE studios.id = studio_blocked_times.studio_id 
+      AND studios.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,17 @@
+-- Booking Buffers: prep/teardown time per service and slot interval per studio
+-- Run this in your Supabase SQL Editor after supabase-setup.sql
+
+-- Minutes kept free around each session; teardown defaults to the old fixed 15 minute gap
+ALTER TABLE services ADD COLUMN IF NOT EXISTS buffer_before INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE services ADD COLUMN IF NOT EXISTS buffer_after INTEGER NOT NULL DEFAULT 15;
+
+ALTER TABLE services DROP CONSTRAINT IF EXISTS services_buffers_check;
+ALTER TABLE services ADD CONSTRAINT services_buffers_check
+  CHECK (buffer_before >= 0 AND buffer_after >= 0);
+
+-- How often a bookable start time is offered
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS slot_interval_minutes INTEGER NOT NULL DEFAULT 30;
+
+ALTER TABLE studios DROP CONSTRAINT IF EXISTS studios_slot_interval_check;
+ALTER TABLE studios ADD CONSTRAINT studios_slot_interval_check
+  CHECK (slot_interval_minutes IN (15, 30, 60));
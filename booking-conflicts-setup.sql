@@ -0,0 +1,42 @@
+-- Booking Conflicts: stop two active bookings from ever sharing a studio's time
+-- Run this in your Supabase SQL Editor after booking-buffers-setup.sql
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Time the studio is occupied by a booking, including the service's prep and teardown buffers
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS occupied_range TSTZRANGE;
+
+CREATE OR REPLACE FUNCTION set_booking_occupied_range()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_buffer_before INTEGER;
+  v_buffer_after INTEGER;
+BEGIN
+  SELECT buffer_before, buffer_after
+  INTO v_buffer_before, v_buffer_after
+  FROM services
+  WHERE id = NEW.service_id;
+
+  NEW.occupied_range := tstzrange(
+    NEW.start_time - make_interval(mins => COALESCE(v_buffer_before, 0)),
+    NEW.end_time + make_interval(mins => COALESCE(v_buffer_after, 0)),
+    '[)'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_booking_occupied_range ON bookings;
+CREATE TRIGGER set_booking_occupied_range BEFORE INSERT OR UPDATE OF start_time, end_time, service_id ON bookings
+  FOR EACH ROW EXECUTE FUNCTION set_booking_occupied_range();
+
+-- Backfill existing bookings (fires the trigger above)
+UPDATE bookings SET start_time = start_time WHERE occupied_range IS NULL;
+
+-- Concurrent inserts for the same slot: the second one fails with exclusion_violation (23P01).
+-- If this fails, resolve the overlapping active bookings it reports first.
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE bookings ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (studio_id WITH =, occupied_range WITH &&)
+  WHERE (status NOT IN ('cancelled', 'no_show'));
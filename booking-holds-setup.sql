@@ -0,0 +1,45 @@
+-- Booking Holds: reserve a slot while the client pays, then release it automatically
+-- Run this in your Supabase SQL Editor after booking-conflicts-setup.sql
+
+-- A pending_payment booking holds its slot until this time. Checkout pushes it out to
+-- match the Stripe session; once it passes the slot is free again.
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS hold_expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_hold_expires_at
+  ON bookings(hold_expires_at) WHERE status = 'pending_payment';
+
+-- New pending bookings get a 30 minute hold (the shortest Stripe Checkout session)
+CREATE OR REPLACE FUNCTION set_booking_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'pending_payment' AND NEW.hold_expires_at IS NULL THEN
+    NEW.hold_expires_at := TIMEZONE('utc', NOW()) + INTERVAL '30 minutes';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_booking_hold ON bookings;
+CREATE TRIGGER set_booking_hold BEFORE INSERT ON bookings
+  FOR EACH ROW EXECUTE FUNCTION set_booking_hold();
+
+-- Cancel pending bookings whose hold ran out. Returns what was released so the caller
+-- can expire the matching Stripe sessions, which only the server can do: it's run by
+-- the sweeper (/api/bookings/release-holds) alone.
+CREATE OR REPLACE FUNCTION release_expired_booking_holds()
+RETURNS TABLE (booking_id UUID, stripe_session_id TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE bookings b
+  SET status = 'cancelled',
+      payment_status = 'expired',
+      updated_at = TIMEZONE('utc', NOW())
+  WHERE b.status = 'pending_payment'
+    AND b.hold_expires_at < NOW()
+  RETURNING b.id, b.stripe_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION release_expired_booking_holds() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_expired_booking_holds() TO service_role;
@@ -0,0 +1,163 @@
+-- Booking Series: recurring weekly or biweekly sessions booked together
+-- Run this in your Supabase SQL Editor after resources-setup.sql
+
+CREATE TABLE IF NOT EXISTS booking_series (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  studio_id UUID REFERENCES studios(id) ON DELETE CASCADE NOT NULL,
+  service_id UUID REFERENCES services(id) ON DELETE CASCADE NOT NULL,
+  client_name TEXT NOT NULL,
+  client_email TEXT NOT NULL,
+  recurrence_rule TEXT NOT NULL, -- RRULE subset, e.g. FREQ=WEEKLY;INTERVAL=2;COUNT=8
+  payment_mode TEXT NOT NULL DEFAULT 'series' CHECK (payment_mode IN ('series', 'per_session')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Position of the session within its series, 0 for the first
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES booking_series(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS series_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_studio_id ON booking_series(studio_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON bookings(series_id);
+
+CREATE TRIGGER update_booking_series_updated_at BEFORE UPDATE ON booking_series
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Same rules as advance-booking-setup.sql, except later sessions of a series may
+-- run past the service's max advance window as long as the first one is inside it
+CREATE OR REPLACE FUNCTION enforce_advance_booking_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_min_hours INTEGER;
+  v_max_days INTEGER;
+BEGIN
+  SELECT min_advance_booking_hours, max_advance_booking_days
+  INTO v_min_hours, v_max_days
+  FROM services
+  WHERE id = NEW.service_id;
+
+  IF NEW.start_time < NOW() + make_interval(hours => COALESCE(v_min_hours, 0)) THEN
+    IF COALESCE(v_min_hours, 0) > 0 THEN
+      RAISE EXCEPTION 'This service must be booked at least % hour% in advance',
+        v_min_hours, CASE WHEN v_min_hours = 1 THEN '' ELSE 's' END
+        USING HINT = 'advance_booking_too_soon';
+    ELSE
+      RAISE EXCEPTION 'This time has already passed'
+        USING HINT = 'advance_booking_too_soon';
+    END IF;
+  END IF;
+
+  IF v_max_days IS NOT NULL AND v_max_days > 0
+     AND COALESCE(NEW.series_index, 0) = 0
+     AND NEW.start_time > NOW() + make_interval(days => v_max_days) THEN
+    RAISE EXCEPTION 'This service can only be booked up to % day% in advance',
+      v_max_days, CASE WHEN v_max_days = 1 THEN '' ELSE 's' END
+      USING HINT = 'advance_booking_too_far';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can start a series (same as single bookings)
+CREATE POLICY "Anyone can create booking series" ON booking_series
+  FOR INSERT WITH CHECK (true);
+
+-- Clients can view their own series by email
+CREATE POLICY "Clients can view their booking series" ON booking_series
+  FOR SELECT USING (
+    client_email = auth.jwt() ->> 'email'
+    OR EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = booking_series.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
+
+-- Studio owners can manage series at their studio
+CREATE POLICY "Studio owners can manage their booking series" ON booking_series
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = booking_series.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
+
+-- Book a series and all of its sessions in one transaction, so a session taken since
+-- the preview (exclusion_violation, 23P01) leaves no series behind. Each session in
+-- p_sessions sets only the booking columns it names; the rest keep their defaults.
+-- Runs as the caller, so the usual policies and triggers apply.
+CREATE OR REPLACE FUNCTION create_booking_series(p_series JSONB, p_sessions JSONB)
+RETURNS booking_series AS $$
+DECLARE
+  v_series booking_series;
+  v_session JSONB;
+  v_index INTEGER;
+  v_columns TEXT;
+BEGIN
+  INSERT INTO booking_series (studio_id, service_id, client_name, client_email, recurrence_rule, payment_mode)
+  SELECT s.studio_id, s.service_id, s.client_name, s.client_email, s.recurrence_rule, COALESCE(s.payment_mode, 'series')
+  FROM jsonb_populate_record(NULL::booking_series, p_series) s
+  RETURNING * INTO v_series;
+
+  FOR v_session, v_index IN
+    SELECT value, (ordinality - 1)::INTEGER FROM jsonb_array_elements(p_sessions) WITH ORDINALITY
+  LOOP
+    v_session := v_session || jsonb_build_object('series_id', v_series.id, 'series_index', v_index);
+
+    SELECT string_agg(quote_ident(key), ', ') INTO v_columns
+    FROM jsonb_object_keys(v_session) AS key;
+
+    EXECUTE format(
+      'INSERT INTO bookings (%s) SELECT %s FROM jsonb_populate_record(NULL::bookings, $1)',
+      v_columns, v_columns
+    ) USING v_session;
+  END LOOP;
+
+  RETURN v_series;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Moving several sessions together can pass through a moment where one sits on
+-- another's old time, so the overlap checks can wait for the end of the transaction
+-- (only reschedule_bookings below asks them to; everywhere else they apply at once)
+ALTER TABLE booking_resources DROP CONSTRAINT IF EXISTS booking_resources_no_overlap;
+ALTER TABLE booking_resources ADD CONSTRAINT booking_resources_no_overlap
+  EXCLUDE USING gist (resource_id WITH =, occupied_range WITH &&)
+  WHERE (active)
+  DEFERRABLE INITIALLY IMMEDIATE;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE bookings ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (studio_id WITH =, occupied_range WITH &&)
+  WHERE (status NOT IN ('cancelled', 'no_show') AND cardinality(resource_ids) = 0)
+  DEFERRABLE INITIALLY IMMEDIATE;
+
+-- Move bookings to new times (and resources) all at once: either every one of them
+-- moves or, if any would overlap another booking, none do. p_moves is a list of
+-- { id, start_time, end_time, resource_ids }. Runs as the caller (studio owners).
+CREATE OR REPLACE FUNCTION reschedule_bookings(p_moves JSONB)
+RETURNS SETOF bookings AS $$
+BEGIN
+  SET CONSTRAINTS bookings_no_overlap, booking_resources_no_overlap DEFERRED;
+
+  RETURN QUERY
+  UPDATE bookings b
+  SET start_time = m.start_time,
+      end_time = m.end_time,
+      resource_ids = m.resource_ids,
+      updated_at = TIMEZONE('utc', NOW())
+  FROM jsonb_to_recordset(p_moves) AS m(
+    id UUID,
+    start_time TIMESTAMP WITH TIME ZONE,
+    end_time TIMESTAMP WITH TIME ZONE,
+    resource_ids UUID[]
+  )
+  WHERE b.id = m.id
+  RETURNING b.*;
+END;
+$$ LANGUAGE plpgsql;
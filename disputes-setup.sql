@@ -0,0 +1,40 @@
+-- Disputes: chargebacks on booking payments, as Stripe reports them
+-- Run this in your Supabase SQL Editor after stripe-connect-setup.sql
+
+-- One row per dispute per booking it touches (a series paid up front is one
+-- payment across several bookings). Kept up to date from charge.dispute.* events.
+CREATE TABLE IF NOT EXISTS booking_disputes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  stripe_dispute_id TEXT NOT NULL,
+  stripe_payment_intent_id TEXT,
+  amount_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  reason TEXT,
+  status TEXT NOT NULL,
+  evidence_due_by TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  UNIQUE (stripe_dispute_id, booking_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_disputes_booking_id ON booking_disputes(booking_id);
+
+-- The latest dispute's status, so lists can flag a disputed booking
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS dispute_status TEXT;
+
+-- Part of the evidence a studio sends back: when the client was sent their confirmation
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS confirmation_sent_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE booking_disputes ENABLE ROW LEVEL SECURITY;
+
+-- Disputes are recorded by the server (service role); studio owners can read them
+CREATE POLICY "Studio owners can view their booking disputes" ON booking_disputes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      JOIN studios ON studios.id = bookings.studio_id
+      WHERE bookings.id = booking_disputes.booking_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
@@ -10,7 +10,9 @@ function TabBarIcon(props: {
     'dashboard': '📊',
     'bookings': '📅',
     'services': '🎵',
+    'packages': '🎟️',
     'calendar': '🗓️',
+    'emails': '✉️',
     'settings': '⚙️',
   }
   
@@ -62,6 +64,13 @@ export default function AdminLayout() {
           tabBarIcon: ({ color }) => <TabBarIcon name="services" color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="packages"
+        options={{
+          title: 'Packages',
+          tabBarIcon: ({ color }) => <TabBarIcon name="packages" color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="calendar"
         options={{
@@ -69,6 +78,13 @@ export default function AdminLayout() {
           tabBarIcon: ({ color }) => <TabBarIcon name="calendar" color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="emails"
+        options={{
+          title: 'Emails',
+          tabBarIcon: ({ color }) => <TabBarIcon name="emails" color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
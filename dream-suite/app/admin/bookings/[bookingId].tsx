@@ -7,23 +7,71 @@ import {
   TouchableOpacity,
   Alert,
   Linking,
+  Platform,
+  Share,
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { useLocalSearchParams, useRouter } from 'expo-router'
 import { useAuth } from '../../../hooks/useAuth'
 import { useBookingManagement } from '../../../hooks/useBookingManagement'
+import { stripeBookingService } from '../../../lib/stripe-booking'
 import { bookingService } from '../../../lib/supabase-booking'
-import { Booking, Service, Studio } from '../../../types/booking'
+import {
+  Booking,
+  BookingDispute,
+  BookingPayment,
+  BookingSeries,
+  InvoiceDownload,
+  Notification,
+  SeriesEditScope,
+  Service,
+  StripeEventRecord,
+  Studio,
+} from '../../../types/booking'
+import { formatMoney, getChargeLines } from '../../../utils/charges'
+import {
+  describeBookingPayment,
+  describeDisputeReason,
+  describeDisputeStatus,
+  getBalanceDueCents,
+  getPaidCents,
+  getRefundableCents,
+  isDisputeOpen,
+  summarizeBookingPayments,
+} from '../../../utils/payments'
+import { getSeriesFrequencyLabel } from '../../../utils/recurrence'
+import {
+  formatDateInTimeZone,
+  formatTimeForStudioAndClient,
+  formatTimeInTimeZone,
+  getStudioTimeZone,
+} from '../../../utils/timezone'
 
 export default function BookingDetailScreen() {
   const { bookingId } = useLocalSearchParams<{ bookingId: string }>()
   const { user } = useAuth()
   const router = useRouter()
-  const { loading: managementLoading, updateBookingStatus, cancelBookingWithRefund, sendBookingReminder } = useBookingManagement()
+  const {
+    loading: managementLoading,
+    updateBookingStatus,
+    cancelBookingWithRefund,
+    sendBookingReminder,
+    cancelSeriesBookings,
+  } = useBookingManagement()
   
   const [booking, setBooking] = useState<Booking | null>(null)
   const [service, setService] = useState<Service | null>(null)
   const [studio, setStudio] = useState<Studio | null>(null)
+  const [series, setSeries] = useState<BookingSeries | null>(null)
+  const [seriesBookings, setSeriesBookings] = useState<Booking[]>([])
+  const [payments, setPayments] = useState<BookingPayment[]>([])
+  const [invoices, setInvoices] = useState<InvoiceDownload[]>([])
+  const [stripeEvents, setStripeEvents] = useState<StripeEventRecord[]>([])
+  const [replayingEventId, setReplayingEventId] = useState<string | null>(null)
+  const [disputes, setDisputes] = useState<BookingDispute[]>([])
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [resendingNotificationId, setResendingNotificationId] = useState<string | null>(null)
+  const [exportingEvidence, setExportingEvidence] = useState(false)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -63,6 +111,34 @@ export default function BookingDetailScreen() {
         setService(serviceData)
       }
 
+      const [paymentsData, eventsData, disputesData, notificationsData] = await Promise.all([
+        bookingService.getBookingPayments(bookingData.id),
+        bookingService.getBookingStripeEvents(bookingData.id),
+        bookingService.getBookingDisputes(bookingData.id),
+        bookingService.getBookingNotifications(bookingData.id),
+      ])
+      setPayments(paymentsData)
+      setStripeEvents(eventsData)
+      setDisputes(disputesData)
+      setNotifications(notificationsData)
+
+      if (bookingData.status !== 'pending_payment') {
+        const invoiceResult = await stripeBookingService.getBookingInvoices(bookingData.id)
+        if (invoiceResult.success) {
+          setInvoices(invoiceResult.invoices || [])
+        }
+      }
+
+      // Recurring bookings show where they sit in their series
+      if (bookingData.series_id) {
+        const [seriesData, sessions] = await Promise.all([
+          bookingService.getBookingSeries(bookingData.series_id),
+          bookingService.getSeriesBookings(bookingData.series_id),
+        ])
+        setSeries(seriesData)
+        setSeriesBookings(sessions)
+      }
+
     } catch (error: any) {
       console.error('Error loading booking details:', error)
       Alert.alert('Error', 'Failed to load booking details')
@@ -72,24 +148,25 @@ export default function BookingDetailScreen() {
   }
 
   const formatCurrency = (cents: number) => {
-    return `$${(cents / 100).toFixed(2)}`
+    return formatMoney(cents, booking?.currency)
   }
 
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    })
+    return formatDateInTimeZone(dateString, getStudioTimeZone(studio))
   }
 
   const formatTime = (dateString: string) => {
-    return new Date(dateString).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    })
+    return formatTimeInTimeZone(dateString, getStudioTimeZone(studio), true)
+  }
+
+  const formatTimeRange = (startString: string, endString: string) => {
+    return formatTimeForStudioAndClient(
+      startString,
+      getStudioTimeZone(studio),
+      booking?.client_timezone,
+      endString,
+      "client's time"
+    )
   }
 
   const formatDuration = (minutes: number) => {
@@ -152,6 +229,12 @@ export default function BookingDetailScreen() {
       )
     }
 
+    if (booking.series_id && ['pending_payment', 'confirmed'].includes(booking.status)) {
+      options.unshift(
+        { text: 'Cancel Series Sessions...', onPress: showSeriesCancelMenu }
+      )
+    }
+
     if (booking.status === 'in_progress') {
       options.unshift(
         { text: 'Complete Session', onPress: () => handleStatusUpdate('completed') }
@@ -161,6 +244,28 @@ export default function BookingDetailScreen() {
     Alert.alert('Update Booking Status', 'Choose an action:', options)
   }
 
+  const showSeriesCancelMenu = () => {
+    if (!booking) return
+
+    const cancelScope = async (scope: SeriesEditScope) => {
+      const success = await cancelSeriesBookings(booking.id, scope, 'Cancelled by studio')
+      if (success) {
+        await loadBookingDetails()
+      }
+    }
+
+    Alert.alert(
+      'Cancel Recurring Sessions',
+      'Which sessions should be cancelled?',
+      [
+        { text: 'Only This Session', onPress: () => cancelScope('this') },
+        { text: 'This and Following', onPress: () => cancelScope('following') },
+        { text: 'All Sessions', style: 'destructive', onPress: () => cancelScope('all') },
+        { text: 'Keep Sessions', style: 'cancel' },
+      ]
+    )
+  }
+
   const handleCallClient = () => {
     if (booking?.client_phone) {
       Linking.openURL(`tel:${booking.client_phone}`)
@@ -176,27 +281,96 @@ export default function BookingDetailScreen() {
   }
 
   const handleRefund = async () => {
-    if (!booking || booking.payment_status !== 'paid') return
+    if (!booking) return
+
+    const remainingCents = getPaidCents(booking) - (booking.refunded_cents || 0)
+    const policyCents = getRefundableCents(booking, studio)
+    if (remainingCents <= 0) return
 
+    const refund = async (amountCents?: number) => {
+      const success = await cancelBookingWithRefund(booking.id, 'Booking cancelled by studio', amountCents)
+      if (success) {
+        await loadBookingDetails() // Reload to get updated data
+      }
+    }
+
+    // The policy amount is what a client cancelling now would get back; the studio
+    // cancelling can choose to refund everything instead
     Alert.alert(
-      'Process Refund',
-      'Are you sure you want to refund this booking? This action cannot be undone.',
+      'Cancel & Refund',
+      `Your cancellation policy refunds ${formatCurrency(policyCents)} of the ${formatCurrency(remainingCents)} paid. ` +
+        'The booking will be cancelled. This action cannot be undone.',
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: 'Keep Booking', style: 'cancel' },
+        ...(policyCents < remainingCents
+          ? [{ text: `Refund ${formatCurrency(policyCents)} (Policy)`, onPress: () => refund() }]
+          : []),
         {
-          text: 'Refund',
-          style: 'destructive',
-          onPress: async () => {
-            const success = await cancelBookingWithRefund(booking.id, 'Booking cancelled by studio')
-            if (success) {
-              await loadBookingDetails() // Reload to get updated data
-            }
-          }
+          text: `Refund ${formatCurrency(remainingCents)}`,
+          style: 'destructive' as const,
+          onPress: () => refund(remainingCents),
         }
       ]
     )
   }
 
+  const handleReplayEvent = async (eventId: string) => {
+    setReplayingEventId(eventId)
+    const result = await stripeBookingService.replayWebhookEvent(eventId)
+    setReplayingEventId(null)
+
+    if (result.success) {
+      Alert.alert('Success', 'The event was processed')
+    } else {
+      Alert.alert('Error', 'Failed to replay event: ' + result.error)
+    }
+    await loadBookingDetails()
+  }
+
+  const handleResendNotification = async (notification: Notification) => {
+    setResendingNotificationId(notification.id)
+    const result = await stripeBookingService.resendNotification(notification.id)
+    setResendingNotificationId(null)
+
+    const message = notification.channel === 'sms' ? 'text' : 'email'
+    if (result.success) {
+      Alert.alert('Success', `The ${message} was sent to ${result.notification?.recipient}`)
+    } else {
+      Alert.alert('Error', `Failed to resend ${message}: ` + result.error)
+    }
+    await loadBookingDetails()
+  }
+
+  const handleExportEvidence = async () => {
+    if (!booking) return
+
+    setExportingEvidence(true)
+    const result = await stripeBookingService.exportDisputeEvidence(booking.id)
+    setExportingEvidence(false)
+
+    if (!result.success || !result.evidence) {
+      Alert.alert('Error', 'Failed to export evidence: ' + result.error)
+      return
+    }
+
+    if (Platform.OS === 'web') {
+      // Download it as a text file
+      const url = URL.createObjectURL(new Blob([result.evidence], { type: 'text/plain' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = result.filename || 'evidence.txt'
+      link.click()
+      URL.revokeObjectURL(url)
+    } else {
+      await Share.share({ title: result.filename, message: result.evidence })
+    }
+  }
+
+  // Days left to respond to a dispute, counting today
+  const getDaysToRespond = (dueBy: string) => {
+    return Math.max(0, Math.ceil((new Date(dueBy).getTime() - Date.now()) / (24 * 60 * 60 * 1000)))
+  }
+
   const handleSendReminder = (reminderType: '24h' | '1h') => {
     if (!booking) return
 
@@ -260,6 +434,8 @@ export default function BookingDetailScreen() {
     )
   }
 
+  const chargeLines = getChargeLines(booking, 'Price', studio.tax_label)
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView style={styles.content}>
@@ -305,7 +481,9 @@ export default function BookingDetailScreen() {
                 onPress={handleCallClient}
               >
                 <Text style={styles.contactLabel}>📱</Text>
-                <Text style={styles.contactValue}>{booking.client_phone}</Text>
+                <Text style={styles.contactValue}>
+                  {booking.client_phone}{booking.sms_opt_in ? ' (texts on)' : ''}
+                </Text>
               </TouchableOpacity>
             )}
           </View>
@@ -328,7 +506,7 @@ export default function BookingDetailScreen() {
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Time:</Text>
               <Text style={styles.detailValue}>
-                {formatTime(booking.start_time)} - {formatTime(booking.end_time)}
+                {formatTimeRange(booking.start_time, booking.end_time)}
               </Text>
             </View>
 
@@ -339,11 +517,46 @@ export default function BookingDetailScreen() {
               </View>
             )}
 
-            <View style={[styles.detailRow, styles.totalRow]}>
+            {series && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Series:</Text>
+                <Text style={styles.detailValue}>
+                  Session {(seriesBookings.findIndex(session => session.id === booking.id) + 1) || '?'} of {seriesBookings.length}
+                  {' • '}{getSeriesFrequencyLabel(series)}
+                  {series.payment_mode === 'series' ? ' • Paid as a series' : ' • Pay per session'}
+                  {series.status === 'cancelled' ? ' • Cancelled' : ''}
+                </Text>
+              </View>
+            )}
+
+            {booking.resources && booking.resources.length > 0 && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Resources:</Text>
+                <Text style={styles.detailValue}>
+                  {booking.resources.map(resource => resource.name).join(', ')}
+                </Text>
+              </View>
+            )}
+
+            {chargeLines.length > 1 && chargeLines.map((line, index) => (
+              <View key={line.label} style={[styles.detailRow, index === 0 && styles.totalRow]}>
+                <Text style={styles.detailLabel}>{line.label}:</Text>
+                <Text style={styles.detailValue}>{formatCurrency(line.cents)}</Text>
+              </View>
+            ))}
+
+            <View style={[styles.detailRow, chargeLines.length <= 1 && styles.totalRow]}>
               <Text style={styles.totalLabel}>Total:</Text>
               <Text style={styles.totalValue}>{formatCurrency(booking.total_price_cents)}</Text>
             </View>
 
+            {!!booking.package_purchase_id && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Paid With:</Text>
+                <Text style={styles.detailValue}>Package credits</Text>
+              </View>
+            )}
+
             {booking.payment_status && (
               <View style={styles.detailRow}>
                 <Text style={styles.detailLabel}>Payment:</Text>
@@ -352,9 +565,243 @@ export default function BookingDetailScreen() {
                 </Text>
               </View>
             )}
+
+            {!!booking.deposit_paid_cents && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Deposit Paid:</Text>
+                <Text style={styles.detailValue}>{formatCurrency(booking.deposit_paid_cents)}</Text>
+              </View>
+            )}
+
+            {!!booking.final_payment_cents && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>{booking.deposit_paid_cents ? 'Balance Paid:' : 'Paid:'}</Text>
+                <Text style={styles.detailValue}>{formatCurrency(booking.final_payment_cents)}</Text>
+              </View>
+            )}
+
+            {!!booking.refunded_cents && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Refunded:</Text>
+                <Text style={styles.detailValue}>{formatCurrency(booking.refunded_cents)}</Text>
+              </View>
+            )}
+
+            {booking.status !== 'cancelled' && booking.status !== 'pending_payment' && getBalanceDueCents(booking) > 0 && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Balance Due:</Text>
+                <Text style={styles.detailValue}>
+                  {formatCurrency(getBalanceDueCents(booking))}
+                  {booking.balance_requested_at ? ' (payment requested)' : ''}
+                </Text>
+              </View>
+            )}
           </View>
         </View>
 
+        {/* Chargebacks, with the evidence to answer them */}
+        {disputes.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Disputes</Text>
+            <View style={styles.infoCard}>
+              {disputes.map((dispute) => (
+                <View key={dispute.id} style={styles.paymentRow}>
+                  <View style={styles.paymentInfo}>
+                    <Text style={styles.paymentLabel}>{describeDisputeReason(dispute.reason)}</Text>
+                    <Text style={styles.paymentMeta}>
+                      Opened {formatDate(dispute.created_at)}
+                      {' • '}{formatCurrency(dispute.amount_cents)}
+                    </Text>
+                    {isDisputeOpen(dispute.status) && dispute.evidence_due_by && (
+                      <Text style={styles.eventError}>
+                        Respond by {formatDate(dispute.evidence_due_by)} {formatTime(dispute.evidence_due_by)}
+                        {' '}({getDaysToRespond(dispute.evidence_due_by)} days left)
+                      </Text>
+                    )}
+                  </View>
+                  <Text style={[
+                    styles.eventStatus,
+                    dispute.status === 'won' && styles.eventStatusProcessed,
+                    isDisputeOpen(dispute.status) && styles.disputeStatusOpen,
+                  ]}>
+                    {describeDisputeStatus(dispute.status)}
+                  </Text>
+                </View>
+              ))}
+
+              <TouchableOpacity
+                style={styles.evidenceButton}
+                onPress={handleExportEvidence}
+                disabled={exportingEvidence}
+              >
+                <Text style={styles.replayButtonText}>
+                  {exportingEvidence ? 'Exporting...' : 'Export Evidence'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Payment History */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Payment History</Text>
+          <View style={styles.infoCard}>
+            {payments.length === 0 && (
+              <Text style={styles.emptyPaymentsText}>No payments recorded yet</Text>
+            )}
+
+            {payments.map((payment) => (
+              <View key={payment.id} style={styles.paymentRow}>
+                <View style={styles.paymentInfo}>
+                  <Text style={styles.paymentLabel}>{describeBookingPayment(payment)}</Text>
+                  <Text style={styles.paymentMeta}>
+                    {formatDate(payment.created_at)} {formatTime(payment.created_at)}
+                    {payment.description ? ` • ${payment.description}` : ''}
+                  </Text>
+                  {(payment.stripe_refund_id || payment.stripe_payment_intent_id) && (
+                    <Text style={styles.paymentMeta}>
+                      {payment.stripe_refund_id || payment.stripe_payment_intent_id}
+                    </Text>
+                  )}
+                </View>
+                <Text style={[
+                  styles.paymentAmount,
+                  payment.amount_cents < 0 && styles.paymentAmountNegative
+                ]}>
+                  {payment.amount_cents < 0 ? '-' : '+'}{formatCurrency(Math.abs(payment.amount_cents))}
+                </Text>
+              </View>
+            ))}
+
+            {payments.length > 0 && (
+              <View style={[styles.detailRow, styles.totalRow]}>
+                <Text style={styles.totalLabel}>Net Received:</Text>
+                <Text style={styles.totalValue}>
+                  {formatCurrency(summarizeBookingPayments(payments).netCents)}
+                </Text>
+              </View>
+            )}
+          </View>
+        </View>
+
+        {/* Invoices & receipts, numbered in sequence per studio */}
+        {invoices.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Invoices</Text>
+            <View style={styles.infoCard}>
+              {invoices.map((invoice) => (
+                <View key={invoice.id} style={styles.paymentRow}>
+                  <View style={styles.paymentInfo}>
+                    <Text style={styles.paymentLabel}>
+                      {invoice.kind === 'receipt' ? 'Receipt' : 'Invoice'} {invoice.invoice_number}
+                    </Text>
+                    <Text style={styles.paymentMeta}>
+                      Issued {formatDate(invoice.issued_at)}
+                    </Text>
+                  </View>
+                  <View style={styles.invoiceButtons}>
+                    <TouchableOpacity
+                      style={styles.replayButton}
+                      onPress={() => stripeBookingService.openDownloadUrl(invoice.pdf_url)}
+                    >
+                      <Text style={styles.replayButtonText}>PDF</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.replayButton}
+                      onPress={() => stripeBookingService.openDownloadUrl(invoice.html_url)}
+                    >
+                      <Text style={styles.replayButtonText}>HTML</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Every email and text sent about the booking and whether it arrived */}
+        {notifications.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Emails & Texts</Text>
+            <View style={styles.infoCard}>
+              {notifications.map((notification) => (
+                <View key={notification.id} style={styles.paymentRow}>
+                  <View style={styles.paymentInfo}>
+                    <Text style={[styles.paymentLabel, styles.notificationType]}>
+                      {notification.channel === 'sms' ? 'text: ' : ''}
+                      {notification.type.replace(/-/g, ' ')}
+                      {notification.resend_of ? ' (resent)' : ''}
+                    </Text>
+                    <Text style={styles.paymentMeta}>
+                      {notification.recipient} • {formatDate(notification.created_at)} {formatTime(notification.created_at)}
+                    </Text>
+                    <Text style={[
+                      styles.eventStatus,
+                      notification.status === 'delivered' && styles.eventStatusProcessed,
+                      ['bounced', 'complained', 'failed'].includes(notification.status) && styles.disputeStatusOpen
+                    ]}>
+                      {notification.status}
+                    </Text>
+                    {!!notification.error && (
+                      <Text style={styles.eventError}>{notification.error}</Text>
+                    )}
+                  </View>
+                  <TouchableOpacity
+                    style={styles.replayButton}
+                    onPress={() => handleResendNotification(notification)}
+                    disabled={resendingNotificationId !== null}
+                  >
+                    <Text style={styles.replayButtonText}>
+                      {resendingNotificationId === notification.id ? 'Sending...' : 'Resend'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Stripe webhook events, with a retry for any that failed */}
+        {stripeEvents.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Stripe Events</Text>
+            <View style={styles.infoCard}>
+              {stripeEvents.map((event) => (
+                <View key={event.id} style={styles.paymentRow}>
+                  <View style={styles.paymentInfo}>
+                    <Text style={styles.paymentLabel}>{event.type}</Text>
+                    <Text style={styles.paymentMeta}>
+                      {formatDate(event.created_at)} {formatTime(event.created_at)}
+                      {event.attempts > 1 ? ` • ${event.attempts} attempts` : ''}
+                    </Text>
+                    {event.status === 'failed' && event.last_error && (
+                      <Text style={styles.eventError}>{event.last_error}</Text>
+                    )}
+                  </View>
+                  {event.status === 'failed' ? (
+                    <TouchableOpacity
+                      style={styles.replayButton}
+                      onPress={() => handleReplayEvent(event.id)}
+                      disabled={replayingEventId !== null}
+                    >
+                      <Text style={styles.replayButtonText}>
+                        {replayingEventId === event.id ? 'Replaying...' : 'Replay'}
+                      </Text>
+                    </TouchableOpacity>
+                  ) : (
+                    <Text style={[
+                      styles.eventStatus,
+                      event.status === 'processed' && styles.eventStatusProcessed
+                    ]}>
+                      {event.status}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Notes */}
         {booking.notes && (
           <View style={styles.section}>
@@ -444,14 +891,15 @@ export default function BookingDetailScreen() {
           </TouchableOpacity>
         )}
 
-        {booking.payment_status === 'paid' && booking.status !== 'completed' && (
+        {getPaidCents(booking) > (booking.refunded_cents || 0) &&
+          booking.status !== 'completed' && booking.status !== 'cancelled' && (
           <TouchableOpacity
             style={styles.refundButton}
             onPress={handleRefund}
             disabled={managementLoading}
           >
             <Text style={styles.refundButtonText}>
-              {managementLoading ? 'Processing...' : 'Process Refund'}
+              {managementLoading ? 'Processing...' : 'Cancel & Refund'}
             </Text>
           </TouchableOpacity>
         )}
@@ -611,6 +1059,81 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#10b981',
   },
+  paymentRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  paymentInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  paymentLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  paymentMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  paymentAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  paymentAmountNegative: {
+    color: '#ef4444',
+  },
+  eventError: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 2,
+  },
+  eventStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'capitalize',
+  },
+  eventStatusProcessed: {
+    color: '#10b981',
+  },
+  notificationType: {
+    textTransform: 'capitalize',
+  },
+  disputeStatusOpen: {
+    color: '#ef4444',
+  },
+  evidenceButton: {
+    backgroundColor: '#2081C3',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  invoiceButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  replayButton: {
+    backgroundColor: '#2081C3',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  replayButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  emptyPaymentsText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
   notesCard: {
     backgroundColor: '#fef9e7',
     padding: 16,
@@ -14,6 +14,8 @@ import { useRouter } from 'expo-router'
 import { useAuth } from '../../../hooks/useAuth'
 import { bookingService } from '../../../lib/supabase-booking'
 import { Studio, Booking, Service } from '../../../types/booking'
+import { formatMoney, getStudioCurrency } from '../../../utils/charges'
+import { describeDisputeStatus } from '../../../utils/payments'
 
 type FilterStatus = 'all' | 'pending_payment' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled'
 
@@ -105,8 +107,8 @@ export default function AdminBookingsScreen() {
     return service?.name || 'Unknown Service'
   }
 
-  const formatCurrency = (cents: number) => {
-    return `$${(cents / 100).toFixed(2)}`
+  const formatCurrency = (cents: number, currency: string = getStudioCurrency(studio)) => {
+    return formatMoney(cents, currency)
   }
 
   const formatDateTime = (dateString: string) => {
@@ -259,7 +261,7 @@ export default function AdminBookingsScreen() {
                   <View style={styles.bookingHeader}>
                     <Text style={styles.clientName}>{booking.client_name}</Text>
                     <Text style={styles.bookingPrice}>
-                      {formatCurrency(booking.total_price_cents)}
+                      {formatCurrency(booking.total_price_cents, booking.currency)}
                     </Text>
                   </View>
 
@@ -297,6 +299,11 @@ export default function AdminBookingsScreen() {
                       <Text style={styles.paymentStatusText}>
                         Payment: {booking.payment_status.replace('_', ' ')}
                       </Text>
+                      {booking.dispute_status && (
+                        <Text style={styles.disputeStatusText}>
+                          Disputed: {describeDisputeStatus(booking.dispute_status)}
+                        </Text>
+                      )}
                     </View>
                   )}
                 </TouchableOpacity>
@@ -330,7 +337,7 @@ export default function AdminBookingsScreen() {
         <View style={styles.statItem}>
           <Text style={styles.statNumber}>
             {formatCurrency(
-              filteredBookings.reduce((sum, booking) => sum + booking.total_price_cents, 0)
+              filteredBookings.reduce((sum, booking) => sum + booking.total_price_cents - (booking.tax_cents || 0), 0)
             )}
           </Text>
           <Text style={styles.statLabel}>Revenue</Text>
@@ -492,6 +499,12 @@ const styles = StyleSheet.create({
     color: '#666',
     fontStyle: 'italic',
   },
+  disputeStatusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ef4444',
+    marginTop: 2,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -12,7 +12,7 @@ import { SafeAreaView } from 'react-native-safe-area-context'
 import { useRouter } from 'expo-router'
 import { useAuth } from '../../hooks/useAuth'
 import { bookingService } from '../../lib/supabase-booking'
-import { Studio, Booking, Service } from '../../types/booking'
+import { Studio, Booking, Service, Resource } from '../../types/booking'
 
 interface CalendarDay {
   date: Date
@@ -31,6 +31,9 @@ export default function AdminCalendarScreen() {
   const [studio, setStudio] = useState<Studio | null>(null)
   const [bookings, setBookings] = useState<Booking[]>([])
   const [services, setServices] = useState<Service[]>([])
+  const [resources, setResources] = useState<Resource[]>([])
+  const [resourceFilter, setResourceFilter] = useState<string | null>(null)
+  const [colorBy, setColorBy] = useState<'status' | 'resource'>('status')
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [currentDate, setCurrentDate] = useState(new Date())
@@ -46,7 +49,7 @@ export default function AdminCalendarScreen() {
     if (bookings.length > 0) {
       generateCalendar()
     }
-  }, [bookings, currentDate])
+  }, [bookings, currentDate, resourceFilter])
 
   const loadCalendarData = async () => {
     if (!user) return
@@ -84,6 +87,10 @@ export default function AdminCalendarScreen() {
       const servicesData = await bookingService.getStudioServices(studioData.id, false)
       setServices(servicesData)
 
+      // Rooms, engineers and gear for filtering and color-coding
+      const resourcesData = await bookingService.getStudioResources(studioData.id, false)
+      setResources(resourcesData)
+
     } catch (error: any) {
       console.error('Error loading calendar:', error)
       Alert.alert('Error', 'Failed to load calendar')
@@ -98,6 +105,11 @@ export default function AdminCalendarScreen() {
     setRefreshing(false)
   }
 
+  // Only bookings using the selected resource, or all of them when no filter is set
+  const visibleBookings = resourceFilter
+    ? bookings.filter(booking => booking.resource_ids?.includes(resourceFilter))
+    : bookings
+
   const generateCalendar = () => {
     const year = currentDate.getFullYear()
     const month = currentDate.getMonth()
@@ -120,7 +132,7 @@ export default function AdminCalendarScreen() {
         const date = new Date(calendarStart)
         date.setDate(calendarStart.getDate() + (weekNum * 7) + dayNum)
         
-        const dayBookings = bookings.filter(booking => {
+        const dayBookings = visibleBookings.filter(booking => {
           const bookingDate = new Date(booking.start_time)
           return bookingDate.toDateString() === date.toDateString()
         })
@@ -174,6 +186,19 @@ export default function AdminCalendarScreen() {
     }
   }
 
+  const getBookingResources = (booking: Booking): Resource[] => {
+    return resources.filter(resource => booking.resource_ids?.includes(resource.id))
+  }
+
+  const getBookingColor = (booking: Booking) => {
+    if (colorBy === 'status') return getStatusColor(booking.status)
+
+    // Prefer the filtered resource's color, then the first resource the booking uses
+    const bookingResources = getBookingResources(booking)
+    const resource = bookingResources.find(r => r.id === resourceFilter) || bookingResources[0]
+    return resource?.color || '#6b7280'
+  }
+
   const monthNames = [
     'January', 'February', 'March', 'April', 'May', 'June',
     'July', 'August', 'September', 'October', 'November', 'December'
@@ -220,6 +245,48 @@ export default function AdminCalendarScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Resource Filter */}
+        {resources.length > 0 && (
+          <View style={styles.filterBar}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <TouchableOpacity
+                style={[styles.filterChip, !resourceFilter && styles.filterChipActive]}
+                onPress={() => setResourceFilter(null)}
+              >
+                <Text style={[styles.filterChipText, !resourceFilter && styles.filterChipTextActive]}>
+                  All
+                </Text>
+              </TouchableOpacity>
+              {resources.map((resource) => (
+                <TouchableOpacity
+                  key={resource.id}
+                  style={[
+                    styles.filterChip,
+                    resourceFilter === resource.id && { backgroundColor: resource.color, borderColor: resource.color }
+                  ]}
+                  onPress={() => setResourceFilter(resource.id)}
+                >
+                  <View style={[styles.filterChipDot, { backgroundColor: resource.color }]} />
+                  <Text style={[
+                    styles.filterChipText,
+                    resourceFilter === resource.id && styles.filterChipTextActive
+                  ]}>
+                    {resource.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <TouchableOpacity
+              style={styles.colorToggle}
+              onPress={() => setColorBy(colorBy === 'status' ? 'resource' : 'status')}
+            >
+              <Text style={styles.colorToggleText}>
+                Color: {colorBy === 'status' ? 'Status' : 'Resource'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Day Names Header */}
         <View style={styles.dayNamesRow}>
           {dayNames.map((day) => (
@@ -270,7 +337,7 @@ export default function AdminCalendarScreen() {
                         key={booking.id}
                         style={[
                           styles.bookingDot,
-                          { backgroundColor: getStatusColor(booking.status) }
+                          { backgroundColor: getBookingColor(booking) }
                         ]}
                       />
                     ))}
@@ -287,7 +354,7 @@ export default function AdminCalendarScreen() {
         {/* Today's Schedule */}
         <View style={styles.todaySection}>
           <Text style={styles.todayTitle}>Today's Schedule</Text>
-          {bookings
+          {visibleBookings
             .filter(booking => {
               const bookingDate = new Date(booking.start_time)
               const today = new Date()
@@ -306,7 +373,7 @@ export default function AdminCalendarScreen() {
                   </Text>
                   <View style={[
                     styles.todayStatusBadge,
-                    { backgroundColor: getStatusColor(booking.status) }
+                    { backgroundColor: getBookingColor(booking) }
                   ]}>
                     <Text style={styles.todayStatusText}>
                       {booking.status.replace('_', ' ')}
@@ -317,10 +384,15 @@ export default function AdminCalendarScreen() {
                 <Text style={styles.todayBookingService}>
                   {getServiceName(booking.service_id)}
                 </Text>
+                {getBookingResources(booking).length > 0 && (
+                  <Text style={styles.todayBookingService}>
+                    {getBookingResources(booking).map(resource => resource.name).join(' • ')}
+                  </Text>
+                )}
               </TouchableOpacity>
             ))}
           
-          {bookings.filter(booking => {
+          {visibleBookings.filter(booking => {
             const bookingDate = new Date(booking.start_time)
             const today = new Date()
             return bookingDate.toDateString() === today.toDateString()
@@ -377,6 +449,51 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#1a1a1a',
   },
+  filterBar: {
+    backgroundColor: 'white',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e5',
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    backgroundColor: 'white',
+    marginRight: 8,
+  },
+  filterChipActive: {
+    backgroundColor: '#2081C3',
+    borderColor: '#2081C3',
+  },
+  filterChipDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  filterChipTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  colorToggle: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
+  colorToggleText: {
+    fontSize: 13,
+    color: '#2081C3',
+    fontWeight: '600',
+  },
   dayNamesRow: {
     flexDirection: 'row',
     backgroundColor: 'white',
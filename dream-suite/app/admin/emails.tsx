@@ -0,0 +1,673 @@
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  TextInput,
+  Switch,
+  Platform,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { useAuth } from '../../hooks/useAuth'
+import { BookingEmailData, BookingEmailOptions, emailService } from '../../lib/email-service'
+import { bookingService } from '../../lib/supabase-booking'
+import {
+  Booking,
+  CustomEmailType,
+  EmailTemplateForm,
+  PackagePurchase,
+  Service,
+  Studio,
+  StudioEmailTemplate,
+} from '../../types/booking'
+import { getStudioCurrency } from '../../utils/charges'
+import {
+  CUSTOM_EMAIL_TYPES,
+  DEFAULT_BRAND_COLOR,
+  getStarterTemplate,
+  getVariableNames,
+  isValidBrandColor,
+  validateEmailTemplate,
+} from '../../utils/email-templates'
+
+const EMPTY_FORM: EmailTemplateForm = {
+  subject: '',
+  html_body: '',
+  text_body: '',
+  enabled: true,
+}
+
+// A made-up booking a week out, for previewing emails without a real client
+const getSampleData = (
+  studio: Studio,
+  service?: Service
+): { emailData: BookingEmailData; purchase: PackagePurchase; options: BookingEmailOptions } => {
+  const now = new Date()
+  const start = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
+  start.setMinutes(0, 0, 0)
+  const sampleService: Service = service || {
+    id: 'sample-service',
+    studio_id: studio.id,
+    name: 'Recording Session',
+    duration_minutes: 120,
+    price_cents: 10000,
+    category: 'recording',
+    requires_deposit: true,
+    deposit_percentage: 50,
+    buffer_before: 0,
+    buffer_after: 0,
+    active: true,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  }
+  const currency = getStudioCurrency(studio)
+  const depositCents = Math.round(sampleService.price_cents / 2)
+
+  const booking: Booking = {
+    id: 'sample-booking',
+    studio_id: studio.id,
+    service_id: sampleService.id,
+    client_name: 'Alex Rivera',
+    client_email: 'alex@example.com',
+    start_time: start.toISOString(),
+    end_time: new Date(start.getTime() + sampleService.duration_minutes * 60 * 1000).toISOString(),
+    status: 'confirmed',
+    payment_status: 'deposit_paid',
+    total_price_cents: sampleService.price_cents,
+    currency,
+    deposit_paid_cents: depositCents,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  }
+
+  return {
+    emailData: {
+      booking,
+      service: sampleService,
+      studio,
+      clientName: booking.client_name,
+      clientEmail: booking.client_email,
+    },
+    purchase: {
+      id: 'sample-purchase',
+      studio_id: studio.id,
+      package_name: '10 Hour Recording Block',
+      client_name: booking.client_name,
+      client_email: booking.client_email,
+      credit_type: 'hours',
+      credits_total: 600,
+      categories: ['recording'],
+      price_cents: 45000,
+      tax_cents: 0,
+      currency,
+      code: 'PKG-SAMPLE',
+      status: 'active',
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    },
+    options: {
+      reminderType: '24h',
+      reason: 'The studio is closed for maintenance that day',
+      oldStatus: 'pending_payment',
+      newStatus: 'confirmed',
+      claimUrl: 'https://example.com/waitlist/claim/sample',
+      offerExpiresAt: new Date(now.getTime() + 2 * 60 * 60 * 1000).toISOString(),
+      paymentUrl: 'https://example.com/pay/sample',
+      balanceCents: sampleService.price_cents - depositCents,
+    },
+  }
+}
+
+export default function EmailsScreen() {
+  const { user } = useAuth()
+  const [studio, setStudio] = useState<Studio | null>(null)
+  const [services, setServices] = useState<Service[]>([])
+  const [templates, setTemplates] = useState<StudioEmailTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [selectedType, setSelectedType] = useState<CustomEmailType>('booking-confirmation')
+  const [formData, setFormData] = useState<EmailTemplateForm>(EMPTY_FORM)
+  const [logoUrl, setLogoUrl] = useState('')
+  const [brandColor, setBrandColor] = useState('')
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+
+      const studioData = await bookingService.getStudioByOwner(user.id)
+      if (!studioData) {
+        Alert.alert('Error', 'Studio not found')
+        return
+      }
+
+      setStudio(studioData)
+      setLogoUrl(studioData.logo_url || '')
+      setBrandColor(studioData.brand_color || '')
+
+      const servicesData = await bookingService.getStudioServices(studioData.id)
+      setServices(servicesData)
+
+      const templatesData = await bookingService.getEmailTemplates(studioData.id)
+      setTemplates(templatesData)
+      selectType(selectedType, templatesData)
+    } catch (error: any) {
+      console.error('Error loading email templates:', error)
+      Alert.alert('Error', 'Failed to load email templates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectType = (type: CustomEmailType, studioTemplates: StudioEmailTemplate[] = templates) => {
+    const template = studioTemplates.find(existing => existing.type === type)
+    setSelectedType(type)
+    setFormData(template
+      ? {
+          subject: template.subject,
+          html_body: template.html_body,
+          text_body: template.text_body || '',
+          enabled: template.enabled,
+        }
+      : EMPTY_FORM)
+  }
+
+  // The studio as it will look once the branding being edited is saved
+  const previewStudio: Studio | null = studio
+    ? {
+        ...studio,
+        logo_url: logoUrl.trim() || undefined,
+        brand_color: isValidBrandColor(brandColor.trim()) ? brandColor.trim() : undefined,
+      }
+    : null
+  const sample = previewStudio ? getSampleData(previewStudio, services[0]) : null
+  const savedTemplate = templates.find(template => template.type === selectedType)
+  const editingTemplate = !!formData.subject.trim() || !!formData.html_body.trim()
+
+  const builtIn = sample ? emailService.previewEmail(selectedType, sample) : null
+  const variables = builtIn?.variables || {}
+  const preview = sample && editingTemplate && formData.enabled
+    ? emailService.previewEmail(selectedType, sample, formData)
+    : builtIn
+
+  const handleStartTemplate = () => {
+    setFormData(getStarterTemplate(selectedType, variables))
+  }
+
+  const handleSaveTemplate = async () => {
+    if (!studio) return
+
+    const problems = validateEmailTemplate(formData, variables)
+    if (problems.length > 0) {
+      Alert.alert('Check the Template', problems.join('\n'))
+      return
+    }
+
+    try {
+      setSaving(true)
+      await bookingService.saveEmailTemplate(studio.id, selectedType, formData)
+      setTemplates(await bookingService.getEmailTemplates(studio.id))
+      Alert.alert('Success', 'Email template saved')
+    } catch (error: any) {
+      console.error('Error saving email template:', error)
+      Alert.alert('Error', 'Failed to save email template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleResetTemplate = () => {
+    if (!studio || !savedTemplate) return
+
+    Alert.alert(
+      'Use Built-In Email',
+      'Your template for this email will be deleted and clients will get the built-in email.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await bookingService.deleteEmailTemplate(savedTemplate.id)
+              const templatesData = await bookingService.getEmailTemplates(studio.id)
+              setTemplates(templatesData)
+              selectType(selectedType, templatesData)
+            } catch (error: any) {
+              console.error('Error deleting email template:', error)
+              Alert.alert('Error', 'Failed to delete email template')
+            }
+          },
+        },
+      ]
+    )
+  }
+
+  const handleSaveBranding = async () => {
+    if (!studio) return
+
+    if (brandColor.trim() && !isValidBrandColor(brandColor.trim())) {
+      Alert.alert('Check the Branding', 'Brand color must be a hex color like #2081C3')
+      return
+    }
+
+    try {
+      const updated = await bookingService.updateStudio(studio.id, {
+        logo_url: logoUrl.trim(),
+        brand_color: brandColor.trim(),
+      })
+      setStudio(updated)
+      Alert.alert('Success', 'Branding saved')
+    } catch (error: any) {
+      console.error('Error saving branding:', error)
+      Alert.alert('Error', 'Failed to save branding')
+    }
+  }
+
+  const handleToggleSms = async (smsEnabled: boolean) => {
+    if (!studio) return
+
+    try {
+      setStudio(await bookingService.updateStudio(studio.id, { sms_enabled: smsEnabled }))
+    } catch (error: any) {
+      console.error('Error updating text messages:', error)
+      Alert.alert('Error', 'Failed to update text messages')
+    }
+  }
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading emails...</Text>
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Client Emails</Text>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Branding</Text>
+          <Text style={styles.helpText}>
+            Your logo and color go at the top of every email clients get.
+          </Text>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Logo URL</Text>
+            <TextInput
+              style={styles.input}
+              value={logoUrl}
+              onChangeText={setLogoUrl}
+              placeholder="https://yourstudio.com/logo.png"
+              autoCapitalize="none"
+              keyboardType="url"
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Brand Color</Text>
+            <View style={styles.colorRow}>
+              <TextInput
+                style={[styles.input, styles.colorInput]}
+                value={brandColor}
+                onChangeText={setBrandColor}
+                placeholder={DEFAULT_BRAND_COLOR}
+                autoCapitalize="none"
+              />
+              <View
+                style={[
+                  styles.colorSwatch,
+                  { backgroundColor: isValidBrandColor(brandColor.trim()) ? brandColor.trim() : DEFAULT_BRAND_COLOR },
+                ]}
+              />
+            </View>
+          </View>
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleSaveBranding}>
+            <Text style={styles.secondaryButtonText}>Save Branding</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Text Messages</Text>
+          <Text style={styles.helpText}>
+            Clients who give a phone number can ask to also get their confirmation, reminders,
+            reschedules and cancellations by text. Anyone who replies STOP gets no more texts.
+          </Text>
+
+          <View style={styles.switchRow}>
+            <Text style={styles.label}>Offer texts to clients</Text>
+            <Switch
+              value={!!studio?.sms_enabled}
+              onValueChange={handleToggleSms}
+              trackColor={{ false: '#e5e5e5', true: '#2081C3' }}
+              thumbColor={studio?.sms_enabled ? 'white' : '#f4f3f4'}
+            />
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Templates</Text>
+          <View style={styles.typeButtons}>
+            {CUSTOM_EMAIL_TYPES.map(({ type, label }) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.typeButton, selectedType === type && styles.typeButtonActive]}
+                onPress={() => selectType(type)}
+              >
+                <Text style={[styles.typeButtonText, selectedType === type && styles.typeButtonTextActive]}>
+                  {label}{templates.some(template => template.type === type && template.enabled) ? ' ✎' : ''}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.helpText}>
+            {CUSTOM_EMAIL_TYPES.find(custom => custom.type === selectedType)?.description}.{' '}
+            {savedTemplate?.enabled ? 'Clients get your template.' : 'Clients get the built-in email.'}
+          </Text>
+
+          {editingTemplate ? (
+            <>
+              <View style={styles.switchRow}>
+                <Text style={styles.label}>Use this template</Text>
+                <Switch
+                  value={formData.enabled}
+                  onValueChange={(enabled) => setFormData({...formData, enabled})}
+                  trackColor={{ false: '#e5e5e5', true: '#2081C3' }}
+                  thumbColor={formData.enabled ? 'white' : '#f4f3f4'}
+                />
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Subject *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.subject}
+                  onChangeText={(text) => setFormData({...formData, subject: text})}
+                  placeholder="Your session at {{studio.name}}"
+                />
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>HTML Body *</Text>
+                <TextInput
+                  style={[styles.input, styles.codeArea]}
+                  value={formData.html_body}
+                  onChangeText={(text) => setFormData({...formData, html_body: text})}
+                  multiline
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Plain Text Body</Text>
+                <TextInput
+                  style={[styles.input, styles.codeArea]}
+                  value={formData.text_body}
+                  onChangeText={(text) => setFormData({...formData, text_body: text})}
+                  placeholder="For email apps that don't show HTML"
+                  multiline
+                />
+              </View>
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                  onPress={handleSaveTemplate}
+                  disabled={saving}
+                >
+                  <Text style={styles.primaryButtonText}>{saving ? 'Saving...' : 'Save Template'}</Text>
+                </TouchableOpacity>
+                {!!savedTemplate && (
+                  <TouchableOpacity style={styles.secondaryButton} onPress={handleResetTemplate}>
+                    <Text style={styles.dangerButtonText}>Use Built-In</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </>
+          ) : (
+            <TouchableOpacity style={styles.primaryButton} onPress={handleStartTemplate}>
+              <Text style={styles.primaryButtonText}>Write Your Own Version</Text>
+            </TouchableOpacity>
+          )}
+
+          <Text style={styles.label}>Variables</Text>
+          <Text style={styles.helpText}>
+            Filled in for each client when the email is sent. Anything else in double braces comes out empty.
+          </Text>
+          <View style={styles.variableList}>
+            {getVariableNames(variables).map((name) => (
+              <Text key={name} style={styles.variableText}>{`{{${name}}}`}</Text>
+            ))}
+          </View>
+        </View>
+
+        {!!preview && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Preview {editingTemplate && formData.enabled ? '(your template)' : '(built-in email)'}
+            </Text>
+            <Text style={styles.helpText}>With a made-up booking for {sample?.emailData.service.name}</Text>
+            <Text style={styles.previewSubject}>{preview.template.subject}</Text>
+            {Platform.OS === 'web' ? (
+              <iframe
+                srcDoc={preview.template.htmlBody}
+                sandbox=""
+                title="Email preview"
+                style={{ width: '100%', height: 600, border: '1px solid #e5e5e5', borderRadius: 8, backgroundColor: 'white' }}
+              />
+            ) : (
+              <Text style={styles.previewText}>{preview.template.textBody.trim()}</Text>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e5',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  content: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  section: {
+    backgroundColor: 'white',
+    margin: 20,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: 'white',
+  },
+  codeArea: {
+    height: 200,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    textAlignVertical: 'top',
+  },
+  colorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  colorInput: {
+    flex: 1,
+  },
+  colorSwatch: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  typeButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  typeButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+  },
+  typeButtonActive: {
+    backgroundColor: '#2081C3',
+    borderColor: '#2081C3',
+  },
+  typeButtonText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  typeButtonTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: '#2081C3',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: '#f3f4f6',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2081C3',
+  },
+  dangerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  variableList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  variableText: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: '#1a1a1a',
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  previewSubject: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+    lineHeight: 20,
+  },
+})
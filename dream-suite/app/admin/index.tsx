@@ -14,6 +14,7 @@ import { useRouter } from 'expo-router'
 import { useAuth } from '../../hooks/useAuth'
 import { bookingService } from '../../lib/supabase-booking'
 import { Studio, Booking, StudioAnalytics } from '../../types/booking'
+import { formatMoney, getStudioCurrency } from '../../utils/charges'
 
 const { width } = Dimensions.get('window')
 
@@ -84,8 +85,8 @@ export default function AdminDashboardScreen() {
     setRefreshing(false)
   }
 
-  const formatCurrency = (cents: number) => {
-    return `$${(cents / 100).toFixed(2)}`
+  const formatCurrency = (cents: number, currency: string = getStudioCurrency(studio)) => {
+    return formatMoney(cents, currency)
   }
 
   const formatDate = (dateString: string) => {
@@ -164,7 +165,7 @@ export default function AdminDashboardScreen() {
               </View>
               <View style={styles.analyticsCard}>
                 <Text style={styles.analyticsNumber}>
-                  {formatCurrency(analytics.revenue_this_month_cents)}
+                  {formatCurrency(analytics.revenue_this_month_cents, analytics.currency)}
                 </Text>
                 <Text style={styles.analyticsLabel}>Revenue</Text>
               </View>
@@ -179,11 +180,28 @@ export default function AdminDashboardScreen() {
               </View>
               <View style={styles.analyticsCard}>
                 <Text style={styles.analyticsNumber}>
-                  {formatCurrency(analytics.total_revenue_cents)}
+                  {formatCurrency(analytics.total_revenue_cents, analytics.currency)}
                 </Text>
                 <Text style={styles.analyticsLabel}>All Time Revenue</Text>
               </View>
             </View>
+
+            {(analytics.tax_collected_cents > 0 || analytics.fees_collected_cents > 0) && (
+              <View style={styles.analyticsGrid}>
+                <View style={styles.analyticsCard}>
+                  <Text style={styles.analyticsNumber}>
+                    {formatCurrency(analytics.tax_collected_cents, analytics.currency)}
+                  </Text>
+                  <Text style={styles.analyticsLabel}>Tax Collected</Text>
+                </View>
+                <View style={styles.analyticsCard}>
+                  <Text style={styles.analyticsNumber}>
+                    {formatCurrency(analytics.fees_collected_cents, analytics.currency)}
+                  </Text>
+                  <Text style={styles.analyticsLabel}>Fees Collected</Text>
+                </View>
+              </View>
+            )}
           </View>
         )}
 
@@ -220,7 +238,7 @@ export default function AdminDashboardScreen() {
                     {formatDate(booking.start_time)}
                   </Text>
                   <Text style={styles.bookingPrice}>
-                    {formatCurrency(booking.total_price_cents)}
+                    {formatCurrency(booking.total_price_cents, booking.currency)}
                   </Text>
                 </TouchableOpacity>
               ))}
@@ -0,0 +1,699 @@
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  TextInput,
+  Switch,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { useAuth } from '../../hooks/useAuth'
+import { bookingService } from '../../lib/supabase-booking'
+import { Studio, Service, ServicePackage, PackageBalance, CreatePackageForm } from '../../types/booking'
+import { formatMoney, fromMinorUnits, getStudioCurrency, toMinorUnits } from '../../utils/charges'
+import { formatCredits, getPackageCredits, validatePackageForm } from '../../utils/packages'
+import { formatDateInTimeZone, getStudioTimeZone } from '../../utils/timezone'
+
+const CATEGORIES: Service['category'][] = ['recording', 'mixing', 'mastering', 'consultation', 'other']
+
+const EMPTY_FORM: CreatePackageForm = {
+  name: '',
+  description: '',
+  credit_type: 'hours',
+  credit_amount: '',
+  price: '',
+  categories: [],
+  valid_days: '',
+}
+
+export default function PackagesScreen() {
+  const { user } = useAuth()
+  const [studio, setStudio] = useState<Studio | null>(null)
+  const [packages, setPackages] = useState<ServicePackage[]>([])
+  const [balances, setBalances] = useState<PackageBalance[]>([])
+  const [loading, setLoading] = useState(true)
+  const [modalVisible, setModalVisible] = useState(false)
+  const [editingPackage, setEditingPackage] = useState<ServicePackage | null>(null)
+  const [formData, setFormData] = useState<CreatePackageForm>(EMPTY_FORM)
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+
+      const studioData = await bookingService.getStudioByOwner(user.id)
+      if (!studioData) {
+        Alert.alert('Error', 'Studio not found')
+        return
+      }
+
+      setStudio(studioData)
+      const packagesData = await bookingService.getStudioPackages(studioData.id)
+      setPackages(packagesData)
+
+      const balancesData = await bookingService.getStudioPackageBalances(studioData.id)
+      setBalances(balancesData)
+    } catch (error: any) {
+      console.error('Error loading packages:', error)
+      Alert.alert('Error', 'Failed to load packages')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreateModal = () => {
+    setEditingPackage(null)
+    setFormData(EMPTY_FORM)
+    setModalVisible(true)
+  }
+
+  // Changes only apply to future purchases; what clients bought keeps its terms
+  const openEditModal = (pkg: ServicePackage) => {
+    setEditingPackage(pkg)
+    setFormData({
+      name: pkg.name,
+      description: pkg.description || '',
+      credit_type: pkg.credit_type,
+      credit_amount: pkg.credit_amount.toString(),
+      price: fromMinorUnits(pkg.price_cents, getStudioCurrency(studio)).toString(),
+      categories: pkg.categories,
+      valid_days: pkg.valid_days?.toString() || '',
+    })
+    setModalVisible(true)
+  }
+
+  const handleSavePackage = async () => {
+    if (!studio) return
+
+    const problems = validatePackageForm(formData)
+    if (problems.length > 0) {
+      Alert.alert('Check the Package', problems.join('\n'))
+      return
+    }
+
+    try {
+      const packageData = {
+        name: formData.name.trim(),
+        description: formData.description.trim(),
+        credit_type: formData.credit_type,
+        credit_amount: Number(formData.credit_amount),
+        price_cents: toMinorUnits(Number(formData.price), getStudioCurrency(studio)),
+        categories: formData.categories,
+        valid_days: formData.valid_days.trim() ? Number(formData.valid_days) : null,
+      }
+
+      if (editingPackage) {
+        await bookingService.updatePackage(editingPackage.id, packageData)
+      } else {
+        await bookingService.createPackage(studio.id, packageData)
+      }
+
+      setModalVisible(false)
+      await loadData()
+
+      Alert.alert(
+        'Success',
+        `Package ${editingPackage ? 'updated' : 'created'} successfully!`
+      )
+    } catch (error: any) {
+      console.error('Error saving package:', error)
+      Alert.alert('Error', 'Failed to save package')
+    }
+  }
+
+  // Packages are never deleted, since clients may still hold credits on them;
+  // turning one off takes it off the booking page
+  const handleToggleActive = async (pkg: ServicePackage) => {
+    try {
+      await bookingService.updatePackage(pkg.id, {
+        active: !pkg.active
+      })
+      await loadData()
+    } catch (error: any) {
+      console.error('Error toggling package:', error)
+      Alert.alert('Error', 'Failed to update package')
+    }
+  }
+
+  const toggleCategory = (category: Service['category']) => {
+    setFormData({
+      ...formData,
+      categories: formData.categories.includes(category)
+        ? formData.categories.filter(selected => selected !== category)
+        : [...formData.categories, category]
+    })
+  }
+
+  const formatCurrency = (cents: number, currency: string = getStudioCurrency(studio)) => {
+    return formatMoney(cents, currency)
+  }
+
+  const formatDate = (dateString: string) => {
+    return formatDateInTimeZone(dateString, getStudioTimeZone(studio))
+  }
+
+  const isExpired = (balance: PackageBalance) => {
+    return !!balance.expires_at && new Date(balance.expires_at).getTime() <= Date.now()
+  }
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading packages...</Text>
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Packages</Text>
+        <TouchableOpacity style={styles.addButton} onPress={openCreateModal}>
+          <Text style={styles.addButtonText}>+ Add Package</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {packages.length > 0 ? (
+          <View style={styles.packagesList}>
+            {packages.map((pkg) => (
+              <View key={pkg.id} style={styles.packageCard}>
+                <View style={styles.packageHeader}>
+                  <View style={styles.packageInfo}>
+                    <Text style={styles.packageName}>{pkg.name}</Text>
+                    <Text style={styles.packageTerms}>
+                      {formatCredits(pkg.credit_type, getPackageCredits(pkg))} •{' '}
+                      {pkg.categories.length > 0 ? pkg.categories.join(', ') : 'any service'}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={pkg.active}
+                    onValueChange={() => handleToggleActive(pkg)}
+                    trackColor={{ false: '#e5e5e5', true: '#2081C3' }}
+                    thumbColor={pkg.active ? 'white' : '#f4f3f4'}
+                  />
+                </View>
+
+                {!!pkg.description && (
+                  <Text style={styles.packageDescription}>
+                    {pkg.description}
+                  </Text>
+                )}
+
+                <Text style={styles.packagePrice}>
+                  {formatCurrency(pkg.price_cents)}
+                </Text>
+                <Text style={styles.packageExpiry}>
+                  {pkg.valid_days ? `Expires ${pkg.valid_days} days after purchase` : 'Never expires'}
+                </Text>
+
+                <TouchableOpacity
+                  style={styles.editButton}
+                  onPress={() => openEditModal(pkg)}
+                >
+                  <Text style={styles.editButtonText}>Edit</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        ) : (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyStateTitle}>No Packages Yet</Text>
+            <Text style={styles.emptyStateText}>
+              Sell hours or sessions up front. Clients book them later with the code they're emailed.
+            </Text>
+            <TouchableOpacity style={styles.emptyStateButton} onPress={openCreateModal}>
+              <Text style={styles.emptyStateButtonText}>Create First Package</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* What each client has left on the packages they bought */}
+        <View style={styles.balancesSection}>
+          <Text style={styles.sectionTitle}>Client Balances</Text>
+          {balances.length > 0 ? (
+            balances.map((balance) => (
+              <View key={balance.id} style={[styles.balanceCard, isExpired(balance) && styles.balanceCardExpired]}>
+                <View style={styles.balanceHeader}>
+                  <View style={styles.packageInfo}>
+                    <Text style={styles.balanceClient}>{balance.client_name}</Text>
+                    <Text style={styles.balanceEmail}>{balance.client_email}</Text>
+                  </View>
+                  <Text style={styles.balanceRemaining}>
+                    {formatCredits(balance.credit_type, balance.credits_remaining)} left
+                  </Text>
+                </View>
+                <Text style={styles.balanceDetail}>
+                  {balance.package_name} • {balance.code} • used{' '}
+                  {formatCredits(balance.credit_type, balance.credits_used)} of{' '}
+                  {formatCredits(balance.credit_type, balance.credits_total)}
+                </Text>
+                <Text style={styles.balanceDetail}>
+                  {balance.purchased_at ? `Bought ${formatDate(balance.purchased_at)}` : ''}
+                  {balance.expires_at
+                    ? ` • ${isExpired(balance) ? 'Expired' : 'Expires'} ${formatDate(balance.expires_at)}`
+                    : ''}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.emptyBalancesText}>No packages have been bought yet</Text>
+          )}
+        </View>
+      </ScrollView>
+
+      {/* Package Form Modal */}
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setModalVisible(false)}>
+              <Text style={styles.modalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>
+              {editingPackage ? 'Edit Package' : 'New Package'}
+            </Text>
+            <TouchableOpacity onPress={handleSavePackage}>
+              <Text style={styles.modalSaveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Package Name *</Text>
+              <TextInput
+                style={styles.input}
+                value={formData.name}
+                onChangeText={(text) => setFormData({...formData, name: text})}
+                placeholder="e.g., 10 Hour Recording Block"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Description</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={formData.description}
+                onChangeText={(text) => setFormData({...formData, description: text})}
+                placeholder="Describe the package..."
+                multiline
+                numberOfLines={3}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Credits</Text>
+              <View style={styles.categoryButtons}>
+                {(['hours', 'sessions'] as const).map((creditType) => (
+                  <TouchableOpacity
+                    key={creditType}
+                    style={[
+                      styles.categoryButton,
+                      formData.credit_type === creditType && styles.categoryButtonActive
+                    ]}
+                    onPress={() => setFormData({...formData, credit_type: creditType})}
+                  >
+                    <Text style={[
+                      styles.categoryButtonText,
+                      formData.credit_type === creditType && styles.categoryButtonTextActive
+                    ]}>
+                      {creditType === 'hours' ? 'Hours' : 'Sessions'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.helpText}>
+                {formData.credit_type === 'hours'
+                  ? 'Each booking uses its length in hours.'
+                  : 'Each booking uses one session, whatever its length.'}
+              </Text>
+            </View>
+
+            <View style={styles.formRow}>
+              <View style={styles.formGroupHalf}>
+                <Text style={styles.label}>{formData.credit_type === 'hours' ? 'Hours' : 'Sessions'} *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.credit_amount}
+                  onChangeText={(text) => setFormData({...formData, credit_amount: text})}
+                  placeholder="10"
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <View style={styles.formGroupHalf}>
+                <Text style={styles.label}>Price ({getStudioCurrency(studio).toUpperCase()}) *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.price}
+                  onChangeText={(text) => setFormData({...formData, price: text})}
+                  placeholder="450.00"
+                  keyboardType="numeric"
+                />
+              </View>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Days Valid</Text>
+              <TextInput
+                style={styles.input}
+                value={formData.valid_days}
+                onChangeText={(text) => setFormData({...formData, valid_days: text})}
+                placeholder="Leave empty to never expire"
+                keyboardType="numeric"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Can Be Used For</Text>
+              <Text style={styles.helpText}>
+                Leave all unselected to allow any service.
+              </Text>
+              <View style={styles.categoryButtons}>
+                {CATEGORIES.map((category) => (
+                  <TouchableOpacity
+                    key={category}
+                    style={[
+                      styles.categoryButton,
+                      formData.categories.includes(category) && styles.categoryButtonActive
+                    ]}
+                    onPress={() => toggleCategory(category)}
+                  >
+                    <Text style={[
+                      styles.categoryButtonText,
+                      formData.categories.includes(category) && styles.categoryButtonTextActive
+                    ]}>
+                      {category.charAt(0).toUpperCase() + category.slice(1)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e5',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  addButton: {
+    backgroundColor: '#2081C3',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  packagesList: {
+    padding: 20,
+    gap: 16,
+  },
+  packageCard: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  packageHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  packageInfo: {
+    flex: 1,
+    paddingRight: 12,
+  },
+  packageName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  packageTerms: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  packageDescription: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  packagePrice: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#10b981',
+    marginBottom: 4,
+  },
+  packageExpiry: {
+    fontSize: 12,
+    color: '#f59e0b',
+    fontWeight: '500',
+    marginBottom: 16,
+  },
+  editButton: {
+    backgroundColor: '#f3f4f6',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  editButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2081C3',
+  },
+  emptyState: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    paddingVertical: 40,
+  },
+  emptyStateTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 32,
+  },
+  emptyStateButton: {
+    backgroundColor: '#2081C3',
+    paddingHorizontal: 32,
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  emptyStateButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  balancesSection: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  balanceCard: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+  },
+  balanceCardExpired: {
+    opacity: 0.6,
+  },
+  balanceHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  balanceClient: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  balanceEmail: {
+    fontSize: 14,
+    color: '#666',
+  },
+  balanceRemaining: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#10b981',
+  },
+  balanceDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  emptyBalancesText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e5',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    color: '#ef4444',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  modalSaveText: {
+    fontSize: 16,
+    color: '#2081C3',
+    fontWeight: '600',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  formGroupHalf: {
+    flex: 1,
+  },
+  formRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: 'white',
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  categoryButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  categoryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+  },
+  categoryButtonActive: {
+    backgroundColor: '#2081C3',
+    borderColor: '#2081C3',
+  },
+  categoryButtonText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  categoryButtonTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+})
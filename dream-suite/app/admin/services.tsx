@@ -13,12 +13,14 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { useAuth } from '../../hooks/useAuth'
 import { bookingService } from '../../lib/supabase-booking'
-import { Studio, Service, CreateServiceForm } from '../../types/booking'
+import { Studio, Service, Resource, CreateServiceForm } from '../../types/booking'
+import { formatMoney, fromMinorUnits, getStudioCurrency, toMinorUnits } from '../../utils/charges'
 
 export default function ServicesScreen() {
   const { user } = useAuth()
   const [studio, setStudio] = useState<Studio | null>(null)
   const [services, setServices] = useState<Service[]>([])
+  const [resources, setResources] = useState<Resource[]>([])
   const [loading, setLoading] = useState(true)
   const [modalVisible, setModalVisible] = useState(false)
   const [editingService, setEditingService] = useState<Service | null>(null)
@@ -32,6 +34,9 @@ export default function ServicesScreen() {
     deposit_percentage: 50,
     max_advance_booking_days: 30,
     min_advance_booking_hours: 24,
+    buffer_before: 0,
+    buffer_after: 15,
+    resource_ids: [],
   })
 
   useEffect(() => {
@@ -55,6 +60,9 @@ export default function ServicesScreen() {
       setStudio(studioData)
       const servicesData = await bookingService.getStudioServices(studioData.id, false)
       setServices(servicesData)
+
+      const resourcesData = await bookingService.getStudioResources(studioData.id)
+      setResources(resourcesData)
     } catch (error: any) {
       console.error('Error loading services:', error)
       Alert.alert('Error', 'Failed to load services')
@@ -75,6 +83,9 @@ export default function ServicesScreen() {
       deposit_percentage: 50,
       max_advance_booking_days: 30,
       min_advance_booking_hours: 24,
+      buffer_before: 0,
+      buffer_after: 15,
+      resource_ids: [],
     })
     setModalVisible(true)
   }
@@ -85,12 +96,15 @@ export default function ServicesScreen() {
       name: service.name,
       description: service.description || '',
       duration_minutes: service.duration_minutes,
-      price: service.price_cents / 100,
+      price: fromMinorUnits(service.price_cents, getStudioCurrency(studio)),
       category: service.category,
       requires_deposit: service.requires_deposit,
       deposit_percentage: service.deposit_percentage || 50,
       max_advance_booking_days: service.max_advance_booking_days || 30,
-      min_advance_booking_hours: service.min_advance_booking_hours || 24,
+      min_advance_booking_hours: service.min_advance_booking_hours ?? 24,
+      buffer_before: service.buffer_before || 0,
+      buffer_after: service.buffer_after || 0,
+      resource_ids: (service.resources || []).map(resource => resource.id),
     })
     setModalVisible(true)
   }
@@ -99,17 +113,18 @@ export default function ServicesScreen() {
     if (!studio) return
 
     try {
+      const { price, resource_ids, ...serviceFields } = formData
       const serviceData = {
-        ...formData,
-        price_cents: Math.round(formData.price * 100),
+        ...serviceFields,
+        price_cents: toMinorUnits(price, getStudioCurrency(studio)),
         studio_id: studio.id,
       }
 
-      if (editingService) {
-        await bookingService.updateService(editingService.id, serviceData)
-      } else {
-        await bookingService.createService(serviceData)
-      }
+      const savedService = editingService
+        ? await bookingService.updateService(editingService.id, serviceData)
+        : await bookingService.createService(serviceData)
+
+      await bookingService.setServiceResources(savedService.id, resource_ids)
 
       setModalVisible(false)
       await loadData()
@@ -160,8 +175,8 @@ export default function ServicesScreen() {
     )
   }
 
-  const formatCurrency = (cents: number) => {
-    return `$${(cents / 100).toFixed(2)}`
+  const formatCurrency = (cents: number, currency: string = getStudioCurrency(studio)) => {
+    return formatMoney(cents, currency)
   }
 
   const formatDuration = (minutes: number) => {
@@ -320,7 +335,7 @@ export default function ServicesScreen() {
               </View>
 
               <View style={styles.formGroupHalf}>
-                <Text style={styles.label}>Price ($) *</Text>
+                <Text style={styles.label}>Price ({getStudioCurrency(studio).toUpperCase()}) *</Text>
                 <TextInput
                   style={styles.input}
                   value={formData.price.toString()}
@@ -334,6 +349,104 @@ export default function ServicesScreen() {
               </View>
             </View>
 
+            <View style={styles.formRow}>
+              <View style={styles.formGroupHalf}>
+                <Text style={styles.label}>Prep Before (minutes)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.buffer_before.toString()}
+                  onChangeText={(text) => setFormData({
+                    ...formData, 
+                    buffer_before: parseInt(text) || 0
+                  })}
+                  placeholder="0"
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <View style={styles.formGroupHalf}>
+                <Text style={styles.label}>Teardown After (minutes)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.buffer_after.toString()}
+                  onChangeText={(text) => setFormData({
+                    ...formData, 
+                    buffer_after: parseInt(text) || 0
+                  })}
+                  placeholder="15"
+                  keyboardType="numeric"
+                />
+              </View>
+            </View>
+
+            <View style={styles.formRow}>
+              <View style={styles.formGroupHalf}>
+                <Text style={styles.label}>Min Notice (hours)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.min_advance_booking_hours?.toString() || '0'}
+                  onChangeText={(text) => setFormData({
+                    ...formData, 
+                    min_advance_booking_hours: parseInt(text) || 0
+                  })}
+                  placeholder="24"
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <View style={styles.formGroupHalf}>
+                <Text style={styles.label}>Book Up To (days ahead)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.max_advance_booking_days?.toString() || ''}
+                  onChangeText={(text) => setFormData({
+                    ...formData, 
+                    max_advance_booking_days: parseInt(text) || undefined
+                  })}
+                  placeholder="30"
+                  keyboardType="numeric"
+                />
+              </View>
+            </View>
+
+            {resources.length > 0 && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Rooms, Engineers & Gear</Text>
+                <Text style={styles.helpText}>
+                  Each booking gets one free resource of every type you select. Leave empty to
+                  book the whole studio.
+                </Text>
+                <View style={styles.categoryButtons}>
+                  {resources.map((resource) => {
+                    const selected = formData.resource_ids.includes(resource.id)
+
+                    return (
+                      <TouchableOpacity
+                        key={resource.id}
+                        style={[
+                          styles.categoryButton,
+                          selected && { backgroundColor: resource.color, borderColor: resource.color }
+                        ]}
+                        onPress={() => setFormData({
+                          ...formData,
+                          resource_ids: selected
+                            ? formData.resource_ids.filter(id => id !== resource.id)
+                            : [...formData.resource_ids, resource.id]
+                        })}
+                      >
+                        <Text style={[
+                          styles.categoryButtonText,
+                          selected && styles.categoryButtonTextActive
+                        ]}>
+                          {resource.name}
+                        </Text>
+                      </TouchableOpacity>
+                    )
+                  })}
+                </View>
+              </View>
+            )}
+
             <View style={styles.formGroup}>
               <Text style={styles.label}>Category</Text>
               <View style={styles.categoryButtons}>
@@ -622,6 +735,11 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  helpText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
   categoryButtons: {
     flexDirection: 'row',
     flexWrap: 'wrap',
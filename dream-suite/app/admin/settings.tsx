@@ -0,0 +1,1374 @@
+import React, { useEffect, useState } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  TextInput,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { useAuth } from '../../hooks/useAuth'
+import { bookingService } from '../../lib/supabase-booking'
+import { stripeBookingService } from '../../lib/stripe-booking'
+import {
+  ConnectStatus,
+  CreatePromoCodeForm,
+  PromoCode,
+  Service,
+  Studio,
+  StudioAvailability,
+  StudioBlockedTime,
+  CreateBlockedTimeForm,
+  Resource,
+  CreateResourceForm,
+} from '../../types/booking'
+import { crossesMidnight, isValidTimeOfDay, validateAvailabilityWindows } from '../../utils/availability'
+import {
+  fromMinorUnits,
+  getCurrencyForCountry,
+  getStudioCurrency,
+  toMinorUnits,
+  validateStudioCharges,
+} from '../../utils/charges'
+import {
+  BALANCE_DUE_HOURS_BEFORE_SESSION,
+  DEFAULT_CANCELLATION_POLICY,
+  validateCancellationPolicy,
+} from '../../utils/payments'
+import { describePromoDiscount, normalizePromoCode, validatePromoCodeForm } from '../../utils/promo-codes'
+import {
+  getDeviceTimeZone,
+  getStudioTimeZone,
+  isValidTimeZone,
+  toCalendarDate,
+  zonedDateTimeToUtc,
+} from '../../utils/timezone'
+
+interface HoursWindow {
+  key: string
+  day_of_week: StudioAvailability['day_of_week']
+  start_time: string
+  end_time: string
+}
+
+const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+let windowKeyCounter = 0
+const nextWindowKey = () => `window-${windowKeyCounter++}`
+
+const resourceTypeLabels: Record<Resource['type'], string> = {
+  room: 'Room',
+  engineer: 'Engineer',
+  gear: 'Gear',
+}
+
+const resourceColors = ['#2081C3', '#10b981', '#f59e0b', '#ef4444', '#9333ea', '#ec4899', '#14b8a6', '#6b7280']
+
+const emptyResourceForm: CreateResourceForm = {
+  name: '',
+  type: 'room',
+  color: resourceColors[0],
+}
+
+const emptyPromoCodeForm: CreatePromoCodeForm = {
+  code: '',
+  discount_type: 'percent',
+  discount_value: '',
+  expires_at: '',
+  max_uses: '',
+  service_ids: [],
+}
+
+const emptyBlockedTimeForm: CreateBlockedTimeForm = {
+  start_time: '',
+  end_time: '',
+  reason: '',
+  recurring: false,
+  recurrence_end: '',
+}
+
+// Parse "YYYY-MM-DD HH:MM" entered by the studio as a date and time in the studio's zone
+const parseDateTimeInput = (value: string, timeZone: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})$/)
+  if (!match) return null
+
+  const [, year, month, day, hours, minutes] = match.map(Number)
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59) return null
+
+  const date = zonedDateTimeToUtc(toCalendarDate(year, month, day), hours * 60 + minutes, timeZone)
+  return isNaN(date.getTime()) ? null : date
+}
+
+export default function StudioSettingsScreen() {
+  const { user } = useAuth()
+  const [studio, setStudio] = useState<Studio | null>(null)
+  const [windows, setWindows] = useState<HoursWindow[]>([])
+  const [blockedTimes, setBlockedTimes] = useState<StudioBlockedTime[]>([])
+  const [blockedTimeForm, setBlockedTimeForm] = useState<CreateBlockedTimeForm>(emptyBlockedTimeForm)
+  const [resources, setResources] = useState<Resource[]>([])
+  const [resourceForm, setResourceForm] = useState<CreateResourceForm>(emptyResourceForm)
+  const [timeZone, setTimeZone] = useState('')
+  const [slotInterval, setSlotInterval] = useState<Studio['slot_interval_minutes']>(30)
+  const [balanceTiming, setBalanceTiming] = useState<Studio['balance_due_timing']>('before_session')
+  const [fullRefundHours, setFullRefundHours] = useState('')
+  const [partialRefundHours, setPartialRefundHours] = useState('')
+  const [partialRefundPercentage, setPartialRefundPercentage] = useState('')
+  const [country, setCountry] = useState('US')
+  const [taxLabel, setTaxLabel] = useState('')
+  const [taxRate, setTaxRate] = useState('')
+  const [bookingFee, setBookingFee] = useState('')
+  const [processingFee, setProcessingFee] = useState('')
+  const [services, setServices] = useState<Service[]>([])
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([])
+  const [promoCodeUsage, setPromoCodeUsage] = useState<Record<string, number>>({})
+  const [promoCodeForm, setPromoCodeForm] = useState<CreatePromoCodeForm>(emptyPromoCodeForm)
+  const [connectStatus, setConnectStatus] = useState<ConnectStatus | null>(null)
+  const [startingPayouts, setStartingPayouts] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  const loadData = async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+
+      const studioData = await bookingService.getStudioByOwner(user.id)
+      if (!studioData) {
+        Alert.alert('Error', 'Studio not found')
+        return
+      }
+
+      setStudio(studioData)
+      setTimeZone(studioData.timezone || getDeviceTimeZone())
+      setSlotInterval(studioData.slot_interval_minutes || 30)
+      setBalanceTiming(studioData.balance_due_timing || 'before_session')
+      setFullRefundHours(String(
+        studioData.cancellation_full_refund_hours ?? DEFAULT_CANCELLATION_POLICY.cancellation_full_refund_hours
+      ))
+      setPartialRefundHours(String(
+        studioData.cancellation_partial_refund_hours ?? DEFAULT_CANCELLATION_POLICY.cancellation_partial_refund_hours
+      ))
+      setPartialRefundPercentage(String(
+        studioData.cancellation_partial_refund_percentage ?? DEFAULT_CANCELLATION_POLICY.cancellation_partial_refund_percentage
+      ))
+      const studioCountry = studioData.country || 'US'
+      setCountry(studioCountry)
+      setTaxLabel(studioData.tax_label || 'Sales tax')
+      setTaxRate(String(Number(studioData.tax_rate_percent || 0)))
+      setBookingFee(String(fromMinorUnits(studioData.booking_fee_cents || 0, getCurrencyForCountry(studioCountry))))
+      setProcessingFee(String(Number(studioData.processing_fee_percent || 0)))
+
+      const availability = await bookingService.getStudioAvailability(studioData.id)
+      setWindows(availability.map(avail => ({
+        key: nextWindowKey(),
+        day_of_week: avail.day_of_week,
+        start_time: avail.start_time.slice(0, 5),
+        end_time: avail.end_time.slice(0, 5),
+      })))
+
+      const blockedTimesData = await bookingService.getStudioBlockedTimes(studioData.id)
+      setBlockedTimes(blockedTimesData)
+
+      const resourcesData = await bookingService.getStudioResources(studioData.id)
+      setResources(resourcesData)
+
+      const [servicesData, promoCodesData, usageData] = await Promise.all([
+        bookingService.getStudioServices(studioData.id),
+        bookingService.getStudioPromoCodes(studioData.id),
+        bookingService.getPromoCodeUsage(studioData.id),
+      ])
+      setServices(servicesData)
+      setPromoCodes(promoCodesData)
+      setPromoCodeUsage(usageData)
+
+      // Also picks up the result of onboarding when Stripe sends the owner back here
+      if (studioData.stripe_account_id) {
+        setConnectStatus(await stripeBookingService.getConnectStatus())
+      }
+    } catch (error: any) {
+      console.error('Error loading studio settings:', error)
+      Alert.alert('Error', 'Failed to load studio settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSetUpPayouts = async () => {
+    setStartingPayouts(true)
+    const result = await stripeBookingService.startConnectOnboarding()
+    setStartingPayouts(false)
+
+    if (!result.success || !result.url) {
+      Alert.alert('Error', result.error || 'Failed to start payout setup')
+      return
+    }
+
+    await stripeBookingService.openPaymentUrl(result.url)
+  }
+
+  const addWindow = (dayOfWeek: StudioAvailability['day_of_week']) => {
+    setWindows([
+      ...windows,
+      { key: nextWindowKey(), day_of_week: dayOfWeek, start_time: '10:00', end_time: '18:00' }
+    ])
+  }
+
+  const updateWindow = (key: string, updates: Partial<HoursWindow>) => {
+    setWindows(windows.map(window => window.key === key ? { ...window, ...updates } : window))
+  }
+
+  const removeWindow = (key: string) => {
+    setWindows(windows.filter(window => window.key !== key))
+  }
+
+  const handleSaveHours = async () => {
+    if (!studio) return
+
+    const zone = timeZone.trim()
+    if (!isValidTimeZone(zone)) {
+      Alert.alert('Check your time zone', 'Use an IANA time zone name such as America/New_York')
+      return
+    }
+
+    const availability = windows.map(window => ({
+      day_of_week: window.day_of_week,
+      start_time: window.start_time.trim(),
+      end_time: window.end_time.trim(),
+      active: true,
+    }))
+
+    const problems = validateAvailabilityWindows(availability)
+    if (problems.length > 0) {
+      Alert.alert('Check your hours', problems.join('\n'))
+      return
+    }
+
+    const cancellationPolicy = {
+      cancellation_full_refund_hours: parseInt(fullRefundHours, 10),
+      cancellation_partial_refund_hours: parseInt(partialRefundHours, 10),
+      cancellation_partial_refund_percentage: parseInt(partialRefundPercentage, 10),
+    }
+
+    const policyProblems = validateCancellationPolicy(cancellationPolicy)
+    if (policyProblems.length > 0) {
+      Alert.alert('Check your cancellation policy', policyProblems.join('\n'))
+      return
+    }
+
+    // Fees are entered in the currency of the country chosen
+    const studioCountry = country.trim().toUpperCase()
+    const currency = getCurrencyForCountry(studioCountry)
+    const charges = {
+      country: studioCountry,
+      tax_rate_percent: Number(taxRate || 0),
+      booking_fee_cents: toMinorUnits(Number(bookingFee || 0), currency),
+      processing_fee_percent: Number(processingFee || 0),
+    }
+
+    const chargeProblems = validateStudioCharges(charges)
+    if (chargeProblems.length > 0) {
+      Alert.alert('Check your taxes and fees', chargeProblems.join('\n'))
+      return
+    }
+
+    try {
+      setSaving(true)
+      await bookingService.updateStudioAvailability(studio.id, availability)
+      if (
+        zone !== studio.timezone ||
+        charges.country !== studio.country ||
+        taxLabel.trim() !== studio.tax_label ||
+        charges.tax_rate_percent !== Number(studio.tax_rate_percent) ||
+        charges.booking_fee_cents !== studio.booking_fee_cents ||
+        charges.processing_fee_percent !== Number(studio.processing_fee_percent) ||
+        slotInterval !== studio.slot_interval_minutes ||
+        balanceTiming !== studio.balance_due_timing ||
+        cancellationPolicy.cancellation_full_refund_hours !== studio.cancellation_full_refund_hours ||
+        cancellationPolicy.cancellation_partial_refund_hours !== studio.cancellation_partial_refund_hours ||
+        cancellationPolicy.cancellation_partial_refund_percentage !== studio.cancellation_partial_refund_percentage
+      ) {
+        setStudio(await bookingService.updateStudio(studio.id, {
+          timezone: zone,
+          slot_interval_minutes: slotInterval,
+          balance_due_timing: balanceTiming,
+          ...cancellationPolicy,
+          ...charges,
+          currency,
+          tax_label: taxLabel.trim() || 'Sales tax',
+        }))
+      }
+      Alert.alert('Success', 'Studio settings updated successfully!')
+    } catch (error: any) {
+      console.error('Error saving studio hours:', error)
+      Alert.alert('Error', 'Failed to save studio settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddResource = async () => {
+    if (!studio) return
+
+    if (!resourceForm.name.trim()) {
+      Alert.alert('Error', 'Enter a name for the room, engineer or gear package')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const resource = await bookingService.createResource(studio.id, {
+        ...resourceForm,
+        name: resourceForm.name.trim(),
+      })
+
+      setResources([...resources, resource])
+      setResourceForm({
+        ...emptyResourceForm,
+        color: resourceColors[(resources.length + 1) % resourceColors.length],
+      })
+    } catch (error: any) {
+      console.error('Error adding resource:', error)
+      Alert.alert('Error', 'Failed to add resource')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemoveResource = (resource: Resource) => {
+    Alert.alert(
+      'Remove Resource',
+      `${resource.name} will no longer be booked. Existing bookings keep it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              // Deactivate rather than delete so past bookings still show it
+              await bookingService.updateResource(resource.id, { active: false })
+              setResources(resources.filter(r => r.id !== resource.id))
+            } catch (error: any) {
+              console.error('Error removing resource:', error)
+              Alert.alert('Error', 'Failed to remove resource')
+            }
+          }
+        }
+      ]
+    )
+  }
+
+  const handleAddPromoCode = async () => {
+    if (!studio) return
+
+    const problems = validatePromoCodeForm(promoCodeForm)
+    if (problems.length > 0) {
+      Alert.alert('Check your promo code', problems.join('\n'))
+      return
+    }
+
+    // Good through the end of the expiry day, studio time
+    const expiresAt = promoCodeForm.expires_at.trim()
+      ? parseDateTimeInput(`${promoCodeForm.expires_at.trim()} 23:59`, getStudioTimeZone(studio))
+      : null
+    if (promoCodeForm.expires_at.trim() && !expiresAt) {
+      Alert.alert('Check your promo code', 'Enter the expiry date as YYYY-MM-DD')
+      return
+    }
+
+    const code = normalizePromoCode(promoCodeForm.code)
+    if (promoCodes.some(promoCode => promoCode.code === code)) {
+      Alert.alert('Check your promo code', `You already have a code called ${code}`)
+      return
+    }
+
+    try {
+      setSaving(true)
+      const promoCode = await bookingService.createPromoCode(studio.id, {
+        code,
+        discount_type: promoCodeForm.discount_type,
+        discount_value: promoCodeForm.discount_type === 'percent'
+          ? Number(promoCodeForm.discount_value)
+          : toMinorUnits(Number(promoCodeForm.discount_value), getStudioCurrency(studio)),
+        expires_at: expiresAt?.toISOString(),
+        max_uses: promoCodeForm.max_uses.trim() ? Number(promoCodeForm.max_uses) : undefined,
+        service_ids: promoCodeForm.service_ids,
+      })
+
+      setPromoCodes([promoCode, ...promoCodes])
+      setPromoCodeForm(emptyPromoCodeForm)
+    } catch (error: any) {
+      console.error('Error adding promo code:', error)
+      Alert.alert('Error', 'Failed to add promo code')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeactivatePromoCode = (promoCode: PromoCode) => {
+    Alert.alert(
+      'Deactivate Promo Code',
+      `${promoCode.code} will stop working. Bookings that already used it keep their discount.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Deactivate',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const updated = await bookingService.updatePromoCode(promoCode.id, { active: false })
+              setPromoCodes(promoCodes.map(p => p.id === updated.id ? updated : p))
+            } catch (error: any) {
+              console.error('Error deactivating promo code:', error)
+              Alert.alert('Error', 'Failed to deactivate promo code')
+            }
+          }
+        }
+      ]
+    )
+  }
+
+  const togglePromoCodeService = (serviceId: string) => {
+    const serviceIds = promoCodeForm.service_ids.includes(serviceId)
+      ? promoCodeForm.service_ids.filter(id => id !== serviceId)
+      : [...promoCodeForm.service_ids, serviceId]
+    setPromoCodeForm({ ...promoCodeForm, service_ids: serviceIds })
+  }
+
+  const describePromoCodeLimits = (promoCode: PromoCode) => {
+    const parts = [
+      `Used ${promoCodeUsage[promoCode.id] || 0}${promoCode.max_uses ? ` of ${promoCode.max_uses}` : ''}`,
+    ]
+    if (promoCode.expires_at) {
+      parts.push(`${new Date(promoCode.expires_at) <= new Date() ? 'Expired' : 'Expires'} ${formatDateTime(promoCode.expires_at)}`)
+    }
+    if (promoCode.service_ids.length > 0) {
+      parts.push(services.filter(service => promoCode.service_ids.includes(service.id)).map(service => service.name).join(', '))
+    }
+    if (!promoCode.active) parts.push('Inactive')
+    return parts.join(' • ')
+  }
+
+  const handleAddBlockedTime = async () => {
+    if (!studio) return
+
+    const studioTimeZone = getStudioTimeZone(studio)
+    const start = parseDateTimeInput(blockedTimeForm.start_time, studioTimeZone)
+    const end = parseDateTimeInput(blockedTimeForm.end_time, studioTimeZone)
+
+    if (!start || !end) {
+      Alert.alert('Error', 'Enter start and end as YYYY-MM-DD HH:MM')
+      return
+    }
+
+    if (end <= start) {
+      Alert.alert('Error', 'Blocked time must end after it starts')
+      return
+    }
+
+    if (blockedTimeForm.recurring && blockedTimeForm.recurrence_end &&
+        !/^\d{4}-\d{2}-\d{2}$/.test(blockedTimeForm.recurrence_end.trim())) {
+      Alert.alert('Error', 'Enter the repeat end date as YYYY-MM-DD')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const blockedTime = await bookingService.createBlockedTime(studio.id, {
+        start_time: start.toISOString(),
+        end_time: end.toISOString(),
+        reason: blockedTimeForm.reason?.trim() || undefined,
+        recurring: blockedTimeForm.recurring,
+        recurrence_pattern: blockedTimeForm.recurring ? blockedTimeForm.recurrence_pattern : undefined,
+        recurrence_end: blockedTimeForm.recurring && blockedTimeForm.recurrence_end?.trim()
+          ? blockedTimeForm.recurrence_end.trim()
+          : undefined,
+      })
+
+      setBlockedTimes([...blockedTimes, blockedTime].sort((a, b) => a.start_time.localeCompare(b.start_time)))
+      setBlockedTimeForm(emptyBlockedTimeForm)
+    } catch (error: any) {
+      console.error('Error adding blocked time:', error)
+      Alert.alert('Error', error.message || 'Failed to add blocked time')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteBlockedTime = (blockedTime: StudioBlockedTime) => {
+    Alert.alert(
+      'Remove Blocked Time',
+      'Clients will be able to book this time again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await bookingService.deleteBlockedTime(blockedTime.id)
+              setBlockedTimes(blockedTimes.filter(block => block.id !== blockedTime.id))
+            } catch (error: any) {
+              console.error('Error deleting blocked time:', error)
+              Alert.alert('Error', 'Failed to remove blocked time')
+            }
+          }
+        }
+      ]
+    )
+  }
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZone: getStudioTimeZone(studio),
+    })
+  }
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading settings...</Text>
+        </View>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Studio Settings</Text>
+        <TouchableOpacity
+          style={styles.saveButton}
+          onPress={handleSaveHours}
+          disabled={saving}
+        >
+          <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={styles.sectionTitle}>Payouts</Text>
+        <Text style={styles.helpText}>
+          Client payments go to your own Stripe account. Your booking page opens to clients
+          once Stripe has verified it.
+        </Text>
+        <View style={styles.dayCard}>
+          {connectStatus?.onboarded || (studio?.onboarded && !connectStatus) ? (
+            <Text style={styles.payoutStatusConnected}>✓ Connected to Stripe</Text>
+          ) : (
+            <>
+              <Text style={styles.payoutStatus}>
+                {connectStatus?.connected || studio?.stripe_account_id
+                  ? 'Waiting on Stripe to verify your account'
+                  : 'Not set up yet'}
+              </Text>
+              {!!connectStatus?.requirements_due.length && (
+                <Text style={styles.helpText}>
+                  Stripe still needs {connectStatus.requirements_due.length} item
+                  {connectStatus.requirements_due.length === 1 ? '' : 's'} from you.
+                </Text>
+              )}
+              <TouchableOpacity
+                style={styles.addResourceButton}
+                onPress={handleSetUpPayouts}
+                disabled={startingPayouts}
+              >
+                <Text style={styles.blockButtonText}>
+                  {startingPayouts
+                    ? 'Opening Stripe...'
+                    : studio?.stripe_account_id ? 'Continue Setup' : 'Set Up Payouts'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Time Zone</Text>
+        <Text style={styles.helpText}>
+          Your hours and blocked time are in this zone. Clients see times in studio time
+          alongside their own.
+        </Text>
+        <View style={styles.dayCard}>
+          <TextInput
+            style={styles.input}
+            value={timeZone}
+            onChangeText={setTimeZone}
+            placeholder="America/New_York"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {timeZone.trim() !== '' && !isValidTimeZone(timeZone.trim()) && (
+            <Text style={styles.errorText}>Unknown time zone</Text>
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Booking Slots</Text>
+        <Text style={styles.helpText}>
+          How often clients can start a session. Prep and teardown time is set on each service.
+        </Text>
+        <View style={styles.dayCard}>
+          <View style={styles.optionButtons}>
+            {([15, 30, 60] as const).map((interval) => (
+              <TouchableOpacity
+                key={interval}
+                style={[styles.optionButton, slotInterval === interval && styles.optionButtonActive]}
+                onPress={() => setSlotInterval(interval)}
+              >
+                <Text style={[styles.optionButtonText, slotInterval === interval && styles.optionButtonTextActive]}>
+                  Every {interval} min
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Balance Payments</Text>
+        <Text style={styles.helpText}>
+          For services that take a deposit, when the rest is charged to the client's saved card.
+          If the card can't be charged they're emailed a payment link.
+        </Text>
+        <View style={styles.dayCard}>
+          <View style={styles.optionButtons}>
+            {([
+              { value: 'before_session', label: `${BALANCE_DUE_HOURS_BEFORE_SESSION}h before session` },
+              { value: 'after_session', label: 'After session' },
+            ] as const).map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionButton, balanceTiming === option.value && styles.optionButtonActive]}
+                onPress={() => setBalanceTiming(option.value)}
+              >
+                <Text style={[styles.optionButtonText, balanceTiming === option.value && styles.optionButtonTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Cancellation Policy</Text>
+        <Text style={styles.helpText}>
+          How much of what a client paid is refunded when a booking is cancelled. When you
+          cancel a booking yourself you can still choose to refund it in full.
+        </Text>
+        <View style={styles.dayCard}>
+          <View style={styles.windowRow}>
+            <Text style={styles.windowSeparator}>Full refund at least</Text>
+            <TextInput
+              style={styles.timeInput}
+              value={fullRefundHours}
+              onChangeText={setFullRefundHours}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+            <Text style={styles.windowSeparator}>hours before</Text>
+          </View>
+          <View style={styles.windowRow}>
+            <TextInput
+              style={styles.timeInput}
+              value={partialRefundPercentage}
+              onChangeText={setPartialRefundPercentage}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+            <Text style={styles.windowSeparator}>% refund at least</Text>
+            <TextInput
+              style={styles.timeInput}
+              value={partialRefundHours}
+              onChangeText={setPartialRefundHours}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+            <Text style={styles.windowSeparator}>hours before</Text>
+          </View>
+          <Text style={styles.closedText}>No refund closer to the session than that</Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>Taxes & Fees</Text>
+        <Text style={styles.helpText}>
+          Added to each booking's price at checkout, after any promo code, and shown on receipts.
+          Your country sets the currency clients pay in; keep it the same as your Stripe account's.
+        </Text>
+        <View style={styles.dayCard}>
+          <Text style={styles.label}>Country</Text>
+          <View style={styles.windowRow}>
+            <TextInput
+              style={styles.timeInput}
+              value={country}
+              onChangeText={setCountry}
+              placeholder="US"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              maxLength={2}
+            />
+            <Text style={styles.windowSeparator}>
+              Charges in {getCurrencyForCountry(country).toUpperCase()}
+            </Text>
+          </View>
+          <Text style={styles.label}>Tax</Text>
+          <View style={styles.windowRow}>
+            <TextInput
+              style={[styles.timeInput, styles.taxLabelInput]}
+              value={taxLabel}
+              onChangeText={setTaxLabel}
+              placeholder="Sales tax"
+            />
+            <TextInput
+              style={styles.timeInput}
+              value={taxRate}
+              onChangeText={setTaxRate}
+              placeholder="0"
+              keyboardType="decimal-pad"
+              maxLength={6}
+            />
+            <Text style={styles.windowSeparator}>%</Text>
+          </View>
+          <Text style={styles.label}>Fees</Text>
+          <View style={styles.windowRow}>
+            <TextInput
+              style={styles.timeInput}
+              value={bookingFee}
+              onChangeText={setBookingFee}
+              placeholder="0"
+              keyboardType="decimal-pad"
+              maxLength={7}
+            />
+            <Text style={styles.windowSeparator}>per booking, plus</Text>
+            <TextInput
+              style={styles.timeInput}
+              value={processingFee}
+              onChangeText={setProcessingFee}
+              placeholder="0"
+              keyboardType="decimal-pad"
+              maxLength={5}
+            />
+            <Text style={styles.windowSeparator}>% processing</Text>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Studio Hours</Text>
+        <Text style={styles.helpText}>
+          Add as many windows per day as you need. A window that closes earlier than it opens
+          (e.g. 18:00 - 02:00) runs overnight into the next day.
+        </Text>
+
+        {dayNames.map((dayName, index) => {
+          const dayOfWeek = index as StudioAvailability['day_of_week']
+          const dayWindows = windows.filter(window => window.day_of_week === dayOfWeek)
+
+          return (
+            <View key={dayName} style={styles.dayCard}>
+              <View style={styles.dayHeader}>
+                <Text style={styles.dayName}>{dayName}</Text>
+                <TouchableOpacity onPress={() => addWindow(dayOfWeek)}>
+                  <Text style={styles.addWindowText}>+ Add Hours</Text>
+                </TouchableOpacity>
+              </View>
+
+              {dayWindows.length === 0 && (
+                <Text style={styles.closedText}>Closed</Text>
+              )}
+
+              {dayWindows.map((window) => {
+                const timesValid = isValidTimeOfDay(window.start_time) && isValidTimeOfDay(window.end_time)
+
+                return (
+                  <View key={window.key} style={styles.windowRow}>
+                    <TextInput
+                      style={styles.timeInput}
+                      value={window.start_time}
+                      onChangeText={(text) => updateWindow(window.key, { start_time: text })}
+                      placeholder="10:00"
+                      maxLength={5}
+                    />
+                    <Text style={styles.windowSeparator}>to</Text>
+                    <TextInput
+                      style={styles.timeInput}
+                      value={window.end_time}
+                      onChangeText={(text) => updateWindow(window.key, { end_time: text })}
+                      placeholder="18:00"
+                      maxLength={5}
+                    />
+                    {timesValid && crossesMidnight(window) && (
+                      <Text style={styles.overnightBadge}>next day</Text>
+                    )}
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => removeWindow(window.key)}
+                    >
+                      <Text style={styles.removeButtonText}>✕</Text>
+                    </TouchableOpacity>
+                  </View>
+                )
+              })}
+            </View>
+          )
+        })}
+
+        <Text style={styles.sectionTitle}>Rooms, Engineers & Gear</Text>
+        <Text style={styles.helpText}>
+          Each one is scheduled on its own, so two rooms can run sessions at the same time.
+          Choose which ones a service needs on the Services screen.
+        </Text>
+
+        {resources.map((resource) => (
+          <View key={resource.id} style={styles.resourceCard}>
+            <View style={[styles.resourceColor, { backgroundColor: resource.color }]} />
+            <View style={styles.blockedInfo}>
+              <Text style={styles.blockedRange}>{resource.name}</Text>
+              <Text style={styles.blockedReason}>{resourceTypeLabels[resource.type]}</Text>
+            </View>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => handleRemoveResource(resource)}
+            >
+              <Text style={styles.removeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <View style={styles.dayCard}>
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={styles.input}
+            value={resourceForm.name}
+            onChangeText={(text) => setResourceForm({...resourceForm, name: text})}
+            placeholder="e.g., Live Room A"
+          />
+
+          <Text style={styles.label}>Type</Text>
+          <View style={styles.optionButtons}>
+            {(Object.keys(resourceTypeLabels) as Resource['type'][]).map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.optionButton, resourceForm.type === type && styles.optionButtonActive]}
+                onPress={() => setResourceForm({...resourceForm, type})}
+              >
+                <Text style={[styles.optionButtonText, resourceForm.type === type && styles.optionButtonTextActive]}>
+                  {resourceTypeLabels[type]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Calendar Color</Text>
+          <View style={styles.optionButtons}>
+            {resourceColors.map((color) => (
+              <TouchableOpacity
+                key={color}
+                style={[
+                  styles.colorSwatch,
+                  { backgroundColor: color },
+                  resourceForm.color === color && styles.colorSwatchActive
+                ]}
+                onPress={() => setResourceForm({...resourceForm, color})}
+              />
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={styles.addResourceButton}
+            onPress={handleAddResource}
+            disabled={saving}
+          >
+            <Text style={styles.blockButtonText}>Add Resource</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.sectionTitle}>Promo Codes</Text>
+        <Text style={styles.helpText}>
+          Clients enter a code when booking. A percentage comes off every session they pay
+          for; a fixed amount comes off once.
+        </Text>
+
+        {promoCodes.map((promoCode) => (
+          <View key={promoCode.id} style={[styles.resourceCard, !promoCode.active && styles.inactiveCard]}>
+            <View style={styles.blockedInfo}>
+              <Text style={styles.blockedRange}>
+                {promoCode.code} • {describePromoDiscount(promoCode, getStudioCurrency(studio))}
+              </Text>
+              <Text style={styles.blockedReason}>{describePromoCodeLimits(promoCode)}</Text>
+            </View>
+            {promoCode.active && (
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => handleDeactivatePromoCode(promoCode)}
+              >
+                <Text style={styles.removeButtonText}>✕</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+
+        <View style={styles.dayCard}>
+          <Text style={styles.label}>Code</Text>
+          <TextInput
+            style={styles.input}
+            value={promoCodeForm.code}
+            onChangeText={(text) => setPromoCodeForm({...promoCodeForm, code: text})}
+            placeholder="e.g., SUMMER20"
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+
+          <Text style={styles.label}>Discount</Text>
+          <View style={styles.optionButtons}>
+            {([
+              { value: 'percent', label: 'Percent off' },
+              { value: 'fixed', label: 'Amount off' },
+            ] as const).map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionButton, promoCodeForm.discount_type === option.value && styles.optionButtonActive]}
+                onPress={() => setPromoCodeForm({...promoCodeForm, discount_type: option.value})}
+              >
+                <Text style={[styles.optionButtonText, promoCodeForm.discount_type === option.value && styles.optionButtonTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={[styles.input, styles.promoValueInput]}
+            value={promoCodeForm.discount_value}
+            onChangeText={(text) => setPromoCodeForm({...promoCodeForm, discount_value: text})}
+            placeholder={promoCodeForm.discount_type === 'percent' ? 'e.g., 20' : 'e.g., 25.00'}
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={styles.label}>Expires (optional)</Text>
+          <TextInput
+            style={styles.input}
+            value={promoCodeForm.expires_at}
+            onChangeText={(text) => setPromoCodeForm({...promoCodeForm, expires_at: text})}
+            placeholder="YYYY-MM-DD"
+            autoCapitalize="none"
+          />
+
+          <Text style={styles.label}>Usage Limit (optional)</Text>
+          <TextInput
+            style={styles.input}
+            value={promoCodeForm.max_uses}
+            onChangeText={(text) => setPromoCodeForm({...promoCodeForm, max_uses: text})}
+            placeholder="Unlimited"
+            keyboardType="number-pad"
+          />
+
+          {services.length > 0 && (
+            <>
+              <Text style={styles.label}>Services (none selected means all)</Text>
+              <View style={styles.optionButtons}>
+                {services.map((service) => {
+                  const selected = promoCodeForm.service_ids.includes(service.id)
+                  return (
+                    <TouchableOpacity
+                      key={service.id}
+                      style={[styles.optionButton, selected && styles.optionButtonActive]}
+                      onPress={() => togglePromoCodeService(service.id)}
+                    >
+                      <Text style={[styles.optionButtonText, selected && styles.optionButtonTextActive]}>
+                        {service.name}
+                      </Text>
+                    </TouchableOpacity>
+                  )
+                })}
+              </View>
+            </>
+          )}
+
+          <TouchableOpacity
+            style={styles.addResourceButton}
+            onPress={handleAddPromoCode}
+            disabled={saving}
+          >
+            <Text style={styles.blockButtonText}>Add Promo Code</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.sectionTitle}>Blocked Time</Text>
+        <Text style={styles.helpText}>
+          Block off maintenance days, holidays or regular closures. Clients can't book
+          or reschedule into blocked time.
+        </Text>
+
+        {blockedTimes.map((blockedTime) => (
+          <View key={blockedTime.id} style={styles.blockedCard}>
+            <View style={styles.blockedInfo}>
+              <Text style={styles.blockedRange}>
+                {formatDateTime(blockedTime.start_time)} - {formatDateTime(blockedTime.end_time)}
+              </Text>
+              {blockedTime.reason && (
+                <Text style={styles.blockedReason}>{blockedTime.reason}</Text>
+              )}
+              {blockedTime.recurring && blockedTime.recurrence_pattern && (
+                <Text style={styles.blockedRecurrence}>
+                  Repeats {blockedTime.recurrence_pattern}
+                  {blockedTime.recurrence_end ? ` until ${blockedTime.recurrence_end}` : ''}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => handleDeleteBlockedTime(blockedTime)}
+            >
+              <Text style={styles.removeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <View style={styles.dayCard}>
+          <Text style={styles.label}>Starts (YYYY-MM-DD HH:MM, studio time)</Text>
+          <TextInput
+            style={styles.input}
+            value={blockedTimeForm.start_time}
+            onChangeText={(text) => setBlockedTimeForm({...blockedTimeForm, start_time: text})}
+            placeholder="2025-12-24 00:00"
+          />
+
+          <Text style={styles.label}>Ends (YYYY-MM-DD HH:MM, studio time)</Text>
+          <TextInput
+            style={styles.input}
+            value={blockedTimeForm.end_time}
+            onChangeText={(text) => setBlockedTimeForm({...blockedTimeForm, end_time: text})}
+            placeholder="2025-12-26 00:00"
+          />
+
+          <Text style={styles.label}>Reason</Text>
+          <TextInput
+            style={styles.input}
+            value={blockedTimeForm.reason}
+            onChangeText={(text) => setBlockedTimeForm({...blockedTimeForm, reason: text})}
+            placeholder="e.g., Console maintenance"
+          />
+
+          <Text style={styles.label}>Repeat</Text>
+          <View style={styles.optionButtons}>
+            {(['none', 'weekly', 'monthly'] as const).map((option) => {
+              const active = option === 'none'
+                ? !blockedTimeForm.recurring
+                : blockedTimeForm.recurring && blockedTimeForm.recurrence_pattern === option
+
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.optionButton, active && styles.optionButtonActive]}
+                  onPress={() => setBlockedTimeForm({
+                    ...blockedTimeForm,
+                    recurring: option !== 'none',
+                    recurrence_pattern: option === 'none' ? undefined : option,
+                  })}
+                >
+                  <Text style={[styles.optionButtonText, active && styles.optionButtonTextActive]}>
+                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              )
+            })}
+          </View>
+
+          {blockedTimeForm.recurring && (
+            <>
+              <Text style={styles.label}>Repeat Until (YYYY-MM-DD, optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={blockedTimeForm.recurrence_end}
+                onChangeText={(text) => setBlockedTimeForm({...blockedTimeForm, recurrence_end: text})}
+                placeholder="2026-06-30"
+              />
+            </>
+          )}
+
+          <TouchableOpacity
+            style={styles.blockButton}
+            onPress={handleAddBlockedTime}
+            disabled={saving}
+          >
+            <Text style={styles.blockButtonText}>Block Time</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e5',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  saveButton: {
+    backgroundColor: '#2081C3',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  dayCard: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  dayName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  addWindowText: {
+    fontSize: 14,
+    color: '#2081C3',
+    fontWeight: '600',
+  },
+  closedText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  timeInput: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    backgroundColor: 'white',
+    width: 80,
+    textAlign: 'center',
+  },
+  taxLabelInput: {
+    flex: 1,
+    textAlign: 'left',
+  },
+  windowSeparator: {
+    fontSize: 14,
+    color: '#666',
+  },
+  overnightBadge: {
+    fontSize: 12,
+    color: '#9333ea',
+    fontWeight: '600',
+  },
+  removeButton: {
+    marginLeft: 'auto',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  removeButtonText: {
+    fontSize: 16,
+    color: '#ef4444',
+  },
+  payoutStatus: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 8,
+  },
+  payoutStatusConnected: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: 'white',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 6,
+  },
+  resourceCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    marginBottom: 8,
+  },
+  resourceColor: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  inactiveCard: {
+    opacity: 0.5,
+  },
+  promoValueInput: {
+    marginTop: 8,
+  },
+  colorSwatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: 'white',
+  },
+  colorSwatchActive: {
+    borderColor: '#1a1a1a',
+  },
+  addResourceButton: {
+    backgroundColor: '#2081C3',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  blockedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    marginBottom: 8,
+  },
+  blockedInfo: {
+    flex: 1,
+  },
+  blockedRange: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  blockedReason: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  blockedRecurrence: {
+    fontSize: 12,
+    color: '#9333ea',
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  optionButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+  },
+  optionButtonActive: {
+    backgroundColor: '#2081C3',
+    borderColor: '#2081C3',
+  },
+  optionButtonText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  optionButtonTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  blockButton: {
+    backgroundColor: '#ef4444',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  blockButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+})
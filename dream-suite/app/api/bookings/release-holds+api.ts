@@ -0,0 +1,67 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { offerFreedSlot } from '../../../lib/waitlist-offers'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+})
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Expiry sweeper: releases slots held by unpaid bookings even if Stripe's
+// checkout.session.expired webhook never arrives. Run every minute (see vercel.json);
+// it's the only place holds are released, since their checkouts have to be closed too.
+async function releaseHolds(request: ExpoRequest): Promise<Response> {
+  const cronSecret = process.env.CRON_SECRET
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { data: released, error } = await supabase.rpc('release_expired_booking_holds')
+
+    if (error) throw error
+
+    // Close any checkout still open for a released booking so it can't be paid late
+    for (const booking of released || []) {
+      if (!booking.stripe_session_id) continue
+
+      try {
+        await stripe.checkout.sessions.expire(booking.stripe_session_id)
+      } catch (err: any) {
+        // Already completed or expired on Stripe's side
+        console.error(`Could not expire session ${booking.stripe_session_id}:`, err.message)
+      }
+    }
+
+    // Pass the released slots on to the waitlist (including offers nobody claimed)
+    for (const booking of released || []) {
+      await offerFreedSlot(supabase, booking.booking_id, new URL(request.url).origin)
+    }
+
+    return Response.json({
+      success: true,
+      released: (released || []).map((booking: { booking_id: string }) => booking.booking_id),
+    })
+
+  } catch (error: any) {
+    console.error('Error releasing booking holds:', error)
+    return Response.json(
+      { error: 'Failed to release booking holds', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron calls with GET
+export async function GET(request: ExpoRequest): Promise<Response> {
+  return releaseHolds(request)
+}
+
+export async function POST(request: ExpoRequest): Promise<Response> {
+  return releaseHolds(request)
+}
@@ -0,0 +1,66 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { sendReminder } from '../../../lib/booking-reminders'
+import { getRequestUser } from '../../../lib/request-auth'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Send a booking's 24h or 1h reminder now instead of waiting for the reminder
+// dispatcher. It's recorded like the dispatcher's, so the client gets each
+// reminder once whichever sends it. Only the studio's owner can send it.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { bookingId, reminderType } = await request.json()
+
+    if (!bookingId || !['24h', '1h'].includes(reminderType)) {
+      return Response.json(
+        { error: 'Missing required fields: bookingId, reminderType' },
+        { status: 400 }
+      )
+    }
+
+    const user = await getRequestUser(supabase, request)
+    if (!user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select('*, services(*), studios(*)')
+      .eq('id', bookingId)
+      .single()
+
+    if (!booking || !booking.services) {
+      return Response.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if (booking.studios?.owner_id !== user.id) {
+      return Response.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const result = await sendReminder(supabase, booking, reminderType)
+
+    if (result === 'already_sent') {
+      return Response.json(
+        { error: `The ${reminderType} reminder was already sent` },
+        { status: 409 }
+      )
+    }
+
+    if (result === 'failed') {
+      return Response.json({ error: 'Failed to send reminder' }, { status: 500 })
+    }
+
+    return Response.json({ success: true })
+
+  } catch (error: any) {
+    console.error('Error sending booking reminder:', error)
+    return Response.json(
+      { error: 'Failed to send reminder', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { sendDueReminders } from '../../../lib/booking-reminders'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Reminder dispatcher: emails the 24h and 1h reminders for confirmed bookings as
+// they come due, each once. Run on a schedule (see vercel.json).
+async function sendReminders(request: ExpoRequest): Promise<Response> {
+  const cronSecret = process.env.CRON_SECRET
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const results = await sendDueReminders(supabase)
+
+    return Response.json({ success: true, ...results })
+
+  } catch (error: any) {
+    console.error('Error sending booking reminders:', error)
+    return Response.json(
+      { error: 'Failed to send reminders', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron calls with GET
+export async function GET(request: ExpoRequest): Promise<Response> {
+  return sendReminders(request)
+}
+
+export async function POST(request: ExpoRequest): Promise<Response> {
+  return sendReminders(request)
+}
@@ -0,0 +1,93 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../lib/request-auth'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+})
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Start (or pick up) Stripe Connect onboarding for the signed in owner's studio.
+// Creates the studio's Express account the first time, then returns a Stripe
+// hosted onboarding link that comes back to returnUrl when the owner is done.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { returnUrl } = await request.json()
+
+    if (!returnUrl) {
+      return Response.json(
+        { error: 'Missing required fields: returnUrl' },
+        { status: 400 }
+      )
+    }
+
+    const user = await getRequestUser(supabase, request)
+    if (!user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: studio } = await supabase
+      .from('studios')
+      .select('*')
+      .eq('owner_id', user.id)
+      .single()
+
+    if (!studio) {
+      return Response.json({ error: 'Studio not found' }, { status: 404 })
+    }
+
+    let accountId: string = studio.stripe_account_id
+    if (!accountId) {
+      const account = await stripe.accounts.create(
+        {
+          type: 'express',
+          // Payouts are in the currency of the studio's country (see utils/charges.ts)
+          country: studio.country || 'US',
+          email: studio.email,
+          business_profile: { name: studio.name, url: studio.website || undefined },
+          capabilities: {
+            card_payments: { requested: true },
+            transfers: { requested: true },
+          },
+          metadata: { studio_id: studio.id },
+        },
+        // Two quick taps shouldn't create two accounts
+        { idempotencyKey: `connect-account-${studio.id}` }
+      )
+
+      const { error: updateError } = await supabase
+        .from('studios')
+        .update({ stripe_account_id: account.id, updated_at: new Date().toISOString() })
+        .eq('id', studio.id)
+
+      if (updateError) throw updateError
+      accountId = account.id
+    }
+
+    const separator = returnUrl.includes('?') ? '&' : '?'
+    const accountLink = await stripe.accountLinks.create({
+      account: accountId,
+      type: 'account_onboarding',
+      // Links expire after a few minutes; the settings screen makes a new one
+      refresh_url: `${returnUrl}${separator}connect=refresh`,
+      return_url: `${returnUrl}${separator}connect=return`,
+    })
+
+    return Response.json({
+      success: true,
+      url: accountLink.url,
+    })
+
+  } catch (error: any) {
+    console.error('Error starting Connect onboarding:', error)
+    return Response.json(
+      { error: 'Failed to start payout setup', details: error.message },
+      { status: 500 }
+    )
+  }
+}
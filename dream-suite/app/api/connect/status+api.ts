@@ -0,0 +1,66 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../lib/request-auth'
+import { isAccountOnboarded, syncStudioOnboarding } from '../../../lib/stripe-connect'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+})
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// The signed in owner's Connect account as Stripe sees it right now. Also brings
+// the studio's onboarded flag up to date, in case an account.updated webhook
+// hasn't arrived yet.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const user = await getRequestUser(supabase, request)
+    if (!user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: studio } = await supabase
+      .from('studios')
+      .select('id, stripe_account_id')
+      .eq('owner_id', user.id)
+      .single()
+
+    if (!studio) {
+      return Response.json({ error: 'Studio not found' }, { status: 404 })
+    }
+
+    if (!studio.stripe_account_id) {
+      return Response.json({
+        connected: false,
+        onboarded: false,
+        details_submitted: false,
+        charges_enabled: false,
+        payouts_enabled: false,
+        requirements_due: [],
+      })
+    }
+
+    const account = await stripe.accounts.retrieve(studio.stripe_account_id)
+    await syncStudioOnboarding(supabase, account)
+
+    return Response.json({
+      connected: true,
+      onboarded: isAccountOnboarded(account),
+      details_submitted: account.details_submitted,
+      charges_enabled: account.charges_enabled,
+      payouts_enabled: account.payouts_enabled,
+      requirements_due: account.requirements?.currently_due || [],
+    })
+
+  } catch (error: any) {
+    console.error('Error checking Connect status:', error)
+    return Response.json(
+      { error: 'Failed to check payout status', details: error.message },
+      { status: 500 }
+    )
+  }
+}
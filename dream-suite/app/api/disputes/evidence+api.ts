@@ -0,0 +1,58 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { buildDisputeEvidence } from '../../../lib/dispute-evidence'
+import { getRequestUser } from '../../../lib/request-auth'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Export a booking's evidence for responding to a dispute. Only the owner of the
+// booking's studio can export it.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { bookingId } = await request.json()
+
+    if (!bookingId) {
+      return Response.json(
+        { error: 'Missing required fields: bookingId' },
+        { status: 400 }
+      )
+    }
+
+    const user = await getRequestUser(supabase, request)
+    if (!user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select('id, studios(owner_id)')
+      .eq('id', bookingId)
+      .single()
+
+    if (!booking) {
+      return Response.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if ((booking.studios as { owner_id?: string } | null)?.owner_id !== user.id) {
+      return Response.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const evidence = await buildDisputeEvidence(supabase, booking.id)
+
+    return Response.json({
+      success: true,
+      filename: `booking-${booking.id}-evidence.txt`,
+      evidence,
+    })
+
+  } catch (error: any) {
+    console.error('Error exporting dispute evidence:', error)
+    return Response.json(
+      { error: 'Failed to export evidence', details: error.message },
+      { status: 500 }
+    )
+  }
+}
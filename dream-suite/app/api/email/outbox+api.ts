@@ -0,0 +1,146 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { getOutbox, OutboxEmail } from '../../../lib/email-transport'
+
+// Development only: shows the email the outbox transport has kept instead of
+// sending. /api/email/outbox lists it, ?id= shows one message as it would arrive,
+// and ?format=json returns the list for tests. DELETE empties the outbox.
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const htmlResponse = (html: string, status = 200): Response => {
+  return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+const renderMessage = (message: OutboxEmail): string => {
+  const details = [
+    ['From', message.from],
+    ['To', message.to.join(', ')],
+    ['Subject', message.subject],
+    ['Sent', message.sent_at],
+    ...(message.tags || []).map(tag => [tag.name, tag.value]),
+    ...message.attachments.map(attachment => ['Attachment', `${attachment.filename} (${attachment.size} bytes)`]),
+  ]
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(message.subject)}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; margin: 20px;">
+    <p><a href="/api/email/outbox">&larr; Outbox</a></p>
+    <table style="border-collapse: collapse; margin-bottom: 20px;">${details.map(([label, value]) => `
+      <tr>
+        <td style="padding: 4px 12px 4px 0; color: #6b7280;">${escapeHtml(label)}</td>
+        <td style="padding: 4px 0;">${escapeHtml(value)}</td>
+      </tr>`).join('')}
+    </table>
+    <iframe srcdoc="${escapeHtml(message.html)}" sandbox style="width: 100%; height: 600px; border: 1px solid #e5e5e5;"></iframe>
+    ${message.text ? `<h3>Text version</h3><pre style="white-space: pre-wrap;">${escapeHtml(message.text)}</pre>` : ''}
+  </body>
+</html>
+`
+}
+
+const renderList = (messages: OutboxEmail[]): string => {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Email Outbox</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; margin: 20px;">
+    <h1>Email Outbox</h1>
+    ${messages.length === 0 ? '<p>No email yet.</p>' : `
+    <table style="width: 100%; border-collapse: collapse;">
+      <tr style="text-align: left; color: #6b7280;">
+        <th style="padding: 6px;">Sent</th>
+        <th style="padding: 6px;">Type</th>
+        <th style="padding: 6px;">To</th>
+        <th style="padding: 6px;">Subject</th>
+      </tr>${messages.map(message => `
+      <tr style="border-top: 1px solid #e5e5e5;">
+        <td style="padding: 6px;">${escapeHtml(message.sent_at)}</td>
+        <td style="padding: 6px;">${escapeHtml(message.tags?.find(tag => tag.name === 'type')?.value || '')}</td>
+        <td style="padding: 6px;">${escapeHtml(message.to.join(', '))}</td>
+        <td style="padding: 6px;"><a href="/api/email/outbox?id=${encodeURIComponent(message.id)}">${escapeHtml(message.subject)}</a></td>
+      </tr>`).join('')}
+    </table>`}
+  </body>
+</html>
+`
+}
+
+export async function GET(request: ExpoRequest): Promise<Response> {
+  if (process.env.NODE_ENV === 'production') {
+    return Response.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  try {
+    const outbox = getOutbox()
+    if (!outbox) {
+      return Response.json(
+        { error: 'Email is not going to the outbox (set EMAIL_TRANSPORT=outbox)' },
+        { status: 404 }
+      )
+    }
+
+    const url = new URL(request.url)
+    const id = url.searchParams.get('id')
+
+    if (id) {
+      const message = await outbox.get(id)
+      if (!message) {
+        return Response.json({ error: 'Email not found' }, { status: 404 })
+      }
+      return htmlResponse(renderMessage(message))
+    }
+
+    const messages = await outbox.list()
+
+    if (url.searchParams.get('format') === 'json') {
+      return Response.json({ messages })
+    }
+
+    return htmlResponse(renderList(messages))
+
+  } catch (error: any) {
+    console.error('Error reading email outbox:', error)
+    return Response.json(
+      { error: 'Failed to read outbox', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: ExpoRequest): Promise<Response> {
+  if (process.env.NODE_ENV === 'production') {
+    return Response.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  try {
+    const outbox = getOutbox()
+    if (!outbox) {
+      return Response.json(
+        { error: 'Email is not going to the outbox (set EMAIL_TRANSPORT=outbox)' },
+        { status: 404 }
+      )
+    }
+
+    await outbox.clear()
+    return Response.json({ success: true })
+
+  } catch (error: any) {
+    console.error('Error clearing email outbox:', error)
+    return Response.json(
+      { error: 'Failed to clear outbox', details: error.message },
+      { status: 500 }
+    )
+  }
+}
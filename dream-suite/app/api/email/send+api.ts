@@ -0,0 +1,91 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { sendEmail } from '../../../lib/notifications'
+import { getRequestUser, isInternalRequest } from '../../../lib/request-auth'
+import { EmailType, SendEmailRequest } from '../../../types/booking'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const EMAIL_TYPES: EmailType[] = [
+  'booking-confirmation',
+  'booking-reminder',
+  'booking-cancellation',
+  'status-update',
+  'studio-notification',
+  'waitlist-offer',
+  'balance-request',
+  'dispute-notice',
+  'package-purchase',
+]
+
+// Sends the emails built by EmailService. Server code sends any of them (see
+// isInternalRequest); a studio owner only a booking's, to its client or the studio.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const body: SendEmailRequest = await request.json()
+    const { type, to, subject, htmlBody, reminderType, bookingId } = body
+
+    if (!type || !to || !subject || !htmlBody) {
+      return Response.json(
+        { error: 'Missing required fields: type, to, subject, htmlBody' },
+        { status: 400 }
+      )
+    }
+
+    if (!EMAIL_TYPES.includes(type)) {
+      return Response.json({ error: `Unknown email type: ${type}` }, { status: 400 })
+    }
+
+    if (type === 'booking-reminder' && !reminderType) {
+      return Response.json(
+        { error: 'Missing required fields: reminderType' },
+        { status: 400 }
+      )
+    }
+
+    if (!isInternalRequest(request)) {
+      const user = await getRequestUser(supabase, request)
+      if (!user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const { data: booking } = bookingId
+        ? await supabase
+          .from('bookings')
+          .select('client_email, studios(owner_id, email)')
+          .eq('id', bookingId)
+          .single()
+        : { data: null }
+
+      const studio = booking?.studios as { owner_id?: string; email?: string } | null
+      if (studio?.owner_id !== user.id || ![booking?.client_email, studio.email].includes(to)) {
+        return Response.json({ error: 'Unauthorized' }, { status: 403 })
+      }
+    }
+
+    const notification = await sendEmail(supabase, body)
+
+    if (notification.status === 'failed') {
+      return Response.json(
+        { error: 'Failed to send email', details: notification.error, notificationId: notification.id },
+        { status: 500 }
+      )
+    }
+
+    return Response.json({
+      success: true,
+      messageId: notification.provider_message_id,
+      notificationId: notification.id,
+    })
+
+  } catch (error: any) {
+    console.error('Error sending email:', error)
+    return Response.json(
+      { error: 'Failed to send email', details: error.message },
+      { status: 500 }
+    )
+  }
+}
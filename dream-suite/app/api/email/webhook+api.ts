@@ -0,0 +1,79 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { createHmac, timingSafeEqual } from 'crypto'
+import { updateDeliveryStatus } from '../../../lib/notifications'
+import { Notification } from '../../../types/booking'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Resend's delivery events, and the notification status each one means
+const EVENT_STATUSES: Record<string, Notification['status']> = {
+  'email.delivered': 'delivered',
+  'email.delivery_delayed': 'delayed',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+  'email.failed': 'failed',
+}
+
+// Signatures older than this are refused, so a captured request can't be replayed later
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+// Resend signs webhooks the way Svix does: an HMAC of "id.timestamp.body" with
+// the endpoint's signing secret (whsec_...), sent as one or more "v1,<base64>"
+function verifySignature(body: string, headers: Headers, secret: string): boolean {
+  const id = headers.get('svix-id')
+  const timestamp = headers.get('svix-timestamp')
+  const signatures = headers.get('svix-signature')
+
+  if (!id || !timestamp || !signatures) return false
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) return false
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64')
+  const expected = createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest()
+
+  return signatures.split(' ').some(signature => {
+    const [version, value] = signature.split(',')
+    const actual = Buffer.from(value || '', 'base64')
+    return version === 'v1' && actual.length === expected.length && timingSafeEqual(actual, expected)
+  })
+}
+
+export async function POST(request: ExpoRequest): Promise<Response> {
+  const body = await request.text()
+  const secret = process.env.RESEND_WEBHOOK_SECRET
+
+  if (!secret || !verifySignature(body, request.headers, secret)) {
+    console.error('Resend webhook signature verification failed')
+    return Response.json({ error: 'Invalid signature' }, { status: 400 })
+  }
+
+  try {
+    const event = JSON.parse(body)
+    const status = EVENT_STATUSES[event.type]
+    const messageId = event.data?.email_id
+
+    if (!status || !messageId) {
+      return Response.json({ received: true, ignored: true })
+    }
+
+    const updated = await updateDeliveryStatus(
+      supabase,
+      'resend',
+      messageId,
+      status,
+      event.data?.bounce?.message || event.data?.failed?.reason
+    )
+
+    return Response.json({ received: true, updated })
+
+  } catch (error: any) {
+    console.error('Error handling Resend webhook:', error)
+    return Response.json(
+      { error: 'Webhook processing failed', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { getBookingInvoices } from '../../../lib/invoices'
+import { getRequestUser } from '../../../lib/request-auth'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// A booking's invoice and receipts, with links to download each. For the studio
+// owner, or the client from their success page (matched on the booking's email).
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { bookingId, clientEmail } = await request.json()
+
+    if (!bookingId) {
+      return Response.json(
+        { error: 'Missing required fields: bookingId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select('id, client_email, studios(owner_id)')
+      .eq('id', bookingId)
+      .single()
+
+    if (!booking) {
+      return Response.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    const isClient = typeof clientEmail === 'string' &&
+      clientEmail.trim().toLowerCase() === booking.client_email.trim().toLowerCase()
+
+    if (!isClient) {
+      const user = await getRequestUser(supabase, request)
+      if (!user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+      if ((booking.studios as { owner_id?: string } | null)?.owner_id !== user.id) {
+        return Response.json({ error: 'Unauthorized' }, { status: 403 })
+      }
+    }
+
+    const invoices = await getBookingInvoices(supabase, booking.id)
+    const origin = new URL(request.url).origin
+
+    return Response.json({
+      success: true,
+      invoices: invoices.map(invoice => ({
+        id: invoice.id,
+        kind: invoice.kind,
+        invoice_number: invoice.invoice_number,
+        issued_at: invoice.issued_at,
+        pdf_url: `${origin}/api/invoices/download?token=${invoice.access_token}&format=pdf`,
+        html_url: `${origin}/api/invoices/download?token=${invoice.access_token}&format=html`,
+      })),
+    })
+
+  } catch (error: any) {
+    console.error('Error getting booking invoices:', error)
+    return Response.json(
+      { error: 'Failed to get invoices', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import {
+  getInvoiceByToken,
+  getInvoiceFilename,
+  loadInvoiceContent,
+  renderInvoiceHtml,
+  renderInvoicePdf,
+} from '../../../lib/invoices'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Download an invoice or receipt as PDF (the default) or HTML. The link's token
+// stands in for signing in, so it can be opened from an email.
+export async function GET(request: ExpoRequest): Promise<Response> {
+  const params = new URL(request.url).searchParams
+  const token = params.get('token')
+  const format = params.get('format') === 'html' ? 'html' : 'pdf'
+
+  if (!token) {
+    return Response.json({ error: 'Missing invoice token' }, { status: 400 })
+  }
+
+  try {
+    const invoice = await getInvoiceByToken(supabase, token)
+    if (!invoice) {
+      return Response.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    const content = await loadInvoiceContent(supabase, invoice)
+    const filename = getInvoiceFilename(invoice, format)
+
+    if (format === 'html') {
+      return new Response(renderInvoiceHtml(content), {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Content-Disposition': `inline; filename="${filename}"`,
+        },
+      })
+    }
+
+    return new Response(renderInvoicePdf(content), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+
+  } catch (error: any) {
+    console.error('Error downloading invoice:', error)
+    return Response.json(
+      { error: 'Failed to download invoice', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { sendEmail, sendSms } from '../../../lib/notifications'
+import { getRequestUser } from '../../../lib/request-auth'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Send a logged email or text again, e.g. after it bounced and the client's address
+// was fixed. It goes to the booking's current email address or phone number, and is
+// logged as a new notification. Only the owner of the studio it was sent for can
+// resend it.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { notificationId } = await request.json()
+
+    if (!notificationId) {
+      return Response.json(
+        { error: 'Missing required fields: notificationId' },
+        { status: 400 }
+      )
+    }
+
+    const user = await getRequestUser(supabase, request)
+    if (!user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: notification } = await supabase
+      .from('notifications')
+      .select('*, studios(owner_id), bookings(client_email)')
+      .eq('id', notificationId)
+      .single()
+
+    if (!notification) {
+      return Response.json({ error: 'Notification not found' }, { status: 404 })
+    }
+
+    if ((notification.studios as { owner_id?: string } | null)?.owner_id !== user.id) {
+      return Response.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    let resent
+    if (notification.channel === 'sms') {
+      // A text always goes to the booking's phone number, if it may still be texted
+      resent = await sendSms(supabase, notification.payload, notification.id)
+
+      if (!resent) {
+        return Response.json(
+          { error: 'Texts are turned off for this booking, or the client opted out' },
+          { status: 400 }
+        )
+      }
+    } else {
+      // Emails to the studio itself keep going to the studio
+      const clientEmail = (notification.bookings as { client_email?: string } | null)?.client_email
+      const sendsToClient = !['studio-notification', 'dispute-notice'].includes(notification.type)
+
+      resent = await sendEmail(
+        supabase,
+        { ...notification.payload, to: sendsToClient && clientEmail ? clientEmail : notification.payload.to },
+        notification.id
+      )
+    }
+
+    if (resent.status === 'failed') {
+      return Response.json(
+        { error: `Failed to send ${notification.channel === 'sms' ? 'text' : 'email'}`, details: resent.error },
+        { status: 500 }
+      )
+    }
+
+    return Response.json({ success: true, notification: resent })
+
+  } catch (error: any) {
+    console.error('Error resending notification:', error)
+    return Response.json(
+      { error: 'Failed to resend notification', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { getPackageBalance } from '../../../lib/package-credits'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Look up a package code from the booking page so the client can see what's left
+// before booking with it. Clients can't read purchases themselves.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { studioId, code } = await request.json()
+
+    if (!studioId || !code) {
+      return Response.json(
+        { error: 'Missing required fields: studioId, code' },
+        { status: 400 }
+      )
+    }
+
+    const balance = await getPackageBalance(supabase, studioId, code)
+    if (!balance || balance.status === 'cancelled') {
+      return Response.json({ valid: false, error: "That package code isn't valid" })
+    }
+
+    return Response.json({
+      valid: true,
+      balance: {
+        code: balance.code,
+        package_name: balance.package_name,
+        status: balance.status,
+        credit_type: balance.credit_type,
+        categories: balance.categories,
+        expires_at: balance.expires_at,
+        credits_remaining: balance.credits_remaining,
+      },
+    })
+
+  } catch (error: any) {
+    console.error('Error checking package balance:', error)
+    return Response.json(
+      { error: 'Failed to check package', details: error.message },
+      { status: 500 }
+    )
+  }
+}
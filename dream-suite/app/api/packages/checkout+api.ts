@@ -0,0 +1,138 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { generatePackageCode } from '../../../lib/package-credits'
+import { getDestinationChargeData } from '../../../lib/stripe-connect'
+import { calculateBookingCharges, getStudioCurrency } from '../../../utils/charges'
+import { getPackageCredits } from '../../../utils/packages'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+})
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Buy a package from a studio's booking page. The purchase waits in
+// pending_payment until checkout.session.completed activates it and emails the code.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { packageId, clientName, clientEmail, returnUrl } = await request.json()
+
+    if (!packageId || !clientName || !clientEmail || !returnUrl) {
+      return Response.json(
+        { error: 'Missing required fields: packageId, clientName, clientEmail, returnUrl' },
+        { status: 400 }
+      )
+    }
+
+    const { data: pkg } = await supabase
+      .from('service_packages')
+      .select('*, studios(id, name, stripe_account_id, onboarded, country, currency, tax_rate_percent, tax_label)')
+      .eq('id', packageId)
+      .eq('active', true)
+      .single()
+
+    if (!pkg) {
+      return Response.json({ error: 'Package not found' }, { status: 404 })
+    }
+
+    if (!pkg.studios?.onboarded) {
+      return Response.json(
+        { error: 'This studio is not accepting payments yet' },
+        { status: 409 }
+      )
+    }
+
+    // Packages carry the studio's tax but not its booking fees, which are per session
+    const currency = getStudioCurrency(pkg.studios)
+    const { tax_cents: taxCents, tax_rate_percent: taxRate } = calculateBookingCharges(pkg.price_cents, {
+      tax_rate_percent: pkg.studios.tax_rate_percent,
+    })
+
+    const { data: purchase, error: purchaseError } = await supabase
+      .from('package_purchases')
+      .insert({
+        package_id: pkg.id,
+        studio_id: pkg.studio_id,
+        package_name: pkg.name,
+        client_name: clientName.trim(),
+        client_email: clientEmail.trim().toLowerCase(),
+        credit_type: pkg.credit_type,
+        credits_total: getPackageCredits(pkg),
+        categories: pkg.categories,
+        price_cents: pkg.price_cents,
+        tax_cents: taxCents,
+        currency,
+        valid_days: pkg.valid_days,
+        code: generatePackageCode(),
+      })
+      .select()
+      .single()
+
+    if (purchaseError) throw purchaseError
+
+    const separator = returnUrl.includes('?') ? '&' : '?'
+
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ['card'],
+      mode: 'payment',
+      line_items: [
+        {
+          price_data: {
+            currency,
+            product_data: {
+              name: pkg.name,
+              description: pkg.description || `${pkg.studios.name} package`,
+            },
+            unit_amount: pkg.price_cents,
+          },
+          quantity: 1,
+        },
+        ...(taxCents > 0 ? [{
+          price_data: {
+            currency,
+            product_data: { name: `${pkg.studios.tax_label || 'Tax'} (${taxRate}%)` },
+            unit_amount: taxCents,
+          },
+          quantity: 1,
+        }] : []),
+      ],
+      customer_email: purchase.client_email,
+      metadata: {
+        package_purchase_id: purchase.id,
+        payment_type: 'package',
+        client_name: purchase.client_name,
+      },
+      payment_intent_data: getDestinationChargeData(pkg.studios, pkg.price_cents + taxCents),
+      success_url: `${returnUrl}${separator}package=purchased`,
+      cancel_url: `${returnUrl}${separator}package=cancelled`,
+    })
+
+    const { error: sessionError } = await supabase
+      .from('package_purchases')
+      .update({ stripe_session_id: session.id, updated_at: new Date().toISOString() })
+      .eq('id', purchase.id)
+
+    if (sessionError) {
+      console.error('Error saving package checkout session:', sessionError)
+    }
+
+    return Response.json({
+      success: true,
+      session: {
+        id: session.id,
+        url: session.url,
+      },
+    })
+
+  } catch (error: any) {
+    console.error('Error creating package checkout:', error)
+    return Response.json(
+      { error: 'Failed to create package checkout', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { sendBookingEmails } from '../../../lib/booking-emails'
+import { redeemPackageCredits } from '../../../lib/package-credits'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+})
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Book with package credits instead of paying at checkout. A series is redeemed
+// through its first session, covering every session still held.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { bookingId, seriesId, code } = await request.json()
+
+    if (!bookingId || !code) {
+      return Response.json(
+        { error: 'Missing required fields: bookingId, code' },
+        { status: 400 }
+      )
+    }
+
+    let bookingQuery = supabase
+      .from('bookings')
+      .select('id, studio_id, status, client_email, start_time, end_time, hold_expires_at, stripe_session_id, total_price_cents, tax_cents, fee_cents, service_id')
+
+    bookingQuery = seriesId
+      ? bookingQuery.eq('series_id', seriesId).eq('status', 'pending_payment')
+      : bookingQuery.eq('id', bookingId)
+
+    const { data: bookings, error: bookingError } = await bookingQuery
+    const booking = bookings?.find(row => row.id === bookingId)
+
+    if (bookingError || !booking) {
+      return Response.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    const holdExpired = bookings!.some(row =>
+      row.hold_expires_at && new Date(row.hold_expires_at).getTime() <= Date.now()
+    )
+    if (booking.status !== 'pending_payment' || holdExpired) {
+      return Response.json(
+        { error: 'This time slot is no longer reserved. Please book again.' },
+        { status: 409 }
+      )
+    }
+
+    // Packages can be limited to certain kinds of service
+    const { data: service } = await supabase
+      .from('services')
+      .select('category')
+      .eq('id', booking.service_id)
+      .single()
+
+    const redeemed = await redeemPackageCredits(
+      supabase,
+      booking.studio_id,
+      code,
+      bookings!,
+      service?.category || 'other'
+    )
+
+    if ('error' in redeemed) {
+      return Response.json({ error: redeemed.error }, { status: 400 })
+    }
+
+    // Close the checkout the client opened before choosing credits, so it can't be paid too
+    for (const sessionId of new Set(bookings!.map(row => row.stripe_session_id).filter(Boolean))) {
+      try {
+        await stripe.checkout.sessions.expire(sessionId)
+      } catch (err: any) {
+        // Already expired on Stripe's side
+        console.error(`Could not expire session ${sessionId}:`, err.message)
+      }
+    }
+
+    await sendBookingEmails(supabase, bookingId)
+
+    return Response.json({
+      success: true,
+      credits_remaining: redeemed.balance.credits_remaining,
+      credit_type: redeemed.balance.credit_type,
+    })
+
+  } catch (error: any) {
+    console.error('Error redeeming package credits:', error)
+    return Response.json(
+      { error: 'Failed to book with package credits', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,113 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { getBalanceCheckoutSession } from '../../../lib/balance-payments'
+import { getBalanceDueCents } from '../../../utils/payments'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+})
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Bookings that can still take a balance payment
+const payableStatuses = ['confirmed', 'in_progress', 'completed']
+
+async function getPayableBooking(bookingId: string) {
+  const { data: booking } = await supabase
+    .from('bookings')
+    .select('*, services(*), studios(*)')
+    .eq('id', bookingId)
+    .single()
+
+  if (!booking || !payableStatuses.includes(booking.status) || getBalanceDueCents(booking) <= 0) {
+    return null
+  }
+
+  return booking
+}
+
+// Payment link from the balance email: straight to Stripe Checkout (the one
+// already open, if the link was clicked before), or to the booking's page if
+// there's nothing left to pay
+export async function GET(request: ExpoRequest): Promise<Response> {
+  const origin = new URL(request.url).origin
+  const bookingId = new URL(request.url).searchParams.get('booking')
+
+  if (!bookingId) {
+    return Response.json({ error: 'Missing booking' }, { status: 400 })
+  }
+
+  try {
+    const booking = await getPayableBooking(bookingId)
+    if (!booking) {
+      return Response.redirect(`${origin}/booking/success/${bookingId}`, 303)
+    }
+
+    const session = await getBalanceCheckoutSession(
+      supabase,
+      stripe,
+      booking,
+      `${origin}/booking/success/${bookingId}?session_id={CHECKOUT_SESSION_ID}`,
+      `${origin}/booking/success/${bookingId}`
+    )
+
+    return Response.redirect(session.url!, 303)
+
+  } catch (error: any) {
+    console.error('Error creating balance payment session:', error)
+    return Response.json(
+      { error: 'Failed to create payment session', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Balance checkout started from the app (StripeBookingService.createFinalPayment)
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { bookingId, returnUrl } = await request.json()
+
+    if (!bookingId || !returnUrl) {
+      return Response.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const booking = await getPayableBooking(bookingId)
+    if (!booking) {
+      return Response.json(
+        { error: 'This booking has no balance to pay' },
+        { status: 409 }
+      )
+    }
+
+    const session = await getBalanceCheckoutSession(
+      supabase,
+      stripe,
+      booking,
+      `${returnUrl}?session_id={CHECKOUT_SESSION_ID}`,
+      returnUrl
+    )
+
+    return Response.json({
+      success: true,
+      session: {
+        id: session.id,
+        url: session.url,
+        expires_at: new Date(session.expires_at * 1000).toISOString(),
+      },
+    })
+
+  } catch (error: any) {
+    console.error('Error creating balance payment session:', error)
+    return Response.json(
+      { error: 'Failed to create payment session', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { collectBalance } from '../../../lib/balance-payments'
+import { BALANCE_DUE_HOURS_BEFORE_SESSION, getBalanceDueAt } from '../../../utils/payments'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+})
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Sessions that ended longer ago than this are left for the studio to follow up
+const MAX_DAYS_AFTER_SESSION = 7
+
+// Balance collector: charges (or emails a payment link for) the rest of every
+// booking whose balance has come due under its studio's timing. Run on a
+// schedule (see vercel.json).
+async function collectBalances(request: ExpoRequest): Promise<Response> {
+  const cronSecret = process.env.CRON_SECRET
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const now = Date.now()
+
+    const { data: bookings, error } = await supabase
+      .from('bookings')
+      .select('*, services(*), studios(*)')
+      .in('status', ['confirmed', 'in_progress', 'completed'])
+      .in('payment_status', ['pending', 'deposit_paid'])
+      .is('balance_requested_at', null)
+      .lte('start_time', new Date(now + BALANCE_DUE_HOURS_BEFORE_SESSION * 60 * 60 * 1000).toISOString())
+      .gte('end_time', new Date(now - MAX_DAYS_AFTER_SESSION * 24 * 60 * 60 * 1000).toISOString())
+
+    if (error) throw error
+
+    const results = { charged: 0, requested: 0, skipped: 0 }
+    const origin = new URL(request.url).origin
+
+    for (const booking of bookings || []) {
+      if (getBalanceDueAt(booking, booking.studios).getTime() > now) continue
+
+      try {
+        results[await collectBalance(supabase, stripe, booking, origin)]++
+      } catch (err: any) {
+        console.error(`Error collecting balance for booking ${booking.id}:`, err.message)
+      }
+    }
+
+    return Response.json({ success: true, ...results })
+
+  } catch (error: any) {
+    console.error('Error collecting balances:', error)
+    return Response.json(
+      { error: 'Failed to collect balances', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron calls with GET
+export async function GET(request: ExpoRequest): Promise<Response> {
+  return collectBalances(request)
+}
+
+export async function POST(request: ExpoRequest): Promise<Response> {
+  return collectBalances(request)
+}
@@ -1,75 +1,240 @@
 import { ExpoRequest, ExpoResponse } from 'expo-router/server'
 import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { applyBookingCharges, getCheckoutLineItems, withoutCharges } from '../../../lib/booking-charges'
+import { applyPromoCode, checkPromoCode } from '../../../lib/promo-codes'
+import { getDestinationChargeData } from '../../../lib/stripe-connect'
+import { PromoCode } from '../../../types/booking'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-06-20',
 })
 
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// How long a slot stays reserved while the client pays. Stripe wants a session to
+// stay open at least 30 minutes from when it creates it, so allow for the request
+const CHECKOUT_SESSION_MINUTES = 32
+
+// Stripe won't take a card payment smaller than this (in USD, about the same elsewhere)
+const MINIMUM_CHARGE_CENTS = 50
+
 export async function POST(request: ExpoRequest): Promise<Response> {
   try {
     const body = await request.json()
     const { 
       bookingId,
-      serviceId,
       serviceName,
-      priceCents,
       clientName,
       clientEmail,
-      requiresDeposit,
-      depositPercentage,
+      seriesId,
+      promoCode: code,
       returnUrl
     } = body
 
-    if (!bookingId || !serviceId || !priceCents || !returnUrl) {
+    if (!bookingId || !returnUrl) {
       return Response.json(
         { error: 'Missing required fields' },
         { status: 400 }
       )
     }
 
-    // Calculate amount (deposit if required, otherwise full price)
-    let amount = priceCents
-    let description = `${serviceName} - Full Payment`
-    
-    if (requiresDeposit && depositPercentage) {
-      amount = Math.round(priceCents * (depositPercentage / 100))
+    // Only bookings still holding their slot can be paid for. A series is paid
+    // through its first session and holds every session until checkout ends.
+    let bookingQuery = supabase
+      .from('bookings')
+      .select('id, studio_id, service_id, status, hold_expires_at, stripe_session_id, total_price_cents, original_price_cents, promo_code_id, tax_cents, tax_rate_percent, fee_cents')
+
+    bookingQuery = seriesId
+      ? bookingQuery.eq('series_id', seriesId).eq('status', 'pending_payment')
+      : bookingQuery.eq('id', bookingId)
+
+    const { data: heldBookings, error: bookingError } = await bookingQuery
+    let bookings = heldBookings
+    let booking = bookings?.find(row => row.id === bookingId)
+
+    if (bookingError || !booking) {
+      return Response.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    const holdExpired = bookings!.some(row =>
+      row.hold_expires_at && new Date(row.hold_expires_at).getTime() <= Date.now()
+    )
+    if (booking.status !== 'pending_payment' || holdExpired) {
+      return Response.json(
+        { error: 'This time slot is no longer reserved. Please book again.' },
+        { status: 409 }
+      )
+    }
+
+    // Paying again (say after coming back from checkout's cancel page) replaces the
+    // checkout already opened for the booking, unless the client finished that one
+    const previousSessionId = booking.stripe_session_id
+    if (previousSessionId) {
+      const previous = await stripe.checkout.sessions.retrieve(previousSessionId)
+      if (previous.status === 'complete') {
+        return Response.json(
+          { error: 'This booking has already been paid for' },
+          { status: 409 }
+        )
+      }
+    }
+
+    // Payments go to the studio's connected Stripe account
+    const { data: studio } = await supabase
+      .from('studios')
+      .select('id, stripe_account_id, onboarded, country, currency, tax_rate_percent, tax_label, booking_fee_cents, processing_fee_percent')
+      .eq('id', booking.studio_id)
+      .single()
+
+    if (!studio?.onboarded) {
+      return Response.json(
+        { error: 'This studio is not accepting payments yet' },
+        { status: 409 }
+      )
+    }
+
+    // Sessions are charged at the service's price and deposit, whatever the
+    // booking page wrote on the booking
+    const { data: service } = await supabase
+      .from('services')
+      .select('price_cents, requires_deposit, deposit_percentage')
+      .eq('id', booking.service_id)
+      .single()
+
+    if (!service) {
+      return Response.json(
+        { error: 'Service not found' },
+        { status: 404 }
+      )
+    }
+
+    // Promo codes from the booking page are checked again here before any discount
+    let promoCode: PromoCode | null = null
+    if (code) {
+      const checked = await checkPromoCode(supabase, booking.studio_id, code, booking.service_id, seriesId || bookingId)
+      if ('error' in checked) {
+        return Response.json({ error: checked.error }, { status: 400 })
+      }
+      promoCode = checked.promoCode
+    }
+
+    // Price before tax and fees (a retried checkout already has them), then add
+    // them back on the discounted price at the studio's current rates
+    const atServicePrice = bookings!.map(row => ({
+      ...withoutCharges(row),
+      total_price_cents: service.price_cents,
+      original_price_cents: undefined,
+    }))
+    const priced = await applyPromoCode(supabase, atServicePrice, promoCode, bookingId)
+    if ('error' in priced) {
+      return Response.json({ error: priced.error }, { status: 400 })
+    }
+    bookings = await applyBookingCharges(supabase, priced.bookings, studio)
+    booking = bookings.find(row => row.id === bookingId)!
+
+    let paymentMode = 'single'
+    if (seriesId) {
+      const { data: series } = await supabase
+        .from('booking_series')
+        .select('payment_mode')
+        .eq('id', seriesId)
+        .single()
+
+      paymentMode = series?.payment_mode || 'per_session'
+    }
+
+    // Hold the slot for as long as the checkout session stays open
+    const holdExpiresAt = new Date(Date.now() + CHECKOUT_SESSION_MINUTES * 60 * 1000)
+
+    // Calculate amount (deposit if required, otherwise full price) from the booked
+    // prices. Paying for a whole series up front covers every session still held.
+    const chargedBookings = paymentMode === 'series' ? bookings! : [booking]
+    const depositPercentage = service.deposit_percentage || 0
+    const takesDeposit = !!(service.requires_deposit && depositPercentage)
+    const amount = chargedBookings.reduce((sum, row) => sum + (takesDeposit
+      ? Math.round(row.total_price_cents * (depositPercentage / 100))
+      : row.total_price_cents), 0)
+
+    if (amount < MINIMUM_CHARGE_CENTS) {
+      return Response.json(
+        { error: 'With this discount there is nothing to pay online. Please contact the studio to book.' },
+        { status: 400 }
+      )
+    }
+
+    let description = `${serviceName} - ${chargedBookings.length > 1 ? `${chargedBookings.length} Sessions` : 'Full Payment'}`
+    if (takesDeposit) {
       description = `${serviceName} - ${depositPercentage}% Deposit`
     }
+    if (promoCode) {
+      description += ` (${promoCode.code} applied)`
+    }
+
+    // Save the card when something is left to pay later, so the balance (or the
+    // next sessions of a pay-per-session series) can be charged without checkout
+    const savesCard = takesDeposit || paymentMode === 'per_session'
 
     // Create Stripe checkout session
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
       mode: 'payment',
-      line_items: [
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: serviceName,
-              description: description,
-            },
-            unit_amount: amount,
-          },
-          quantity: 1,
-        },
-      ],
+      line_items: getCheckoutLineItems(chargedBookings, { name: serviceName, description }, studio, amount),
       customer_email: clientEmail,
       metadata: {
         booking_id: bookingId,
-        service_id: serviceId,
-        is_deposit: requiresDeposit ? 'true' : 'false',
+        service_id: booking.service_id,
+        is_deposit: takesDeposit ? 'true' : 'false',
         client_name: clientName,
+        ...(seriesId ? { series_id: seriesId } : {}),
+        ...(promoCode ? { promo_code: promoCode.code } : {}),
+      },
+      ...(savesCard ? { customer_creation: 'always' as const } : {}),
+      payment_intent_data: {
+        ...getDestinationChargeData(studio, amount),
+        ...(savesCard ? { setup_future_usage: 'off_session' as const } : {}),
       },
       success_url: `${returnUrl}?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: returnUrl.replace('/success/', '/cancel/'),
-      expires_at: Math.floor(Date.now() / 1000) + (30 * 60), // 30 minutes
+      expires_at: Math.floor(holdExpiresAt.getTime() / 1000),
     })
 
+    const { error: holdError } = await supabase
+      .from('bookings')
+      .update({
+        hold_expires_at: holdExpiresAt.toISOString(),
+        stripe_session_id: session.id,
+        updated_at: new Date().toISOString(),
+      })
+      .in('id', bookings!.map(row => row.id))
+
+    if (holdError) {
+      console.error('Error extending booking hold:', holdError)
+    }
+
+    // Only now that the booking points at the new checkout, so the old one's
+    // checkout.session.expired event leaves the booking alone
+    if (previousSessionId && !holdError) {
+      try {
+        await stripe.checkout.sessions.expire(previousSessionId)
+      } catch (err: any) {
+        // Already expired on Stripe's side
+        console.error(`Could not expire session ${previousSessionId}:`, err.message)
+      }
+    }
+
     return Response.json({
       success: true,
       session: {
         id: session.id,
         url: session.url,
+        expires_at: holdExpiresAt.toISOString(),
       },
     })
 
@@ -0,0 +1,133 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { getBookingPayments, getRefundSources, recordBookingPayment } from '../../../lib/payment-ledger'
+import { getRequestUser } from '../../../lib/request-auth'
+import { getPaidCents, getRefundableCents } from '../../../utils/payments'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+})
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * Refund a booking. Without an amount the studio's cancellation policy decides how
+ * much comes back; a studio can pass an amount to refund more (up to what's left).
+ * Only the studio's owner can refund.
+ */
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { bookingId, amount, reason } = await request.json()
+
+    if (!bookingId) {
+      return Response.json(
+        { error: 'Missing required fields: bookingId' },
+        { status: 400 }
+      )
+    }
+
+    const user = await getRequestUser(supabase, request)
+    if (!user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select('*, studios(*)')
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !booking) {
+      return Response.json({ error: 'Booking not found' }, { status: 404 })
+    }
+
+    if (booking.studios?.owner_id !== user.id) {
+      return Response.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    const remainingCents = getPaidCents(booking) - (booking.refunded_cents || 0)
+    const refundCents = amount !== undefined && amount !== null
+      ? Math.min(Math.max(0, Math.round(amount)), remainingCents)
+      : getRefundableCents(booking, booking.studios)
+
+    if (refundCents <= 0) {
+      return Response.json({
+        success: true,
+        refunded_cents: 0,
+        payment_status: booking.payment_status,
+      })
+    }
+
+    let refundId: string | undefined
+    let toRefund = refundCents
+
+    const payments = await getBookingPayments(supabase, booking.id)
+
+    for (const source of getRefundSources(payments)) {
+      if (toRefund <= 0) break
+      const cents = Math.min(toRefund, source.cents)
+
+      // A payment sent on to the studio's connected account is taken back from it,
+      // along with the platform's fee on the refunded amount
+      const paymentIntent = await stripe.paymentIntents.retrieve(source.paymentIntentId)
+      const fromStudio = !!paymentIntent.transfer_data?.destination
+
+      // Keyed on what had been refunded from this payment before, so a double
+      // submit refunds once but a later refund of the same payment goes through
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: source.paymentIntentId,
+          amount: cents,
+          reason: 'requested_by_customer',
+          ...(fromStudio ? { reverse_transfer: true, refund_application_fee: true } : {}),
+          metadata: { booking_id: booking.id, reason: reason || 'Booking cancelled' },
+        },
+        { idempotencyKey: `refund-${booking.id}-${source.paymentIntentId}-${source.refundedCents}-${cents}` }
+      )
+
+      await recordBookingPayment(supabase, {
+        booking_id: booking.id,
+        kind: 'refund',
+        amount_cents: -cents,
+        stripe_payment_intent_id: source.paymentIntentId,
+        stripe_refund_id: refund.id,
+        description: reason || 'Booking cancelled',
+      })
+
+      refundId = refundId || refund.id
+      toRefund -= cents
+    }
+
+    if (toRefund === refundCents) {
+      return Response.json(
+        { error: 'No payment to refund for this booking' },
+        { status: 400 }
+      )
+    }
+
+    // The ledger has already moved the booking to refunded or partially_refunded
+    const { data: refunded } = await supabase
+      .from('bookings')
+      .select('payment_status')
+      .eq('id', booking.id)
+      .single()
+
+    return Response.json({
+      success: true,
+      refund_id: refundId,
+      refunded_cents: refundCents - toRefund,
+      payment_status: refunded?.payment_status,
+    })
+
+  } catch (error: any) {
+    console.error('Error processing refund:', error)
+    return Response.json(
+      { error: 'Failed to process refund', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../lib/request-auth'
+import { processStripeEvent } from '../../../lib/stripe-webhooks'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+})
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Run a stored webhook event that failed through the handlers again, from the admin
+// booking screen. Only the owner of the studio the event is about can replay it,
+// whether or not it names a booking.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { eventId } = await request.json()
+
+    if (!eventId) {
+      return Response.json(
+        { error: 'Missing required fields: eventId' },
+        { status: 400 }
+      )
+    }
+
+    const user = await getRequestUser(supabase, request)
+    if (!user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: storedEvent } = await supabase
+      .from('stripe_events')
+      .select('*')
+      .eq('id', eventId)
+      .single()
+
+    if (!storedEvent || !storedEvent.studio_id) {
+      return Response.json({ error: 'Event not found' }, { status: 404 })
+    }
+
+    const { data: studio } = await supabase
+      .from('studios')
+      .select('owner_id')
+      .eq('id', storedEvent.studio_id)
+      .single()
+
+    if (studio?.owner_id !== user.id) {
+      return Response.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    if (storedEvent.status !== 'failed') {
+      return Response.json(
+        { error: `Only failed events can be replayed (this one is ${storedEvent.status})` },
+        { status: 400 }
+      )
+    }
+
+    const result = await processStripeEvent(
+      supabase,
+      stripe,
+      storedEvent.payload as Stripe.Event,
+      new URL(request.url).origin
+    )
+
+    return Response.json({
+      success: result === 'processed',
+      status: result,
+    })
+
+  } catch (error: any) {
+    console.error('Error replaying Stripe event:', error)
+    return Response.json(
+      { error: 'Failed to replay event', details: error.message },
+      { status: 500 }
+    )
+  }
+}
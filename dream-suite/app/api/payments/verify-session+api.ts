@@ -1,6 +1,8 @@
 import { ExpoRequest, ExpoResponse } from 'expo-router/server'
 import Stripe from 'stripe'
 import { createClient } from '@supabase/supabase-js'
+import { recordBalancePayment } from '../../../lib/balance-payments'
+import { recordBookingPayment } from '../../../lib/payment-ledger'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-06-20',
@@ -45,20 +47,41 @@ export async function POST(request: ExpoRequest): Promise<Response> {
       )
     }
 
-    // Update booking status if payment was successful and not already updated
-    if (isPaymentSuccessful) {
+    // A balance payment only settles the amount; the booking itself is unchanged
+    if (isPaymentSuccessful && session.metadata?.payment_type === 'balance') {
+      await recordBalancePayment(
+        supabase,
+        bookingId,
+        session.amount_total || 0,
+        session.payment_intent as string | null,
+        session.id
+      )
+    } else if (isPaymentSuccessful) {
       const isDeposit = session.metadata?.is_deposit === 'true'
-      const newPaymentStatus = isDeposit ? 'deposit_paid' : 'paid'
+
+      // A series checkout is split across its sessions by the webhook
+      if (!session.metadata?.series_id) {
+        await recordBookingPayment(supabase, {
+          booking_id: bookingId,
+          kind: 'charge',
+          payment_type: isDeposit ? 'deposit' : 'full',
+          amount_cents: session.amount_total || 0,
+          stripe_session_id: session.id,
+          stripe_payment_intent_id: (session.payment_intent as string | null) || undefined,
+        })
+      }
       
       const { error: updateError } = await supabase
         .from('bookings')
         .update({
           status: 'confirmed',
-          payment_status: newPaymentStatus,
           stripe_session_id: sessionId,
+          stripe_payment_intent_id: session.payment_intent as string | null,
           updated_at: new Date().toISOString(),
         })
         .eq('id', bookingId)
+        // One cancelled before the payment arrived is refunded by the webhook instead
+        .eq('status', 'pending_payment')
 
       if (updateError) {
         console.error('Error updating booking:', updateError)
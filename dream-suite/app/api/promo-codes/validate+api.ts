@@ -0,0 +1,46 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { checkPromoCode } from '../../../lib/promo-codes'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Check a promo code from the booking page so the client sees their discount
+// before paying. create-session checks it again when the discount is applied.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { studioId, serviceId, code } = await request.json()
+
+    if (!studioId || !serviceId || !code) {
+      return Response.json(
+        { error: 'Missing required fields: studioId, serviceId, code' },
+        { status: 400 }
+      )
+    }
+
+    const checked = await checkPromoCode(supabase, studioId, code, serviceId)
+    if ('error' in checked) {
+      return Response.json({ valid: false, error: checked.error })
+    }
+
+    const { promoCode } = checked
+
+    return Response.json({
+      valid: true,
+      promoCode: {
+        code: promoCode.code,
+        discount_type: promoCode.discount_type,
+        discount_value: promoCode.discount_value,
+      },
+    })
+
+  } catch (error: any) {
+    console.error('Error checking promo code:', error)
+    return Response.json(
+      { error: 'Failed to check promo code', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { getTwilioWebhookUrl, verifyTwilioSignature } from '../../../lib/sms-transport'
+import { isOptInMessage, isOptOutMessage } from '../../../utils/sms'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// An empty reply; Twilio answers STOP and START itself
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>'
+
+const twiml = (): Response => new Response(EMPTY_TWIML, { headers: { 'Content-Type': 'text/xml' } })
+
+// Texts clients send back to the studio's number (the number's "A message comes
+// in" webhook). STOP and the other opt-out words stop every text to that number,
+// from any studio, until it replies START.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  const params = Object.fromEntries(new URLSearchParams(await request.text()))
+
+  if (!verifyTwilioSignature(getTwilioWebhookUrl('/api/sms/inbound'), params, request.headers.get('x-twilio-signature'))) {
+    console.error('Twilio inbound signature verification failed')
+    return Response.json({ error: 'Invalid signature' }, { status: 403 })
+  }
+
+  try {
+    const phone = params.From
+    const message = params.Body || ''
+
+    if (!phone) {
+      return twiml()
+    }
+
+    if (isOptOutMessage(message)) {
+      const { error } = await supabase
+        .from('sms_opt_outs')
+        .upsert({ phone }, { onConflict: 'phone', ignoreDuplicates: true })
+
+      if (error) throw error
+    } else if (isOptInMessage(message)) {
+      const { error } = await supabase
+        .from('sms_opt_outs')
+        .delete()
+        .eq('phone', phone)
+
+      if (error) throw error
+    }
+
+    return twiml()
+
+  } catch (error: any) {
+    console.error('Error handling inbound text:', error)
+    return Response.json(
+      { error: 'Inbound text processing failed', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { sendSms } from '../../../lib/notifications'
+import { getRequestUser, isInternalRequest } from '../../../lib/request-auth'
+import { SendSmsRequest, SmsType } from '../../../types/booking'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const SMS_TYPES: SmsType[] = [
+  'booking-confirmation',
+  'booking-reminder',
+  'booking-reschedule',
+  'booking-cancellation',
+]
+
+// Texts a booking's client. Server code can text about any booking (see
+// isInternalRequest); a studio owner only about their studio's.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const body: SendSmsRequest = await request.json()
+    const { type, bookingId, reminderType, reason, sessionCount } = body
+
+    if (!type || !bookingId) {
+      return Response.json(
+        { error: 'Missing required fields: type, bookingId' },
+        { status: 400 }
+      )
+    }
+
+    if (!SMS_TYPES.includes(type)) {
+      return Response.json({ error: `Unknown text type: ${type}` }, { status: 400 })
+    }
+
+    if (type === 'booking-reminder' && !reminderType) {
+      return Response.json(
+        { error: 'Missing required fields: reminderType' },
+        { status: 400 }
+      )
+    }
+
+    if (!isInternalRequest(request)) {
+      const user = await getRequestUser(supabase, request)
+      if (!user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const { data: booking } = await supabase
+        .from('bookings')
+        .select('studios(owner_id)')
+        .eq('id', bookingId)
+        .single()
+
+      if ((booking?.studios as { owner_id?: string } | null)?.owner_id !== user.id) {
+        return Response.json({ error: 'Unauthorized' }, { status: 403 })
+      }
+    }
+
+    // Only what the text is written from; the server writes it
+    const notification = await sendSms(supabase, { type, bookingId, reminderType, reason, sessionCount })
+
+    // Texts are off for the studio, the client didn't ask for them, or they replied STOP
+    if (!notification) {
+      return Response.json({ success: true, skipped: true })
+    }
+
+    if (notification.status === 'failed') {
+      return Response.json(
+        { error: 'Failed to send text', details: notification.error, notificationId: notification.id },
+        { status: 500 }
+      )
+    }
+
+    return Response.json({
+      success: true,
+      messageId: notification.provider_message_id,
+      notificationId: notification.id,
+    })
+
+  } catch (error: any) {
+    console.error('Error sending text:', error)
+    return Response.json(
+      { error: 'Failed to send text', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { getTwilioWebhookUrl, verifyTwilioSignature } from '../../../lib/sms-transport'
+import { updateDeliveryStatus } from '../../../lib/notifications'
+import { Notification } from '../../../types/booking'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Twilio's message statuses that mean something for the notification; queued,
+// sending and sent are all still "sent" to us
+const MESSAGE_STATUSES: Record<string, Notification['status']> = {
+  delivered: 'delivered',
+  undelivered: 'bounced',
+  failed: 'failed',
+}
+
+// Twilio's status callback for each text (set as StatusCallback when it's sent)
+export async function POST(request: ExpoRequest): Promise<Response> {
+  const params = Object.fromEntries(new URLSearchParams(await request.text()))
+
+  if (!verifyTwilioSignature(getTwilioWebhookUrl('/api/sms/status'), params, request.headers.get('x-twilio-signature'))) {
+    console.error('Twilio status signature verification failed')
+    return Response.json({ error: 'Invalid signature' }, { status: 403 })
+  }
+
+  try {
+    const status = MESSAGE_STATUSES[params.MessageStatus]
+    const messageId = params.MessageSid
+
+    if (!status || !messageId) {
+      return Response.json({ received: true, ignored: true })
+    }
+
+    const updated = await updateDeliveryStatus(
+      supabase,
+      'twilio',
+      messageId,
+      status,
+      params.ErrorCode ? `Twilio error ${params.ErrorCode}` : undefined
+    )
+
+    return Response.json({ received: true, updated })
+
+  } catch (error: any) {
+    console.error('Error handling Twilio status callback:', error)
+    return Response.json(
+      { error: 'Status callback processing failed', details: error.message },
+      { status: 500 }
+    )
+  }
+}
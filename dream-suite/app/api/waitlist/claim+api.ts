@@ -0,0 +1,122 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { applyBookingCharges, getCheckoutLineItems, withoutCharges } from '../../../lib/booking-charges'
+import { getDestinationChargeData } from '../../../lib/stripe-connect'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+})
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Stripe Checkout sessions must stay open at least 30 minutes from when Stripe
+// creates them; the margin allows for the request getting there
+const MIN_CHECKOUT_MINUTES = 32
+
+// The claim link from a waitlist offer email. Sends the client straight to Stripe
+// Checkout for the held booking, or back to the studio's booking page if the offer
+// is no longer open.
+export async function GET(request: ExpoRequest): Promise<Response> {
+  const origin = new URL(request.url).origin
+  const token = new URL(request.url).searchParams.get('token')
+
+  if (!token) {
+    return Response.json({ error: 'Missing claim token' }, { status: 400 })
+  }
+
+  try {
+    const { data: entry, error: entryError } = await supabase
+      .from('waitlist_entries')
+      .select('*')
+      .eq('claim_token', token)
+      .single()
+
+    if (entryError || !entry) {
+      return Response.json({ error: 'Offer not found' }, { status: 404 })
+    }
+
+    const { data: booking } = entry.booking_id
+      ? await supabase
+          .from('bookings')
+          .select('*, services(*), studios(*)')
+          .eq('id', entry.booking_id)
+          .single()
+      : { data: null }
+
+    const offerOpen = entry.status === 'offered' &&
+      booking?.status === 'pending_payment' &&
+      new Date(entry.offer_expires_at).getTime() > Date.now()
+
+    if (!offerOpen) {
+      return Response.redirect(`${origin}/booking/${entry.studio_id}`, 303)
+    }
+
+    // Clicking the link again reuses the checkout that's already open
+    if (booking.stripe_session_id) {
+      const existing = await stripe.checkout.sessions.retrieve(booking.stripe_session_id)
+      if (existing.status === 'open' && existing.url) {
+        return Response.redirect(existing.url, 303)
+      }
+    }
+
+    const service = booking.services
+    const [charged] = await applyBookingCharges(supabase, [withoutCharges(booking)], booking.studios)
+    let amount = charged.total_price_cents
+    let description = `${service.name} - Full Payment`
+
+    if (service.requires_deposit && service.deposit_percentage) {
+      amount = Math.round(charged.total_price_cents * (service.deposit_percentage / 100))
+      description = `${service.name} - ${service.deposit_percentage}% Deposit`
+    }
+
+    // Keep holding the slot for as long as checkout is open
+    const holdExpiresAt = new Date(Math.max(
+      new Date(entry.offer_expires_at).getTime(),
+      Date.now() + MIN_CHECKOUT_MINUTES * 60 * 1000
+    ))
+
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ['card'],
+      mode: 'payment',
+      line_items: getCheckoutLineItems([charged], { name: service.name, description }, booking.studios, amount),
+      customer_email: booking.client_email,
+      metadata: {
+        booking_id: booking.id,
+        service_id: service.id,
+        is_deposit: service.requires_deposit ? 'true' : 'false',
+        client_name: booking.client_name,
+        waitlist_entry_id: entry.id,
+      },
+      payment_intent_data: getDestinationChargeData(booking.studios, amount),
+      success_url: `${origin}/booking/success/${booking.id}?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${origin}/booking/cancel/${booking.id}`,
+      expires_at: Math.floor(holdExpiresAt.getTime() / 1000),
+    })
+
+    const { error: holdError } = await supabase
+      .from('bookings')
+      .update({
+        hold_expires_at: holdExpiresAt.toISOString(),
+        stripe_session_id: session.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', booking.id)
+
+    if (holdError) {
+      console.error('Error extending waitlist booking hold:', holdError)
+    }
+
+    return Response.redirect(session.url!, 303)
+
+  } catch (error: any) {
+    console.error('Error claiming waitlist offer:', error)
+    return Response.json(
+      { error: 'Failed to claim waitlist offer', details: error.message },
+      { status: 500 }
+    )
+  }
+}
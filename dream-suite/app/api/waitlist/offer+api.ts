@@ -0,0 +1,38 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server'
+import { createClient } from '@supabase/supabase-js'
+import { offerFreedSlot } from '../../../lib/waitlist-offers'
+
+const supabase = createClient(
+  process.env.EXPO_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Called after a booking is cancelled so the next client on the waitlist is offered
+// its slot. Safe to call more than once: only cancelled bookings are looked at, and
+// a slot that has already been offered or rebooked can't be held a second time.
+export async function POST(request: ExpoRequest): Promise<Response> {
+  try {
+    const { bookingId } = await request.json()
+
+    if (!bookingId) {
+      return Response.json(
+        { error: 'Missing required fields: bookingId' },
+        { status: 400 }
+      )
+    }
+
+    const entry = await offerFreedSlot(supabase, bookingId, new URL(request.url).origin)
+
+    return Response.json({
+      success: true,
+      offered: !!entry,
+    })
+
+  } catch (error: any) {
+    console.error('Error offering freed slot:', error)
+    return Response.json(
+      { error: 'Failed to offer slot to waitlist', details: error.message },
+      { status: 500 }
+    )
+  }
+}
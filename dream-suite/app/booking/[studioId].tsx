@@ -11,12 +11,37 @@ import {
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { useLocalSearchParams, useRouter } from 'expo-router'
-import { bookingService } from '../../lib/supabase-booking'
+import { bookingService, BookingError } from '../../lib/supabase-booking'
 import { stripeBookingService } from '../../lib/stripe-booking'
-import { Studio, Service, CreateBookingForm } from '../../types/booking'
+import {
+  Studio,
+  Service,
+  CreateBookingForm,
+  BookingSeries,
+  PackageBalance,
+  PromoCode,
+  SeriesOccurrencePreview,
+  ServicePackage,
+} from '../../types/booking'
+import { calculateBookingCharges, formatMoney, getStudioCurrency } from '../../utils/charges'
+import { formatCredits, getBookingCreditCost, getPackageCreditProblem, getPackageCredits } from '../../utils/packages'
+import { describePromoDiscount, getPromoDiscountCents } from '../../utils/promo-codes'
+import { MAX_SERIES_OCCURRENCES, RecurrenceRule, describeRecurrenceRule } from '../../utils/recurrence'
+import {
+  addCalendarDays,
+  formatCalendarDate,
+  formatDateInTimeZone,
+  formatTimeForStudioAndClient,
+  formatTimeInTimeZone,
+  getDeviceTimeZone,
+  getStudioTimeZone,
+  getTimeZoneAbbreviation,
+  getTimeZoneOffsetMinutes,
+  getZonedCalendarDate,
+} from '../../utils/timezone'
 
 export default function BookingScreen() {
-  const { studioId } = useLocalSearchParams<{ studioId: string }>()
+  const { studioId, package: packageResult } = useLocalSearchParams<{ studioId: string; package?: string }>()
   const router = useRouter()
   
   const [studio, setStudio] = useState<Studio | null>(null)
@@ -33,12 +58,49 @@ export default function BookingScreen() {
     client_name: '',
     client_email: '',
     client_phone: '',
+    sms_opt_in: false,
     start_time: '',
     notes: '',
   })
 
   const [modalVisible, setModalVisible] = useState(false)
 
+  // Waitlist for fully booked days
+  const [waitlistForm, setWaitlistForm] = useState({ client_name: '', client_email: '', client_phone: '' })
+  const [waitlistRange, setWaitlistRange] = useState<'day' | 'week'>('day')
+  const [waitlistJoined, setWaitlistJoined] = useState<string[]>([]) // dates already waitlisted
+
+  // Recurring sessions: 0 books a single session, otherwise weeks between sessions
+  const [repeatInterval, setRepeatInterval] = useState<0 | RecurrenceRule['interval']>(0)
+  const [sessionCount, setSessionCount] = useState(4)
+  const [seriesPreview, setSeriesPreview] = useState<SeriesOccurrencePreview[]>([])
+  const [paymentMode, setPaymentMode] = useState<BookingSeries['payment_mode']>('series')
+
+  // Promo code, checked when applied and again by the server at checkout
+  const [promoInput, setPromoInput] = useState('')
+  const [appliedPromo, setAppliedPromo] = useState<Pick<PromoCode, 'code' | 'discount_type' | 'discount_value'> | null>(null)
+  const [promoError, setPromoError] = useState('')
+  const [checkingPromo, setCheckingPromo] = useState(false)
+
+  // Prepaid packages: bought from the service step, their code used instead of paying
+  const [packages, setPackages] = useState<ServicePackage[]>([])
+  const [packageToBuy, setPackageToBuy] = useState<ServicePackage | null>(null)
+  const [packageBuyer, setPackageBuyer] = useState({ client_name: '', client_email: '' })
+  const [packageInput, setPackageInput] = useState('')
+  const [appliedPackage, setAppliedPackage] = useState<
+    Pick<PackageBalance, 'code' | 'package_name' | 'status' | 'credit_type' | 'categories' | 'expires_at' | 'credits_remaining'> | null
+  >(null)
+  const [packageError, setPackageError] = useState('')
+  const [checkingPackage, setCheckingPackage] = useState(false)
+
+  const recurrenceRule: RecurrenceRule | null = repeatInterval
+    ? { interval: repeatInterval, count: sessionCount }
+    : null
+  const availableOccurrences = seriesPreview.filter(occurrence => occurrence.available)
+
+  const studioTimeZone = getStudioTimeZone(studio)
+  const clientTimeZone = getDeviceTimeZone()
+
   useEffect(() => {
     if (studioId) {
       loadStudioData()
@@ -51,6 +113,16 @@ export default function BookingScreen() {
     }
   }, [selectedService, selectedDate])
 
+  // Back from buying a package; the code arrives by email once the payment clears
+  useEffect(() => {
+    if (packageResult === 'purchased') {
+      Alert.alert(
+        'Package Purchased',
+        "We're emailing you your package code. Enter it when you book to pay with your credits."
+      )
+    }
+  }, [packageResult])
+
   const loadStudioData = async () => {
     try {
       setLoading(true)
@@ -65,6 +137,9 @@ export default function BookingScreen() {
       
       const servicesData = await bookingService.getStudioServices(studioId!, true)
       setServices(servicesData)
+
+      const packagesData = await bookingService.getStudioPackages(studioId!, true)
+      setPackages(packagesData)
       
     } catch (error: any) {
       console.error('Error loading studio:', error)
@@ -92,6 +167,11 @@ export default function BookingScreen() {
 
   const handleServiceSelect = (service: Service) => {
     setSelectedService(service)
+    // Codes can be limited to certain services, and packages to certain categories
+    setAppliedPromo(null)
+    setPromoError('')
+    setAppliedPackage(null)
+    setPackageError('')
     setBookingForm({
       ...bookingForm,
       service_id: service.id
@@ -99,12 +179,39 @@ export default function BookingScreen() {
     setStep('datetime')
   }
 
-  const handleDateTimeSelect = () => {
+  const handleDateTimeSelect = async () => {
     if (!selectedTime) {
       Alert.alert('Error', 'Please select a time slot')
       return
     }
 
+    // Check every session of a recurring booking before asking for details
+    if (recurrenceRule && selectedService) {
+      try {
+        setLoading(true)
+        const preview = await bookingService.previewBookingSeries(
+          studioId!,
+          selectedService.id,
+          selectedTime,
+          recurrenceRule
+        )
+        setSeriesPreview(preview)
+
+        if (!preview.some(occurrence => occurrence.available)) {
+          Alert.alert('Time Unavailable', 'None of these sessions are available. Please choose another time.')
+          return
+        }
+      } catch (error: any) {
+        console.error('Error checking recurring sessions:', error)
+        Alert.alert('Error', 'Failed to check availability for the recurring sessions')
+        return
+      } finally {
+        setLoading(false)
+      }
+    } else {
+      setSeriesPreview([])
+    }
+
     setBookingForm({
       ...bookingForm,
       start_time: selectedTime
@@ -127,26 +234,60 @@ export default function BookingScreen() {
       const startTime = new Date(bookingForm.start_time)
       const endTime = new Date(startTime.getTime() + (selectedService.duration_minutes * 60 * 1000))
 
-      // Create the booking
-      const booking = await bookingService.createBooking({
+      const bookingData = {
         studio_id: studioId!,
         service_id: bookingForm.service_id,
         client_name: bookingForm.client_name,
         client_email: bookingForm.client_email,
         client_phone: bookingForm.client_phone,
-        start_time: bookingForm.start_time,
-        end_time: endTime.toISOString(),
+        // Only asked for when the studio sends texts and a number is given
+        sms_opt_in: !!studio?.sms_enabled && !!bookingForm.client_phone?.trim() && !!bookingForm.sms_opt_in,
+        client_timezone: clientTimeZone,
         total_price_cents: selectedService.price_cents,
-        status: 'pending_payment',
+        status: 'pending_payment' as const,
         notes: bookingForm.notes,
-      })
+      }
+
+      // Create the booking, or every available session of the series
+      let booking
+      let seriesId: string | undefined
+
+      if (recurrenceRule) {
+        const result = await bookingService.createBookingSeries(
+          { rule: recurrenceRule, payment_mode: appliedPackage ? 'series' : paymentMode },
+          bookingData,
+          availableOccurrences.map(({ start_time, end_time }) => ({ start_time, end_time }))
+        )
+        booking = result.bookings[0]
+        seriesId = result.series.id
+      } else {
+        booking = await bookingService.createBooking({
+          ...bookingData,
+          start_time: bookingForm.start_time,
+          end_time: endTime.toISOString(),
+        })
+      }
+
+      // Package credits pay for every session without going to checkout
+      if (appliedPackage) {
+        const redeemResult = await stripeBookingService.redeemPackageCredits(booking.id, appliedPackage.code, seriesId)
+
+        if (redeemResult.success) {
+          router.push(`/booking/success/${booking.id}`)
+        } else {
+          Alert.alert('Package Error', redeemResult.error || 'Failed to book with your package')
+        }
+        return
+      }
 
       // Create payment session
       const returnUrl = `dreamsuite://booking/success/${booking.id}`
       const paymentResult = await stripeBookingService.createBookingPayment(
         booking,
         selectedService,
-        returnUrl
+        returnUrl,
+        seriesId,
+        appliedPromo?.code
       )
 
       if (paymentResult.success && paymentResult.session) {
@@ -158,31 +299,180 @@ export default function BookingScreen() {
 
     } catch (error: any) {
       console.error('Error creating booking:', error)
-      Alert.alert('Error', 'Failed to create booking. Please try again.')
+      if (error instanceof BookingError) {
+        // The chosen time is no longer allowed, send the client back to pick another
+        Alert.alert('Time Unavailable', error.message)
+        setSelectedTime('')
+        setStep('datetime')
+        await loadAvailableSlots()
+      } else {
+        Alert.alert('Error', 'Failed to create booking. Please try again.')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleApplyPromo = async () => {
+    if (!selectedService || !promoInput.trim()) return
+
+    setCheckingPromo(true)
+    setPromoError('')
+    const result = await stripeBookingService.validatePromoCode(studioId!, selectedService.id, promoInput)
+    setCheckingPromo(false)
+
+    if (result.valid && result.promoCode) {
+      setAppliedPromo(result.promoCode)
+      setAppliedPackage(null)
+      setPromoInput('')
+    } else {
+      setPromoError(result.error || "That promo code isn't valid")
+    }
+  }
+
+  const handleApplyPackage = async () => {
+    if (!selectedService || !packageInput.trim()) return
+
+    setCheckingPackage(true)
+    setPackageError('')
+    const result = await stripeBookingService.checkPackageBalance(studioId!, packageInput)
+    setCheckingPackage(false)
+
+    if (!result.valid || !result.balance) {
+      setPackageError(result.error || "That package code isn't valid")
+      return
+    }
+
+    const problem = getPackageCreditProblem(
+      result.balance,
+      selectedService.category,
+      getCreditsNeeded(selectedService, result.balance.credit_type)
+    )
+    if (problem) {
+      setPackageError(problem)
+      return
+    }
+
+    setAppliedPackage(result.balance)
+    setAppliedPromo(null)
+    setPackageInput('')
+  }
+
+  const handleBuyPackage = async () => {
+    if (!packageToBuy) return
+
+    if (!packageBuyer.client_name || !packageBuyer.client_email) {
+      Alert.alert('Error', 'Please enter your name and email')
+      return
+    }
+
+    try {
+      setLoading(true)
+      const result = await stripeBookingService.purchasePackage(
+        packageToBuy.id,
+        packageBuyer.client_name,
+        packageBuyer.client_email,
+        `dreamsuite://booking/${studioId}`
+      )
+
+      if (result.success && result.url) {
+        // Carry the details over so they don't need typing again when booking
+        setBookingForm({ ...bookingForm, ...packageBuyer })
+        setPackageToBuy(null)
+        await stripeBookingService.openPaymentUrl(result.url)
+      } else {
+        Alert.alert('Payment Error', result.error || 'Failed to start the package purchase')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleJoinWaitlist = async () => {
+    if (!selectedService || !selectedDate) return
+
+    if (!waitlistForm.client_name || !waitlistForm.client_email) {
+      Alert.alert('Error', 'Please enter your name and email')
+      return
+    }
+
+    try {
+      setLoading(true)
+      await bookingService.joinWaitlist(studioId!, {
+        service_id: selectedService.id,
+        client_name: waitlistForm.client_name,
+        client_email: waitlistForm.client_email,
+        client_phone: waitlistForm.client_phone || undefined,
+        earliest_date: selectedDate,
+        latest_date: waitlistRange === 'week' ? addCalendarDays(selectedDate, 6) : selectedDate,
+      })
+
+      // Carry the details over so they don't need typing again at checkout
+      setBookingForm({ ...bookingForm, ...waitlistForm })
+      setWaitlistJoined([...waitlistJoined, selectedDate])
+      setModalVisible(false)
+      Alert.alert(
+        "You're on the Waitlist",
+        "We'll email you as soon as a spot opens up. You'll have a limited time to claim it."
+      )
+    } catch (error: any) {
+      console.error('Error joining waitlist:', error)
+      Alert.alert('Error', 'Failed to join the waitlist. Please try again.')
     } finally {
       setLoading(false)
     }
   }
 
   const formatCurrency = (cents: number) => {
-    return `$${(cents / 100).toFixed(2)}`
+    return formatMoney(cents, getStudioCurrency(studio))
+  }
+
+  // A percentage comes off every session paid for now, a fixed amount off the first
+  const getCheckoutDiscountCents = (service: Service) => {
+    if (!appliedPromo) return 0
+    const discountCents = getPromoDiscountCents(appliedPromo, service.price_cents)
+    return appliedPromo.discount_type === 'percent' && recurrenceRule && paymentMode === 'series'
+      ? discountCents * availableOccurrences.length
+      : discountCents
   }
 
+  // What checkout charges now (every available session when paying for the series up
+  // front), with tax and fees added to each session after its discount
+  const getCheckoutCharges = (service: Service) => {
+    const sessions = recurrenceRule && paymentMode === 'series' ? availableOccurrences.length : 1
+    const discountCents = appliedPromo ? getPromoDiscountCents(appliedPromo, service.price_cents) : 0
+
+    return Array.from({ length: sessions }, (_, index) => calculateBookingCharges(
+      service.price_cents - (appliedPromo?.discount_type === 'percent' || index === 0 ? discountCents : 0),
+      studio
+    )).reduce((total, charges) => ({
+      tax_cents: total.tax_cents + charges.tax_cents,
+      fee_cents: total.fee_cents + charges.fee_cents,
+      total_price_cents: total.total_price_cents + charges.total_price_cents,
+    }), { tax_cents: 0, fee_cents: 0, total_price_cents: 0 })
+  }
+
+  // Package credits cover every available session of a series at once
+  const getCreditsNeeded = (service: Service, creditType: ServicePackage['credit_type']) => {
+    const sessions = recurrenceRule ? availableOccurrences.length : 1
+    return getBookingCreditCost(creditType, service.duration_minutes) * sessions
+  }
+
+  // Booking times are shown on the studio's clock, with the client's own time alongside when it differs
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    })
+    return formatDateInTimeZone(dateString, studioTimeZone)
   }
 
   const formatTime = (dateString: string) => {
-    return new Date(dateString).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    })
+    return formatTimeInTimeZone(dateString, studioTimeZone)
+  }
+
+  const formatClientTime = (dateString: string): string | null => {
+    const date = new Date(dateString)
+    if (getTimeZoneOffsetMinutes(date, clientTimeZone) === getTimeZoneOffsetMinutes(date, studioTimeZone)) {
+      return null
+    }
+    return formatTimeInTimeZone(dateString, clientTimeZone)
   }
 
   const formatDuration = (minutes: number) => {
@@ -194,15 +484,14 @@ export default function BookingScreen() {
     return `${mins}m`
   }
 
-  // Generate next 30 days for date selection
+  // Dates the selected service can be booked for (calendar dates in the studio's time zone)
   const getAvailableDates = () => {
     const dates = []
-    const today = new Date()
+    const today = getZonedCalendarDate(new Date(), studioTimeZone)
+    const maxDays = selectedService?.max_advance_booking_days || 30
     
-    for (let i = 1; i <= 30; i++) {
-      const date = new Date(today)
-      date.setDate(today.getDate() + i)
-      dates.push(date.toISOString().split('T')[0])
+    for (let i = 0; i <= maxDays; i++) {
+      dates.push(addCalendarDays(today, i))
     }
     
     return dates
@@ -339,6 +628,49 @@ export default function BookingScreen() {
                 </TouchableOpacity>
               ))}
             </View>
+
+            {packages.length > 0 && (
+              <>
+                <Text style={[styles.stepTitle, styles.packagesTitle]}>Packages</Text>
+                <Text style={styles.packagesIntro}>
+                  Buy sessions up front, then book them with the code we email you.
+                </Text>
+
+                <View style={styles.servicesList}>
+                  {packages.map((pkg) => (
+                    <TouchableOpacity
+                      key={pkg.id}
+                      style={styles.serviceCard}
+                      onPress={() => setPackageToBuy(pkg)}
+                    >
+                      <View style={styles.serviceHeader}>
+                        <Text style={styles.serviceName}>{pkg.name}</Text>
+                        <Text style={styles.servicePrice}>
+                          {formatCurrency(pkg.price_cents)}
+                        </Text>
+                      </View>
+
+                      <Text style={styles.serviceDuration}>
+                        {formatCredits(pkg.credit_type, getPackageCredits(pkg))}
+                        {pkg.categories.length > 0 ? ` of ${pkg.categories.join(', ')}` : ''}
+                      </Text>
+
+                      {!!pkg.description && (
+                        <Text style={styles.serviceDescription}>
+                          {pkg.description}
+                        </Text>
+                      )}
+
+                      {!!pkg.valid_days && (
+                        <Text style={styles.depositInfo}>
+                          Use within {pkg.valid_days} days of buying
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
           </View>
         )}
 
@@ -370,7 +702,7 @@ export default function BookingScreen() {
                     styles.dateButtonText,
                     selectedDate === date && styles.dateButtonTextActive
                   ]}>
-                    {new Date(date).toLocaleDateString('en-US', {
+                    {formatCalendarDate(date, {
                       weekday: 'short',
                       month: 'short',
                       day: 'numeric'
@@ -384,43 +716,115 @@ export default function BookingScreen() {
             {selectedDate && (
               <>
                 <Text style={styles.sectionTitle}>Available Times</Text>
+                <Text style={styles.timeZoneNote}>
+                  Times are in studio time ({getTimeZoneAbbreviation(new Date(), studioTimeZone)})
+                </Text>
                 {availableSlots.length > 0 ? (
                   <View style={styles.timeSlotsGrid}>
-                    {availableSlots.map((slot) => (
-                      <TouchableOpacity
-                        key={slot}
-                        style={[
-                          styles.timeSlot,
-                          selectedTime === slot && styles.timeSlotActive
-                        ]}
-                        onPress={() => setSelectedTime(slot)}
-                      >
-                        <Text style={[
-                          styles.timeSlotText,
-                          selectedTime === slot && styles.timeSlotTextActive
-                        ]}>
-                          {formatTime(slot)}
-                        </Text>
-                      </TouchableOpacity>
-                    ))}
+                    {availableSlots.map((slot) => {
+                      const clientTime = formatClientTime(slot)
+
+                      return (
+                        <TouchableOpacity
+                          key={slot}
+                          style={[
+                            styles.timeSlot,
+                            selectedTime === slot && styles.timeSlotActive
+                          ]}
+                          onPress={() => setSelectedTime(slot)}
+                        >
+                          <Text style={[
+                            styles.timeSlotText,
+                            selectedTime === slot && styles.timeSlotTextActive
+                          ]}>
+                            {formatTime(slot)}
+                          </Text>
+                          {clientTime && (
+                            <Text style={[
+                              styles.timeSlotSubtext,
+                              selectedTime === slot && styles.timeSlotTextActive
+                            ]}>
+                              {clientTime} your time
+                            </Text>
+                          )}
+                        </TouchableOpacity>
+                      )
+                    })}
                   </View>
                 ) : (
                   <View style={styles.noSlotsContainer}>
                     <Text style={styles.noSlotsText}>
                       No available times for this date. Please select another date.
                     </Text>
+                    {waitlistJoined.includes(selectedDate) ? (
+                      <Text style={styles.waitlistJoinedText}>
+                        ✓ You're on the waitlist for this date
+                      </Text>
+                    ) : (
+                      <TouchableOpacity
+                        style={styles.waitlistButton}
+                        onPress={() => setModalVisible(true)}
+                      >
+                        <Text style={styles.waitlistButtonText}>Join Waitlist</Text>
+                      </TouchableOpacity>
+                    )}
                   </View>
                 )}
               </>
             )}
 
             {selectedTime && (
-              <TouchableOpacity
-                style={styles.continueButton}
-                onPress={handleDateTimeSelect}
-              >
-                <Text style={styles.continueButtonText}>Continue</Text>
-              </TouchableOpacity>
+              <>
+                <Text style={styles.sectionTitle}>Repeat</Text>
+                <View style={styles.optionRow}>
+                  {([0, 1, 2] as const).map((interval) => (
+                    <TouchableOpacity
+                      key={interval}
+                      style={[
+                        styles.optionChip,
+                        repeatInterval === interval && styles.optionChipActive
+                      ]}
+                      onPress={() => setRepeatInterval(interval)}
+                    >
+                      <Text style={[
+                        styles.optionChipText,
+                        repeatInterval === interval && styles.optionChipTextActive
+                      ]}>
+                        {interval === 0 ? 'Just once' : interval === 1 ? 'Weekly' : 'Every 2 weeks'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {recurrenceRule && (
+                  <View style={styles.sessionCountRow}>
+                    <Text style={styles.sessionCountLabel}>Sessions</Text>
+                    <TouchableOpacity
+                      style={styles.stepperButton}
+                      onPress={() => setSessionCount(Math.max(2, sessionCount - 1))}
+                    >
+                      <Text style={styles.stepperButtonText}>−</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.sessionCountValue}>{sessionCount}</Text>
+                    <TouchableOpacity
+                      style={styles.stepperButton}
+                      onPress={() => setSessionCount(Math.min(MAX_SERIES_OCCURRENCES, sessionCount + 1))}
+                    >
+                      <Text style={styles.stepperButtonText}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                <TouchableOpacity
+                  style={styles.continueButton}
+                  onPress={handleDateTimeSelect}
+                  disabled={loading}
+                >
+                  <Text style={styles.continueButtonText}>
+                    {loading ? 'Checking Availability...' : 'Continue'}
+                  </Text>
+                </TouchableOpacity>
+              </>
             )}
           </View>
         )}
@@ -443,18 +847,120 @@ export default function BookingScreen() {
               </View>
               <View style={styles.summaryRow}>
                 <Text style={styles.summaryLabel}>Time:</Text>
-                <Text style={styles.summaryValue}>{formatTime(selectedTime)}</Text>
+                <Text style={styles.summaryValue}>
+                  {formatTimeForStudioAndClient(selectedTime, studioTimeZone, clientTimeZone)}
+                </Text>
               </View>
               <View style={styles.summaryRow}>
                 <Text style={styles.summaryLabel}>Duration:</Text>
                 <Text style={styles.summaryValue}>{formatDuration(selectedService.duration_minutes)}</Text>
               </View>
-              <View style={[styles.summaryRow, styles.summaryTotal]}>
-                <Text style={styles.summaryTotalLabel}>Total:</Text>
-                <Text style={styles.summaryTotalValue}>{formatCurrency(selectedService.price_cents)}</Text>
-              </View>
+              {recurrenceRule && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Repeats:</Text>
+                  <Text style={styles.summaryValue}>{describeRecurrenceRule(recurrenceRule)}</Text>
+                </View>
+              )}
+              {appliedPromo && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Discount ({appliedPromo.code}):</Text>
+                  <Text style={styles.summaryDiscountValue}>
+                    -{formatCurrency(getCheckoutDiscountCents(selectedService))}
+                  </Text>
+                </View>
+              )}
+              {!appliedPackage && getCheckoutCharges(selectedService).tax_cents > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{studio.tax_label || 'Tax'} ({Number(studio.tax_rate_percent)}%):</Text>
+                  <Text style={styles.summaryValue}>{formatCurrency(getCheckoutCharges(selectedService).tax_cents)}</Text>
+                </View>
+              )}
+              {!appliedPackage && getCheckoutCharges(selectedService).fee_cents > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Booking fee:</Text>
+                  <Text style={styles.summaryValue}>{formatCurrency(getCheckoutCharges(selectedService).fee_cents)}</Text>
+                </View>
+              )}
+              {appliedPackage ? (
+                <View style={[styles.summaryRow, styles.summaryTotal]}>
+                  <Text style={styles.summaryTotalLabel}>Credits Used:</Text>
+                  <Text style={styles.summaryTotalValue}>
+                    {formatCredits(appliedPackage.credit_type, getCreditsNeeded(selectedService, appliedPackage.credit_type))}
+                  </Text>
+                </View>
+              ) : (
+                <View style={[styles.summaryRow, styles.summaryTotal]}>
+                  <Text style={styles.summaryTotalLabel}>
+                    {recurrenceRule && paymentMode === 'per_session' ? 'Due Now:' : 'Total:'}
+                  </Text>
+                  <Text style={styles.summaryTotalValue}>
+                    {formatCurrency(getCheckoutCharges(selectedService).total_price_cents)}
+                  </Text>
+                </View>
+              )}
             </View>
 
+            {/* Recurring sessions: which dates are free, and how to pay for them */}
+            {recurrenceRule && seriesPreview.length > 0 && (
+              <View style={styles.bookingSummary}>
+                <Text style={styles.summaryTitle}>
+                  Sessions ({availableOccurrences.length} of {seriesPreview.length} available)
+                </Text>
+                {seriesPreview.map((occurrence) => (
+                  <View key={occurrence.start_time} style={styles.occurrenceRow}>
+                    <Text style={[
+                      styles.occurrenceStatus,
+                      !occurrence.available && styles.occurrenceStatusUnavailable
+                    ]}>
+                      {occurrence.available ? '✓' : '✗'}
+                    </Text>
+                    <View style={styles.occurrenceInfo}>
+                      <Text style={[
+                        styles.occurrenceDate,
+                        !occurrence.available && styles.occurrenceDateUnavailable
+                      ]}>
+                        {formatDate(occurrence.start_time)} • {formatTime(occurrence.start_time)}
+                      </Text>
+                      {occurrence.reason && (
+                        <Text style={styles.occurrenceReason}>{occurrence.reason}</Text>
+                      )}
+                    </View>
+                  </View>
+                ))}
+                {availableOccurrences.length < seriesPreview.length && (
+                  <Text style={styles.occurrenceNote}>
+                    Only the available sessions will be booked.
+                  </Text>
+                )}
+
+                {/* Credits pay for every session at once */}
+                {!appliedPackage && (
+                  <>
+                    <Text style={styles.sectionTitle}>Payment</Text>
+                    <View style={styles.optionRow}>
+                      {(['series', 'per_session'] as const).map((mode) => (
+                        <TouchableOpacity
+                          key={mode}
+                          style={[
+                            styles.optionChip,
+                            paymentMode === mode && styles.optionChipActive
+                          ]}
+                          onPress={() => setPaymentMode(mode)}
+                        >
+                          <Text style={[
+                            styles.optionChipText,
+                            paymentMode === mode && styles.optionChipTextActive
+                          ]}>
+                            {mode === 'series' ? 'Pay for all sessions now' : 'Pay per session'}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </>
+                )}
+              </View>
+            )}
+
             {/* Client Form */}
             <View style={styles.formContainer}>
               <View style={styles.formGroup}>
@@ -489,6 +995,17 @@ export default function BookingScreen() {
                   placeholder="Enter your phone number"
                   keyboardType="phone-pad"
                 />
+                {!!studio?.sms_enabled && !!bookingForm.client_phone?.trim() && (
+                  <TouchableOpacity
+                    style={styles.smsOptIn}
+                    onPress={() => setBookingForm({...bookingForm, sms_opt_in: !bookingForm.sms_opt_in})}
+                  >
+                    <Text style={styles.smsOptInCheck}>{bookingForm.sms_opt_in ? '☑' : '☐'}</Text>
+                    <Text style={styles.smsOptInText}>
+                      Text me my confirmation, reminders and any changes. Msg & data rates may apply; reply STOP to opt out.
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </View>
 
               <View style={styles.formGroup}>
@@ -502,6 +1019,78 @@ export default function BookingScreen() {
                   numberOfLines={3}
                 />
               </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.formLabel}>Promo Code</Text>
+                {appliedPromo ? (
+                  <View style={styles.promoApplied}>
+                    <Text style={styles.promoAppliedText}>
+                      ✓ {appliedPromo.code} • {describePromoDiscount(appliedPromo, getStudioCurrency(studio))}
+                    </Text>
+                    <TouchableOpacity onPress={() => setAppliedPromo(null)}>
+                      <Text style={styles.promoRemoveText}>Remove</Text>
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <View style={styles.promoRow}>
+                    <TextInput
+                      style={[styles.formInput, styles.promoInput]}
+                      value={promoInput}
+                      onChangeText={(text) => {
+                        setPromoInput(text)
+                        setPromoError('')
+                      }}
+                      placeholder="Enter a code"
+                      autoCapitalize="characters"
+                      autoCorrect={false}
+                    />
+                    <TouchableOpacity
+                      style={styles.promoButton}
+                      onPress={handleApplyPromo}
+                      disabled={checkingPromo || !promoInput.trim()}
+                    >
+                      <Text style={styles.promoButtonText}>{checkingPromo ? 'Checking...' : 'Apply'}</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {!!promoError && <Text style={styles.promoErrorText}>{promoError}</Text>}
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.formLabel}>Package Code</Text>
+                {appliedPackage ? (
+                  <View style={styles.promoApplied}>
+                    <Text style={styles.promoAppliedText}>
+                      ✓ {appliedPackage.package_name} • {formatCredits(appliedPackage.credit_type, appliedPackage.credits_remaining)} left
+                    </Text>
+                    <TouchableOpacity onPress={() => setAppliedPackage(null)}>
+                      <Text style={styles.promoRemoveText}>Remove</Text>
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <View style={styles.promoRow}>
+                    <TextInput
+                      style={[styles.formInput, styles.promoInput]}
+                      value={packageInput}
+                      onChangeText={(text) => {
+                        setPackageInput(text)
+                        setPackageError('')
+                      }}
+                      placeholder="Pay with a package you bought"
+                      autoCapitalize="characters"
+                      autoCorrect={false}
+                    />
+                    <TouchableOpacity
+                      style={styles.promoButton}
+                      onPress={handleApplyPackage}
+                      disabled={checkingPackage || !packageInput.trim()}
+                    >
+                      <Text style={styles.promoButtonText}>{checkingPackage ? 'Checking...' : 'Use'}</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {!!packageError && <Text style={styles.promoErrorText}>{packageError}</Text>}
+              </View>
             </View>
 
             <TouchableOpacity
@@ -510,12 +1099,152 @@ export default function BookingScreen() {
               disabled={loading}
             >
               <Text style={styles.bookButtonText}>
-                {loading ? 'Creating Booking...' : 'Book & Pay'}
+                {loading ? 'Creating Booking...' : appliedPackage ? 'Book with Credits' : 'Book & Pay'}
               </Text>
             </TouchableOpacity>
           </View>
         )}
       </ScrollView>
+
+      {/* Waitlist Modal */}
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setModalVisible(false)}>
+              <Text style={styles.modalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Join Waitlist</Text>
+            <TouchableOpacity onPress={handleJoinWaitlist} disabled={loading}>
+              <Text style={styles.modalSaveText}>{loading ? 'Joining...' : 'Join'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.waitlistIntro}>
+              {selectedService?.name} is fully booked
+              {selectedDate ? ` on ${formatCalendarDate(selectedDate, { weekday: 'long', month: 'long', day: 'numeric' })}` : ''}.
+              If a spot opens up we'll hold it for you and email you a link to claim it.
+            </Text>
+
+            <Text style={styles.formLabel}>Which days work for you?</Text>
+            <View style={styles.optionRow}>
+              {(['day', 'week'] as const).map((range) => (
+                <TouchableOpacity
+                  key={range}
+                  style={[
+                    styles.optionChip,
+                    waitlistRange === range && styles.optionChipActive
+                  ]}
+                  onPress={() => setWaitlistRange(range)}
+                >
+                  <Text style={[
+                    styles.optionChipText,
+                    waitlistRange === range && styles.optionChipTextActive
+                  ]}>
+                    {range === 'day' ? 'Only this day' : 'This day or the next 6'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.formContainer}>
+              <View style={styles.formGroup}>
+                <Text style={styles.formLabel}>Full Name *</Text>
+                <TextInput
+                  style={styles.formInput}
+                  value={waitlistForm.client_name}
+                  onChangeText={(text) => setWaitlistForm({...waitlistForm, client_name: text})}
+                  placeholder="Enter your full name"
+                  autoCapitalize="words"
+                />
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.formLabel}>Email Address *</Text>
+                <TextInput
+                  style={styles.formInput}
+                  value={waitlistForm.client_email}
+                  onChangeText={(text) => setWaitlistForm({...waitlistForm, client_email: text})}
+                  placeholder="Enter your email"
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                />
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.formLabel}>Phone Number</Text>
+                <TextInput
+                  style={styles.formInput}
+                  value={waitlistForm.client_phone}
+                  onChangeText={(text) => setWaitlistForm({...waitlistForm, client_phone: text})}
+                  placeholder="Enter your phone number"
+                  keyboardType="phone-pad"
+                />
+              </View>
+            </View>
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Buy Package Modal */}
+      <Modal
+        visible={!!packageToBuy}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setPackageToBuy(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setPackageToBuy(null)}>
+              <Text style={styles.modalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Buy Package</Text>
+            <TouchableOpacity onPress={handleBuyPackage} disabled={loading}>
+              <Text style={styles.modalSaveText}>{loading ? 'Opening...' : 'Pay'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            {packageToBuy && (
+              <Text style={styles.waitlistIntro}>
+                {packageToBuy.name}: {formatCredits(packageToBuy.credit_type, getPackageCredits(packageToBuy))} for{' '}
+                {formatCurrency(packageToBuy.price_cents)}{Number(studio.tax_rate_percent) > 0 ? ' plus tax' : ''}. We'll email your package code to this address once
+                you've paid; book with the same email to use it.
+              </Text>
+            )}
+
+            <View style={styles.formContainer}>
+              <View style={styles.formGroup}>
+                <Text style={styles.formLabel}>Full Name *</Text>
+                <TextInput
+                  style={styles.formInput}
+                  value={packageBuyer.client_name}
+                  onChangeText={(text) => setPackageBuyer({...packageBuyer, client_name: text})}
+                  placeholder="Enter your full name"
+                  autoCapitalize="words"
+                />
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.formLabel}>Email Address *</Text>
+                <TextInput
+                  style={styles.formInput}
+                  value={packageBuyer.client_email}
+                  onChangeText={(text) => setPackageBuyer({...packageBuyer, client_email: text})}
+                  placeholder="Enter your email"
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                />
+              </View>
+            </View>
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
     </SafeAreaView>
   )
 }
@@ -643,6 +1372,15 @@ const styles = StyleSheet.create({
   servicesList: {
     gap: 16,
   },
+  packagesTitle: {
+    marginTop: 32,
+    marginBottom: 8,
+  },
+  packagesIntro: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
   serviceCard: {
     backgroundColor: 'white',
     padding: 20,
@@ -766,6 +1504,17 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '600',
   },
+  timeSlotSubtext: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  timeZoneNote: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: -8,
+    marginBottom: 12,
+  },
   noSlotsContainer: {
     backgroundColor: 'white',
     padding: 20,
@@ -861,6 +1610,68 @@ const styles = StyleSheet.create({
     height: 80,
     textAlignVertical: 'top',
   },
+  smsOptIn: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginTop: 10,
+  },
+  smsOptInCheck: {
+    fontSize: 18,
+    color: '#2081C3',
+  },
+  smsOptInText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  summaryDiscountValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  promoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  promoInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  promoButton: {
+    backgroundColor: '#2081C3',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+  },
+  promoButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  promoApplied: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#ecfdf5',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  promoAppliedText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  promoRemoveText: {
+    fontSize: 14,
+    color: '#ef4444',
+  },
+  promoErrorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 6,
+  },
   bookButton: {
     backgroundColor: '#10b981',
     paddingVertical: 16,
@@ -872,6 +1683,155 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    backgroundColor: 'white',
+  },
+  optionChipActive: {
+    backgroundColor: '#2081C3',
+    borderColor: '#2081C3',
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  optionChipTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  sessionCountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  sessionCountLabel: {
+    fontSize: 16,
+    color: '#1a1a1a',
+    flex: 1,
+  },
+  sessionCountValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2081C3',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: '#2081C3',
+  },
+  occurrenceRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+  },
+  occurrenceStatus: {
+    fontSize: 16,
+    color: '#10b981',
+    width: 24,
+  },
+  occurrenceStatusUnavailable: {
+    color: '#ef4444',
+  },
+  occurrenceInfo: {
+    flex: 1,
+  },
+  occurrenceDate: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  occurrenceDateUnavailable: {
+    color: '#666',
+    textDecorationLine: 'line-through',
+  },
+  occurrenceReason: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 2,
+  },
+  occurrenceNote: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  waitlistButton: {
+    marginTop: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2081C3',
+  },
+  waitlistButtonText: {
+    fontSize: 16,
+    color: '#2081C3',
+    fontWeight: '600',
+  },
+  waitlistJoinedText: {
+    marginTop: 16,
+    fontSize: 14,
+    color: '#10b981',
+    fontWeight: '600',
+  },
+  waitlistIntro: {
+    fontSize: 16,
+    color: '#666',
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e5',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    color: '#ef4444',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  modalSaveText: {
+    fontSize: 16,
+    color: '#2081C3',
+    fontWeight: '600',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
   bookButtonText: {
     color: 'white',
     fontSize: 18,
@@ -12,6 +12,13 @@ import { useLocalSearchParams, useRouter } from 'expo-router'
 import { bookingService } from '../../../lib/supabase-booking'
 import { stripeBookingService } from '../../../lib/stripe-booking'
 import { Booking, Service, Studio } from '../../../types/booking'
+import { formatMoney } from '../../../utils/charges'
+import {
+  formatDateInTimeZone,
+  formatTimeForStudioAndClient,
+  getDeviceTimeZone,
+  getStudioTimeZone,
+} from '../../../utils/timezone'
 
 export default function BookingCancelScreen() {
   const { bookingId } = useLocalSearchParams<{ bookingId: string }>()
@@ -118,24 +125,20 @@ export default function BookingCancelScreen() {
   }
 
   const formatCurrency = (cents: number) => {
-    return `$${(cents / 100).toFixed(2)}`
+    return formatMoney(cents, booking?.currency)
   }
 
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    })
+    return formatDateInTimeZone(dateString, getStudioTimeZone(studio))
   }
 
-  const formatTime = (dateString: string) => {
-    return new Date(dateString).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    })
+  const formatTimeRange = (startString: string, endString: string) => {
+    return formatTimeForStudioAndClient(
+      startString,
+      getStudioTimeZone(studio),
+      getDeviceTimeZone(),
+      endString
+    )
   }
 
   if (loading) {
@@ -201,7 +204,7 @@ export default function BookingCancelScreen() {
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Time:</Text>
             <Text style={styles.detailValue}>
-              {formatTime(booking.start_time)} - {formatTime(booking.end_time)}
+              {formatTimeRange(booking.start_time, booking.end_time)}
             </Text>
           </View>
 
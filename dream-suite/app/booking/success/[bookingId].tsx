@@ -11,7 +11,16 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { useLocalSearchParams, useRouter } from 'expo-router'
 import { bookingService } from '../../../lib/supabase-booking'
-import { Booking, Service, Studio } from '../../../types/booking'
+import { stripeBookingService } from '../../../lib/stripe-booking'
+import { Booking, InvoiceDownload, Service, Studio } from '../../../types/booking'
+import { formatMoney, getChargeLines } from '../../../utils/charges'
+import { describeBalanceDue, describeCancellationPolicy, getBalanceDueCents } from '../../../utils/payments'
+import {
+  formatDateInTimeZone,
+  formatTimeForStudioAndClient,
+  getDeviceTimeZone,
+  getStudioTimeZone,
+} from '../../../utils/timezone'
 
 export default function BookingSuccessScreen() {
   const { bookingId, session_id } = useLocalSearchParams<{ bookingId: string; session_id?: string }>()
@@ -22,6 +31,7 @@ export default function BookingSuccessScreen() {
   const [studio, setStudio] = useState<Studio | null>(null)
   const [loading, setLoading] = useState(true)
   const [paymentVerified, setPaymentVerified] = useState(false)
+  const [invoices, setInvoices] = useState<InvoiceDownload[]>([])
 
   useEffect(() => {
     if (bookingId) {
@@ -49,6 +59,11 @@ export default function BookingSuccessScreen() {
       if (response.ok) {
         const result = await response.json()
         setPaymentVerified(result.success)
+
+        // Pick up the amounts the verification just recorded
+        if (result.success) {
+          await loadBookingDetails()
+        }
       }
     } catch (error) {
       console.error('Error verifying payment:', error)
@@ -68,6 +83,14 @@ export default function BookingSuccessScreen() {
 
       setBooking(bookingData)
 
+      // Nothing is invoiced until the booking is paid for
+      if (bookingData.status !== 'pending_payment') {
+        const invoiceResult = await stripeBookingService.getBookingInvoices(bookingData.id, bookingData.client_email)
+        if (invoiceResult.success) {
+          setInvoices(invoiceResult.invoices || [])
+        }
+      }
+
       // Get service details
       const serviceData = await bookingService.getService(bookingData.service_id)
       if (serviceData) {
@@ -88,25 +111,36 @@ export default function BookingSuccessScreen() {
     }
   }
 
+  const handlePayBalance = async () => {
+    if (!booking) return
+
+    const paymentResult = await stripeBookingService.createFinalPayment(
+      booking.id,
+      `dreamsuite://booking/success/${booking.id}`
+    )
+
+    if (paymentResult.success && paymentResult.session) {
+      await stripeBookingService.openPaymentUrl(paymentResult.session.url)
+    } else {
+      Alert.alert('Payment Error', paymentResult.error || 'Failed to create payment')
+    }
+  }
+
   const formatCurrency = (cents: number) => {
-    return `$${(cents / 100).toFixed(2)}`
+    return formatMoney(cents, booking?.currency)
   }
 
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    })
+    return formatDateInTimeZone(dateString, getStudioTimeZone(studio))
   }
 
-  const formatTime = (dateString: string) => {
-    return new Date(dateString).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    })
+  const formatTimeRange = (startString: string, endString: string) => {
+    return formatTimeForStudioAndClient(
+      startString,
+      getStudioTimeZone(studio),
+      getDeviceTimeZone(),
+      endString
+    )
   }
 
   const formatDuration = (minutes: number) => {
@@ -145,6 +179,8 @@ export default function BookingSuccessScreen() {
     )
   }
 
+  const chargeLines = getChargeLines(booking, 'Price', studio.tax_label)
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView style={styles.content}>
@@ -186,7 +222,7 @@ export default function BookingSuccessScreen() {
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Time:</Text>
             <Text style={styles.detailValue}>
-              {formatTime(booking.start_time)} - {formatTime(booking.end_time)}
+              {formatTimeRange(booking.start_time, booking.end_time)}
             </Text>
           </View>
 
@@ -214,17 +250,36 @@ export default function BookingSuccessScreen() {
             </View>
           )}
 
-          <View style={[styles.detailRow, styles.totalRow]}>
-            <Text style={styles.totalLabel}>
-              {booking.payment_status === 'deposit_paid' ? 'Deposit Paid:' : 'Total Paid:'}
-            </Text>
-            <Text style={styles.totalValue}>
-              {booking.payment_status === 'deposit_paid' && service?.requires_deposit && service?.deposit_percentage
-                ? formatCurrency(Math.round(booking.total_price_cents * (service.deposit_percentage / 100)))
-                : formatCurrency(booking.total_price_cents)
-              }
-            </Text>
-          </View>
+          {!booking.package_purchase_id && chargeLines.length > 1 && (
+            <>
+              {chargeLines.map(line => (
+                <View key={line.label} style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>{line.label}:</Text>
+                  <Text style={styles.detailValue}>{formatCurrency(line.cents)}</Text>
+                </View>
+              ))}
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Total:</Text>
+                <Text style={styles.detailValue}>{formatCurrency(booking.total_price_cents)}</Text>
+              </View>
+            </>
+          )}
+
+          {booking.package_purchase_id ? (
+            <View style={[styles.detailRow, styles.totalRow]}>
+              <Text style={styles.totalLabel}>Paid With:</Text>
+              <Text style={styles.totalValue}>Package credits</Text>
+            </View>
+          ) : (
+            <View style={[styles.detailRow, styles.totalRow]}>
+              <Text style={styles.totalLabel}>
+                {booking.payment_status === 'deposit_paid' ? 'Deposit Paid:' : 'Total Paid:'}
+              </Text>
+              <Text style={styles.totalValue}>
+                {formatCurrency((booking.deposit_paid_cents || 0) + (booking.final_payment_cents || 0))}
+              </Text>
+            </View>
+          )}
 
           {/* Payment Status Indicator */}
           <View style={[
@@ -242,20 +297,43 @@ export default function BookingSuccessScreen() {
             </Text>
           </View>
 
-          {booking.payment_status === 'deposit_paid' && service?.requires_deposit && service?.deposit_percentage && (
+          {booking.payment_status === 'deposit_paid' && getBalanceDueCents(booking) > 0 && (
             <View style={styles.remainingBalanceNotice}>
               <Text style={styles.remainingBalanceText}>
-                Remaining balance: {formatCurrency(
-                  booking.total_price_cents - Math.round(booking.total_price_cents * (service.deposit_percentage / 100))
-                )}
+                Remaining balance: {formatCurrency(getBalanceDueCents(booking))}
               </Text>
               <Text style={styles.remainingBalanceSubtext}>
-                Due at time of service
+                Charged to your saved card {describeBalanceDue(studio)}
               </Text>
+              <TouchableOpacity style={styles.payBalanceButton} onPress={handlePayBalance}>
+                <Text style={styles.payBalanceButtonText}>Pay Balance Now</Text>
+              </TouchableOpacity>
             </View>
           )}
         </View>
 
+        {/* Invoice & Receipts */}
+        {invoices.length > 0 && (
+          <View style={styles.contactCard}>
+            <Text style={styles.cardTitle}>Invoice & Receipts</Text>
+            {invoices.map(invoice => (
+              <View key={invoice.id} style={styles.detailRow}>
+                <Text style={styles.detailLabel}>
+                  {invoice.kind === 'receipt' ? 'Receipt' : 'Invoice'} {invoice.invoice_number}
+                </Text>
+                <View style={styles.invoiceLinks}>
+                  <TouchableOpacity onPress={() => stripeBookingService.openDownloadUrl(invoice.pdf_url)}>
+                    <Text style={styles.invoiceLinkText}>PDF</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => stripeBookingService.openDownloadUrl(invoice.html_url)}>
+                    <Text style={styles.invoiceLinkText}>HTML</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Studio Contact Info */}
         {(studio.phone || studio.email) && (
           <View style={styles.contactCard}>
@@ -296,11 +374,12 @@ export default function BookingSuccessScreen() {
           <Text style={styles.noteText}>
             • Contact the studio directly if you need to reschedule or have questions
           </Text>
-          {booking.payment_status === 'deposit_paid' && service?.requires_deposit && service?.deposit_percentage && (
+          <Text style={styles.noteText}>
+            • Cancellation policy: {describeCancellationPolicy(studio)}
+          </Text>
+          {booking.payment_status === 'deposit_paid' && getBalanceDueCents(booking) > 0 && (
             <Text style={styles.noteText}>
-              • Remaining balance of {formatCurrency(
-                booking.total_price_cents - Math.round(booking.total_price_cents * (service.deposit_percentage / 100))
-              )} is due at the time of your session
+              • Remaining balance of {formatCurrency(getBalanceDueCents(booking))} is collected {describeBalanceDue(studio)}
             </Text>
           )}
           {booking.payment_status === 'pending' && (
@@ -556,6 +635,28 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 4,
   },
+  invoiceLinks: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  invoiceLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2081C3',
+  },
+  payBalanceButton: {
+    marginTop: 10,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c2410c',
+    alignItems: 'center',
+  },
+  payBalanceButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#c2410c',
+  },
   warningText: {
     color: '#dc2626',
     fontWeight: '600',
@@ -1,9 +1,14 @@
 import { useState, useCallback } from 'react'
 import { Alert } from 'react-native'
-import { bookingService } from '../lib/supabase-booking'
+import { bookingService, BookingError } from '../lib/supabase-booking'
 import { emailService } from '../lib/email-service'
+import { smsService } from '../lib/sms-service'
 import { stripeBookingService } from '../lib/stripe-booking'
-import { Booking, Service, Studio } from '../types/booking'
+import { Booking, Resource, SeriesEditScope, Service, Studio } from '../types/booking'
+import { formatMoney, getStudioCurrency } from '../utils/charges'
+import { getPaidCents } from '../utils/payments'
+import { shiftOccurrence } from '../utils/recurrence'
+import { formatDateInTimeZone, getStudioTimeZone } from '../utils/timezone'
 
 export interface BookingManagementState {
   loading: boolean
@@ -12,9 +17,11 @@ export interface BookingManagementState {
     newStatus: Booking['status'], 
     reason?: string
   ) => Promise<boolean>
+  // Refunds what the studio's cancellation policy allows, or amountCents if given
   cancelBookingWithRefund: (
     bookingId: string, 
-    reason?: string
+    reason?: string,
+    amountCents?: number
   ) => Promise<boolean>
   sendBookingReminder: (
     bookingId: string, 
@@ -25,6 +32,18 @@ export interface BookingManagementState {
     newStartTime: string, 
     newEndTime: string
   ) => Promise<boolean>
+  // Series edits apply to one session, it and every later session, or the whole series
+  cancelSeriesBookings: (
+    bookingId: string,
+    scope: SeriesEditScope,
+    reason?: string
+  ) => Promise<boolean>
+  rescheduleSeriesBookings: (
+    bookingId: string,
+    scope: SeriesEditScope,
+    newStartTime: string,
+    newEndTime: string
+  ) => Promise<boolean>
 }
 
 export function useBookingManagement(): BookingManagementState {
@@ -50,6 +69,10 @@ export function useBookingManagement(): BookingManagementState {
       // Update booking status
       await bookingService.updateBooking(bookingId, { status: newStatus })
 
+      if (newStatus === 'cancelled') {
+        await bookingService.offerSlotToWaitlist(bookingId)
+      }
+
       // Get related data for email
       const service = await bookingService.getService(currentBooking.service_id)
       const studio = await bookingService.getStudio(currentBooking.studio_id)
@@ -68,6 +91,7 @@ export function useBookingManagement(): BookingManagementState {
           case 'confirmed':
             if (oldStatus === 'pending_payment') {
               await emailService.sendBookingConfirmation(emailData)
+              await smsService.sendBookingConfirmation(emailData)
             } else {
               await emailService.sendBookingStatusUpdate(emailData, oldStatus, newStatus)
             }
@@ -75,6 +99,7 @@ export function useBookingManagement(): BookingManagementState {
           
           case 'cancelled':
             await emailService.sendBookingCancellation(emailData, reason)
+            await smsService.sendBookingCancellation(emailData, reason)
             break
           
           case 'completed':
@@ -98,7 +123,8 @@ export function useBookingManagement(): BookingManagementState {
 
   const cancelBookingWithRefund = useCallback(async (
     bookingId: string,
-    reason?: string
+    reason?: string,
+    amountCents?: number
   ): Promise<boolean> => {
     try {
       setLoading(true)
@@ -110,10 +136,11 @@ export function useBookingManagement(): BookingManagementState {
       }
 
       // Process refund if payment was made
-      if (booking.payment_status === 'paid') {
+      let refundedCents = 0
+      if (getPaidCents(booking) > (booking.refunded_cents || 0)) {
         const refundResult = await stripeBookingService.processRefund(
           bookingId,
-          booking.total_price_cents,
+          amountCents,
           reason || 'Booking cancelled by studio'
         )
 
@@ -121,13 +148,20 @@ export function useBookingManagement(): BookingManagementState {
           Alert.alert('Error', 'Failed to process refund: ' + refundResult.error)
           return false
         }
+
+        refundedCents = refundResult.refunded_cents || 0
       }
 
       // Update booking status to cancelled
       const success = await updateBookingStatus(bookingId, 'cancelled', reason)
       
       if (success) {
-        Alert.alert('Success', 'Booking cancelled and refund processed')
+        Alert.alert(
+          'Success',
+          refundedCents > 0
+            ? `Booking cancelled and ${formatMoney(refundedCents, booking.currency || getStudioCurrency(booking.studio))} refunded`
+            : 'Booking cancelled. Nothing is refundable under the cancellation policy.'
+        )
       }
 
       return success
@@ -154,31 +188,16 @@ export function useBookingManagement(): BookingManagementState {
         return false
       }
 
-      const service = await bookingService.getService(booking.service_id)
-      const studio = await bookingService.getStudio(booking.studio_id)
+      // Sent by the server, which records it so the reminder dispatcher doesn't send it again
+      const result = await stripeBookingService.sendBookingReminder(bookingId, reminderType)
 
-      if (!service || !studio) {
-        Alert.alert('Error', 'Missing booking details')
-        return false
-      }
-
-      const emailData = {
-        booking,
-        service,
-        studio,
-        clientName: booking.client_name,
-        clientEmail: booking.client_email,
-      }
-
-      const reminderSent = await emailService.sendBookingReminder(emailData, reminderType)
-      
-      if (reminderSent) {
+      if (result.success) {
         Alert.alert('Success', `${reminderType} reminder sent to ${booking.client_name}`)
       } else {
-        Alert.alert('Error', 'Failed to send reminder')
+        Alert.alert('Error', result.error || 'Failed to send reminder')
       }
 
-      return reminderSent
+      return result.success
 
     } catch (error: any) {
       console.error('Error sending booking reminder:', error)
@@ -203,8 +222,8 @@ export function useBookingManagement(): BookingManagementState {
         return false
       }
 
-      // Check if new time slot is available
-      const isAvailable = await bookingService.isTimeSlotAvailable(
+      // Check the new time is open and free, keeping the booking's rooms and engineers where possible
+      const checked = await bookingService.checkTimeSlot(
         booking.studio_id,
         booking.service_id,
         newStartTime,
@@ -212,15 +231,21 @@ export function useBookingManagement(): BookingManagementState {
         bookingId // Exclude current booking from availability check
       )
 
-      if (!isAvailable) {
-        Alert.alert('Error', 'The selected time slot is not available')
+      if ('problem' in checked) {
+        Alert.alert(
+          'Error',
+          checked.problem === 'closed'
+            ? 'The studio is unavailable during the selected time'
+            : 'The selected time slot is not available'
+        )
         return false
       }
 
-      // Update booking times
+      // Update booking times and resources together
       await bookingService.updateBooking(bookingId, {
         start_time: newStartTime,
         end_time: newEndTime,
+        resource_ids: checked.resources.map(resource => resource.id),
         updated_at: new Date().toISOString()
       })
 
@@ -246,6 +271,7 @@ export function useBookingManagement(): BookingManagementState {
           'confirmed',
           'confirmed' // Same status but with updated time
         )
+        await smsService.sendBookingReschedule(emailData)
       }
 
       Alert.alert('Success', 'Booking rescheduled successfully')
@@ -253,18 +279,214 @@ export function useBookingManagement(): BookingManagementState {
 
     } catch (error: any) {
       console.error('Error rescheduling booking:', error)
-      Alert.alert('Error', 'Failed to reschedule booking')
+      Alert.alert('Error', error instanceof BookingError ? error.message : 'Failed to reschedule booking')
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const cancelSeriesBookings = useCallback(async (
+    bookingId: string,
+    scope: SeriesEditScope,
+    reason?: string
+  ): Promise<boolean> => {
+    try {
+      setLoading(true)
+
+      const booking = await bookingService.getBooking(bookingId)
+      if (!booking) {
+        Alert.alert('Error', 'Booking not found')
+        return false
+      }
+
+      const sessions = await bookingService.getSeriesScopeBookings(booking, scope)
+      // Each paid session is refunded what the cancellation policy allows, as when
+      // it's cancelled on its own, before it's cancelled
+      let refundedCents = 0
+      for (const [index, session] of sessions.entries()) {
+        if (getPaidCents(session) > (session.refunded_cents || 0)) {
+          const refundResult = await stripeBookingService.processRefund(
+            session.id,
+            undefined,
+            reason || 'Booking cancelled by studio'
+          )
+
+          if (!refundResult.success) {
+            Alert.alert(
+              'Error',
+              `Failed to process refund: ${refundResult.error}. ${index} of ${sessions.length} sessions were cancelled.`
+            )
+            return false
+          }
+
+          refundedCents += refundResult.refunded_cents || 0
+        }
+
+        await bookingService.updateBooking(session.id, {
+          status: 'cancelled',
+          updated_at: new Date().toISOString()
+        })
+        await bookingService.offerSlotToWaitlist(session.id)
+      }
+
+      if (booking.series_id && scope === 'all') {
+        await bookingService.updateBookingSeries(booking.series_id, { status: 'cancelled' })
+      }
+
+      // One email for the whole change rather than one per session
+      const service = await bookingService.getService(booking.service_id)
+      const studio = await bookingService.getStudio(booking.studio_id)
+
+      if (service && studio && sessions.length > 0) {
+        const timeZone = getStudioTimeZone(studio)
+        const dates = sessions.map(session => formatDateInTimeZone(session.start_time, timeZone))
+        const seriesNote = sessions.length > 1 ? `Cancelled sessions: ${dates.join(', ')}` : undefined
+        const emailData = {
+          booking: { ...sessions[0], status: 'cancelled' as const },
+          service,
+          studio,
+          clientName: booking.client_name,
+          clientEmail: booking.client_email,
+        }
+
+        await emailService.sendBookingCancellation(
+          emailData,
+          [reason, seriesNote].filter(Boolean).join('. ') || undefined
+        )
+        await smsService.sendBookingCancellation(emailData, reason, sessions.length)
+      }
+
+      const cancelled = `${sessions.length} session${sessions.length === 1 ? '' : 's'} cancelled`
+      Alert.alert(
+        'Success',
+        refundedCents > 0
+          ? `${cancelled} and ${formatMoney(refundedCents, booking.currency || getStudioCurrency(studio))} refunded`
+          : cancelled
+      )
+      return true
+
+    } catch (error: any) {
+      console.error('Error cancelling series bookings:', error)
+      Alert.alert('Error', 'Failed to cancel sessions')
       return false
     } finally {
       setLoading(false)
     }
   }, [])
 
+  const rescheduleSeriesBookings = useCallback(async (
+    bookingId: string,
+    scope: SeriesEditScope,
+    newStartTime: string,
+    newEndTime: string
+  ): Promise<boolean> => {
+    if (scope === 'this') {
+      return rescheduleBooking(bookingId, newStartTime, newEndTime)
+    }
+
+    try {
+      setLoading(true)
+
+      const booking = await bookingService.getBooking(bookingId)
+      if (!booking) {
+        Alert.alert('Error', 'Booking not found')
+        return false
+      }
+
+      const studio = await bookingService.getStudio(booking.studio_id)
+      const timeZone = getStudioTimeZone(studio)
+      const durationMs = new Date(newEndTime).getTime() - new Date(newStartTime).getTime()
+
+      // Move every session the same way and check all of them before changing any.
+      // Each is checked clear of the sessions' old times and of those already placed.
+      const sessions = await bookingService.getSeriesScopeBookings(booking, scope)
+      const movingIds = sessions.map(session => session.id)
+      const moves: { session: Booking; start: Date; end: Date; resources: Resource[] }[] = []
+      const conflicts: string[] = []
+
+      for (const session of sessions) {
+        const start = shiftOccurrence(session.start_time, booking.start_time, newStartTime, timeZone)
+        const end = new Date(start.getTime() + durationMs)
+
+        // Checks opening hours and blocked time too
+        const resources = await bookingService.assignResources(
+          booking.studio_id,
+          booking.service_id,
+          start.toISOString(),
+          end.toISOString(),
+          [session.id, ...movingIds.filter(id => id !== session.id)],
+          moves.map(move => ({
+            ...move.session,
+            start_time: move.start.toISOString(),
+            end_time: move.end.toISOString(),
+            resource_ids: move.resources.map(resource => resource.id),
+          }))
+        )
+
+        if (!resources) {
+          conflicts.push(formatDateInTimeZone(start.toISOString(), timeZone))
+          continue
+        }
+
+        moves.push({ session, start, end, resources })
+      }
+
+      if (conflicts.length > 0) {
+        Alert.alert('Error', `These sessions can't be moved to the new time: ${conflicts.join(', ')}`)
+        return false
+      }
+
+      // All together, so a failure part way can't leave the series half moved
+      await bookingService.rescheduleBookings(moves.map(({ session, start, end, resources }) => ({
+        id: session.id,
+        start_time: start.toISOString(),
+        end_time: end.toISOString(),
+        resource_ids: resources.map(resource => resource.id),
+      })))
+
+      const service = await bookingService.getService(booking.service_id)
+
+      if (service && studio && moves.length > 0) {
+        const emailData = {
+          booking: {
+            ...moves[0].session,
+            start_time: moves[0].start.toISOString(),
+            end_time: moves[0].end.toISOString()
+          },
+          service,
+          studio,
+          clientName: booking.client_name,
+          clientEmail: booking.client_email,
+        }
+
+        await emailService.sendBookingStatusUpdate(
+          emailData,
+          'confirmed',
+          'confirmed' // Same status but with updated times
+        )
+        await smsService.sendBookingReschedule(emailData)
+      }
+
+      Alert.alert('Success', `${moves.length} session${moves.length === 1 ? '' : 's'} rescheduled`)
+      return true
+
+    } catch (error: any) {
+      console.error('Error rescheduling series bookings:', error)
+      Alert.alert('Error', error instanceof BookingError ? error.message : 'Failed to reschedule sessions')
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }, [rescheduleBooking])
+
   return {
     loading,
     updateBookingStatus,
     cancelBookingWithRefund,
     sendBookingReminder,
     rescheduleBooking,
+    cancelSeriesBookings,
+    rescheduleSeriesBookings,
   }
 }
\ No newline at end of file
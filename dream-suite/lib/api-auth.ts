@@ -0,0 +1,14 @@
+// The Authorization header for the app's own email and text routes (/api/email/send,
+// /api/sms/send). Server code sends INTERNAL_API_SECRET; the admin app sends the
+// signed in owner's Supabase session, like StripeBookingService. The Supabase client
+// is only loaded in the app, never on the server.
+export const getApiAuthHeaders = async (): Promise<Record<string, string>> => {
+  if (typeof window === 'undefined') {
+    const secret = process.env.INTERNAL_API_SECRET
+    return secret ? { Authorization: `Bearer ${secret}` } : {}
+  }
+
+  const { supabase } = await import('./supabase')
+  const { data: { session } } = await supabase.auth.getSession()
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
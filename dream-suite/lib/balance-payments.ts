@@ -0,0 +1,194 @@
+import Stripe from 'stripe'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { emailService } from './email-service'
+import { recordBookingPayment } from './payment-ledger'
+import { getDestinationChargeData } from './stripe-connect'
+import { Booking, Service, Studio } from '../types/booking'
+import { getBalanceDueCents } from '../utils/payments'
+
+// Server side only, like waitlist-offers.ts: the API routes pass in their service
+// role Supabase client and Stripe instance.
+
+export const recordBalancePayment = async (
+  supabase: SupabaseClient,
+  bookingId: string,
+  amountCents: number,
+  paymentIntentId: string | null,
+  sessionId?: string
+): Promise<void> => {
+  // The ledger ignores a payment it already has, so a repeated webhook or verify call is harmless
+  await recordBookingPayment(supabase, {
+    booking_id: bookingId,
+    kind: 'charge',
+    payment_type: 'balance',
+    amount_cents: amountCents,
+    stripe_payment_intent_id: paymentIntentId || undefined,
+    stripe_session_id: sessionId,
+  })
+
+  const { error } = await supabase
+    .from('bookings')
+    .update({
+      balance_payment_intent_id: paymentIntentId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', bookingId)
+
+  if (error) throw error
+}
+
+// Stripe lets a Checkout session stay open for at most 24 hours after it creates
+// it; an hour less leaves room for our clock being ahead of Stripe's
+const BALANCE_CHECKOUT_HOURS = 23
+
+/**
+ * A Checkout session for whatever is left to pay on a booking, reusing the
+ * customer saved at the deposit checkout so their card is offered first. The
+ * session is kept on the booking, so opening the payment link again returns the
+ * one still open rather than starting another the client could also pay.
+ */
+export const getBalanceCheckoutSession = async (
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  booking: Booking & { services?: Service; studios?: Studio },
+  successUrl: string,
+  cancelUrl: string
+): Promise<Stripe.Checkout.Session> => {
+  const balanceCents = getBalanceDueCents(booking)
+  const serviceName = booking.services?.name || 'Studio Session'
+
+  if (booking.balance_session_id) {
+    const existing = await stripe.checkout.sessions.retrieve(booking.balance_session_id)
+
+    if (existing.status === 'open') {
+      if (existing.amount_total === balanceCents && existing.url) {
+        return existing
+      }
+
+      // The balance changed since (e.g. a partial refund); close the old checkout
+      // so it can't be paid for the wrong amount
+      await stripe.checkout.sessions.expire(existing.id)
+    }
+  }
+
+  const session = await stripe.checkout.sessions.create({
+    payment_method_types: ['card'],
+    mode: 'payment',
+    line_items: [
+      {
+        price_data: {
+          currency: booking.currency || 'usd',
+          product_data: {
+            name: serviceName,
+            description: `${serviceName} - Remaining Balance`,
+          },
+          unit_amount: balanceCents,
+        },
+        quantity: 1,
+      },
+    ],
+    ...(booking.stripe_customer_id
+      ? { customer: booking.stripe_customer_id }
+      : { customer_email: booking.client_email }),
+    metadata: {
+      booking_id: booking.id,
+      payment_type: 'balance',
+    },
+    // Recorded from checkout.session.completed, keyed on the session. The payment
+    // intent isn't marked as a balance payment, so payment_intent.succeeded leaves it.
+    payment_intent_data: {
+      ...getDestinationChargeData(booking.studios, balanceCents),
+      metadata: { booking_id: booking.id },
+    },
+    success_url: successUrl,
+    cancel_url: cancelUrl,
+    expires_at: Math.floor(Date.now() / 1000) + BALANCE_CHECKOUT_HOURS * 60 * 60,
+  })
+
+  const { error } = await supabase
+    .from('bookings')
+    .update({ balance_session_id: session.id, updated_at: new Date().toISOString() })
+    .eq('id', booking.id)
+
+  if (error) throw error
+
+  return session
+}
+
+/**
+ * Collect the balance on a booking: charge the card saved at checkout, or email
+ * the client a payment link if there's no card or the charge needs them (declined,
+ * 3D Secure). Each booking is only attempted once; balance_requested_at is set
+ * first so overlapping runs can't both charge it.
+ */
+export const collectBalance = async (
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  booking: Booking & { services?: Service; studios?: Studio },
+  baseUrl: string
+): Promise<'charged' | 'requested' | 'skipped'> => {
+  const balanceCents = getBalanceDueCents(booking)
+  if (balanceCents <= 0) return 'skipped'
+
+  const { data: claimed } = await supabase
+    .from('bookings')
+    .update({ balance_requested_at: new Date().toISOString() })
+    .eq('id', booking.id)
+    .is('balance_requested_at', null)
+    .select('id')
+
+  if (!claimed || claimed.length === 0) return 'skipped'
+
+  if (booking.stripe_customer_id && booking.stripe_payment_intent_id) {
+    try {
+      const firstPayment = await stripe.paymentIntents.retrieve(booking.stripe_payment_intent_id)
+
+      if (firstPayment.payment_method) {
+        const intent = await stripe.paymentIntents.create(
+          {
+            amount: balanceCents,
+            currency: booking.currency || 'usd',
+            customer: booking.stripe_customer_id,
+            payment_method: firstPayment.payment_method as string,
+            off_session: true,
+            confirm: true,
+            ...getDestinationChargeData(booking.studios, balanceCents),
+            description: `${booking.services?.name || 'Studio Session'} - Remaining Balance`,
+            metadata: { booking_id: booking.id, payment_type: 'balance' },
+          },
+          { idempotencyKey: `balance-${booking.id}-${balanceCents}` }
+        )
+
+        if (intent.status === 'succeeded') {
+          await recordBalancePayment(supabase, booking.id, balanceCents, intent.id)
+          return 'charged'
+        }
+      }
+    } catch (error: any) {
+      // Declined or needs authentication: fall back to a payment link
+      console.error(`Could not charge saved card for booking ${booking.id}:`, error.message)
+    }
+  }
+
+  const paymentUrl = `${baseUrl}/api/payments/balance?booking=${booking.id}`
+
+  if (booking.services && booking.studios) {
+    const emailSent = await emailService.sendBalancePaymentRequest(
+      {
+        booking,
+        service: booking.services,
+        studio: booking.studios,
+        clientName: booking.client_name,
+        clientEmail: booking.client_email,
+      },
+      paymentUrl,
+      balanceCents
+    )
+
+    if (!emailSent) {
+      console.error(`Failed to email balance payment link for booking ${booking.id}`)
+    }
+  }
+
+  return 'requested'
+}
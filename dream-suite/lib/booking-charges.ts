@@ -0,0 +1,92 @@
+import Stripe from 'stripe'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Booking, Studio } from '../types/booking'
+import { ChargeLine, calculateBookingCharges, getPreTaxPriceCents, getStudioCurrency, splitAmountAcrossLines } from '../utils/charges'
+
+// Server side only: tax and fees are added by the server when checkout is created,
+// after any promo code, using the studio's rates at the time. Clients can't set
+// them (see taxes-setup.sql).
+
+type ChargedBooking = Pick<Booking, 'id' | 'total_price_cents' | 'tax_cents' | 'tax_rate_percent' | 'fee_cents'>
+
+type StudioRates = Pick<Studio, 'currency' | 'country' | 'tax_rate_percent' | 'tax_label' | 'booking_fee_cents' | 'processing_fee_percent'>
+
+// A booking priced before tax and fees, for re-pricing (a promo code, new rates)
+export const withoutCharges = <T extends ChargedBooking>(booking: T): T => ({
+  ...booking,
+  total_price_cents: getPreTaxPriceCents(booking),
+  tax_cents: 0,
+  fee_cents: 0,
+})
+
+/**
+ * Add the studio's tax and fees to bookings priced without them (see
+ * withoutCharges), recording what they came to on each booking.
+ */
+export const applyBookingCharges = async <T extends ChargedBooking>(
+  supabase: SupabaseClient,
+  bookings: T[],
+  studio: Partial<StudioRates>
+): Promise<T[]> => {
+  const charged: T[] = []
+
+  for (const booking of bookings) {
+    const update = {
+      ...calculateBookingCharges(booking.total_price_cents, studio),
+      currency: getStudioCurrency(studio),
+    }
+
+    const { error } = await supabase
+      .from('bookings')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', booking.id)
+
+    if (error) throw error
+    charged.push({ ...booking, ...update })
+  }
+
+  return charged
+}
+
+/**
+ * Checkout line items for bookings: the sessions, then tax and fees, each as its
+ * own line. Paying part now (a deposit) shares that amount across the same lines.
+ */
+export const getCheckoutLineItems = (
+  bookings: ChargedBooking[],
+  product: { name: string; description: string },
+  studio: Partial<StudioRates>,
+  amountCents?: number
+): Stripe.Checkout.SessionCreateParams.LineItem[] => {
+  const sum = (cents: (booking: ChargedBooking) => number) =>
+    bookings.reduce((total, booking) => total + cents(booking), 0)
+
+  const taxCents = sum(booking => booking.tax_cents || 0)
+  const feeCents = sum(booking => booking.fee_cents || 0)
+  const taxRate = Number(bookings[0]?.tax_rate_percent || 0)
+
+  let lines: ChargeLine[] = [
+    { label: product.name, cents: sum(getPreTaxPriceCents) },
+    ...(taxCents > 0 ? [{ label: `${studio.tax_label || 'Tax'} (${taxRate}%)`, cents: taxCents }] : []),
+    ...(feeCents > 0 ? [{ label: 'Booking fee', cents: feeCents }] : []),
+  ]
+
+  const totalCents = sum(booking => booking.total_price_cents)
+  if (amountCents !== undefined && amountCents !== totalCents) {
+    lines = splitAmountAcrossLines(lines, amountCents)
+  }
+
+  return lines
+    .filter((line, index) => index === 0 || line.cents > 0)
+    .map((line, index) => ({
+      price_data: {
+        currency: getStudioCurrency(studio),
+        product_data: {
+          name: line.label,
+          ...(index === 0 ? { description: product.description } : {}),
+        },
+        unit_amount: line.cents,
+      },
+      quantity: 1,
+    }))
+}
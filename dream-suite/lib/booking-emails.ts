@@ -0,0 +1,83 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { emailService } from './email-service'
+import { smsService } from './sms-service'
+
+// Server side only: the client's confirmation (emailed, and texted if they asked)
+// and the studio's notification once a booking is confirmed, whether paid at checkout (lib/stripe-webhooks.ts) or with
+// package credits (app/api/packages/redeem+api.ts).
+
+export const sendBookingEmails = async (supabase: SupabaseClient, bookingId: string): Promise<void> => {
+  try {
+    // Get booking details with related data
+    const { data: bookingData, error: bookingError } = await supabase
+      .from('bookings')
+      .select(`
+        *,
+        services (
+          id,
+          name,
+          description,
+          duration_minutes,
+          price_cents,
+          category
+        ),
+        studios (
+          id,
+          name,
+          email,
+          phone,
+          address,
+          city,
+          state,
+          timezone,
+          sms_enabled
+        )
+      `)
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !bookingData) {
+      console.error('Error fetching booking for email:', bookingError)
+      return
+    }
+
+    const booking = bookingData
+    const service = bookingData.services
+    const studio = bookingData.studios
+
+    if (!service || !studio) {
+      console.error('Missing service or studio data for booking email')
+      return
+    }
+
+    const emailData = {
+      booking,
+      service,
+      studio,
+      clientName: booking.client_name,
+      clientEmail: booking.client_email,
+    }
+
+    // Send confirmation email to client
+    console.log('Sending booking confirmation email...')
+    const confirmationSent = await emailService.sendBookingConfirmation(emailData)
+    if (!confirmationSent) {
+      console.error('Failed to send booking confirmation email')
+    }
+
+    // Text the client too, if they asked for texts
+    await smsService.sendBookingConfirmation(emailData)
+
+    // Send notification email to studio
+    console.log('Sending studio notification email...')
+    const notificationSent = await emailService.sendStudioNotification(emailData)
+    if (!notificationSent) {
+      console.error('Failed to send studio notification email')
+    }
+
+    console.log('Booking emails sent successfully')
+    
+  } catch (error: any) {
+    console.error('Error sending booking emails:', error)
+  }
+}
@@ -0,0 +1,123 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { BookingEmailData, emailService } from './email-service'
+import { smsService } from './sms-service'
+import { Booking, BookingReminder, Service, Studio } from '../types/booking'
+
+// Server side only: run by the reminder dispatcher (/api/bookings/send-reminders)
+// and a studio's manual send (/api/bookings/send-reminder) with the service role
+// client. Each reminder is recorded in booking_reminders before it's sent, so
+// overlapping runs, or a run and a manual send, can't both send it. It's emailed,
+// and texted to clients who asked for texts.
+
+// Tightest window first: a booking inside the 1h window gets that reminder, not a late 24h one
+const REMINDER_WINDOWS: { type: BookingReminder['reminder_type']; hoursBefore: number }[] = [
+  { type: '1h', hoursBefore: 1 },
+  { type: '24h', hoursBefore: 24 },
+]
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Send the reminder for every confirmed booking that has entered a reminder
+ * window. Bookings made inside the window are skipped (their confirmation just
+ * went out), as are reminders already sent and bookings rescheduled after one
+ * was (the reschedule notice gave the client the new time).
+ */
+export const sendDueReminders = async (
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ sent: number; skipped: number; failed: number }> => {
+  const maxHours = Math.max(...REMINDER_WINDOWS.map(window => window.hoursBefore))
+
+  const { data: bookings, error } = await supabase
+    .from('bookings')
+    .select('*, services(*), studios(*)')
+    .eq('status', 'confirmed')
+    .gt('start_time', now.toISOString())
+    .lte('start_time', new Date(now.getTime() + maxHours * HOUR_MS).toISOString())
+
+  if (error) throw error
+
+  const results = { sent: 0, skipped: 0, failed: 0 }
+  if (!bookings || bookings.length === 0) return results
+
+  const { data: sentReminders, error: remindersError } = await supabase
+    .from('booking_reminders')
+    .select('booking_id, reminder_type, start_time')
+    .in('booking_id', bookings.map(booking => booking.id))
+
+  if (remindersError) throw remindersError
+
+  for (const booking of bookings) {
+    const startMs = Date.parse(booking.start_time)
+    const window = REMINDER_WINDOWS.find(window => startMs - now.getTime() <= window.hoursBefore * HOUR_MS)!
+
+    const reminders = (sentReminders || []).filter(reminder => reminder.booking_id === booking.id)
+    const alreadySent = reminders.some(reminder => reminder.reminder_type === window.type)
+    const rescheduled = reminders.some(reminder => Date.parse(reminder.start_time) !== startMs)
+    const bookedInsideWindow = Date.parse(booking.created_at) > startMs - window.hoursBefore * HOUR_MS
+
+    if (alreadySent || rescheduled || bookedInsideWindow || !booking.services || !booking.studios) {
+      results.skipped++
+      continue
+    }
+
+    const result = await sendReminder(supabase, booking, window.type)
+
+    if (result === 'sent') {
+      results.sent++
+    } else if (result === 'already_sent') {
+      // Another run got to it first
+      results.skipped++
+    } else {
+      console.error(`Failed to send ${window.type} reminder for booking ${booking.id}`)
+      results.failed++
+    }
+  }
+
+  return results
+}
+
+/**
+ * Claim a booking's reminder in booking_reminders and send it. The booking is
+ * loaded with its services and studios. Nothing is sent if the reminder already
+ * was; if the email fails the claim is dropped so it can be tried again.
+ */
+export const sendReminder = async (
+  supabase: SupabaseClient,
+  booking: Booking & { services: Service; studios: Studio },
+  reminderType: BookingReminder['reminder_type']
+): Promise<'sent' | 'already_sent' | 'failed'> => {
+  const { data: claimed, error: claimError } = await supabase
+    .from('booking_reminders')
+    .upsert(
+      { booking_id: booking.id, reminder_type: reminderType, start_time: booking.start_time },
+      { onConflict: 'booking_id,reminder_type', ignoreDuplicates: true }
+    )
+    .select('id')
+
+  if (claimError) throw claimError
+
+  if (!claimed || claimed.length === 0) {
+    return 'already_sent'
+  }
+
+  const emailData: BookingEmailData = {
+    booking,
+    service: booking.services,
+    studio: booking.studios,
+    clientName: booking.client_name,
+    clientEmail: booking.client_email,
+  }
+
+  const emailSent = await emailService.sendBookingReminder(emailData, reminderType)
+
+  if (!emailSent) {
+    await supabase.from('booking_reminders').delete().eq('id', claimed[0].id)
+    return 'failed'
+  }
+
+  // Only once the reminder is kept as sent, so a retry can't text the client twice
+  await smsService.sendBookingReminder(emailData, reminderType)
+  return 'sent'
+}
@@ -0,0 +1,93 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getBookingPayments } from './payment-ledger'
+import { BookingDispute } from '../types/booking'
+import {
+  describeBookingPayment,
+  describeCancellationPolicy,
+  describeDisputeReason,
+  describeDisputeStatus,
+} from '../utils/payments'
+import { formatMoney } from '../utils/charges'
+import { formatDateInTimeZone, formatTimeInTimeZone, getStudioTimeZone } from '../utils/timezone'
+
+// Server side only. What a studio needs to answer a dispute, as plain text they can
+// read through and paste or upload into the Stripe dashboard's dispute response.
+
+export const buildDisputeEvidence = async (
+  supabase: SupabaseClient,
+  bookingId: string
+): Promise<string> => {
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('*, services(*), studios(*)')
+    .eq('id', bookingId)
+    .single()
+
+  if (error || !booking) throw error || new Error(`Booking ${bookingId} not found`)
+
+  const { data: disputes, error: disputesError } = await supabase
+    .from('booking_disputes')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at')
+
+  if (disputesError) throw disputesError
+
+  const payments = await getBookingPayments(supabase, bookingId)
+
+  const studio = booking.studios
+  const service = booking.services
+  const timeZone = getStudioTimeZone(studio)
+  const formatMoment = (dateString: string) =>
+    `${formatDateInTimeZone(dateString, timeZone)} ${formatTimeInTimeZone(dateString, timeZone, true)}`
+  const formatCents = (cents: number) => formatMoney(cents, booking.currency)
+
+  const lines = [
+    `Booking evidence - ${studio?.name || 'Studio'}`,
+    `Prepared ${formatMoment(new Date().toISOString())}`,
+    '',
+    'BOOKING',
+    `Booking ID: ${booking.id}`,
+    `Booked on: ${formatMoment(booking.created_at)}`,
+    `Status: ${booking.status.replace('_', ' ')}`,
+    `Service: ${service?.name || 'Unknown service'}${service?.description ? ` - ${service.description}` : ''}`,
+    `Session: ${formatMoment(booking.start_time)} to ${formatTimeInTimeZone(booking.end_time, timeZone, true)}`,
+    ...(booking.client_timezone ? [`Client's time zone: ${booking.client_timezone}`] : []),
+    `Total price: ${formatCents(booking.total_price_cents)}`,
+    ...(booking.tax_cents ? [`Tax: ${formatCents(booking.tax_cents)}`] : []),
+    ...(booking.fee_cents ? [`Fees: ${formatCents(booking.fee_cents)}`] : []),
+    '',
+    'CLIENT',
+    `Name: ${booking.client_name}`,
+    `Email: ${booking.client_email}`,
+    ...(booking.client_phone ? [`Phone: ${booking.client_phone}`] : []),
+    '',
+    'NOTES',
+    `Client's notes when booking: ${booking.notes || 'None'}`,
+    `Studio notes: ${booking.internal_notes || 'None'}`,
+    '',
+    'COMMUNICATION',
+    `Booking confirmation emailed to ${booking.client_email}: ${booking.confirmation_sent_at ? formatMoment(booking.confirmation_sent_at) : 'no record'}`,
+    ...(booking.balance_requested_at ? [`Balance charged or requested: ${formatMoment(booking.balance_requested_at)}`] : []),
+    '',
+    'CANCELLATION POLICY (shown to the client at booking)',
+    describeCancellationPolicy(studio),
+    '',
+    'PAYMENTS',
+    ...(payments.length > 0
+      ? payments.map(payment =>
+          `${formatMoment(payment.created_at)}  ${describeBookingPayment(payment)}  ${formatCents(payment.amount_cents)}` +
+          `${payment.stripe_payment_intent_id ? `  (${payment.stripe_payment_intent_id})` : ''}`
+        )
+      : ['No payments recorded']),
+    '',
+    'DISPUTES',
+    ...((disputes || []) as BookingDispute[]).map(dispute =>
+      `${dispute.stripe_dispute_id}: ${formatCents(dispute.amount_cents)}, ${describeDisputeReason(dispute.reason)}, ` +
+      `${describeDisputeStatus(dispute.status)}` +
+      `${dispute.evidence_due_by ? `, respond by ${formatMoment(dispute.evidence_due_by)}` : ''}`
+    ),
+  ]
+
+  return lines.join('\n')
+}
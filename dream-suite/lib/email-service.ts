@@ -1,4 +1,25 @@
-import { Booking, Service, Studio } from '../types/booking'
+import {
+  Booking,
+  BookingDispute,
+  CustomEmailType,
+  EmailTemplateForm,
+  EmailTemplateVariables,
+  PackagePurchase,
+  SendEmailRequest,
+  Service,
+  Studio,
+} from '../types/booking'
+import { getApiAuthHeaders } from './api-auth'
+import { formatMoney, getChargeLines } from '../utils/charges'
+import { getBrandColor, renderEmailTemplate } from '../utils/email-templates'
+import { formatCredits } from '../utils/packages'
+import { describeCancellationPolicy, describeDisputeReason, describeDisputeStatus, isDisputeOpen } from '../utils/payments'
+import {
+  formatDateInTimeZone,
+  formatTimeForStudioAndClient,
+  formatTimeInTimeZone,
+  getStudioTimeZone,
+} from '../utils/timezone'
 
 const API_URL = typeof window !== 'undefined' 
   ? window.location.origin 
@@ -18,6 +39,24 @@ export interface BookingEmailData {
   clientEmail: string
 }
 
+// What the emails about a booking need beyond the booking itself
+export interface BookingEmailOptions {
+  reminderType?: '24h' | '1h'
+  reason?: string
+  oldStatus?: string
+  newStatus?: string
+  claimUrl?: string
+  offerExpiresAt?: string
+  paymentUrl?: string
+  balanceCents?: number
+}
+
+// A built-in email, with the variables a studio's own template for it can use
+export interface BuiltEmail {
+  template: EmailTemplate
+  variables?: EmailTemplateVariables
+}
+
 export class EmailService {
   private static instance: EmailService
   
@@ -32,33 +71,12 @@ export class EmailService {
    * Send booking confirmation email to client
    */
   async sendBookingConfirmation(emailData: BookingEmailData): Promise<boolean> {
-    try {
-      const template = this.generateBookingConfirmationTemplate(emailData)
-      
-      const response = await fetch(`${API_URL}/api/email/send-booking-confirmation`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          to: emailData.clientEmail,
-          subject: template.subject,
-          htmlBody: template.htmlBody,
-          textBody: template.textBody,
-          bookingId: emailData.booking.id,
-        }),
-      })
-
-      if (!response.ok) {
-        console.error('Failed to send confirmation email:', await response.text())
-        return false
-      }
-
-      return true
-    } catch (error: any) {
-      console.error('Email service error:', error)
-      return false
-    }
+    return this.send(() => this.buildBookingEmail('booking-confirmation', emailData), {
+      type: 'booking-confirmation',
+      to: emailData.clientEmail,
+      bookingId: emailData.booking.id,
+      studioId: emailData.studio.id,
+    })
   }
 
   /**
@@ -68,68 +86,25 @@ export class EmailService {
     emailData: BookingEmailData,
     reminderType: '24h' | '1h'
   ): Promise<boolean> {
-    try {
-      const template = this.generateBookingReminderTemplate(emailData, reminderType)
-      
-      const response = await fetch(`${API_URL}/api/email/send-booking-reminder`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          to: emailData.clientEmail,
-          subject: template.subject,
-          htmlBody: template.htmlBody,
-          textBody: template.textBody,
-          bookingId: emailData.booking.id,
-          reminderType,
-        }),
-      })
-
-      if (!response.ok) {
-        console.error('Failed to send reminder email:', await response.text())
-        return false
-      }
-
-      return true
-    } catch (error: any) {
-      console.error('Email service error:', error)
-      return false
-    }
+    return this.send(() => this.buildBookingEmail('booking-reminder', emailData, { reminderType }), {
+      type: 'booking-reminder',
+      to: emailData.clientEmail,
+      bookingId: emailData.booking.id,
+      reminderType,
+      studioId: emailData.studio.id,
+    })
   }
 
   /**
    * Send booking cancellation email to client
    */
   async sendBookingCancellation(emailData: BookingEmailData, reason?: string): Promise<boolean> {
-    try {
-      const template = this.generateBookingCancellationTemplate(emailData, reason)
-      
-      const response = await fetch(`${API_URL}/api/email/send-booking-cancellation`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          to: emailData.clientEmail,
-          subject: template.subject,
-          htmlBody: template.htmlBody,
-          textBody: template.textBody,
-          bookingId: emailData.booking.id,
-          reason,
-        }),
-      })
-
-      if (!response.ok) {
-        console.error('Failed to send cancellation email:', await response.text())
-        return false
-      }
-
-      return true
-    } catch (error: any) {
-      console.error('Email service error:', error)
-      return false
-    }
+    return this.send(() => this.buildBookingEmail('booking-cancellation', emailData, { reason }), {
+      type: 'booking-cancellation',
+      to: emailData.clientEmail,
+      bookingId: emailData.booking.id,
+      studioId: emailData.studio.id,
+    })
   }
 
   /**
@@ -140,60 +115,235 @@ export class EmailService {
     oldStatus: string,
     newStatus: string
   ): Promise<boolean> {
-    try {
-      const template = this.generateStatusUpdateTemplate(emailData, oldStatus, newStatus)
-      
-      const response = await fetch(`${API_URL}/api/email/send-status-update`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          to: emailData.clientEmail,
-          subject: template.subject,
-          htmlBody: template.htmlBody,
-          textBody: template.textBody,
-          bookingId: emailData.booking.id,
-          oldStatus,
-          newStatus,
-        }),
-      })
+    return this.send(() => this.buildBookingEmail('status-update', emailData, { oldStatus, newStatus }), {
+      type: 'status-update',
+      to: emailData.clientEmail,
+      bookingId: emailData.booking.id,
+      studioId: emailData.studio.id,
+    })
+  }
 
-      if (!response.ok) {
-        console.error('Failed to send status update email:', await response.text())
-        return false
+  /**
+   * Send new booking notification to studio owner
+   */
+  async sendStudioNotification(emailData: BookingEmailData): Promise<boolean> {
+    return this.send(() => ({ template: this.generateStudioNotificationTemplate(emailData) }), {
+      type: 'studio-notification',
+      to: emailData.studio.email,
+      bookingId: emailData.booking.id,
+      studioId: emailData.studio.id,
+    })
+  }
+
+  /**
+   * Offer a freed slot to the next client on the waitlist
+   */
+  async sendWaitlistOffer(
+    emailData: BookingEmailData,
+    claimUrl: string,
+    offerExpiresAt: string
+  ): Promise<boolean> {
+    return this.send(() => this.buildBookingEmail('waitlist-offer', emailData, { claimUrl, offerExpiresAt }), {
+      type: 'waitlist-offer',
+      to: emailData.clientEmail,
+      bookingId: emailData.booking.id,
+      studioId: emailData.studio.id,
+    })
+  }
+
+  /**
+   * Ask the client to pay the remaining balance on a booking
+   */
+  async sendBalancePaymentRequest(
+    emailData: BookingEmailData,
+    paymentUrl: string,
+    balanceCents: number
+  ): Promise<boolean> {
+    return this.send(() => this.buildBookingEmail('balance-request', emailData, { paymentUrl, balanceCents }), {
+      type: 'balance-request',
+      to: emailData.clientEmail,
+      bookingId: emailData.booking.id,
+      studioId: emailData.studio.id,
+    })
+  }
+
+  /**
+   * Tell the studio a client disputed a payment, or how a dispute ended
+   */
+  async sendDisputeNotice(emailData: BookingEmailData, dispute: BookingDispute): Promise<boolean> {
+    return this.send(() => ({ template: this.generateDisputeNoticeTemplate(emailData, dispute) }), {
+      type: 'dispute-notice',
+      to: emailData.studio.email,
+      bookingId: emailData.booking.id,
+      studioId: emailData.studio.id,
+    })
+  }
+
+  /**
+   * Send a client the code for the package they bought
+   */
+  async sendPackagePurchase(purchase: PackagePurchase, studio: Studio): Promise<boolean> {
+    return this.send(() => this.buildPackagePurchaseEmail(purchase, studio), {
+      type: 'package-purchase',
+      to: purchase.client_email,
+      purchaseId: purchase.id,
+      studioId: studio.id,
+    })
+  }
+
+  /**
+   * A client email about a booking: the built-in version, and the variables the
+   * studio's own template for it is filled in with
+   */
+  buildBookingEmail(
+    type: Exclude<CustomEmailType, 'package-purchase'>,
+    emailData: BookingEmailData,
+    options: BookingEmailOptions = {}
+  ): BuiltEmail {
+    const { booking, studio } = emailData
+    const timeZone = getStudioTimeZone(studio)
+    const variables = this.getBookingTemplateVariables(emailData)
+
+    switch (type) {
+      case 'booking-confirmation':
+        return { template: this.generateBookingConfirmationTemplate(emailData), variables }
+      case 'booking-reminder': {
+        const reminderType = options.reminderType || '24h'
+        return {
+          template: this.generateBookingReminderTemplate(emailData, reminderType),
+          variables: { ...variables, reminder_type: reminderType, time_until: reminderType === '24h' ? 'tomorrow' : 'in 1 hour' },
+        }
+      }
+      case 'booking-cancellation':
+        return {
+          template: this.generateBookingCancellationTemplate(emailData, options.reason),
+          variables: { ...variables, reason: options.reason || '' },
+        }
+      case 'status-update':
+        return {
+          template: this.generateStatusUpdateTemplate(emailData, options.oldStatus || '', options.newStatus || ''),
+          variables: { ...variables, old_status: options.oldStatus || '', new_status: options.newStatus || '' },
+        }
+      case 'waitlist-offer': {
+        const offerExpiresAt = options.offerExpiresAt || booking.hold_expires_at || booking.start_time
+        return {
+          template: this.generateWaitlistOfferTemplate(emailData, options.claimUrl || '', offerExpiresAt),
+          variables: {
+            ...variables,
+            claim_url: options.claimUrl || '',
+            offer_expires_at: `${formatDateInTimeZone(offerExpiresAt, timeZone)} at ${formatTimeInTimeZone(offerExpiresAt, timeZone, true)}`,
+          },
+        }
       }
+      case 'balance-request':
+        return {
+          template: this.generateBalancePaymentRequestTemplate(emailData, options.paymentUrl || '', options.balanceCents || 0),
+          variables: {
+            ...variables,
+            payment_url: options.paymentUrl || '',
+            balance: formatMoney(options.balanceCents || 0, booking.currency),
+          },
+        }
+    }
+  }
 
-      return true
-    } catch (error: any) {
-      console.error('Email service error:', error)
-      return false
+  buildPackagePurchaseEmail(purchase: PackagePurchase, studio: Studio): BuiltEmail {
+    const timeZone = getStudioTimeZone(studio)
+
+    return {
+      template: this.generatePackagePurchaseTemplate(purchase, studio),
+      variables: {
+        client_name: purchase.client_name,
+        client_email: purchase.client_email,
+        total: formatMoney(purchase.price_cents + (purchase.tax_cents || 0), purchase.currency),
+        package: {
+          name: purchase.package_name,
+          code: purchase.code,
+          credits: formatCredits(purchase.credit_type, purchase.credits_total),
+          covers: purchase.categories.length > 0 ? purchase.categories.join(', ') : 'Any service',
+          expires: purchase.expires_at ? formatDateInTimeZone(purchase.expires_at, timeZone) : '',
+        },
+        studio: this.getStudioTemplateVariables(studio),
+      },
     }
   }
 
   /**
-   * Send new booking notification to studio owner
+   * What the client would get: the studio's template filled in, or the built-in
+   * email without one. For previewing templates in the admin area.
    */
-  async sendStudioNotification(emailData: BookingEmailData): Promise<boolean> {
+  previewEmail(
+    type: CustomEmailType,
+    sample: { emailData: BookingEmailData; purchase: PackagePurchase; options?: BookingEmailOptions },
+    template?: Pick<EmailTemplateForm, 'subject' | 'html_body' | 'text_body'> | null
+  ): BuiltEmail {
+    const built = type === 'package-purchase'
+      ? this.buildPackagePurchaseEmail(sample.purchase, sample.emailData.studio)
+      : this.buildBookingEmail(type, sample.emailData, sample.options)
+
+    return template
+      ? { template: renderEmailTemplate(template, built.variables!), variables: built.variables }
+      : built
+  }
+
+  private getBookingTemplateVariables(emailData: BookingEmailData): EmailTemplateVariables {
+    const { booking, service, studio } = emailData
+    const timeZone = getStudioTimeZone(studio)
+    const durationMinutes = Math.round(
+      (new Date(booking.end_time).getTime() - new Date(booking.start_time).getTime()) / (1000 * 60)
+    )
+
+    return {
+      client_name: emailData.clientName,
+      client_email: emailData.clientEmail,
+      booking_id: booking.id,
+      date: formatDateInTimeZone(booking.start_time, timeZone),
+      time: formatTimeForStudioAndClient(booking.start_time, timeZone, booking.client_timezone, booking.end_time),
+      start_time: `${formatDateInTimeZone(booking.start_time, timeZone)} at ${formatTimeInTimeZone(booking.start_time, timeZone, true)}`,
+      end_time: formatTimeInTimeZone(booking.end_time, timeZone, true),
+      duration_minutes: String(durationMinutes),
+      total: formatMoney(booking.total_price_cents, booking.currency),
+      service: {
+        name: service.name,
+        description: service.description || '',
+      },
+      studio: this.getStudioTemplateVariables(studio),
+    }
+  }
+
+  private getStudioTemplateVariables(studio: Studio): EmailTemplateVariables {
+    return {
+      name: studio.name,
+      email: studio.email || '',
+      phone: studio.phone || '',
+      address: studio.address || '',
+      website: studio.website || '',
+      logo_url: studio.logo_url || '',
+      brand_color: getBrandColor(studio),
+      cancellation_policy: describeCancellationPolicy(studio),
+    }
+  }
+
+  // Every email goes out through the one send endpoint, which only takes them from
+  // server code and the studio's owner; false if it didn't go
+  private async send(
+    buildEmail: () => BuiltEmail,
+    request: Omit<SendEmailRequest, 'subject' | 'htmlBody' | 'textBody' | 'variables'>
+  ): Promise<boolean> {
     try {
-      const template = this.generateStudioNotificationTemplate(emailData)
-      
-      const response = await fetch(`${API_URL}/api/email/send-studio-notification`, {
+      const { template, variables } = buildEmail()
+
+      const response = await fetch(`${API_URL}/api/email/send`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(await getApiAuthHeaders()),
         },
-        body: JSON.stringify({
-          to: emailData.studio.email,
-          subject: template.subject,
-          htmlBody: template.htmlBody,
-          textBody: template.textBody,
-          bookingId: emailData.booking.id,
-        }),
+        body: JSON.stringify({ ...request, ...template, variables }),
       })
 
       if (!response.ok) {
-        console.error('Failed to send studio notification:', await response.text())
+        console.error(`Failed to send ${request.type} email:`, await response.text())
         return false
       }
 
@@ -204,18 +354,34 @@ export class EmailService {
     }
   }
 
+  // The price, then any discount, tax and fees, when there's more to show than the total
+  private getPriceLines(booking: Booking, studio: Studio) {
+    const lines = getChargeLines(booking, 'Price', studio.tax_label)
+    return lines.length > 1 ? lines : []
+  }
+
+  // The studio's logo, when it has one, above its name
+  private getStudioHeading(studio: Studio): string {
+    return `${studio.logo_url ? `<img src="${studio.logo_url}" alt="${studio.name}" style="max-height: 60px; margin-bottom: 10px;">` : ''}
+          <h1>${studio.name}</h1>`
+  }
+
   // Template generators
   private generateBookingConfirmationTemplate(emailData: BookingEmailData): EmailTemplate {
     const { booking, service, studio } = emailData
     const bookingDate = new Date(booking.start_time)
     const endDate = new Date(booking.end_time)
+    const timeZone = getStudioTimeZone(studio)
+    const brandColor = getBrandColor(studio)
+    const dateText = formatDateInTimeZone(booking.start_time, timeZone)
+    const timeText = formatTimeForStudioAndClient(booking.start_time, timeZone, booking.client_timezone, booking.end_time)
 
     const subject = `Booking Confirmed - ${studio.name}`
 
     const htmlBody = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <div style="background-color: #2081C3; color: white; padding: 20px; text-align: center;">
-          <h1>${studio.name}</h1>
+        <div style="background-color: ${brandColor}; color: white; padding: 20px; text-align: center;">
+          ${this.getStudioHeading(studio)}
           <h2>Booking Confirmed! 🎵</h2>
         </div>
         
@@ -227,23 +393,11 @@ export class EmailService {
             <div style="background-color: #f8f9fa; padding: 15px; border-radius: 8px; margin: 20px 0;">
               <h4 style="margin-top: 0;">Booking Details</h4>
               <p><strong>Service:</strong> ${service.name}</p>
-              <p><strong>Date:</strong> ${bookingDate.toLocaleDateString('en-US', { 
-                weekday: 'long', 
-                year: 'numeric', 
-                month: 'long', 
-                day: 'numeric' 
-              })}</p>
-              <p><strong>Time:</strong> ${bookingDate.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit', 
-                hour12: true 
-              })} - ${endDate.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit', 
-                hour12: true 
-              })}</p>
+              <p><strong>Date:</strong> ${dateText}</p>
+              <p><strong>Time:</strong> ${timeText}</p>
               <p><strong>Duration:</strong> ${Math.round((endDate.getTime() - bookingDate.getTime()) / (1000 * 60))} minutes</p>
-              <p><strong>Total:</strong> $${(booking.total_price_cents / 100).toFixed(2)}</p>
+              ${this.getPriceLines(booking, studio).map(line => `<p><strong>${line.label}:</strong> ${formatMoney(line.cents, booking.currency)}</p>`).join('')}
+              <p><strong>Total:</strong> ${formatMoney(booking.total_price_cents, booking.currency)}</p>
             </div>
 
             ${studio.address ? `
@@ -279,23 +433,10 @@ Hi ${booking.client_name},
 Your booking has been confirmed! Here are the details:
 
 Service: ${service.name}
-Date: ${bookingDate.toLocaleDateString('en-US', { 
-  weekday: 'long', 
-  year: 'numeric', 
-  month: 'long', 
-  day: 'numeric' 
-})}
-Time: ${bookingDate.toLocaleTimeString('en-US', { 
-  hour: 'numeric', 
-  minute: '2-digit', 
-  hour12: true 
-})} - ${endDate.toLocaleTimeString('en-US', { 
-  hour: 'numeric', 
-  minute: '2-digit', 
-  hour12: true 
-})}
+Date: ${dateText}
+Time: ${timeText}
 Duration: ${Math.round((endDate.getTime() - bookingDate.getTime()) / (1000 * 60))} minutes
-Total: $${(booking.total_price_cents / 100).toFixed(2)}
+${this.getPriceLines(booking, studio).map(line => `${line.label}: ${formatMoney(line.cents, booking.currency)}\n`).join('')}Total: ${formatMoney(booking.total_price_cents, booking.currency)}
 
 ${studio.address ? `Studio Location: ${studio.address}` : ''}
 
@@ -321,7 +462,10 @@ The ${studio.name} Team
     reminderType: '24h' | '1h'
   ): EmailTemplate {
     const { booking, service, studio } = emailData
-    const bookingDate = new Date(booking.start_time)
+    const timeZone = getStudioTimeZone(studio)
+    const brandColor = getBrandColor(studio)
+    const dateText = formatDateInTimeZone(booking.start_time, timeZone)
+    const timeText = formatTimeForStudioAndClient(booking.start_time, timeZone, booking.client_timezone)
     const timeFrame = reminderType === '24h' ? 'tomorrow' : 'in 1 hour'
     const urgency = reminderType === '1h' ? 'Soon! ' : ''
 
@@ -329,8 +473,8 @@ The ${studio.name} Team
 
     const htmlBody = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <div style="background-color: #2081C3; color: white; padding: 20px; text-align: center;">
-          <h1>${studio.name}</h1>
+        <div style="background-color: ${brandColor}; color: white; padding: 20px; text-align: center;">
+          ${this.getStudioHeading(studio)}
           <h2>${urgency}Session Reminder 🔔</h2>
         </div>
         
@@ -339,19 +483,11 @@ The ${studio.name} Team
             <h3>Hi ${booking.client_name},</h3>
             <p>This is a friendly reminder about your upcoming session ${timeFrame}!</p>
             
-            <div style="background-color: #eff6ff; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #2081C3;">
+            <div style="background-color: #eff6ff; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid ${brandColor};">
               <h4 style="margin-top: 0;">Session Details</h4>
               <p><strong>Service:</strong> ${service.name}</p>
-              <p><strong>Date:</strong> ${bookingDate.toLocaleDateString('en-US', { 
-                weekday: 'long', 
-                month: 'long', 
-                day: 'numeric' 
-              })}</p>
-              <p><strong>Time:</strong> ${bookingDate.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit', 
-                hour12: true 
-              })}</p>
+              <p><strong>Date:</strong> ${dateText}</p>
+              <p><strong>Time:</strong> ${timeText}</p>
             </div>
 
             ${reminderType === '1h' ? `
@@ -380,16 +516,8 @@ Hi ${booking.client_name},
 This is a friendly reminder about your upcoming session ${timeFrame}!
 
 Service: ${service.name}
-Date: ${bookingDate.toLocaleDateString('en-US', { 
-  weekday: 'long', 
-  month: 'long', 
-  day: 'numeric' 
-})}
-Time: ${bookingDate.toLocaleTimeString('en-US', { 
-  hour: 'numeric', 
-  minute: '2-digit', 
-  hour12: true 
-})}
+Date: ${dateText}
+Time: ${timeText}
 
 ${studio.address ? `Location: ${studio.address}` : ''}
 
@@ -409,14 +537,16 @@ The ${studio.name} Team
     reason?: string
   ): EmailTemplate {
     const { booking, service, studio } = emailData
-    const bookingDate = new Date(booking.start_time)
+    const timeZone = getStudioTimeZone(studio)
+    const dateText = formatDateInTimeZone(booking.start_time, timeZone)
+    const timeText = formatTimeForStudioAndClient(booking.start_time, timeZone, booking.client_timezone)
 
     const subject = `Booking Cancelled - ${studio.name}`
 
     const htmlBody = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
         <div style="background-color: #ef4444; color: white; padding: 20px; text-align: center;">
-          <h1>${studio.name}</h1>
+          ${this.getStudioHeading(studio)}
           <h2>Booking Cancelled</h2>
         </div>
         
@@ -428,16 +558,8 @@ The ${studio.name} Team
             <div style="background-color: #fef2f2; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #ef4444;">
               <h4 style="margin-top: 0;">Cancelled Booking</h4>
               <p><strong>Service:</strong> ${service.name}</p>
-              <p><strong>Date:</strong> ${bookingDate.toLocaleDateString('en-US', { 
-                weekday: 'long', 
-                month: 'long', 
-                day: 'numeric' 
-              })}</p>
-              <p><strong>Time:</strong> ${bookingDate.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit', 
-                hour12: true 
-              })}</p>
+              <p><strong>Date:</strong> ${dateText}</p>
+              <p><strong>Time:</strong> ${timeText}</p>
             </div>
 
             ${reason ? `<p><strong>Reason:</strong> ${reason}</p>` : ''}
@@ -460,16 +582,8 @@ We're writing to inform you that your booking has been cancelled.
 
 Cancelled Booking:
 Service: ${service.name}
-Date: ${bookingDate.toLocaleDateString('en-US', { 
-  weekday: 'long', 
-  month: 'long', 
-  day: 'numeric' 
-})}
-Time: ${bookingDate.toLocaleTimeString('en-US', { 
-  hour: 'numeric', 
-  minute: '2-digit', 
-  hour12: true 
-})}
+Date: ${dateText}
+Time: ${timeText}
 
 ${reason ? `Reason: ${reason}` : ''}
 
@@ -490,7 +604,10 @@ The ${studio.name} Team
     newStatus: string
   ): EmailTemplate {
     const { booking, service, studio } = emailData
-    const bookingDate = new Date(booking.start_time)
+    const timeZone = getStudioTimeZone(studio)
+    const brandColor = getBrandColor(studio)
+    const dateText = formatDateInTimeZone(booking.start_time, timeZone)
+    const timeText = formatTimeForStudioAndClient(booking.start_time, timeZone, booking.client_timezone)
 
     const subject = `Booking Update - ${studio.name}`
 
@@ -506,8 +623,8 @@ The ${studio.name} Team
 
     const htmlBody = `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <div style="background-color: #2081C3; color: white; padding: 20px; text-align: center;">
-          <h1>${studio.name}</h1>
+        <div style="background-color: ${brandColor}; color: white; padding: 20px; text-align: center;">
+          ${this.getStudioHeading(studio)}
           <h2>Booking Update</h2>
         </div>
         
@@ -519,16 +636,8 @@ The ${studio.name} Team
             <div style="background-color: #f8f9fa; padding: 15px; border-radius: 8px; margin: 20px 0;">
               <h4 style="margin-top: 0;">Booking Details</h4>
               <p><strong>Service:</strong> ${service.name}</p>
-              <p><strong>Date:</strong> ${bookingDate.toLocaleDateString('en-US', { 
-                weekday: 'long', 
-                month: 'long', 
-                day: 'numeric' 
-              })}</p>
-              <p><strong>Time:</strong> ${bookingDate.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit', 
-                hour12: true 
-              })}</p>
+              <p><strong>Date:</strong> ${dateText}</p>
+              <p><strong>Time:</strong> ${timeText}</p>
               <p><strong>Status:</strong> ${newStatus.replace('_', ' ').toUpperCase()}</p>
             </div>
 
@@ -548,16 +657,8 @@ ${message}
 
 Booking Details:
 Service: ${service.name}
-Date: ${bookingDate.toLocaleDateString('en-US', { 
-  weekday: 'long', 
-  month: 'long', 
-  day: 'numeric' 
-})}
-Time: ${bookingDate.toLocaleTimeString('en-US', { 
-  hour: 'numeric', 
-  minute: '2-digit', 
-  hour12: true 
-})}
+Date: ${dateText}
+Time: ${timeText}
 Status: ${newStatus.replace('_', ' ').toUpperCase()}
 
 If you have any questions, please contact us.
@@ -571,8 +672,9 @@ The ${studio.name} Team
 
   private generateStudioNotificationTemplate(emailData: BookingEmailData): EmailTemplate {
     const { booking, service, studio } = emailData
-    const bookingDate = new Date(booking.start_time)
-    const endDate = new Date(booking.end_time)
+    const timeZone = getStudioTimeZone(studio)
+    const dateText = formatDateInTimeZone(booking.start_time, timeZone)
+    const timeText = formatTimeForStudioAndClient(booking.start_time, timeZone, booking.client_timezone, booking.end_time, "client's time")
 
     const subject = `New Booking: ${booking.client_name} - ${service.name}`
 
@@ -592,21 +694,10 @@ The ${studio.name} Team
               <p><strong>Email:</strong> ${booking.client_email}</p>
               ${booking.client_phone ? `<p><strong>Phone:</strong> ${booking.client_phone}</p>` : ''}
               <p><strong>Service:</strong> ${service.name}</p>
-              <p><strong>Date:</strong> ${bookingDate.toLocaleDateString('en-US', { 
-                weekday: 'long', 
-                month: 'long', 
-                day: 'numeric' 
-              })}</p>
-              <p><strong>Time:</strong> ${bookingDate.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit', 
-                hour12: true 
-              })} - ${endDate.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit', 
-                hour12: true 
-              })}</p>
-              <p><strong>Total:</strong> $${(booking.total_price_cents / 100).toFixed(2)}</p>
+              <p><strong>Date:</strong> ${dateText}</p>
+              <p><strong>Time:</strong> ${timeText}</p>
+              ${this.getPriceLines(booking, studio).map(line => `<p><strong>${line.label}:</strong> ${formatMoney(line.cents, booking.currency)}</p>`).join('')}
+              <p><strong>Total:</strong> ${formatMoney(booking.total_price_cents, booking.currency)}</p>
               <p><strong>Status:</strong> ${booking.status.replace('_', ' ').toUpperCase()}</p>
             </div>
 
@@ -632,21 +723,9 @@ Client: ${booking.client_name}
 Email: ${booking.client_email}
 ${booking.client_phone ? `Phone: ${booking.client_phone}` : ''}
 Service: ${service.name}
-Date: ${bookingDate.toLocaleDateString('en-US', { 
-  weekday: 'long', 
-  month: 'long', 
-  day: 'numeric' 
-})}
-Time: ${bookingDate.toLocaleTimeString('en-US', { 
-  hour: 'numeric', 
-  minute: '2-digit', 
-  hour12: true 
-})} - ${endDate.toLocaleTimeString('en-US', { 
-  hour: 'numeric', 
-  minute: '2-digit', 
-  hour12: true 
-})}
-Total: $${(booking.total_price_cents / 100).toFixed(2)}
+Date: ${dateText}
+Time: ${timeText}
+${this.getPriceLines(booking, studio).map(line => `${line.label}: ${formatMoney(line.cents, booking.currency)}\n`).join('')}Total: ${formatMoney(booking.total_price_cents, booking.currency)}
 Status: ${booking.status.replace('_', ' ').toUpperCase()}
 
 ${booking.notes ? `Client Notes: ${booking.notes}` : ''}
@@ -656,6 +735,289 @@ Login to your admin dashboard to manage this booking.
 
     return { subject, htmlBody, textBody }
   }
+
+  private generateWaitlistOfferTemplate(
+    emailData: BookingEmailData,
+    claimUrl: string,
+    offerExpiresAt: string
+  ): EmailTemplate {
+    const { booking, service, studio } = emailData
+    const timeZone = getStudioTimeZone(studio)
+    const brandColor = getBrandColor(studio)
+    const dateText = formatDateInTimeZone(booking.start_time, timeZone)
+    const timeText = formatTimeForStudioAndClient(booking.start_time, timeZone, booking.client_timezone, booking.end_time)
+    const expiresText = `${formatDateInTimeZone(offerExpiresAt, timeZone)} at ${formatTimeInTimeZone(offerExpiresAt, timeZone, true)}`
+
+    const subject = `A spot opened up at ${studio.name}`
+
+    const htmlBody = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background-color: #10b981; color: white; padding: 20px; text-align: center;">
+          ${this.getStudioHeading(studio)}
+          <h2>A Spot Opened Up! 🎉</h2>
+        </div>
+        
+        <div style="padding: 20px; background-color: #f8f9fa;">
+          <div style="background-color: white; padding: 20px; border-radius: 8px;">
+            <h3>Hi ${booking.client_name},</h3>
+            <p>Good news! A time you were waiting for is now available, and we're holding it for you.</p>
+            
+            <div style="background-color: #ecfdf5; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">
+              <h4 style="margin-top: 0;">Session Details</h4>
+              <p><strong>Service:</strong> ${service.name}</p>
+              <p><strong>Date:</strong> ${dateText}</p>
+              <p><strong>Time:</strong> ${timeText}</p>
+              <p><strong>Total:</strong> ${formatMoney(booking.total_price_cents, booking.currency)}</p>
+            </div>
+
+            <p style="text-align: center; margin: 30px 0;">
+              <a href="${claimUrl}" style="background-color: ${brandColor}; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold;">
+                Claim This Spot
+              </a>
+            </p>
+
+            <p><strong>This offer is held until ${expiresText}.</strong> After that it goes to the next person on the waitlist.</p>
+            <p>Best regards,<br>The ${studio.name} Team</p>
+          </div>
+        </div>
+      </div>
+    `
+
+    const textBody = `
+A Spot Opened Up - ${studio.name}
+
+Hi ${booking.client_name},
+
+Good news! A time you were waiting for is now available, and we're holding it for you.
+
+Service: ${service.name}
+Date: ${dateText}
+Time: ${timeText}
+Total: ${formatMoney(booking.total_price_cents, booking.currency)}
+
+Claim this spot: ${claimUrl}
+
+This offer is held until ${expiresText}. After that it goes to the next person on the waitlist.
+
+Best regards,
+The ${studio.name} Team
+    `
+
+    return { subject, htmlBody, textBody }
+  }
+
+  private generateBalancePaymentRequestTemplate(
+    emailData: BookingEmailData,
+    paymentUrl: string,
+    balanceCents: number
+  ): EmailTemplate {
+    const { booking, service, studio } = emailData
+    const timeZone = getStudioTimeZone(studio)
+    const brandColor = getBrandColor(studio)
+    const dateText = formatDateInTimeZone(booking.start_time, timeZone)
+    const timeText = formatTimeForStudioAndClient(booking.start_time, timeZone, booking.client_timezone)
+    const paidCents = (booking.deposit_paid_cents || 0) + (booking.final_payment_cents || 0)
+
+    const subject = `Balance Due - ${studio.name}`
+
+    const htmlBody = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background-color: ${brandColor}; color: white; padding: 20px; text-align: center;">
+          ${this.getStudioHeading(studio)}
+          <h2>Balance Due</h2>
+        </div>
+        
+        <div style="padding: 20px; background-color: #f8f9fa;">
+          <div style="background-color: white; padding: 20px; border-radius: 8px;">
+            <h3>Hi ${booking.client_name},</h3>
+            <p>The remaining balance for your session is now due.</p>
+            
+            <div style="background-color: #f8f9fa; padding: 15px; border-radius: 8px; margin: 20px 0;">
+              <h4 style="margin-top: 0;">Session Details</h4>
+              <p><strong>Service:</strong> ${service.name}</p>
+              <p><strong>Date:</strong> ${dateText}</p>
+              <p><strong>Time:</strong> ${timeText}</p>
+              <p><strong>Total:</strong> ${formatMoney(booking.total_price_cents, booking.currency)}</p>
+              <p><strong>Paid so far:</strong> ${formatMoney(paidCents, booking.currency)}</p>
+              <p><strong>Balance due:</strong> ${formatMoney(balanceCents, booking.currency)}</p>
+            </div>
+
+            <p style="text-align: center; margin: 30px 0;">
+              <a href="${paymentUrl}" style="background-color: ${brandColor}; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold;">
+                Pay Balance
+              </a>
+            </p>
+
+            <p>If you have any questions, please contact us.</p>
+            <p>Best regards,<br>The ${studio.name} Team</p>
+          </div>
+        </div>
+      </div>
+    `
+
+    const textBody = `
+Balance Due - ${studio.name}
+
+Hi ${booking.client_name},
+
+The remaining balance for your session is now due.
+
+Service: ${service.name}
+Date: ${dateText}
+Time: ${timeText}
+Total: ${formatMoney(booking.total_price_cents, booking.currency)}
+Paid so far: ${formatMoney(paidCents, booking.currency)}
+Balance due: ${formatMoney(balanceCents, booking.currency)}
+
+Pay your balance: ${paymentUrl}
+
+If you have any questions, please contact us.
+
+Best regards,
+The ${studio.name} Team
+    `
+
+    return { subject, htmlBody, textBody }
+  }
+
+  private generateDisputeNoticeTemplate(emailData: BookingEmailData, dispute: BookingDispute): EmailTemplate {
+    const { booking, service, studio } = emailData
+    const timeZone = getStudioTimeZone(studio)
+    const dateText = formatDateInTimeZone(booking.start_time, timeZone)
+    const timeText = formatTimeInTimeZone(booking.start_time, timeZone, true)
+    const open = isDisputeOpen(dispute.status)
+    const amountText = formatMoney(dispute.amount_cents, dispute.currency)
+    const dueText = dispute.evidence_due_by
+      ? `${formatDateInTimeZone(dispute.evidence_due_by, timeZone)} ${formatTimeInTimeZone(dispute.evidence_due_by, timeZone, true)}`
+      : null
+
+    const subject = open
+      ? `Payment Disputed: ${booking.client_name} - ${service.name}`
+      : `Dispute ${describeDisputeStatus(dispute.status)}: ${booking.client_name} - ${service.name}`
+
+    const htmlBody = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background-color: ${open ? '#ef4444' : '#2081C3'}; color: white; padding: 20px; text-align: center;">
+          <h1>${open ? 'A Payment Was Disputed' : `Dispute ${describeDisputeStatus(dispute.status)}`}</h1>
+        </div>
+        
+        <div style="padding: 20px; background-color: #f8f9fa;">
+          <div style="background-color: white; padding: 20px; border-radius: 8px;">
+            <h3>${studio.name}</h3>
+            ${open
+              ? `<p>${booking.client_name} has disputed a payment with their bank. Stripe has held ${amountText} while it's decided.</p>`
+              : `<p>The dispute ${booking.client_name} opened on this booking is closed.</p>`}
+            
+            <div style="background-color: #fef2f2; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #ef4444;">
+              <h4 style="margin-top: 0;">Dispute Details</h4>
+              <p><strong>Amount:</strong> ${amountText}</p>
+              <p><strong>Reason:</strong> ${describeDisputeReason(dispute.reason)}</p>
+              <p><strong>Status:</strong> ${describeDisputeStatus(dispute.status)}</p>
+              ${open && dueText ? `<p><strong>Respond by:</strong> ${dueText}</p>` : ''}
+              <p><strong>Client:</strong> ${booking.client_name} (${booking.client_email})</p>
+              <p><strong>Service:</strong> ${service.name}</p>
+              <p><strong>Session:</strong> ${dateText} at ${timeText}</p>
+            </div>
+
+            ${open ? `
+              <p>Export the booking evidence from the booking in your admin dashboard and submit it from your Stripe dashboard before the deadline.</p>
+            ` : ''}
+          </div>
+        </div>
+      </div>
+    `
+
+    const textBody = `
+${open ? 'A Payment Was Disputed' : `Dispute ${describeDisputeStatus(dispute.status)}`}
+
+${studio.name}
+
+${open
+  ? `${booking.client_name} has disputed a payment with their bank. Stripe has held ${amountText} while it's decided.`
+  : `The dispute ${booking.client_name} opened on this booking is closed.`}
+
+Amount: ${amountText}
+Reason: ${describeDisputeReason(dispute.reason)}
+Status: ${describeDisputeStatus(dispute.status)}
+${open && dueText ? `Respond by: ${dueText}` : ''}
+Client: ${booking.client_name} (${booking.client_email})
+Service: ${service.name}
+Session: ${dateText} at ${timeText}
+
+${open ? 'Export the booking evidence from the booking in your admin dashboard and submit it from your Stripe dashboard before the deadline.' : ''}
+    `
+
+    return { subject, htmlBody, textBody }
+  }
+  private generatePackagePurchaseTemplate(purchase: PackagePurchase, studio: Studio): EmailTemplate {
+    const timeZone = getStudioTimeZone(studio)
+    const brandColor = getBrandColor(studio)
+    const creditsText = formatCredits(purchase.credit_type, purchase.credits_total)
+    const expiresText = purchase.expires_at
+      ? formatDateInTimeZone(purchase.expires_at, timeZone)
+      : null
+    const coversText = purchase.categories.length > 0
+      ? purchase.categories.join(', ')
+      : 'Any service'
+
+    const subject = `Your ${purchase.package_name} - ${studio.name}`
+
+    const htmlBody = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background-color: ${brandColor}; color: white; padding: 20px; text-align: center;">
+          ${this.getStudioHeading(studio)}
+          <h2>Thanks for Your Purchase!</h2>
+        </div>
+        
+        <div style="padding: 20px; background-color: #f8f9fa;">
+          <div style="background-color: white; padding: 20px; border-radius: 8px;">
+            <h3>Hi ${purchase.client_name},</h3>
+            <p>Your package is ready to use. Enter the code below when you book and your session will be paid from your credits.</p>
+            
+            <div style="background-color: #f8f9fa; padding: 15px; border-radius: 8px; margin: 20px 0; text-align: center;">
+              <p style="margin: 0; color: #6b7280;">Your package code</p>
+              <p style="margin: 10px 0 0; font-size: 28px; font-weight: bold; letter-spacing: 4px;">${purchase.code}</p>
+            </div>
+
+            <div style="background-color: #f8f9fa; padding: 15px; border-radius: 8px; margin: 20px 0;">
+              <h4 style="margin-top: 0;">Package Details</h4>
+              <p><strong>Package:</strong> ${purchase.package_name}</p>
+              <p><strong>Credits:</strong> ${creditsText}</p>
+              <p><strong>Covers:</strong> ${coversText}</p>
+              <p><strong>Paid:</strong> ${formatMoney(purchase.price_cents + (purchase.tax_cents || 0), purchase.currency)}</p>
+              ${expiresText ? `<p><strong>Use by:</strong> ${expiresText}</p>` : ''}
+            </div>
+
+            <p>Keep this email; you'll need the code each time you book.</p>
+            <p>Best regards,<br>The ${studio.name} Team</p>
+          </div>
+        </div>
+      </div>
+    `
+
+    const textBody = `
+Thanks for Your Purchase - ${studio.name}
+
+Hi ${purchase.client_name},
+
+Your package is ready to use. Enter the code below when you book and your session will be paid from your credits.
+
+Your package code: ${purchase.code}
+
+Package: ${purchase.package_name}
+Credits: ${creditsText}
+Covers: ${coversText}
+Paid: ${formatMoney(purchase.price_cents + (purchase.tax_cents || 0), purchase.currency)}
+${expiresText ? `Use by: ${expiresText}` : ''}
+
+Keep this email; you'll need the code each time you book.
+
+Best regards,
+The ${studio.name} Team
+    `
+
+    return { subject, htmlBody, textBody }
+  }
 }
 
 export const emailService = EmailService.getInstance()
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { Resend } from 'resend'
+import nodemailer from 'nodemailer'
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+// Server side only: how the email API route actually sends mail. EMAIL_TRANSPORT
+// picks one of:
+//   resend - the Resend API (RESEND_API_KEY)
+//   smtp   - any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS)
+//   outbox - nothing is sent; messages are kept in EMAIL_OUTBOX_DIR as JSON files,
+//            or in memory without it, and can be read at /api/email/outbox
+// Without EMAIL_TRANSPORT it's resend when there's a Resend key and outbox otherwise,
+// so the booking flow runs locally without one. The outbox is never used in
+// production, where email that isn't sent would be lost.
+
+export interface EmailMessage {
+  from: string
+  to: string[]
+  subject: string
+  html: string
+  text?: string
+  attachments?: { filename: string; content: Buffer }[]
+  tags?: { name: string; value: string }[]
+}
+
+export interface EmailTransport {
+  name: string
+  // Resolves with the provider's id for the message; throws if it wasn't accepted
+  send(message: EmailMessage): Promise<{ id: string }>
+}
+
+// A message as the outbox keeps it; attachments are listed, not stored
+export interface OutboxEmail extends Omit<EmailMessage, 'attachments'> {
+  id: string
+  sent_at: string
+  attachments: { filename: string; size: number }[]
+}
+
+export class ResendTransport implements EmailTransport {
+  name = 'resend'
+  private resend: Resend
+
+  constructor(apiKey: string) {
+    this.resend = new Resend(apiKey)
+  }
+
+  async send(message: EmailMessage): Promise<{ id: string }> {
+    const { data, error } = await this.resend.emails.send(message)
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Resend did not accept the email')
+    }
+
+    return { id: data.id }
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  name = 'smtp'
+  private transporter: nodemailer.Transporter
+
+  constructor(options: { host: string; port: number; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.port === 465,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    })
+  }
+
+  async send(message: EmailMessage): Promise<{ id: string }> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      attachments: message.attachments,
+      // SMTP has no tags; keep them as headers so they can still be traced
+      headers: Object.fromEntries((message.tags || []).map(tag => [`X-Tag-${tag.name}`, tag.value])),
+    })
+
+    return { id: info.messageId }
+  }
+}
+
+export class OutboxTransport implements EmailTransport {
+  name = 'outbox'
+  private messages: OutboxEmail[] = []
+
+  // Without a directory the outbox only lasts as long as the server process
+  constructor(private directory?: string) {}
+
+  async send(message: EmailMessage): Promise<{ id: string }> {
+    const email: OutboxEmail = {
+      ...message,
+      id: randomUUID(),
+      sent_at: new Date().toISOString(),
+      attachments: (message.attachments || []).map(attachment => ({
+        filename: attachment.filename,
+        size: attachment.content.length,
+      })),
+    }
+
+    if (this.directory) {
+      await fs.mkdir(this.directory, { recursive: true })
+      await fs.writeFile(path.join(this.directory, `${email.id}.json`), JSON.stringify(email, null, 2))
+    } else {
+      this.messages.push(email)
+    }
+
+    return { id: email.id }
+  }
+
+  // Newest first
+  async list(): Promise<OutboxEmail[]> {
+    let messages = this.messages
+
+    if (this.directory) {
+      const files = await fs.readdir(this.directory).catch(() => [] as string[])
+      messages = await Promise.all(
+        files
+          .filter(file => file.endsWith('.json'))
+          .map(async file => JSON.parse(await fs.readFile(path.join(this.directory!, file), 'utf8')))
+      )
+    }
+
+    return [...messages].sort((a, b) => b.sent_at.localeCompare(a.sent_at))
+  }
+
+  async get(id: string): Promise<OutboxEmail | null> {
+    return (await this.list()).find(message => message.id === id) || null
+  }
+
+  async clear(): Promise<void> {
+    this.messages = []
+
+    if (this.directory) {
+      const files = await fs.readdir(this.directory).catch(() => [] as string[])
+      await Promise.all(
+        files
+          .filter(file => file.endsWith('.json'))
+          .map(file => fs.unlink(path.join(this.directory!, file)))
+      )
+    }
+  }
+}
+
+let transport: EmailTransport | null = null
+
+export const getEmailTransport = (): EmailTransport => {
+  if (transport) return transport
+
+  const name = process.env.EMAIL_TRANSPORT || (process.env.RESEND_API_KEY ? 'resend' : 'outbox')
+
+  switch (name) {
+    case 'resend':
+      if (!process.env.RESEND_API_KEY) throw new Error('RESEND_API_KEY is not set')
+      transport = new ResendTransport(process.env.RESEND_API_KEY)
+      break
+    case 'smtp':
+      if (!process.env.SMTP_HOST) throw new Error('SMTP_HOST is not set')
+      transport = new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      })
+      break
+    case 'outbox':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('No email transport is configured: set RESEND_API_KEY, or EMAIL_TRANSPORT=smtp and SMTP_HOST')
+      }
+      transport = new OutboxTransport(process.env.EMAIL_OUTBOX_DIR)
+      break
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${name}`)
+  }
+
+  return transport
+}
+
+// The outbox, when that's where email is going
+export const getOutbox = (): OutboxTransport | null => {
+  const current = getEmailTransport()
+  return current instanceof OutboxTransport ? current : null
+}
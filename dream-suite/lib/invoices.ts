@@ -0,0 +1,255 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getBookingPayments } from './payment-ledger'
+import { PdfLine, renderTextPdf } from './pdf'
+import { Booking, BookingPayment, Invoice, Service, Studio } from '../types/booking'
+import { formatMoney, getChargeLines } from '../utils/charges'
+import { describeBookingPayment, getBalanceDueCents, summarizeBookingPayments } from '../utils/payments'
+import { formatDateInTimeZone, formatTimeInTimeZone, getStudioTimeZone } from '../utils/timezone'
+
+// Server side only: invoices are numbered by the database (issue_invoice in
+// invoices-setup.sql) and written with the service role client the API routes pass
+// in. Each document is rendered from the booking and its payment ledger when asked
+// for, as HTML or PDF.
+
+export const issueInvoice = async (
+  supabase: SupabaseClient,
+  bookingId: string,
+  paymentId?: string
+): Promise<Invoice> => {
+  const { data, error } = await supabase.rpc('issue_invoice', {
+    p_booking_id: bookingId,
+    p_payment_id: paymentId || null,
+  })
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * A booking's invoice and a receipt for each of its payments. Any not issued yet
+ * (a booking from before invoices were numbered) are issued now.
+ */
+export const getBookingInvoices = async (
+  supabase: SupabaseClient,
+  bookingId: string
+): Promise<Invoice[]> => {
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select('id, status')
+    .eq('id', bookingId)
+    .single()
+
+  if (bookingError) throw bookingError
+
+  const charges = (await getBookingPayments(supabase, bookingId)).filter(payment => payment.kind === 'charge')
+
+  // Nothing to invoice for a slot that was never paid for or confirmed
+  if (booking.status !== 'pending_payment' && (booking.status !== 'cancelled' || charges.length > 0)) {
+    await issueInvoice(supabase, bookingId)
+  }
+  for (const charge of charges) {
+    await issueInvoice(supabase, bookingId, charge.id)
+  }
+
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('kind')
+    .order('sequence_number')
+
+  if (error) throw error
+  return data || []
+}
+
+export const getInvoiceByToken = async (
+  supabase: SupabaseClient,
+  accessToken: string
+): Promise<Invoice | null> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('access_token', accessToken)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export const getInvoiceFilename = (invoice: Invoice, format: 'pdf' | 'html'): string => {
+  return `${invoice.invoice_number}.${format}`
+}
+
+interface InvoiceLine {
+  label: string
+  value: string
+}
+
+// What goes on an invoice or receipt, whichever format it's rendered in
+interface InvoiceContent {
+  title: string
+  studio: string[]
+  details: InvoiceLine[]
+  billTo: string[]
+  charges: InvoiceLine[]
+  total: InvoiceLine
+  payments: InvoiceLine[]
+  summary: InvoiceLine[]
+  note?: string
+}
+
+const buildInvoiceContent = (
+  invoice: Invoice,
+  booking: Booking & { services: Service; studios: Studio },
+  payments: BookingPayment[]
+): InvoiceContent => {
+  const studio = booking.studios
+  const timeZone = getStudioTimeZone(studio)
+  const formatAmount = (cents: number) => formatMoney(cents, booking.currency)
+  const formatMoment = (dateString: string) =>
+    `${formatDateInTimeZone(dateString, timeZone)} ${formatTimeInTimeZone(dateString, timeZone, true)}`
+
+  const receiptPayment = invoice.payment_id
+    ? payments.find(payment => payment.id === invoice.payment_id)
+    : undefined
+
+  // A receipt shows the ledger up to and including its own payment
+  const ledger = receiptPayment
+    ? payments.filter(payment => payment.created_at <= receiptPayment.created_at)
+    : payments
+  const { netCents } = summarizeBookingPayments(ledger)
+
+  const cityLine = [studio.city, studio.state, studio.zip].filter(Boolean).join(', ')
+
+  return {
+    title: `${invoice.kind === 'receipt' ? 'Receipt' : 'Invoice'} ${invoice.invoice_number}`,
+    studio: [studio.name, studio.address, cityLine, studio.email, studio.phone, studio.website]
+      .filter((line): line is string => !!line),
+    details: [
+      { label: invoice.kind === 'receipt' ? 'Receipt number' : 'Invoice number', value: invoice.invoice_number },
+      { label: 'Issued', value: formatDateInTimeZone(invoice.issued_at, timeZone) },
+      { label: 'Booking', value: booking.id },
+      {
+        label: 'Session',
+        value: `${formatMoment(booking.start_time)} to ${formatTimeInTimeZone(booking.end_time, timeZone, true)}`,
+      },
+    ],
+    billTo: [booking.client_name, booking.client_email, booking.client_phone]
+      .filter((line): line is string => !!line),
+    charges: getChargeLines(booking, booking.services?.name || 'Studio Session', studio.tax_label)
+      .map(line => ({ label: line.label, value: formatAmount(line.cents) })),
+    total: { label: 'Total', value: formatAmount(booking.total_price_cents) },
+    payments: ledger.map(payment => ({
+      label: `${formatMoment(payment.created_at)}  ${describeBookingPayment(payment)}`,
+      value: formatAmount(payment.amount_cents),
+    })),
+    summary: receiptPayment
+      ? [
+          { label: 'Amount received', value: formatAmount(receiptPayment.amount_cents) },
+          { label: 'Paid to date', value: formatAmount(netCents) },
+        ]
+      : [
+          { label: 'Paid', value: formatAmount(netCents) },
+          { label: 'Balance due', value: formatAmount(Math.max(0, getBalanceDueCents(booking))) },
+        ],
+    note: booking.package_purchase_id ? 'Paid with package credits' : undefined,
+  }
+}
+
+export const loadInvoiceContent = async (
+  supabase: SupabaseClient,
+  invoice: Invoice
+): Promise<InvoiceContent> => {
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('*, services(*), studios(*)')
+    .eq('id', invoice.booking_id)
+    .single()
+
+  if (error) throw error
+
+  const payments = await getBookingPayments(supabase, invoice.booking_id)
+  return buildInvoiceContent(invoice, booking, payments)
+}
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export const renderInvoiceHtml = (content: InvoiceContent): string => {
+  const rows = (lines: InvoiceLine[], style = '') => lines.map(line => `
+        <tr${style ? ` style="${style}"` : ''}>
+          <td style="padding: 6px 0;">${escapeHtml(line.label)}</td>
+          <td style="padding: 6px 0; text-align: right;">${escapeHtml(line.value)}</td>
+        </tr>`).join('')
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(content.title)}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; color: #1a1a1a; max-width: 700px; margin: 40px auto; padding: 0 20px;">
+    <h1 style="margin-bottom: 4px;">${escapeHtml(content.title)}</h1>
+    <p style="color: #6b7280; margin-top: 0;">${content.studio.map(escapeHtml).join('<br>')}</p>
+
+    <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">${rows(content.details)}
+    </table>
+
+    <h3>Bill To</h3>
+    <p>${content.billTo.map(escapeHtml).join('<br>')}</p>
+
+    <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">${rows(content.charges)}${rows([content.total], 'font-weight: bold; border-top: 1px solid #e5e5e5;')}
+    </table>
+
+    ${content.payments.length > 0 ? `
+    <h3>Payments</h3>
+    <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">${rows(content.payments)}
+    </table>` : ''}
+
+    <table style="width: 100%; border-collapse: collapse; margin: 20px 0; font-weight: bold;">${rows(content.summary)}
+    </table>
+
+    ${content.note ? `<p style="color: #6b7280;">${escapeHtml(content.note)}</p>` : ''}
+  </body>
+</html>
+`
+}
+
+export const renderInvoicePdf = (content: InvoiceContent): Buffer => {
+  const toLines = (lines: InvoiceLine[]): PdfLine[] => lines.map(line => ({ text: line.label, right: line.value }))
+
+  const lines: PdfLine[] = [
+    { text: content.title, size: 20, bold: true },
+    ...content.studio.map(text => ({ text })),
+    { text: '', spaceBefore: 6 },
+    ...toLines(content.details),
+    { text: 'Bill To', bold: true, size: 12, spaceBefore: 12 },
+    ...content.billTo.map(text => ({ text })),
+    { text: '', spaceBefore: 6 },
+    ...toLines(content.charges),
+    { text: content.total.label, right: content.total.value, bold: true, rule: true },
+    ...(content.payments.length > 0
+      ? [{ text: 'Payments', bold: true, size: 12, spaceBefore: 12 }, ...toLines(content.payments)]
+      : []),
+    { text: '', spaceBefore: 6 },
+    ...content.summary.map(line => ({ text: line.label, right: line.value, bold: true })),
+    ...(content.note ? [{ text: content.note, spaceBefore: 12 }] : []),
+  ]
+
+  return renderTextPdf(lines, content.title)
+}
+
+// The booking's invoice as a PDF, to attach to its confirmation email
+export const getInvoiceAttachment = async (
+  supabase: SupabaseClient,
+  bookingId: string
+): Promise<{ filename: string; content: Buffer }> => {
+  const invoice = await issueInvoice(supabase, bookingId)
+  const content = await loadInvoiceContent(supabase, invoice)
+  return { filename: getInvoiceFilename(invoice, 'pdf'), content: renderInvoicePdf(content) }
+}
@@ -0,0 +1,244 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getEmailTransport } from './email-transport'
+import { getInvoiceAttachment } from './invoices'
+import { getSmsTransport, SmsTransportError, TWILIO_UNSUBSCRIBED_ERROR } from './sms-transport'
+import { Booking, EmailType, Notification, SendEmailRequest, SendSmsRequest, Studio } from '../types/booking'
+import { CUSTOM_EMAIL_TYPES, renderEmailTemplate } from '../utils/email-templates'
+import { getSmsBody, normalizePhoneNumber, SMS_OPT_OUT_FOOTER, SmsBookingDetails } from '../utils/sms'
+
+// Server side only: every email goes out through sendEmail (app/api/email/send+api.ts,
+// and the resend action at app/api/notifications/resend+api.ts) and every text through
+// sendSms (app/api/sms/send+api.ts), and each is recorded in notifications, sent or
+// failed. The providers' webhooks (app/api/email/webhook+api.ts, app/api/sms/status+api.ts)
+// report what happened to it after that.
+
+// Emails about the running of the studio come from the admin address
+const ADMIN_EMAIL_TYPES: EmailType[] = ['studio-notification', 'dispute-notice', 'package-purchase']
+
+/**
+ * Send an email and record it. The studio's own template for it is used when it
+ * has one; a failure to send is recorded and returned, not thrown.
+ */
+export const sendEmail = async (
+  supabase: SupabaseClient,
+  request: SendEmailRequest,
+  resendOf?: string
+): Promise<Notification> => {
+  const { type, to, bookingId, purchaseId, reminderType, studioId, variables } = request
+
+  // The studio's own version of the email, when it has one, replaces the built-in one
+  let email = { subject: request.subject, html: request.htmlBody, text: request.textBody }
+  if (studioId && variables && CUSTOM_EMAIL_TYPES.some(custom => custom.type === type)) {
+    const { data: template, error: templateError } = await supabase
+      .from('email_templates')
+      .select('*')
+      .eq('studio_id', studioId)
+      .eq('type', type)
+      .eq('enabled', true)
+      .maybeSingle()
+
+    if (templateError) {
+      console.error('Error loading email template, sending the built-in email:', templateError)
+    } else if (template) {
+      const rendered = renderEmailTemplate(template, variables)
+      email = { subject: rendered.subject, html: rendered.htmlBody, text: rendered.textBody || undefined }
+    }
+  }
+
+  // The invoice goes with a confirmation; the email still goes out if it can't be made
+  let attachments: { filename: string; content: Buffer }[] | undefined
+  if (type === 'booking-confirmation' && bookingId) {
+    try {
+      attachments = [await getInvoiceAttachment(supabase, bookingId)]
+    } catch (invoiceError) {
+      console.error('Error attaching invoice:', invoiceError)
+    }
+  }
+
+  const tags = [
+    { name: 'type', value: type },
+    ...(bookingId ? [{ name: 'booking_id', value: bookingId }] : []),
+    ...(purchaseId ? [{ name: 'purchase_id', value: purchaseId }] : []),
+    ...(reminderType ? [{ name: 'reminder_type', value: reminderType }] : []),
+  ]
+
+  const transport = getEmailTransport()
+
+  let result: Pick<Notification, 'status' | 'provider_message_id' | 'error'>
+  try {
+    const sent = await transport.send({
+      from: process.env.EMAIL_FROM ||
+        `Dream Suite <${ADMIN_EMAIL_TYPES.includes(type) ? 'admin' : 'bookings'}@dreamsuite.com>`,
+      to: [to],
+      ...email,
+      attachments,
+      tags,
+    })
+    result = { status: 'sent', provider_message_id: sent.id }
+  } catch (sendError: any) {
+    console.error(`Email transport (${transport.name}) error:`, sendError)
+    result = { status: 'failed', error: sendError.message || 'Failed to send email' }
+  }
+
+  // Kept as evidence that the client knew about the booking, should they dispute it
+  if (result.status === 'sent' && type === 'booking-confirmation' && bookingId) {
+    await supabase
+      .from('bookings')
+      .update({ confirmation_sent_at: new Date().toISOString() })
+      .eq('id', bookingId)
+  }
+
+  const { data: notification, error } = await supabase
+    .from('notifications')
+    .insert({
+      studio_id: studioId || null,
+      booking_id: bookingId || null,
+      purchase_id: purchaseId || null,
+      channel: 'email',
+      type,
+      recipient: to,
+      subject: email.subject,
+      provider: transport.name,
+      provider_message_id: result.provider_message_id || null,
+      status: result.status,
+      error: result.error || null,
+      payload: request,
+      resend_of: resendOf || null,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return notification
+}
+
+/**
+ * Text a client about their booking, written from the booking as it is now, and
+ * record it. Returns null, sending nothing, unless the studio sends texts, the
+ * client opted in and their number hasn't replied STOP; a failure to send is
+ * recorded and returned, not thrown.
+ */
+export const sendSms = async (
+  supabase: SupabaseClient,
+  request: SendSmsRequest,
+  resendOf?: string
+): Promise<Notification | null> => {
+  const { type, bookingId } = request
+
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select(`
+      id, studio_id, start_time, client_timezone, client_phone, sms_opt_in,
+      services(name),
+      studios(name, address, phone, timezone, sms_enabled, country)
+    `)
+    .eq('id', bookingId)
+    .single<Pick<Booking, 'id' | 'studio_id' | 'start_time' | 'client_timezone' | 'client_phone' | 'sms_opt_in'> & {
+      services: SmsBookingDetails['service'] | null
+      studios: (SmsBookingDetails['studio'] & Pick<Studio, 'sms_enabled' | 'country'>) | null
+    }>()
+
+  if (bookingError) throw bookingError
+
+  const { services: service, studios: studio } = booking
+  const to = booking.client_phone ? normalizePhoneNumber(booking.client_phone, studio?.country) : null
+
+  if (!studio?.sms_enabled || !booking.sms_opt_in || !to || !service) return null
+
+  const body = getSmsBody(request, { booking, service, studio })
+
+  const { data: optOut, error: optOutError } = await supabase
+    .from('sms_opt_outs')
+    .select('phone')
+    .eq('phone', to)
+    .maybeSingle()
+
+  if (optOutError) throw optOutError
+  if (optOut) return null
+
+  const transport = getSmsTransport()
+
+  let result: Pick<Notification, 'status' | 'provider_message_id' | 'error'>
+  try {
+    const sent = await transport.send({ to, body: `${body}\n${SMS_OPT_OUT_FOOTER}` })
+    result = { status: 'sent', provider_message_id: sent.id }
+  } catch (sendError: any) {
+    console.error(`SMS transport (${transport.name}) error:`, sendError)
+    result = { status: 'failed', error: sendError.message || 'Failed to send text' }
+
+    // The number unsubscribed with the carrier without us hearing about it
+    if (sendError instanceof SmsTransportError && sendError.code === TWILIO_UNSUBSCRIBED_ERROR) {
+      await supabase
+        .from('sms_opt_outs')
+        .upsert({ phone: to }, { onConflict: 'phone', ignoreDuplicates: true })
+    }
+  }
+
+  const { data: notification, error } = await supabase
+    .from('notifications')
+    .insert({
+      studio_id: booking.studio_id,
+      booking_id: booking.id,
+      channel: 'sms',
+      type,
+      recipient: to,
+      subject: null,
+      provider: transport.name,
+      provider_message_id: result.provider_message_id || null,
+      status: result.status,
+      error: result.error || null,
+      payload: { ...request, body },
+      resend_of: resendOf || null,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return notification
+}
+
+// How far along an email or text is; a webhook event never moves it back
+const STATUS_RANK: Record<Notification['status'], number> = {
+  sent: 0,
+  delayed: 1,
+  delivered: 2,
+  bounced: 3,
+  complained: 3, // the client marked an email as spam, after it was delivered
+  failed: 3,
+}
+
+/**
+ * Record what the provider says happened to an email or text. Returns false if
+ * it isn't known or is already further along (events can arrive out of order).
+ */
+export const updateDeliveryStatus = async (
+  supabase: SupabaseClient,
+  provider: string,
+  providerMessageId: string,
+  status: Notification['status'],
+  detail?: string
+): Promise<boolean> => {
+  const { data: notification, error } = await supabase
+    .from('notifications')
+    .select('id, status')
+    .eq('provider', provider)
+    .eq('provider_message_id', providerMessageId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!notification || STATUS_RANK[status] <= STATUS_RANK[notification.status as Notification['status']]) {
+    return false
+  }
+
+  const { error: updateError } = await supabase
+    .from('notifications')
+    .update({
+      status,
+      error: detail || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', notification.id)
+
+  if (updateError) throw updateError
+  return true
+}
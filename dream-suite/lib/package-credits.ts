@@ -0,0 +1,190 @@
+import Stripe from 'stripe'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { emailService } from './email-service'
+import { recordBookingPayment } from './payment-ledger'
+import { Booking, PackageBalance, PackagePurchase, Service } from '../types/booking'
+import { formatCredits, getBookingCreditCost, getPackageCreditProblem } from '../utils/packages'
+import { normalizePromoCode } from '../utils/promo-codes'
+
+// Server side only: package purchases and the bookings paid with them are written
+// with the service role client the API routes pass in. The database checks the
+// balance again as credits are used (see packages-setup.sql).
+
+// No 0/O or 1/I, so a code read out over the phone comes through
+const CODE_CHARACTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 8
+
+export const generatePackageCode = (): string => {
+  const values = crypto.getRandomValues(new Uint32Array(CODE_LENGTH))
+  return Array.from(values, value => CODE_CHARACTERS[value % CODE_CHARACTERS.length]).join('')
+}
+
+// Codes are matched the way promo codes are: trimmed and upper-cased
+export const normalizePackageCode = normalizePromoCode
+
+export const getPackageBalance = async (
+  supabase: SupabaseClient,
+  studioId: string,
+  code: string
+): Promise<PackageBalance | null> => {
+  const { data, error } = await supabase
+    .from('package_balances')
+    .select('*')
+    .eq('studio_id', studioId)
+    .eq('code', normalizePackageCode(code))
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Start the credits on a purchase once checkout is paid, and email the client
+ * their code. Safe to call again for the same session (a resent webhook).
+ */
+export const activatePackagePurchase = async (
+  supabase: SupabaseClient,
+  purchaseId: string,
+  session: Stripe.Checkout.Session
+): Promise<void> => {
+  const { data: purchase, error: purchaseError } = await supabase
+    .from('package_purchases')
+    .select('*')
+    .eq('id', purchaseId)
+    .single()
+
+  if (purchaseError) throw purchaseError
+  if (purchase.status !== 'pending_payment') return
+
+  const purchasedAt = new Date()
+  const expiresAt = purchase.valid_days
+    ? new Date(purchasedAt.getTime() + purchase.valid_days * 24 * 60 * 60 * 1000)
+    : null
+
+  // Matching on the status means only one of two concurrent deliveries sends the email
+  const { data: activated, error } = await supabase
+    .from('package_purchases')
+    .update({
+      status: 'active',
+      purchased_at: purchasedAt.toISOString(),
+      expires_at: expiresAt?.toISOString() || null,
+      stripe_session_id: session.id,
+      stripe_payment_intent_id: session.payment_intent as string | null,
+      updated_at: purchasedAt.toISOString(),
+    })
+    .eq('id', purchaseId)
+    .eq('status', 'pending_payment')
+    .select('*')
+
+  if (error) throw error
+  if (!activated || activated.length === 0) return
+
+  const { data: studio } = await supabase
+    .from('studios')
+    .select('*')
+    .eq('id', purchase.studio_id)
+    .single()
+
+  if (studio) {
+    await emailService.sendPackagePurchase(activated[0] as PackagePurchase, studio)
+  }
+}
+
+type RedeemedBooking = Pick<Booking, 'id' | 'client_email' | 'start_time' | 'end_time' | 'total_price_cents' | 'tax_cents' | 'fee_cents' | 'hold_expires_at' | 'stripe_session_id'>
+
+/**
+ * Pay for held bookings (one, or every session of a series) with a client's
+ * package credits, confirming them. The code must be the client's own.
+ */
+export const redeemPackageCredits = async (
+  supabase: SupabaseClient,
+  studioId: string,
+  code: string,
+  bookings: RedeemedBooking[],
+  category: Service['category']
+): Promise<{ balance: PackageBalance } | { error: string }> => {
+  const balance = await getPackageBalance(supabase, studioId, code)
+  if (!balance) return { error: "That package code isn't valid" }
+
+  if (bookings.some(booking => booking.client_email.trim().toLowerCase() !== balance.client_email.trim().toLowerCase())) {
+    return { error: 'Use the email address the package was bought with' }
+  }
+
+  const costs = bookings.map(booking => getBookingCreditCost(
+    balance.credit_type,
+    Math.round((Date.parse(booking.end_time) - Date.parse(booking.start_time)) / 60000)
+  ))
+  const creditsNeeded = costs.reduce((sum, cost) => sum + cost, 0)
+
+  const problem = getPackageCreditProblem(balance, category, creditsNeeded)
+  if (problem) return { error: problem }
+
+  const redeemed: RedeemedBooking[] = []
+
+  for (const [index, booking] of bookings.entries()) {
+    // Only a booking still held can be paid for. Its checkout is dropped, so paying
+    // that too is refunded as a payment for a booking no longer waiting on it.
+    const { data: updated, error } = await supabase
+      .from('bookings')
+      .update({
+        package_purchase_id: balance.id,
+        package_credits_used: costs[index],
+        status: 'confirmed',
+        total_price_cents: 0,
+        tax_cents: 0,
+        fee_cents: 0,
+        hold_expires_at: null,
+        stripe_session_id: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', booking.id)
+      .eq('status', 'pending_payment')
+      .select('id')
+
+    if (error || !updated || updated.length === 0) {
+      // Don't leave part of a series paid for: put the others back on hold
+      for (const done of redeemed) {
+        await supabase
+          .from('bookings')
+          .update({
+            package_purchase_id: null,
+            package_credits_used: 0,
+            status: 'pending_payment',
+            total_price_cents: done.total_price_cents,
+            tax_cents: done.tax_cents || 0,
+            fee_cents: done.fee_cents || 0,
+            hold_expires_at: done.hold_expires_at || null,
+            stripe_session_id: done.stripe_session_id || null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', done.id)
+      }
+
+      if (!error) return { error: 'This time slot is no longer reserved. Please book again.' }
+      // 23514 is check_violation: the database's balance check lost a race
+      if (error.code === '23514') return { error: "This package doesn't have enough credits left" }
+      throw error
+    }
+
+    redeemed.push(booking)
+  }
+
+  // The ledger marks each booking paid (see packages-setup.sql)
+  for (const [index, booking] of bookings.entries()) {
+    await recordBookingPayment(supabase, {
+      booking_id: booking.id,
+      kind: 'adjustment',
+      amount_cents: 0,
+      description: `Paid with ${formatCredits(balance.credit_type, costs[index])} of package credits`,
+      idempotency_key: `package:${balance.id}:${booking.id}`,
+    })
+  }
+
+  return {
+    balance: {
+      ...balance,
+      credits_used: balance.credits_used + creditsNeeded,
+      credits_remaining: balance.credits_remaining - creditsNeeded,
+    },
+  }
+}
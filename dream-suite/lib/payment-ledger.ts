@@ -0,0 +1,87 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { BookingPayment } from '../types/booking'
+
+// Server side only, like balance-payments.ts: the ledger is written with the
+// service role client the API routes pass in. A trigger on booking_payments keeps
+// the booking's paid/refunded amounts and payment_status in step with it.
+
+export type NewBookingPayment = Omit<BookingPayment, 'id' | 'idempotency_key' | 'created_at'> & {
+  idempotency_key?: string
+}
+
+// The same Stripe payment is often reported more than once (a retried webhook, the
+// success page verifying the session alongside the webhook). A Checkout payment is
+// keyed on its session alone, which every report of it has; only payments made
+// without Checkout (a saved card charged off session) use the payment intent. One
+// payment can also cover several bookings (a series paid up front), so the key
+// includes the booking.
+const getPaymentKey = (entry: NewBookingPayment): string => {
+  switch (entry.kind) {
+    case 'charge':
+      return `charge:${entry.stripe_session_id || entry.stripe_payment_intent_id}:${entry.booking_id}`
+    case 'refund':
+      return `refund:${entry.stripe_refund_id}:${entry.booking_id}`
+    case 'dispute':
+      return `dispute:${entry.stripe_dispute_id}:${entry.booking_id}`
+    default:
+      return `adjustment:${crypto.randomUUID()}`
+  }
+}
+
+export const recordBookingPayment = async (
+  supabase: SupabaseClient,
+  entry: NewBookingPayment
+): Promise<void> => {
+  const { error } = await supabase
+    .from('booking_payments')
+    .upsert(
+      { ...entry, idempotency_key: entry.idempotency_key || getPaymentKey(entry) },
+      { onConflict: 'idempotency_key', ignoreDuplicates: true }
+    )
+
+  if (error) throw error
+}
+
+export const getBookingPayments = async (
+  supabase: SupabaseClient,
+  bookingId: string
+): Promise<BookingPayment[]> => {
+  const { data, error } = await supabase
+    .from('booking_payments')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at')
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * The Stripe payments a booking's money can be refunded from, with how much of
+ * each is still this booking's to refund and how much already was. Most recent
+ * first, so a separately paid balance goes back before the deposit. A disputed
+ * payment is left out: the dispute settles it, and refunding it too would pay
+ * the client twice.
+ */
+export const getRefundSources = (
+  payments: BookingPayment[]
+): { paymentIntentId: string; cents: number; refundedCents: number }[] => {
+  const sources = new Map<string, { cents: number; refundedCents: number }>()
+  const disputed = new Set(payments
+    .filter(payment => payment.kind === 'dispute' && payment.stripe_payment_intent_id)
+    .map(payment => payment.stripe_payment_intent_id))
+
+  for (const payment of [...payments].reverse()) {
+    if (!payment.stripe_payment_intent_id || disputed.has(payment.stripe_payment_intent_id)) continue
+    if (payment.kind !== 'charge' && payment.kind !== 'refund') continue
+
+    const source = sources.get(payment.stripe_payment_intent_id) || { cents: 0, refundedCents: 0 }
+    source.cents += payment.amount_cents
+    if (payment.kind === 'refund') source.refundedCents -= payment.amount_cents
+    sources.set(payment.stripe_payment_intent_id, source)
+  }
+
+  return [...sources.entries()]
+    .map(([paymentIntentId, source]) => ({ paymentIntentId, ...source }))
+    .filter(source => source.cents > 0)
+}
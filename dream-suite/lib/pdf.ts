@@ -0,0 +1,159 @@
+// Server side only: a small PDF writer for text documents (invoices and receipts),
+// so they can be produced without a PDF library or an outside service. It uses the
+// standard Helvetica fonts every PDF reader has, which only cover Western European
+// characters; anything else prints as "?".
+
+export interface PdfLine {
+  text: string
+  right?: string // printed against the right margin, e.g. an amount
+  size?: number // points, 10 by default
+  bold?: boolean
+  spaceBefore?: number // extra points above the line
+  rule?: boolean // a horizontal line above the text
+}
+
+const PAGE_WIDTH = 612 // US Letter
+const PAGE_HEIGHT = 792
+const MARGIN = 54
+const LINE_HEIGHT = 1.4
+
+// Helvetica's widths (in 1/1000 of the font size) for printable ASCII, from its AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+// Characters WinAnsiEncoding puts outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+}
+
+const toWinAnsi = (text: string): string => {
+  return Array.from(text, char => {
+    const code = char.codePointAt(0)!
+    if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char])
+    if (code === 0x202f) return ' ' // narrow no-break space, from some number formats
+    if (code < 0x20 || (code >= 0x7f && code < 0xa0) || code > 0xff) return '?'
+    return char
+  }).join('')
+}
+
+const getTextWidth = (text: string, size: number, bold?: boolean): number => {
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = char.charCodeAt(0)
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556)
+  }, 0)
+  // Bold is a little wider; close enough for laying out a line
+  return units * size / 1000 * (bold ? 1.05 : 1)
+}
+
+const wrapText = (text: string, width: number, size: number, bold?: boolean): string[] => {
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of text.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word
+    if (current && getTextWidth(candidate, size, bold) > width) {
+      lines.push(current)
+      current = word
+    } else {
+      current = candidate
+    }
+  }
+
+  lines.push(current)
+  return lines
+}
+
+const escapePdfString = (text: string): string => {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')
+}
+
+const showText = (text: string, x: number, y: number, size: number, bold?: boolean): string => {
+  return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfString(text)}) Tj ET`
+}
+
+// Lay the lines out top to bottom, starting a new page when one fills up
+const layoutPages = (lines: PdfLine[]): string[] => {
+  const pages: string[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+  const contentWidth = PAGE_WIDTH - MARGIN * 2
+
+  for (const line of lines) {
+    const size = line.size || 10
+    const text = toWinAnsi(line.text)
+    const right = line.right !== undefined ? toWinAnsi(line.right) : undefined
+    const rightWidth = right ? getTextWidth(right, size) : 0
+    const wrapped = wrapText(text, contentWidth - (right ? rightWidth + 12 : 0), size, line.bold)
+
+    y -= line.spaceBefore || 0
+
+    wrapped.forEach((part, index) => {
+      y -= size * LINE_HEIGHT
+      if (y < MARGIN) {
+        pages.push([])
+        y = PAGE_HEIGHT - MARGIN - size * LINE_HEIGHT
+      }
+
+      const page = pages[pages.length - 1]
+      if (line.rule && index === 0) {
+        const ruleY = y + size * LINE_HEIGHT - 2
+        page.push(`0.8 G 0.5 w ${MARGIN} ${ruleY.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${ruleY.toFixed(2)} l S 0 G`)
+      }
+      page.push(showText(part, MARGIN, y, size, line.bold))
+      if (right && index === 0) {
+        page.push(showText(right, PAGE_WIDTH - MARGIN - rightWidth, y, size))
+      }
+    })
+  }
+
+  return pages.map(page => page.join('\n'))
+}
+
+/**
+ * Render lines of text as a PDF file. Long lines wrap, and the text runs onto
+ * as many pages as it needs.
+ */
+export const renderTextPdf = (lines: PdfLine[], title?: string): Buffer => {
+  const pages = layoutPages(lines)
+
+  // Objects 1-4 are the catalog, page tree, fonts and info; each page then takes two
+  const objects: string[] = []
+  const pageIds = pages.map((_, index) => 5 + index * 2)
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  objects[3] = '<< /F1 << /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >> ' +
+    '/F2 << /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >> >>'
+  objects[4] = `<< /Producer (Dream Suite)${title ? ` /Title (${escapePdfString(toWinAnsi(title))})` : ''} >>`
+
+  pages.forEach((content, index) => {
+    const pageId = pageIds[index]
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font 3 0 R >> /Contents ${pageId + 1} 0 R >>`
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+  })
+
+  // Every character is one byte (WinAnsi), so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(pdf, 'latin1')
+}
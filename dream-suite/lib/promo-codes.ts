@@ -0,0 +1,105 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Booking, PromoCode } from '../types/booking'
+import { getPromoCodeProblem, getPromoDiscountCents, normalizePromoCode } from '../utils/promo-codes'
+
+// Server side only: promo codes are checked and applied with the service role
+// client the API routes pass in. Clients can't read codes or set discounts
+// themselves (see promo-codes-setup.sql).
+
+/**
+ * Look up a studio's code and check it can be used on the service. Pass the
+ * booking (or series) it's for so its own use doesn't count against the limit.
+ */
+export const checkPromoCode = async (
+  supabase: SupabaseClient,
+  studioId: string,
+  code: string,
+  serviceId: string,
+  redemptionId?: string
+): Promise<{ promoCode: PromoCode } | { error: string }> => {
+  const { data: promoCode, error } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .eq('studio_id', studioId)
+    .eq('code', normalizePromoCode(code))
+    .maybeSingle()
+
+  if (error) throw error
+  if (!promoCode) return { error: "That promo code isn't valid" }
+
+  const problem = getPromoCodeProblem(promoCode, serviceId)
+  if (problem) return { error: problem }
+
+  if (promoCode.max_uses) {
+    const { data: uses, error: usesError } = await supabase
+      .from('bookings')
+      .select('id, series_id')
+      .eq('promo_code_id', promoCode.id)
+      .neq('status', 'cancelled')
+
+    if (usesError) throw usesError
+
+    // A series counts as one use
+    const redemptions = new Set((uses || []).map(use => use.series_id || use.id))
+    if (redemptionId) redemptions.delete(redemptionId)
+
+    if (redemptions.size >= promoCode.max_uses) {
+      return { error: 'This promo code has been used up' }
+    }
+  }
+
+  return { promoCode }
+}
+
+type PricedBooking = Pick<Booking, 'id' | 'total_price_cents' | 'original_price_cents' | 'promo_code_id'>
+
+/**
+ * Price the bookings being paid for with a code, or back at full price without
+ * one (a client can change their mind between checkout attempts). A percentage
+ * comes off every session; a fixed amount comes off the first one only.
+ */
+export const applyPromoCode = async <T extends PricedBooking>(
+  supabase: SupabaseClient,
+  bookings: T[],
+  promoCode: PromoCode | null,
+  firstBookingId: string
+): Promise<{ bookings: T[] } | { error: string }> => {
+  if (!promoCode && !bookings.some(booking => booking.promo_code_id)) {
+    return { bookings }
+  }
+
+  const priced: T[] = []
+
+  for (const booking of bookings) {
+    const originalCents = booking.original_price_cents ?? booking.total_price_cents
+    const discountCents = promoCode && (promoCode.discount_type === 'percent' || booking.id === firstBookingId)
+      ? getPromoDiscountCents(promoCode, originalCents)
+      : 0
+
+    const update = {
+      original_price_cents: promoCode ? originalCents : null,
+      discount_cents: discountCents,
+      total_price_cents: originalCents - discountCents,
+      promo_code_id: promoCode?.id || null,
+      promo_code: promoCode?.code || null,
+    }
+
+    const { error } = await supabase
+      .from('bookings')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', booking.id)
+
+    // 23514 is check_violation: the database's usage limit check lost a race
+    if (error?.code === '23514') return { error: 'This promo code has been used up' }
+    if (error) throw error
+
+    priced.push({
+      ...booking,
+      ...update,
+      original_price_cents: update.original_price_cents ?? undefined,
+      promo_code_id: update.promo_code_id ?? undefined,
+    })
+  }
+
+  return { bookings: priced }
+}
@@ -0,0 +1,25 @@
+import { SupabaseClient, User } from '@supabase/supabase-js'
+
+// Server side only. Studio owner actions (refunds, replaying webhook events) send
+// the owner's Supabase access token as a bearer token; see StripeBookingService.
+export const getRequestUser = async (
+  supabase: SupabaseClient,
+  request: Request
+): Promise<User | null> => {
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '')
+  if (!token) return null
+
+  const { data: { user } } = await supabase.auth.getUser(token)
+  return user
+}
+
+// The emails and texts sent by server code (webhooks, the reminder dispatcher) come
+// through the same API routes as the admin app's, with INTERNAL_API_SECRET as the
+// bearer token (see lib/api-auth.ts). Without one set, that's only allowed outside
+// production.
+export const isInternalRequest = (request: Request): boolean => {
+  const secret = process.env.INTERNAL_API_SECRET
+  if (!secret) return process.env.NODE_ENV !== 'production'
+
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
@@ -0,0 +1,87 @@
+import { BookingEmailData } from './email-service'
+import { getApiAuthHeaders } from './api-auth'
+import { SendSmsRequest } from '../types/booking'
+
+const API_URL = typeof window !== 'undefined'
+  ? window.location.origin
+  : (process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000')
+
+// Texts go alongside the emails of the same name, from the same places. The server
+// writes them from the booking (utils/sms.ts), and only sends one when the studio
+// has texts on and the client opted in and hasn't replied STOP.
+export class SmsService {
+  private static instance: SmsService
+
+  static getInstance(): SmsService {
+    if (!this.instance) {
+      this.instance = new SmsService()
+    }
+    return this.instance
+  }
+
+  /**
+   * Text the client their booking confirmation
+   */
+  async sendBookingConfirmation(emailData: BookingEmailData): Promise<boolean> {
+    return this.send(emailData, { type: 'booking-confirmation' })
+  }
+
+  /**
+   * Text the client a reminder (24h and 1h before)
+   */
+  async sendBookingReminder(emailData: BookingEmailData, reminderType: '24h' | '1h'): Promise<boolean> {
+    return this.send(emailData, { type: 'booking-reminder', reminderType })
+  }
+
+  /**
+   * Text the client the new time of a rescheduled booking
+   */
+  async sendBookingReschedule(emailData: BookingEmailData): Promise<boolean> {
+    return this.send(emailData, { type: 'booking-reschedule' })
+  }
+
+  /**
+   * Text the client that their booking was cancelled, or sessionCount sessions of
+   * a series starting with it
+   */
+  async sendBookingCancellation(
+    emailData: BookingEmailData,
+    reason?: string,
+    sessionCount = 1
+  ): Promise<boolean> {
+    return this.send(emailData, { type: 'booking-cancellation', reason, sessionCount })
+  }
+
+  // Resolves with whether the text was sent; false too when there was nothing to send
+  private async send(
+    { booking }: BookingEmailData,
+    request: Omit<SendSmsRequest, 'bookingId'>
+  ): Promise<boolean> {
+    // The client didn't ask for texts, so there's no need to ask the server
+    if (!booking.client_phone || !booking.sms_opt_in) return false
+
+    try {
+      const response = await fetch(`${API_URL}/api/sms/send`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await getApiAuthHeaders()),
+        },
+        body: JSON.stringify({ ...request, bookingId: booking.id }),
+      })
+
+      if (!response.ok) {
+        console.error(`Failed to send ${request.type} text:`, await response.text())
+        return false
+      }
+
+      const result = await response.json()
+      return !result.skipped
+    } catch (error: any) {
+      console.error('SMS service error:', error)
+      return false
+    }
+  }
+}
+
+export const smsService = SmsService.getInstance()
@@ -0,0 +1,174 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+
+// Server side only: how the SMS API route actually sends texts. SMS_TRANSPORT
+// picks one of:
+//   twilio - the Twilio Messages API (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, and
+//            TWILIO_FROM_NUMBER or TWILIO_MESSAGING_SERVICE_SID)
+//   fake   - nothing is sent; texts are logged to the console and kept in memory
+// Without SMS_TRANSPORT it's twilio when there's a Twilio account and fake otherwise,
+// so the booking flow runs locally without one.
+
+export interface SmsMessage {
+  to: string // E.164, e.g. "+15555550123"
+  body: string
+}
+
+export interface SmsTransport {
+  name: string
+  // Resolves with the provider's id for the message; throws if it wasn't accepted
+  send(message: SmsMessage): Promise<{ id: string }>
+}
+
+// A text the fake transport kept
+export interface FakeSms extends SmsMessage {
+  id: string
+  sent_at: string
+}
+
+// Twilio's error for a number that replied STOP to the sending number
+export const TWILIO_UNSUBSCRIBED_ERROR = 21610
+
+export class SmsTransportError extends Error {
+  code?: number
+
+  constructor(message: string, code?: number) {
+    super(message)
+    this.name = 'SmsTransportError'
+    this.code = code
+  }
+}
+
+export class TwilioTransport implements SmsTransport {
+  name = 'twilio'
+
+  constructor(private options: {
+    accountSid: string
+    authToken: string
+    from?: string
+    messagingServiceSid?: string
+    statusCallbackUrl?: string // where Twilio reports delivery (app/api/sms/status+api.ts)
+  }) {}
+
+  async send(message: SmsMessage): Promise<{ id: string }> {
+    const { accountSid, authToken, from, messagingServiceSid, statusCallbackUrl } = this.options
+
+    const params = new URLSearchParams({ To: message.to, Body: message.body })
+    if (messagingServiceSid) {
+      params.set('MessagingServiceSid', messagingServiceSid)
+    } else if (from) {
+      params.set('From', from)
+    }
+    if (statusCallbackUrl) {
+      params.set('StatusCallback', statusCallbackUrl)
+    }
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    })
+
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok || !data.sid) {
+      throw new SmsTransportError(data.message || 'Twilio did not accept the text', data.code)
+    }
+
+    return { id: data.sid }
+  }
+}
+
+export class FakeSmsTransport implements SmsTransport {
+  name = 'fake'
+  private messages: FakeSms[] = []
+
+  async send(message: SmsMessage): Promise<{ id: string }> {
+    const sms: FakeSms = { ...message, id: randomUUID(), sent_at: new Date().toISOString() }
+    this.messages.push(sms)
+    console.log(`[fake sms] to ${sms.to}: ${sms.body}`)
+    return { id: sms.id }
+  }
+
+  // Newest first
+  list(): FakeSms[] {
+    return [...this.messages].sort((a, b) => b.sent_at.localeCompare(a.sent_at))
+  }
+
+  clear(): void {
+    this.messages = []
+  }
+}
+
+let transport: SmsTransport | null = null
+
+export const getSmsTransport = (): SmsTransport => {
+  if (transport) return transport
+
+  const name = process.env.SMS_TRANSPORT || (process.env.TWILIO_ACCOUNT_SID ? 'twilio' : 'fake')
+
+  switch (name) {
+    case 'twilio':
+      if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
+        throw new Error('TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN must be set')
+      }
+      if (!process.env.TWILIO_FROM_NUMBER && !process.env.TWILIO_MESSAGING_SERVICE_SID) {
+        throw new Error('TWILIO_FROM_NUMBER or TWILIO_MESSAGING_SERVICE_SID must be set')
+      }
+      transport = new TwilioTransport({
+        accountSid: process.env.TWILIO_ACCOUNT_SID,
+        authToken: process.env.TWILIO_AUTH_TOKEN,
+        from: process.env.TWILIO_FROM_NUMBER,
+        messagingServiceSid: process.env.TWILIO_MESSAGING_SERVICE_SID,
+        statusCallbackUrl: process.env.EXPO_PUBLIC_API_URL
+          ? getTwilioWebhookUrl('/api/sms/status')
+          : undefined,
+      })
+      break
+    case 'fake':
+      transport = new FakeSmsTransport()
+      break
+    default:
+      throw new Error(`Unknown SMS_TRANSPORT: ${name}`)
+  }
+
+  return transport
+}
+
+/**
+ * The public URL Twilio calls for one of our webhooks, which is also the URL it
+ * signs. Built from EXPO_PUBLIC_API_URL rather than the request's URL, which
+ * behind a proxy or CDN isn't the one Twilio called.
+ */
+export const getTwilioWebhookUrl = (path: string): string => {
+  return `${(process.env.EXPO_PUBLIC_API_URL || '').replace(/\/$/, '')}${path}`
+}
+
+/**
+ * Check a webhook really came from Twilio. It signs them with the account's auth
+ * token: an HMAC-SHA1 of the URL it called followed by each form parameter's name
+ * and value, sorted by name. Without a Twilio account (the fake transport, outside
+ * production) there's nothing to check against, and requests are accepted.
+ */
+export const verifyTwilioSignature = (
+  url: string,
+  params: Record<string, string>,
+  signature: string | null
+): boolean => {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+
+  if (!authToken) {
+    return getSmsTransport() instanceof FakeSmsTransport && process.env.NODE_ENV !== 'production'
+  }
+  if (!signature) return false
+
+  const signed = Object.keys(params)
+    .sort()
+    .reduce((data, key) => data + key + params[key], url)
+  const expected = createHmac('sha1', authToken).update(signed).digest()
+  const actual = Buffer.from(signature, 'base64')
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
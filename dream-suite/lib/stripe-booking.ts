@@ -1,5 +1,6 @@
 import { Platform } from 'react-native'
-import { Booking, Service, PaymentResult, PaymentSession } from '../types/booking'
+import { supabase } from './supabase'
+import { Booking, ConnectStatus, InvoiceDownload, Notification, PackageBalance, PromoCode, Service, PaymentResult, PaymentSession } from '../types/booking'
 
 const API_URL = typeof window !== 'undefined' 
   ? window.location.origin 
@@ -16,12 +17,16 @@ export class StripeBookingService {
   }
 
   /**
-   * Create a Stripe Checkout session for a booking
+   * Create a Stripe Checkout session for a booking. For a recurring series pass
+   * its first session and the series id; the series' payment mode decides
+   * whether checkout covers every session or just the first.
    */
   async createBookingPayment(
     booking: Booking,
     service: Service,
-    returnUrl: string
+    returnUrl: string,
+    seriesId?: string,
+    promoCode?: string
   ): Promise<PaymentResult> {
     try {
       const response = await fetch(`${API_URL}/api/payments/create-session`, {
@@ -38,6 +43,8 @@ export class StripeBookingService {
           clientEmail: booking.client_email,
           requiresDeposit: service.requires_deposit,
           depositPercentage: service.deposit_percentage,
+          seriesId,
+          promoCode,
           returnUrl,
         }),
       })
@@ -54,7 +61,7 @@ export class StripeBookingService {
         session: {
           id: result.session.id,
           url: result.session.url,
-          expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString()
+          expires_at: result.session.expires_at
         }
       }
     } catch (error: any) {
@@ -103,102 +110,50 @@ export class StripeBookingService {
   }
 
   /**
-   * Create deposit payment (for services requiring deposits)
+   * Create deposit payment (for services requiring deposits). Checkout charges the
+   * service's deposit percentage and saves the card for the balance.
    */
   async createDepositPayment(
     booking: Booking,
     service: Service,
-    depositAmount: number,
     returnUrl: string
   ): Promise<PaymentResult> {
-    try {
-      const response = await fetch(`${API_URL}/api/stripe/create-deposit-checkout`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          bookingId: booking.id,
-          serviceId: service.id,
-          studioId: booking.studio_id,
-          clientEmail: booking.client_email,
-          clientName: booking.client_name,
-          depositAmount: depositAmount,
-          totalAmount: booking.total_price_cents,
-          serviceName: service.name,
-          startTime: booking.start_time,
-          returnUrl,
-          metadata: {
-            booking_id: booking.id,
-            service_id: service.id,
-            studio_id: booking.studio_id,
-            payment_type: 'deposit'
-          }
-        }),
-      })
-
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`Deposit payment session creation failed: ${error}`)
-      }
-
-      const session = await response.json()
-      
-      return {
-        success: true,
-        session: {
-          session_id: session.id,
-          url: session.url,
-          expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString()
-        }
-      }
-    } catch (error: any) {
-      console.error('Stripe deposit payment error:', error)
-      return {
-        success: false,
-        error: error.message || 'Failed to create deposit payment session'
-      }
-    }
+    return this.createBookingPayment(booking, service, returnUrl)
   }
 
   /**
-   * Create final payment (remaining balance after deposit)
+   * Create final payment (remaining balance after deposit). Balances are normally
+   * collected automatically; this lets the client pay early from the app.
    */
   async createFinalPayment(
     bookingId: string,
-    remainingAmount: number,
     returnUrl: string
   ): Promise<PaymentResult> {
     try {
-      const response = await fetch(`${API_URL}/api/stripe/create-final-payment-checkout`, {
+      const response = await fetch(`${API_URL}/api/payments/balance`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           bookingId,
-          amount: remainingAmount,
           returnUrl,
-          metadata: {
-            booking_id: bookingId,
-            payment_type: 'final'
-          }
         }),
       })
 
       if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`Final payment session creation failed: ${error}`)
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Final payment session creation failed')
       }
 
-      const session = await response.json()
+      const result = await response.json()
       
       return {
         success: true,
         session: {
-          session_id: session.id,
-          url: session.url,
-          expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString()
+          id: result.session.id,
+          url: result.session.url,
+          expires_at: result.session.expires_at
         }
       }
     } catch (error: any) {
@@ -285,23 +240,37 @@ export class StripeBookingService {
     }
   }
 
+  // Owner-only routes (refunds, webhook replays) check the Supabase session
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const { data: { session } } = await supabase.auth.getSession()
+    return {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session?.access_token}`,
+    }
+  }
+
   /**
-   * Process refund for cancelled booking
+   * Refund a booking. Without an amount, the studio's cancellation policy decides
+   * how much of what the client paid comes back. Must be called by the studio owner.
    */
   async processRefund(
     bookingId: string, 
     amount?: number, 
     reason?: string
-  ): Promise<{ success: boolean; refund_id?: string; error?: string }> {
+  ): Promise<{
+    success: boolean
+    refund_id?: string
+    refunded_cents?: number
+    payment_status?: Booking['payment_status']
+    error?: string
+  }> {
     try {
-      const response = await fetch(`${API_URL}/api/stripe/refund-booking`, {
+      const response = await fetch(`${API_URL}/api/payments/refund`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: await this.getAuthHeaders(),
         body: JSON.stringify({
           bookingId,
-          amount, // If not provided, refunds full amount
+          amount, // If not provided, refunds what the cancellation policy allows
           reason: reason || 'Booking cancelled'
         }),
       })
@@ -320,6 +289,360 @@ export class StripeBookingService {
       }
     }
   }
+
+  /**
+   * Run a Stripe webhook event that failed through the webhook handlers again
+   */
+  async replayWebhookEvent(eventId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await fetch(`${API_URL}/api/payments/replay-event`, {
+        method: 'POST',
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({ eventId }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Replay failed')
+      }
+
+      return { success: result.success, error: result.success ? undefined : 'The event failed again' }
+    } catch (error: any) {
+      console.error('Replay error:', error)
+      return {
+        success: false,
+        error: error.message || 'Failed to replay event'
+      }
+    }
+  }
+
+  /**
+   * Check a promo code on the booking page. The discount itself is applied when
+   * the payment session is created.
+   */
+  async validatePromoCode(
+    studioId: string,
+    serviceId: string,
+    code: string
+  ): Promise<{
+    valid: boolean
+    promoCode?: Pick<PromoCode, 'code' | 'discount_type' | 'discount_value'>
+    error?: string
+  }> {
+    try {
+      const response = await fetch(`${API_URL}/api/promo-codes/validate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ studioId, serviceId, code }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Promo code check failed')
+      }
+
+      return result
+    } catch (error: any) {
+      console.error('Promo code error:', error)
+      return {
+        valid: false,
+        error: error.message || 'Failed to check promo code'
+      }
+    }
+  }
+
+  /**
+   * Buy a package from a studio's booking page. Checkout comes back to returnUrl
+   * with ?package=purchased, and the client is emailed their code.
+   */
+  async purchasePackage(
+    packageId: string,
+    clientName: string,
+    clientEmail: string,
+    returnUrl: string
+  ): Promise<{ success: boolean; url?: string; error?: string }> {
+    try {
+      const response = await fetch(`${API_URL}/api/packages/checkout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ packageId, clientName, clientEmail, returnUrl }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Package checkout failed')
+      }
+
+      return { success: true, url: result.session.url }
+    } catch (error: any) {
+      console.error('Package purchase error:', error)
+      return {
+        success: false,
+        error: error.message || 'Failed to buy package'
+      }
+    }
+  }
+
+  /**
+   * Look up what's left on a package code
+   */
+  async checkPackageBalance(
+    studioId: string,
+    code: string
+  ): Promise<{
+    valid: boolean
+    balance?: Pick<PackageBalance, 'code' | 'package_name' | 'status' | 'credit_type' | 'categories' | 'expires_at' | 'credits_remaining'>
+    error?: string
+  }> {
+    try {
+      const response = await fetch(`${API_URL}/api/packages/balance`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ studioId, code }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Package check failed')
+      }
+
+      return result
+    } catch (error: any) {
+      console.error('Package balance error:', error)
+      return {
+        valid: false,
+        error: error.message || 'Failed to check package'
+      }
+    }
+  }
+
+  /**
+   * Pay for a held booking (or every session of a series) with package credits,
+   * confirming it without checkout
+   */
+  async redeemPackageCredits(
+    bookingId: string,
+    code: string,
+    seriesId?: string
+  ): Promise<{ success: boolean; credits_remaining?: number; error?: string }> {
+    try {
+      const response = await fetch(`${API_URL}/api/packages/redeem`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ bookingId, seriesId, code }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Booking with credits failed')
+      }
+
+      return { success: true, credits_remaining: result.credits_remaining }
+    } catch (error: any) {
+      console.error('Package redeem error:', error)
+      return {
+        success: false,
+        error: error.message || 'Failed to book with package credits'
+      }
+    }
+  }
+
+  /**
+   * Get a booking's evidence as text, for the studio to answer a dispute with
+   */
+  async exportDisputeEvidence(
+    bookingId: string
+  ): Promise<{ success: boolean; filename?: string; evidence?: string; error?: string }> {
+    try {
+      const response = await fetch(`${API_URL}/api/disputes/evidence`, {
+        method: 'POST',
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({ bookingId }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Export failed')
+      }
+
+      return { success: true, filename: result.filename, evidence: result.evidence }
+    } catch (error: any) {
+      console.error('Evidence export error:', error)
+      return {
+        success: false,
+        error: error.message || 'Failed to export evidence'
+      }
+    }
+  }
+
+  /**
+   * A booking's invoice and receipts, with links to download them. The studio owner
+   * is recognised by their session; a client passes the email they booked with.
+   */
+  async getBookingInvoices(
+    bookingId: string,
+    clientEmail?: string
+  ): Promise<{ success: boolean; invoices?: InvoiceDownload[]; error?: string }> {
+    try {
+      const response = await fetch(`${API_URL}/api/invoices/booking`, {
+        method: 'POST',
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({ bookingId, clientEmail }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to get invoices')
+      }
+
+      return { success: true, invoices: result.invoices }
+    } catch (error: any) {
+      console.error('Invoices error:', error)
+      return {
+        success: false,
+        error: error.message || 'Failed to get invoices'
+      }
+    }
+  }
+
+  /**
+   * Open a download link (an invoice) in the browser
+   */
+  async openDownloadUrl(url: string): Promise<void> {
+    if (Platform.OS === 'web') {
+      window.open(url, '_blank')
+    } else {
+      const { Linking } = await import('react-native')
+      await Linking.openURL(url)
+    }
+  }
+
+  /**
+   * Send a logged email again (studio owner only). Client emails go to the
+   * booking's current email address.
+   */
+  async resendNotification(
+    notificationId: string
+  ): Promise<{ success: boolean; notification?: Notification; error?: string }> {
+    try {
+      const response = await fetch(`${API_URL}/api/notifications/resend`, {
+        method: 'POST',
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({ notificationId }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Resend failed')
+      }
+
+      return { success: true, notification: result.notification }
+    } catch (error: any) {
+      console.error('Notification resend error:', error)
+      return {
+        success: false,
+        error: error.message || 'Failed to resend email'
+      }
+    }
+  }
+
+  /**
+   * Send a booking's reminder now (studio owner only). A reminder already sent,
+   * by hand or by the reminder dispatcher, isn't sent again.
+   */
+  async sendBookingReminder(
+    bookingId: string,
+    reminderType: '24h' | '1h'
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await fetch(`${API_URL}/api/bookings/send-reminder`, {
+        method: 'POST',
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({ bookingId, reminderType }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Reminder failed')
+      }
+
+      return { success: true }
+    } catch (error: any) {
+      console.error('Reminder error:', error)
+      return {
+        success: false,
+        error: error.message || 'Failed to send reminder'
+      }
+    }
+  }
+
+  /**
+   * Get a Stripe onboarding link for the signed in owner's studio payouts. Stripe
+   * sends the owner back to the studio settings when they're done.
+   */
+  async startConnectOnboarding(): Promise<{ success: boolean; url?: string; error?: string }> {
+    try {
+      const returnUrl = `${API_URL}/admin/settings`
+
+      const response = await fetch(`${API_URL}/api/connect/onboard`, {
+        method: 'POST',
+        headers: await this.getAuthHeaders(),
+        body: JSON.stringify({ returnUrl }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Payout setup failed')
+      }
+
+      return { success: true, url: result.url }
+    } catch (error: any) {
+      console.error('Connect onboarding error:', error)
+      return {
+        success: false,
+        error: error.message || 'Failed to start payout setup'
+      }
+    }
+  }
+
+  /**
+   * Check the signed in owner's studio payout account with Stripe
+   */
+  async getConnectStatus(): Promise<ConnectStatus | null> {
+    try {
+      const response = await fetch(`${API_URL}/api/connect/status`, {
+        method: 'POST',
+        headers: await this.getAuthHeaders(),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to check payout status')
+      }
+
+      return await response.json()
+    } catch (error: any) {
+      console.error('Connect status error:', error)
+      return null
+    }
+  }
 }
 
 export const stripeBookingService = StripeBookingService.getInstance()
\ No newline at end of file
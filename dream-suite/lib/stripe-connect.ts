@@ -0,0 +1,59 @@
+import Stripe from 'stripe'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Studio } from '../types/booking'
+
+// Server side only. Studios are paid through Stripe Connect (Express accounts) with
+// destination charges: the charge is made on the platform, so the client's saved
+// card and refunds work as before, and the money less the platform's fee is
+// transferred to the studio's connected account.
+
+// The platform's cut of every payment, as a percentage of the amount charged
+export const getApplicationFeePercent = (): number => {
+  const percent = Number(process.env.STRIPE_APPLICATION_FEE_PERCENT || 0)
+  return Number.isFinite(percent) && percent > 0 ? Math.min(percent, 100) : 0
+}
+
+export const getApplicationFeeCents = (amountCents: number): number => {
+  return Math.round(amountCents * getApplicationFeePercent() / 100)
+}
+
+/**
+ * The payment intent fields that send a payment to the studio. Throws if the
+ * studio can't take payments yet; booking pages are only public once it can.
+ */
+export const getDestinationChargeData = (
+  studio: Pick<Studio, 'id' | 'stripe_account_id' | 'onboarded'> | null | undefined,
+  amountCents: number
+): Pick<Stripe.PaymentIntentCreateParams, 'application_fee_amount' | 'transfer_data'> => {
+  if (!studio?.stripe_account_id || !studio.onboarded) {
+    throw new Error(`Studio ${studio?.id} has not finished setting up payouts`)
+  }
+
+  const feeCents = getApplicationFeeCents(amountCents)
+
+  return {
+    ...(feeCents > 0 ? { application_fee_amount: feeCents } : {}),
+    transfer_data: { destination: studio.stripe_account_id },
+  }
+}
+
+// A studio is onboarded once Stripe lets its account take charges and pay out
+export const isAccountOnboarded = (account: Stripe.Account): boolean => {
+  return !!(account.details_submitted && account.charges_enabled && account.payouts_enabled)
+}
+
+// Record a connected account's current status on its studio (also on account.updated)
+export const syncStudioOnboarding = async (
+  supabase: SupabaseClient,
+  account: Stripe.Account
+): Promise<boolean> => {
+  const onboarded = isAccountOnboarded(account)
+
+  const { error } = await supabase
+    .from('studios')
+    .update({ onboarded, updated_at: new Date().toISOString() })
+    .eq('stripe_account_id', account.id)
+
+  if (error) throw error
+  return onboarded
+}
@@ -0,0 +1,752 @@
+import Stripe from 'stripe'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { sendBookingEmails } from './booking-emails'
+import { emailService } from './email-service'
+import { offerFreedSlot } from './waitlist-offers'
+import { activatePackagePurchase } from './package-credits'
+import { recordBalancePayment } from './balance-payments'
+import { recordBookingPayment } from './payment-ledger'
+import { syncStudioOnboarding } from './stripe-connect'
+import { BookingDispute, StripeEventRecord } from '../types/booking'
+
+// Server side only: Stripe webhook events are handled here, both as they arrive
+// (app/api/payments/webhook+api.ts) and when a studio replays one that failed
+// (app/api/payments/replay-event+api.ts). Every event is stored in stripe_events
+// and handled once; Stripe resending it (or a replay racing a retry) is a no-op.
+
+// An event still marked processing after this long is assumed to have died mid-way
+const PROCESSING_TIMEOUT_MINUTES = 5
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// A booking or package purchase id from an event's metadata. Metadata can be edited
+// in the Stripe dashboard, and one that isn't a UUID would fail every query it's
+// used in, so the event is handled as if it named none.
+function getMetadataId(
+  metadata: Stripe.Metadata | null | undefined,
+  key: 'booking_id' | 'package_purchase_id'
+): string | null {
+  const id = metadata?.[key]
+  return id && UUID_PATTERN.test(id) ? id : null
+}
+
+// The studio an event is about, so its owner can see and replay it: the booking's
+// or package purchase's named in the metadata, or the one whose connected account
+// sent it. Dispute events have neither and get theirs from linkEventToBooking.
+async function getEventStudioId(supabase: SupabaseClient, event: Stripe.Event): Promise<string | null> {
+  const object = event.data.object as { id?: string; metadata?: Stripe.Metadata | null }
+
+  const bookingId = getMetadataId(object.metadata, 'booking_id')
+  if (bookingId) {
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select('studio_id')
+      .eq('id', bookingId)
+      .maybeSingle()
+    if (booking) return booking.studio_id
+  }
+
+  const packagePurchaseId = getMetadataId(object.metadata, 'package_purchase_id')
+  if (packagePurchaseId) {
+    const { data: purchase } = await supabase
+      .from('package_purchases')
+      .select('studio_id')
+      .eq('id', packagePurchaseId)
+      .maybeSingle()
+    if (purchase) return purchase.studio_id
+  }
+
+  const accountId = event.account || (event.type === 'account.updated' ? object.id : undefined)
+  if (accountId) {
+    const { data: studio } = await supabase
+      .from('studios')
+      .select('id')
+      .eq('stripe_account_id', accountId)
+      .maybeSingle()
+    if (studio) return studio.id
+  }
+
+  return null
+}
+
+// Claim an event for processing: new events, ones that failed, and ones whose
+// processing was abandoned. Returns false if it's done or being handled elsewhere.
+async function claimStripeEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<boolean> {
+  const object = event.data.object as { metadata?: Stripe.Metadata | null }
+
+  const { error } = await supabase
+    .from('stripe_events')
+    .insert({
+      id: event.id,
+      type: event.type,
+      booking_id: getMetadataId(object.metadata, 'booking_id'),
+      studio_id: await getEventStudioId(supabase, event),
+      payload: event,
+      status: 'processing',
+    })
+
+  if (!error) return true
+  // 23505 is unique_violation: seen this event before
+  if (error.code !== '23505') throw error
+
+  const { data: existing } = await supabase
+    .from('stripe_events')
+    .select('status, attempts, updated_at')
+    .eq('id', event.id)
+    .single()
+
+  if (!existing) return false
+
+  const abandoned = existing.status === 'processing' &&
+    Date.parse(existing.updated_at) < Date.now() - PROCESSING_TIMEOUT_MINUTES * 60 * 1000
+  if (existing.status !== 'failed' && !abandoned) return false
+
+  // Matching on attempts means only one of two concurrent retries gets it
+  const { data: claimed } = await supabase
+    .from('stripe_events')
+    .update({
+      status: 'processing',
+      attempts: existing.attempts + 1,
+      last_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', event.id)
+    .eq('attempts', existing.attempts)
+    .select('id')
+
+  return !!claimed && claimed.length > 0
+}
+
+export const processStripeEvent = async (
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  event: Stripe.Event,
+  baseUrl: string
+): Promise<StripeEventRecord['status'] | 'duplicate'> => {
+  if (!(await claimStripeEvent(supabase, event))) {
+    return 'duplicate'
+  }
+
+  try {
+    await handleStripeEvent(supabase, stripe, event, baseUrl)
+
+    await supabase
+      .from('stripe_events')
+      .update({
+        status: 'processed',
+        processed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', event.id)
+
+    return 'processed'
+  } catch (error: any) {
+    console.error(`Error processing Stripe event ${event.id}:`, error)
+
+    await supabase
+      .from('stripe_events')
+      .update({
+        status: 'failed',
+        last_error: error.message || String(error),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', event.id)
+
+    return 'failed'
+  }
+}
+
+async function handleStripeEvent(supabase: SupabaseClient, stripe: Stripe, event: Stripe.Event, baseUrl: string) {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutCompleted(supabase, stripe, event.data.object as Stripe.Checkout.Session)
+      break
+
+    case 'checkout.session.expired':
+      await handleCheckoutExpired(supabase, event.data.object as Stripe.Checkout.Session, baseUrl)
+      break
+
+    case 'payment_intent.succeeded':
+      await handlePaymentIntentSucceeded(supabase, event.data.object as Stripe.PaymentIntent)
+      break
+
+    case 'payment_intent.payment_failed':
+      await handlePaymentIntentFailed(supabase, event.data.object as Stripe.PaymentIntent)
+      break
+
+    // A client disputed a payment with their bank, and how that goes
+    case 'charge.dispute.created':
+    case 'charge.dispute.updated':
+    case 'charge.dispute.closed':
+      await handleDisputeChanged(supabase, event.data.object as Stripe.Dispute, event)
+      break
+
+    // Stripe took the disputed amount back out, or returned it when the studio won
+    case 'charge.dispute.funds_withdrawn':
+    case 'charge.dispute.funds_reinstated':
+      await handleDisputeFunds(supabase, event.data.object as Stripe.Dispute, event)
+      break
+
+    // A studio's connected account finished (or lost) the ability to take payments
+    case 'account.updated':
+      await syncStudioOnboarding(supabase, event.data.object as Stripe.Account)
+      break
+
+    case 'invoice.payment_succeeded':
+      console.log('Invoice payment succeeded:', event.data.object.id)
+      break
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      console.log(`Subscription event: ${event.type}`, event.data.object.id)
+      break
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`)
+  }
+}
+
+async function handleCheckoutCompleted(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  session: Stripe.Checkout.Session
+) {
+  const bookingId = getMetadataId(session.metadata, 'booking_id')
+  const packagePurchaseId = getMetadataId(session.metadata, 'package_purchase_id')
+  const isDeposit = session.metadata?.is_deposit === 'true'
+
+  // A package bought from the booking page (app/api/packages/checkout+api.ts)
+  if (session.metadata?.payment_type === 'package' && packagePurchaseId) {
+    await activatePackagePurchase(supabase, packagePurchaseId, session)
+    return
+  }
+
+  if (!bookingId) {
+    console.error('No booking ID in session metadata')
+    return
+  }
+
+  // Paying off the rest of an already confirmed booking
+  if (session.metadata?.payment_type === 'balance') {
+    await recordBalancePayment(
+      supabase,
+      bookingId,
+      session.amount_total || 0,
+      session.payment_intent as string | null,
+      session.id
+    )
+    return
+  }
+
+  // Keep the card saved at checkout so the balance can be charged later
+  const payment: StripePaymentReference = {
+    stripe_session_id: session.id,
+    stripe_payment_intent_id: session.payment_intent as string | null,
+    stripe_customer_id: session.customer as string | null,
+  }
+
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select('status, stripe_session_id')
+    .eq('id', bookingId)
+    .single()
+
+  if (bookingError) throw bookingError
+
+  // Only a booking still waiting on this payment is confirmed (the success page's
+  // verify call may have got there first). One cancelled in the meantime, or whose
+  // hold ran out, may have lost its slot, so the client gets their money back.
+  const awaitingPayment = booking.status === 'pending_payment' ||
+    (booking.status === 'confirmed' && booking.stripe_session_id === session.id)
+  if (!awaitingPayment) {
+    await refundUnbookedPayment(supabase, stripe, bookingId, session)
+    return
+  }
+
+  // A series paid up front records each session's share itself
+  let amountsRecorded = false
+  if (session.metadata?.series_id) {
+    amountsRecorded = await confirmSeriesBookings(supabase, session.metadata.series_id, bookingId, payment, isDeposit)
+  }
+
+  if (!amountsRecorded) {
+    await recordBookingPayment(supabase, {
+      booking_id: bookingId,
+      kind: 'charge',
+      payment_type: isDeposit ? 'deposit' : 'full',
+      amount_cents: session.amount_total || 0,
+      stripe_session_id: payment.stripe_session_id,
+      stripe_payment_intent_id: payment.stripe_payment_intent_id || undefined,
+    })
+  }
+
+  // Deposit or paid in full, the booking is confirmed
+  const { error } = await supabase
+    .from('bookings')
+    .update({
+      status: 'confirmed',
+      ...payment,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', bookingId)
+    .in('status', ['pending_payment', 'confirmed'])
+
+  if (error) throw error
+
+  // A waitlist offer that was paid for is done
+  if (session.metadata?.waitlist_entry_id) {
+    await supabase
+      .from('waitlist_entries')
+      .update({ status: 'claimed', claim_token: null, updated_at: new Date().toISOString() })
+      .eq('id', session.metadata.waitlist_entry_id)
+  }
+
+  // Send confirmation and notification emails
+  await sendBookingEmails(supabase, bookingId)
+}
+
+async function handleCheckoutExpired(supabase: SupabaseClient, session: Stripe.Checkout.Session, baseUrl: string) {
+  const bookingId = getMetadataId(session.metadata, 'booking_id')
+  const packagePurchaseId = getMetadataId(session.metadata, 'package_purchase_id')
+
+  // An unpaid package purchase never gets its credits
+  if (session.metadata?.payment_type === 'package' && packagePurchaseId) {
+    const { error } = await supabase
+      .from('package_purchases')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', packagePurchaseId)
+      .eq('status', 'pending_payment')
+
+    if (error) throw error
+    return
+  }
+
+  if (!bookingId) {
+    console.error('No booking ID in session metadata')
+    return
+  }
+
+  // Mark booking as cancelled due to payment timeout, unless it moved on to another
+  // checkout (the client came back and paid again) or was paid or cancelled since
+  const { data: expired, error } = await supabase
+    .from('bookings')
+    .update({
+      status: 'cancelled',
+      payment_status: 'expired',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', bookingId)
+    .eq('status', 'pending_payment')
+    .eq('stripe_session_id', session.id)
+    .select('id')
+
+  if (error) throw error
+  if (!expired || expired.length === 0) return
+
+  console.log(`Booking ${bookingId} cancelled due to payment timeout`)
+
+  const freedBookingIds = [bookingId]
+
+  // The rest of the series was only held for this checkout
+  if (session.metadata?.series_id) {
+    const { data: seriesBookings, error: seriesError } = await supabase
+      .from('bookings')
+      .update({
+        status: 'cancelled',
+        payment_status: 'expired',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('series_id', session.metadata.series_id)
+      .eq('status', 'pending_payment')
+      .eq('stripe_session_id', session.id)
+      .select('id')
+
+    if (seriesError) throw seriesError
+
+    freedBookingIds.push(...(seriesBookings || []).map(booking => booking.id))
+  }
+
+  // Offer the freed slots to clients on the waitlist
+  for (const freedBookingId of freedBookingIds) {
+    await offerFreedSlot(supabase, freedBookingId, baseUrl)
+  }
+}
+
+// A checkout paid for a booking that's no longer waiting on it: record the payment
+// and refund it in full, keyed on the session so a repeated event refunds once
+async function refundUnbookedPayment(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  bookingId: string,
+  session: Stripe.Checkout.Session
+) {
+  const paymentIntentId = session.payment_intent as string | null
+  const amountCents = session.amount_total || 0
+  if (!paymentIntentId || amountCents <= 0) return
+
+  await recordBookingPayment(supabase, {
+    booking_id: bookingId,
+    kind: 'charge',
+    payment_type: session.metadata?.is_deposit === 'true' ? 'deposit' : 'full',
+    amount_cents: amountCents,
+    stripe_session_id: session.id,
+    stripe_payment_intent_id: paymentIntentId,
+  })
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId)
+  const fromStudio = !!paymentIntent.transfer_data?.destination
+  const reason = 'Booking was no longer held when payment arrived'
+
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: paymentIntentId,
+      reason: 'requested_by_customer',
+      ...(fromStudio ? { reverse_transfer: true, refund_application_fee: true } : {}),
+      metadata: { booking_id: bookingId, reason },
+    },
+    { idempotencyKey: `unbooked-refund-${session.id}` }
+  )
+
+  await recordBookingPayment(supabase, {
+    booking_id: bookingId,
+    kind: 'refund',
+    amount_cents: -amountCents,
+    stripe_payment_intent_id: paymentIntentId,
+    stripe_refund_id: refund.id,
+    description: reason,
+  })
+}
+
+interface StripePaymentReference {
+  stripe_session_id: string
+  stripe_payment_intent_id: string | null
+  stripe_customer_id: string | null
+}
+
+// Confirm the other sessions of a series paid through this checkout. Paying for the
+// series covers every session (each records its own share); paying per session
+// leaves the later ones to be charged to the saved card when their balance is due.
+// Returns true when the amounts paid were recorded here.
+async function confirmSeriesBookings(
+  supabase: SupabaseClient,
+  seriesId: string,
+  paidBookingId: string,
+  payment: StripePaymentReference,
+  isDeposit: boolean
+): Promise<boolean> {
+  const { data: series } = await supabase
+    .from('booking_series')
+    .select('payment_mode, services(deposit_percentage)')
+    .eq('id', seriesId)
+    .single()
+
+  const { data: sessions, error } = await supabase
+    .from('bookings')
+    .select('id, total_price_cents')
+    .eq('series_id', seriesId)
+    // The paid session may already be confirmed by verify-session
+    .or(`status.eq.pending_payment,id.eq.${paidBookingId}`)
+
+  if (error) throw error
+
+  const paidUpFront = series?.payment_mode === 'series'
+  const depositPercentage = (series?.services as { deposit_percentage?: number } | null)?.deposit_percentage || 0
+
+  for (const booking of sessions || []) {
+    const share = isDeposit
+      ? Math.round(booking.total_price_cents * (depositPercentage / 100))
+      : booking.total_price_cents
+
+    if (paidUpFront) {
+      await recordBookingPayment(supabase, {
+        booking_id: booking.id,
+        kind: 'charge',
+        payment_type: isDeposit ? 'deposit' : 'full',
+        amount_cents: share,
+        stripe_session_id: payment.stripe_session_id,
+        stripe_payment_intent_id: payment.stripe_payment_intent_id || undefined,
+        description: 'Share of series payment',
+      })
+    }
+
+    const { error: updateError } = await supabase
+      .from('bookings')
+      .update({
+        status: 'confirmed',
+        ...(paidUpFront
+          ? payment
+          : { stripe_customer_id: payment.stripe_customer_id, stripe_payment_intent_id: payment.stripe_payment_intent_id }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', booking.id)
+
+    if (updateError) throw updateError
+  }
+
+  return paidUpFront
+}
+
+async function handlePaymentIntentSucceeded(supabase: SupabaseClient, paymentIntent: Stripe.PaymentIntent) {
+  console.log('Payment Intent succeeded:', paymentIntent.id)
+
+  // Balance charged to the saved card (lib/balance-payments.ts)
+  const balanceBookingId = getMetadataId(paymentIntent.metadata, 'booking_id')
+  if (paymentIntent.metadata?.payment_type === 'balance' && balanceBookingId) {
+    await recordBalancePayment(
+      supabase,
+      balanceBookingId,
+      paymentIntent.amount_received,
+      paymentIntent.id
+    )
+    return
+  }
+
+  // Find booking by payment intent ID
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('stripe_payment_intent_id', paymentIntent.id)
+    .single()
+
+  if (error || !booking) {
+    console.log('No booking found for payment intent:', paymentIntent.id)
+    return
+  }
+
+  // Checkout payments are recorded by checkout.session.completed, amounts included
+  if (booking.status !== 'pending_payment') return
+
+  await recordBookingPayment(supabase, {
+    booking_id: booking.id,
+    kind: 'charge',
+    payment_type: 'full',
+    amount_cents: paymentIntent.amount_received,
+    stripe_payment_intent_id: paymentIntent.id,
+  })
+
+  // Update booking status
+  await supabase
+    .from('bookings')
+    .update({
+      status: 'confirmed',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', booking.id)
+
+  console.log(`Booking ${booking.id} payment confirmed via payment intent`)
+}
+
+async function handlePaymentIntentFailed(supabase: SupabaseClient, paymentIntent: Stripe.PaymentIntent) {
+  console.log('Payment Intent failed:', paymentIntent.id)
+
+  // A declined balance charge keeps the booking; the client gets a payment link instead
+  if (paymentIntent.metadata?.payment_type === 'balance') {
+    console.log(`Balance charge failed for booking ${paymentIntent.metadata.booking_id}`)
+    return
+  }
+
+  // Find booking by payment intent ID
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('*, services(*), studios(*)')
+    .eq('stripe_payment_intent_id', paymentIntent.id)
+    .single()
+
+  if (error || !booking) {
+    console.log('No booking found for failed payment intent:', paymentIntent.id)
+    return
+  }
+
+  // Update payment status to failed
+  await supabase
+    .from('bookings')
+    .update({
+      payment_status: 'failed',
+      status: 'cancelled',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', booking.id)
+
+  console.log(`Booking ${booking.id} payment failed - booking cancelled`)
+
+  // Let the client know why their booking went away
+  if (booking.services && booking.studios) {
+    const sent = await emailService.sendBookingCancellation(
+      {
+        booking,
+        service: booking.services,
+        studio: booking.studios,
+        clientName: booking.client_name,
+        clientEmail: booking.client_email,
+      },
+      'Your payment did not go through'
+    )
+    if (!sent) {
+      console.error('Failed to send payment failed email')
+    }
+  }
+}
+
+// The bookings paid for by a disputed payment, each with its share of the disputed
+// amount. Usually one; a series paid up front splits one payment across several.
+async function getDisputedBookings(
+  supabase: SupabaseClient,
+  dispute: Stripe.Dispute
+): Promise<{ bookingId: string; cents: number }[]> {
+  const paymentIntentId = typeof dispute.payment_intent === 'string'
+    ? dispute.payment_intent
+    : dispute.payment_intent?.id
+  if (!paymentIntentId) return []
+
+  const { data: payments, error } = await supabase
+    .from('booking_payments')
+    .select('booking_id, amount_cents')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .in('kind', ['charge', 'refund'])
+    .order('created_at')
+
+  if (error) throw error
+
+  const paid = new Map<string, number>()
+  for (const payment of payments || []) {
+    paid.set(payment.booking_id, (paid.get(payment.booking_id) || 0) + payment.amount_cents)
+  }
+
+  let remaining = dispute.amount
+  const shares = [...paid.entries()].map(([bookingId, cents]) => {
+    const share = Math.min(Math.max(cents, 0), remaining)
+    remaining -= share
+    return { bookingId, cents: share }
+  })
+  if (shares.length > 0) shares[0].cents += remaining
+
+  return shares
+}
+
+// Dispute events carry no booking metadata; tie the event to the booking so it
+// shows (and can be replayed) on the booking's admin screen
+async function linkEventToBooking(supabase: SupabaseClient, event: Stripe.Event, bookingId: string) {
+  const { data: booking } = await supabase
+    .from('bookings')
+    .select('studio_id')
+    .eq('id', bookingId)
+    .single()
+
+  await supabase
+    .from('stripe_events')
+    .update({ booking_id: bookingId, studio_id: booking?.studio_id || null })
+    .eq('id', event.id)
+    .is('booking_id', null)
+}
+
+async function handleDisputeChanged(supabase: SupabaseClient, dispute: Stripe.Dispute, event: Stripe.Event) {
+  const bookings = await getDisputedBookings(supabase, dispute)
+
+  if (bookings.length === 0) {
+    console.log('No booking found for dispute:', dispute.id)
+    return
+  }
+
+  await linkEventToBooking(supabase, event, bookings[0].bookingId)
+
+  const disputes: BookingDispute[] = []
+
+  for (const { bookingId, cents } of bookings) {
+    const { data: saved, error } = await supabase
+      .from('booking_disputes')
+      .upsert(
+        {
+          booking_id: bookingId,
+          stripe_dispute_id: dispute.id,
+          stripe_payment_intent_id: typeof dispute.payment_intent === 'string'
+            ? dispute.payment_intent
+            : dispute.payment_intent?.id,
+          amount_cents: cents,
+          currency: dispute.currency,
+          reason: dispute.reason,
+          status: dispute.status,
+          evidence_due_by: dispute.evidence_details?.due_by
+            ? new Date(dispute.evidence_details.due_by * 1000).toISOString()
+            : null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'stripe_dispute_id,booking_id' }
+      )
+      .select()
+      .single()
+
+    if (error) throw error
+    disputes.push(saved)
+
+    const { error: bookingError } = await supabase
+      .from('bookings')
+      .update({ dispute_status: dispute.status, updated_at: new Date().toISOString() })
+      .eq('id', bookingId)
+
+    if (bookingError) throw bookingError
+  }
+
+  // The owner hears when a dispute is opened and when it's decided, once per dispute
+  if (event.type !== 'charge.dispute.updated') {
+    await sendDisputeEmail(supabase, { ...disputes[0], amount_cents: dispute.amount })
+  }
+}
+
+async function handleDisputeFunds(supabase: SupabaseClient, dispute: Stripe.Dispute, event: Stripe.Event) {
+  const withdrawn = event.type === 'charge.dispute.funds_withdrawn'
+  const bookings = await getDisputedBookings(supabase, dispute)
+
+  if (bookings.length === 0) {
+    console.log('No booking found for dispute:', dispute.id)
+    return
+  }
+
+  await linkEventToBooking(supabase, event, bookings[0].bookingId)
+
+  for (const { bookingId, cents } of bookings) {
+    await recordBookingPayment(supabase, {
+      booking_id: bookingId,
+      kind: 'dispute',
+      amount_cents: withdrawn ? -cents : cents,
+      stripe_payment_intent_id: typeof dispute.payment_intent === 'string'
+        ? dispute.payment_intent
+        : dispute.payment_intent?.id,
+      stripe_dispute_id: dispute.id,
+      description: withdrawn ? 'Withdrawn for dispute' : 'Returned after dispute',
+      // Withdrawn and returned are two entries for the same dispute
+      ...(withdrawn ? {} : { idempotency_key: `dispute:${dispute.id}:reinstated:${bookingId}` }),
+    })
+  }
+}
+
+async function sendDisputeEmail(supabase: SupabaseClient, dispute: BookingDispute) {
+  try {
+    const { data: booking, error } = await supabase
+      .from('bookings')
+      .select('*, services(*), studios(*)')
+      .eq('id', dispute.booking_id)
+      .single()
+
+    if (error || !booking?.services || !booking.studios) {
+      console.error('Error fetching booking for dispute email:', error)
+      return
+    }
+
+    const sent = await emailService.sendDisputeNotice(
+      {
+        booking,
+        service: booking.services,
+        studio: booking.studios,
+        clientName: booking.client_name,
+        clientEmail: booking.client_email,
+      },
+      dispute
+    )
+    if (!sent) {
+      console.error('Failed to send dispute notice email')
+    }
+  } catch (error: any) {
+    console.error('Error sending dispute email:', error)
+  }
+}
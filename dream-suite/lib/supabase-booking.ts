@@ -1,5 +1,96 @@
 import { supabase } from './supabase'
-import { Studio, Service, Booking, StudioAvailability, StudioBlockedTime } from '../types/booking'
+import {
+  Studio,
+  Service,
+  Booking,
+  BookingErrorCode,
+  BookingDispute,
+  BookingPayment,
+  BookingSeries,
+  CustomEmailType,
+  EmailTemplateForm,
+  JoinWaitlistForm,
+  Notification,
+  PackageBalance,
+  PromoCode,
+  Resource,
+  ServicePackage,
+  SeriesEditScope,
+  SeriesOccurrencePreview,
+  StripeEventRecord,
+  StudioAvailability,
+  StudioBlockedTime,
+  StudioEmailTemplate,
+} from '../types/booking'
+import {
+  TimeRange,
+  buildAvailabilityWindows,
+  expandBlockedTime,
+  getAdvanceBookingViolation,
+  getAdvanceBookingWindow,
+  getDayOfWeek,
+  isWithinAvailability,
+  mergeTimeRanges,
+  padTimeRange,
+  rangesOverlap,
+  validateAvailabilityWindows,
+} from '../utils/availability'
+import { getStudioCurrency } from '../utils/charges'
+import { RecurrenceRule, expandRecurrence, formatRecurrenceRule } from '../utils/recurrence'
+import { getStudioTimeZone } from '../utils/timezone'
+
+const API_URL = typeof window !== 'undefined' 
+  ? window.location.origin 
+  : (process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000')
+
+const DEFAULT_SLOT_INTERVAL_MINUTES = 30
+
+// A booking the studio's rules don't allow; the message is written for the client
+export class BookingError extends Error {
+  code: BookingErrorCode
+
+  constructor(code: BookingErrorCode, message: string) {
+    super(message)
+    this.name = 'BookingError'
+    this.code = code
+  }
+}
+
+// Hints raised by the database triggers in advance-booking-setup.sql
+const bookingErrorHints: Record<string, BookingErrorCode> = {
+  advance_booking_too_soon: 'too_soon',
+  advance_booking_too_far: 'too_far_ahead',
+}
+
+const SLOT_TAKEN_MESSAGE = 'Sorry, that time was just booked by someone else. Please choose another time.'
+
+// Why a session can't go at a time: the studio isn't open then (outside its hours,
+// or blocked off), or the time or a resource it needs is already booked
+export type TimeSlotProblem = 'closed' | 'booked'
+
+export const TIME_SLOT_PROBLEM_MESSAGES: Record<TimeSlotProblem, string> = {
+  closed: 'The studio is closed at this time',
+  booked: 'Already booked',
+}
+
+// Cancelled and no-show bookings don't hold their time slot
+const inactiveBookingStatuses: Booking['status'][] = ['cancelled', 'no_show']
+
+// An unpaid booking whose checkout hold ran out no longer reserves its slot
+const isHoldExpired = (booking: Booking) => {
+  return booking.status === 'pending_payment' &&
+    !!booking.hold_expires_at &&
+    new Date(booking.hold_expires_at).getTime() <= Date.now()
+}
+
+// Turn rule violations raised by the database into BookingErrors, leaving other errors as they are
+const toBookingError = (error: { code?: string; hint?: string; message: string }) => {
+  // 23P01 is exclusion_violation: another booking took the slot (booking-conflicts-setup.sql)
+  if (error.code === '23P01') return new BookingError('slot_unavailable', SLOT_TAKEN_MESSAGE)
+
+  const code = error.hint ? bookingErrorHints[error.hint] : undefined
+  return code ? new BookingError(code, error.message) : error
+}
 
 export class BookingService {
   // Studio Management
@@ -63,7 +154,7 @@ export class BookingService {
   async getStudioServices(studioId: string, activeOnly = true): Promise<Service[]> {
     let query = supabase
       .from('services')
-      .select('*')
+      .select('*, resources(*)')
       .eq('studio_id', studioId)
       .order('name')
 
@@ -98,19 +189,267 @@ export class BookingService {
     if (error) throw error
   }
 
+  // Resource Management (rooms, engineers, gear packages)
+  async createResource(studioId: string, resource: Partial<Resource>): Promise<Resource> {
+    const { data, error } = await supabase
+      .from('resources')
+      .insert({ ...resource, studio_id: studioId })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async getStudioResources(studioId: string, activeOnly = true): Promise<Resource[]> {
+    let query = supabase
+      .from('resources')
+      .select('*')
+      .eq('studio_id', studioId)
+      .order('type')
+      .order('name')
+
+    if (activeOnly) {
+      query = query.eq('active', true)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+    return data || []
+  }
+
+  async updateResource(resourceId: string, updates: Partial<Resource>): Promise<Resource> {
+    const { data, error } = await supabase
+      .from('resources')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', resourceId)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async deleteResource(resourceId: string): Promise<void> {
+    const { error } = await supabase
+      .from('resources')
+      .delete()
+      .eq('id', resourceId)
+
+    if (error) throw error
+  }
+
+  // Replace the set of resources a service can be booked with
+  async setServiceResources(serviceId: string, resourceIds: string[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('service_resources')
+      .delete()
+      .eq('service_id', serviceId)
+
+    if (deleteError) throw deleteError
+    if (resourceIds.length === 0) return
+
+    const { error } = await supabase
+      .from('service_resources')
+      .insert(resourceIds.map(resourceId => ({ service_id: serviceId, resource_id: resourceId })))
+
+    if (error) throw error
+  }
+
+  // Promo codes (checked and applied at checkout by lib/promo-codes.ts)
+  async getStudioPromoCodes(studioId: string): Promise<PromoCode[]> {
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .select('*')
+      .eq('studio_id', studioId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  async createPromoCode(studioId: string, promoCode: Partial<PromoCode>): Promise<PromoCode> {
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .insert({ ...promoCode, studio_id: studioId })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async updatePromoCode(promoCodeId: string, updates: Partial<PromoCode>): Promise<PromoCode> {
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', promoCodeId)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  // How many times each of a studio's codes has been used (a series counts once)
+  async getPromoCodeUsage(studioId: string): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('id, series_id, promo_code_id')
+      .eq('studio_id', studioId)
+      .not('promo_code_id', 'is', null)
+      .neq('status', 'cancelled')
+
+    if (error) throw error
+
+    const redemptions: Record<string, Set<string>> = {}
+    for (const booking of (data || []) as Pick<Booking, 'id' | 'series_id' | 'promo_code_id'>[]) {
+      if (!booking.promo_code_id) continue
+      redemptions[booking.promo_code_id] = redemptions[booking.promo_code_id] || new Set()
+      redemptions[booking.promo_code_id].add(booking.series_id || booking.id)
+    }
+
+    return Object.fromEntries(Object.entries(redemptions).map(([id, uses]) => [id, uses.size]))
+  }
+
+  // Packages (bought and redeemed through the server, see lib/package-credits.ts)
+  async getStudioPackages(studioId: string, activeOnly = false): Promise<ServicePackage[]> {
+    let query = supabase
+      .from('service_packages')
+      .select('*')
+      .eq('studio_id', studioId)
+
+    if (activeOnly) {
+      query = query.eq('active', true)
+    }
+
+    const { data, error } = await query.order('price_cents')
+
+    if (error) throw error
+    return data || []
+  }
+
+  async createPackage(studioId: string, pkg: Partial<ServicePackage>): Promise<ServicePackage> {
+    const { data, error } = await supabase
+      .from('service_packages')
+      .insert({ ...pkg, studio_id: studioId })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async updatePackage(packageId: string, updates: Partial<ServicePackage>): Promise<ServicePackage> {
+    const { data, error } = await supabase
+      .from('service_packages')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', packageId)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  // Every paid purchase with what each client has left, newest first
+  async getStudioPackageBalances(studioId: string): Promise<PackageBalance[]> {
+    const { data, error } = await supabase
+      .from('package_balances')
+      .select('*')
+      .eq('studio_id', studioId)
+      .eq('status', 'active')
+      .order('purchased_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Email templates (used in place of the built-in client emails, see app/api/email/send+api.ts)
+  async getEmailTemplates(studioId: string): Promise<StudioEmailTemplate[]> {
+    const { data, error } = await supabase
+      .from('email_templates')
+      .select('*')
+      .eq('studio_id', studioId)
+
+    if (error) throw error
+    return data || []
+  }
+
+  async saveEmailTemplate(
+    studioId: string,
+    type: CustomEmailType,
+    template: EmailTemplateForm
+  ): Promise<StudioEmailTemplate> {
+    const { data, error } = await supabase
+      .from('email_templates')
+      .upsert(
+        {
+          studio_id: studioId,
+          type,
+          subject: template.subject,
+          html_body: template.html_body,
+          text_body: template.text_body || null,
+          enabled: template.enabled,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'studio_id,type' }
+      )
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  // Back to the built-in email
+  async deleteEmailTemplate(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('email_templates')
+      .delete()
+      .eq('id', templateId)
+
+    if (error) throw error
+  }
+
   // Booking Management
   async createBooking(bookingData: Partial<Booking>): Promise<Booking> {
+    // Check the service's advance booking rules up front; the database enforces them again on insert
+    if (bookingData.service_id && bookingData.start_time) {
+      const service = await this.getService(bookingData.service_id)
+      if (!service) throw new Error('Service not found')
+
+      const violation = getAdvanceBookingViolation(service, new Date(bookingData.start_time))
+      if (violation) throw new BookingError(violation.code, violation.message)
+
+      // Friendly early answer and resource assignment; the exclusion constraints
+      // still settle two clients racing for the same slot or resource
+      if (bookingData.studio_id && bookingData.end_time) {
+        const resources = await this.assignResources(
+          bookingData.studio_id,
+          bookingData.service_id,
+          bookingData.start_time,
+          bookingData.end_time
+        )
+
+        if (!resources) throw new BookingError('slot_unavailable', SLOT_TAKEN_MESSAGE)
+        bookingData = { ...bookingData, resource_ids: resources.map(resource => resource.id) }
+      }
+    }
+
     const { data, error } = await supabase
       .from('bookings')
       .insert(bookingData)
       .select(`
         *,
         studio:studios(*),
-        service:services(*)
+        service:services(*),
+        resources(*)
       `)
       .single()
 
-    if (error) throw error
+    if (error) throw toBookingError(error)
     return data
   }
 
@@ -120,7 +459,8 @@ export class BookingService {
       .select(`
         *,
         studio:studios(*),
-        service:services(*)
+        service:services(*),
+        resources(*)
       `)
       .eq('id', bookingId)
       .single()
@@ -140,7 +480,8 @@ export class BookingService {
       .select(`
         *,
         studio:studios(*),
-        service:services(*)
+        service:services(*),
+        resources(*)
       `)
       .eq('studio_id', studioId)
       .order('start_time')
@@ -171,11 +512,12 @@ export class BookingService {
       .select(`
         *,
         studio:studios(*),
-        service:services(*)
+        service:services(*),
+        resources(*)
       `)
       .single()
 
-    if (error) throw error
+    if (error) throw toBookingError(error)
     return data
   }
 
@@ -185,7 +527,250 @@ export class BookingService {
       internal_notes: reason || 'Cancelled by studio'
     }
 
-    return this.updateBooking(bookingId, updates)
+    const booking = await this.updateBooking(bookingId, updates)
+    await this.offerSlotToWaitlist(bookingId)
+    return booking
+  }
+
+  // Payment ledger (written by the server, see lib/payment-ledger.ts)
+  async getBookingPayments(bookingId: string): Promise<BookingPayment[]> {
+    const { data, error } = await supabase
+      .from('booking_payments')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at')
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Stripe webhook events about a booking, newest first (see lib/stripe-webhooks.ts)
+  async getBookingStripeEvents(bookingId: string): Promise<StripeEventRecord[]> {
+    const { data, error } = await supabase
+      .from('stripe_events')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Disputes on a booking's payments (see charge.dispute.* in lib/stripe-webhooks.ts)
+  async getBookingDisputes(bookingId: string): Promise<BookingDispute[]> {
+    const { data, error } = await supabase
+      .from('booking_disputes')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Every email sent about a booking, newest first (see lib/notifications.ts)
+  async getBookingNotifications(bookingId: string): Promise<Notification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Waitlist
+  async joinWaitlist(studioId: string, entry: JoinWaitlistForm): Promise<void> {
+    // No select: clients can't read entries back unless signed in with the same email
+    const { error } = await supabase
+      .from('waitlist_entries')
+      .insert({ ...entry, studio_id: studioId })
+
+    if (error) throw error
+  }
+
+  // Ask the server to offer a cancelled booking's slot to the next waitlister
+  // (see lib/waitlist-offers.ts). Not fatal: the slot is simply left open.
+  async offerSlotToWaitlist(bookingId: string): Promise<void> {
+    try {
+      const response = await fetch(`${API_URL}/api/waitlist/offer`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ bookingId }),
+      })
+
+      if (!response.ok) {
+        console.error('Failed to offer slot to waitlist:', await response.text())
+      }
+    } catch (error: any) {
+      console.error('Error offering slot to waitlist:', error)
+    }
+  }
+
+  // Recurring Series
+  /**
+   * Check every session of a proposed series so the client can see which dates
+   * clash before booking. The max advance rule only applies to the first
+   * session; the rest of the series may run past it.
+   */
+  async previewBookingSeries(
+    studioId: string,
+    serviceId: string,
+    firstStartTime: string,
+    rule: RecurrenceRule
+  ): Promise<SeriesOccurrencePreview[]> {
+    const service = await this.getService(serviceId)
+    if (!service) throw new Error('Service not found')
+
+    const studio = await this.getStudio(studioId)
+    const occurrences = expandRecurrence(
+      firstStartTime,
+      service.duration_minutes,
+      rule,
+      getStudioTimeZone(studio)
+    )
+
+    const previews: SeriesOccurrencePreview[] = []
+    for (const [index, occurrence] of occurrences.entries()) {
+      const start_time = occurrence.start.toISOString()
+      const end_time = occurrence.end.toISOString()
+
+      const violation = getAdvanceBookingViolation(service, occurrence.start)
+      if (violation && (index === 0 || violation.code === 'too_soon')) {
+        previews.push({ start_time, end_time, available: false, reason: violation.message })
+        continue
+      }
+
+      const checked = await this.checkTimeSlot(studioId, serviceId, start_time, end_time)
+      previews.push('resources' in checked
+        ? { start_time, end_time, available: true }
+        : { start_time, end_time, available: false, reason: TIME_SLOT_PROBLEM_MESSAGES[checked.problem] })
+    }
+
+    return previews
+  }
+
+  /**
+   * Book the given sessions as one series. `bookingData` holds the fields every
+   * session shares (client details, price, status). Preview first: if any
+   * session has been taken since, nothing is booked.
+   */
+  async createBookingSeries(
+    seriesData: Partial<BookingSeries> & { rule: RecurrenceRule },
+    bookingData: Partial<Booking>,
+    occurrences: Array<Pick<Booking, 'start_time' | 'end_time'>>
+  ): Promise<{ series: BookingSeries; bookings: Booking[] }> {
+    if (!bookingData.studio_id || !bookingData.service_id) throw new Error('Studio and service are required')
+    if (occurrences.length === 0) throw new Error('A series needs at least one session')
+
+    const sessions: Partial<Booking>[] = []
+    for (const occurrence of occurrences) {
+      const checked = await this.checkTimeSlot(
+        bookingData.studio_id,
+        bookingData.service_id,
+        occurrence.start_time,
+        occurrence.end_time
+      )
+
+      if ('problem' in checked) {
+        throw new BookingError(
+          'slot_unavailable',
+          checked.problem === 'closed' ? `${TIME_SLOT_PROBLEM_MESSAGES.closed}. Please choose another time.` : SLOT_TAKEN_MESSAGE
+        )
+      }
+      sessions.push({
+        ...bookingData,
+        ...occurrence,
+        resource_ids: checked.resources.map(resource => resource.id),
+      })
+    }
+
+    // The series and every session in one transaction (booking-series-setup.sql),
+    // so it's booked in full or not at all
+    const { rule, ...seriesFields } = seriesData
+    const { data: series, error } = await supabase
+      .rpc('create_booking_series', {
+        p_series: {
+          ...seriesFields,
+          studio_id: bookingData.studio_id,
+          service_id: bookingData.service_id,
+          client_name: bookingData.client_name,
+          client_email: bookingData.client_email,
+          recurrence_rule: formatRecurrenceRule(rule),
+        },
+        p_sessions: sessions,
+      })
+      .single<BookingSeries>()
+
+    if (error) throw toBookingError(error)
+    return { series, bookings: await this.getSeriesBookings(series.id) }
+  }
+
+  async getBookingSeries(seriesId: string): Promise<BookingSeries | null> {
+    const { data, error } = await supabase
+      .from('booking_series')
+      .select('*')
+      .eq('id', seriesId)
+      .single()
+
+    if (error) return null
+    return data
+  }
+
+  async getSeriesBookings(seriesId: string): Promise<Booking[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        *,
+        studio:studios(*),
+        service:services(*),
+        resources(*)
+      `)
+      .eq('series_id', seriesId)
+      .order('start_time')
+
+    if (error) throw error
+    return data || []
+  }
+
+  async updateBookingSeries(seriesId: string, updates: Partial<BookingSeries>): Promise<BookingSeries> {
+    const { data, error } = await supabase
+      .from('booking_series')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', seriesId)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  /**
+   * Move bookings to new times and resources together: all of them move, or if
+   * any would overlap another booking (even one moving with it), none do.
+   */
+  async rescheduleBookings(
+    moves: Array<Pick<Booking, 'id' | 'start_time' | 'end_time'> & { resource_ids: string[] }>
+  ): Promise<Booking[]> {
+    const { data, error } = await supabase
+      .rpc('reschedule_bookings', { p_moves: moves })
+
+    if (error) throw toBookingError(error)
+    return (data || []) as Booking[]
+  }
+
+  // The sessions an edit to `booking` affects: just it, it and later sessions, or the whole series
+  async getSeriesScopeBookings(booking: Booking, scope: SeriesEditScope): Promise<Booking[]> {
+    if (scope === 'this' || !booking.series_id) return [booking]
+
+    const seriesBookings = await this.getSeriesBookings(booking.series_id)
+    return seriesBookings.filter(session => {
+      if (inactiveBookingStatuses.includes(session.status)) return false
+      return scope === 'all' || session.start_time >= booking.start_time
+    })
   }
 
   // Availability Management
@@ -196,6 +781,7 @@ export class BookingService {
       .eq('studio_id', studioId)
       .eq('active', true)
       .order('day_of_week')
+      .order('start_time')
 
     if (error) throw error
     return data || []
@@ -205,6 +791,11 @@ export class BookingService {
     studioId: string, 
     availability: Omit<StudioAvailability, 'id' | 'studio_id'>[]
   ): Promise<void> {
+    const problems = validateAvailabilityWindows(availability.filter(avail => avail.active))
+    if (problems.length > 0) {
+      throw new Error(problems.join('\n'))
+    }
+
     // Delete existing availability
     await supabase
       .from('studio_availability')
@@ -226,7 +817,107 @@ export class BookingService {
     }
   }
 
+  // Blocked Time Management
+  async createBlockedTime(
+    studioId: string,
+    blockedTime: Omit<StudioBlockedTime, 'id' | 'studio_id' | 'created_at'>
+  ): Promise<StudioBlockedTime> {
+    this.validateBlockedTime(blockedTime)
+
+    const { data, error } = await supabase
+      .from('studio_blocked_times')
+      .insert({ ...blockedTime, studio_id: studioId })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async getStudioBlockedTimes(studioId: string): Promise<StudioBlockedTime[]> {
+    const { data, error } = await supabase
+      .from('studio_blocked_times')
+      .select('*')
+      .eq('studio_id', studioId)
+      .order('start_time')
+
+    if (error) throw error
+    return data || []
+  }
+
+  async updateBlockedTime(
+    blockedTimeId: string,
+    updates: Partial<Omit<StudioBlockedTime, 'id' | 'studio_id' | 'created_at'>>
+  ): Promise<StudioBlockedTime> {
+    const { data: existing, error: fetchError } = await supabase
+      .from('studio_blocked_times')
+      .select('*')
+      .eq('id', blockedTimeId)
+      .single<StudioBlockedTime>()
+
+    if (fetchError) throw fetchError
+    this.validateBlockedTime({ ...existing, ...updates })
+
+    const { data, error } = await supabase
+      .from('studio_blocked_times')
+      .update(updates)
+      .eq('id', blockedTimeId)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async deleteBlockedTime(blockedTimeId: string): Promise<void> {
+    const { error } = await supabase
+      .from('studio_blocked_times')
+      .delete()
+      .eq('id', blockedTimeId)
+
+    if (error) throw error
+  }
+
+  /**
+   * Concrete blocked ranges overlapping [startTime, endTime), with recurring
+   * blocks expanded into their individual occurrences.
+   */
+  async getBlockedRanges(
+    studioId: string,
+    startTime: string,
+    endTime: string,
+    timeZone: string
+  ): Promise<TimeRange[]> {
+    const { data, error } = await supabase
+      .from('studio_blocked_times')
+      .select('*')
+      .eq('studio_id', studioId)
+      .lt('start_time', endTime)
+
+    if (error) throw error
+
+    const rangeStart = new Date(startTime)
+    const rangeEnd = new Date(endTime)
+
+    return mergeTimeRanges(
+      (data || []).flatMap(block => expandBlockedTime(block, rangeStart, rangeEnd, timeZone))
+    )
+  }
+
+  private validateBlockedTime(
+    blockedTime: Pick<StudioBlockedTime, 'start_time' | 'end_time' | 'recurring' | 'recurrence_pattern'>
+  ): void {
+    if (new Date(blockedTime.end_time) <= new Date(blockedTime.start_time)) {
+      throw new Error('Blocked time must end after it starts')
+    }
+
+    if (blockedTime.recurring && !blockedTime.recurrence_pattern) {
+      throw new Error('Recurring blocked time needs a weekly or monthly pattern')
+    }
+  }
+
   // Time slot calculations
+  // `date` is a calendar date ("YYYY-MM-DD") in the studio's time zone; slots are UTC ISO strings
   async getAvailableTimeSlots(
     studioId: string, 
     serviceId: string, 
@@ -236,42 +927,67 @@ export class BookingService {
     const service = await this.getService(serviceId)
     if (!service) throw new Error('Service not found')
 
-    // Get studio availability for this day of week
-    const dayOfWeek = new Date(date).getDay()
-    const { data: availability } = await supabase
+    // Opening hours are wall clock times in the studio's own zone
+    const studio = await this.getStudio(studioId)
+    const timeZone = getStudioTimeZone(studio)
+
+    // Get every open window for this day of week (studios may split the day or run overnight)
+    const { data: availability, error } = await supabase
       .from('studio_availability')
       .select('*')
       .eq('studio_id', studioId)
-      .eq('day_of_week', dayOfWeek)
+      .eq('day_of_week', getDayOfWeek(date))
       .eq('active', true)
-      .single()
+      .order('start_time')
+
+    if (error) throw error
 
-    if (!availability) return []
+    const windows = buildAvailabilityWindows(availability || [], date, timeZone)
+    if (windows.length === 0) return []
 
-    // Get existing bookings for this date
-    const startOfDay = `${date}T00:00:00.000Z`
-    const endOfDay = `${date}T23:59:59.999Z`
+    // Get existing bookings that could overlap any window, including sessions
+    // that started the day before and overnight windows that end tomorrow.
+    // Bookings starting up to a day after the last window are included so
+    // their prep time is respected too.
+    const dayMs = 24 * 60 * 60 * 1000
+    const rangeStart = new Date(windows[0].start.getTime() - dayMs)
+    const rangeEnd = windows[windows.length - 1].end
     
     const existingBookings = await this.getStudioBookings(
       studioId, 
-      startOfDay, 
-      endOfDay
+      rangeStart.toISOString(), 
+      new Date(rangeEnd.getTime() + dayMs).toISOString()
+    )
+
+    // Maintenance days, holidays and other blocked time (recurring blocks expanded)
+    const blockedRanges = await this.getBlockedRanges(
+      studioId,
+      windows[0].start.toISOString(),
+      rangeEnd.toISOString(),
+      timeZone
     )
 
     // Calculate available slots
-    return this.calculateAvailableSlots(
-      availability.start_time,
-      availability.end_time,
-      service.duration_minutes,
+    const slots = this.calculateAvailableSlots(
+      windows,
+      service,
+      studio?.slot_interval_minutes || DEFAULT_SLOT_INTERVAL_MINUTES,
       existingBookings,
-      date
+      blockedRanges
     )
+
+    // Only offer times the service's advance booking rules allow
+    const { earliest, latest } = getAdvanceBookingWindow(service)
+    return slots.filter(slot => {
+      const start = new Date(slot).getTime()
+      return start >= earliest.getTime() && (!latest || start <= latest.getTime())
+    })
   }
 
-  private async getService(serviceId: string): Promise<Service | null> {
+  async getService(serviceId: string): Promise<Service | null> {
     const { data, error } = await supabase
       .from('services')
-      .select('*')
+      .select('*, resources(*)')
       .eq('id', serviceId)
       .single()
 
@@ -279,50 +995,169 @@ export class BookingService {
     return data
   }
 
+  /**
+   * Whether a session of the given service fits in the studio's opening hours,
+   * between its other bookings (with both sides' prep and teardown buffers) and
+   * clear of blocked time. Pass the booking being moved as excludeBookingIds
+   * when rescheduling.
+   */
+  async isTimeSlotAvailable(
+    studioId: string,
+    serviceId: string,
+    startTime: string,
+    endTime: string,
+    excludeBookingIds?: string | string[]
+  ): Promise<boolean> {
+    const resources = await this.assignResources(studioId, serviceId, startTime, endTime, excludeBookingIds)
+    return resources !== null
+  }
+
+  /**
+   * Whether a session of the service can go at the given time: inside the
+   * studio's opening hours, clear of blocked time, and with one free resource of
+   * each type the service lists, keeping a rescheduled booking's current ones
+   * where it can (an empty list for services that don't use resources). When
+   * several bookings move together, exclude them all (the first is the one being
+   * placed) and pass the ones already placed as plannedBookings, at their new times.
+   */
+  async checkTimeSlot(
+    studioId: string,
+    serviceId: string,
+    startTime: string,
+    endTime: string,
+    excludeBookingIds: string | string[] = [],
+    plannedBookings: Booking[] = []
+  ): Promise<{ resources: Resource[] } | { problem: TimeSlotProblem }> {
+    const service = await this.getService(serviceId)
+    if (!service) throw new Error('Service not found')
+
+    const studio = await this.getStudio(studioId)
+    const timeZone = getStudioTimeZone(studio)
+
+    const dayMs = 24 * 60 * 60 * 1000
+    const slot = { start: new Date(startTime), end: new Date(endTime) }
+
+    const availability = await this.getStudioAvailability(studioId)
+    if (!isWithinAvailability(availability, slot, timeZone)) return { problem: 'closed' }
+
+    const blockedRanges = await this.getBlockedRanges(studioId, startTime, endTime, timeZone)
+    if (blockedRanges.length > 0) return { problem: 'closed' }
+
+    const existingBookings = await this.getStudioBookings(
+      studioId,
+      new Date(slot.start.getTime() - dayMs).toISOString(),
+      new Date(slot.end.getTime() + dayMs).toISOString()
+    )
+
+    const excludedIds = Array.isArray(excludeBookingIds) ? excludeBookingIds : [excludeBookingIds]
+    const currentBooking = existingBookings.find(booking => booking.id === excludedIds[0])
+    const otherBookings = [
+      ...existingBookings.filter(booking => !excludedIds.includes(booking.id)),
+      ...plannedBookings,
+    ]
+
+    const resources = this.pickResources(slot, service, otherBookings, currentBooking?.resource_ids)
+    return resources ? { resources } : { problem: 'booked' }
+  }
+
+  // The resources a session would use at the given time, or null when it can't go there
+  async assignResources(
+    studioId: string,
+    serviceId: string,
+    startTime: string,
+    endTime: string,
+    excludeBookingIds: string | string[] = [],
+    plannedBookings: Booking[] = []
+  ): Promise<Resource[] | null> {
+    const checked = await this.checkTimeSlot(studioId, serviceId, startTime, endTime, excludeBookingIds, plannedBookings)
+    return 'resources' in checked ? checked.resources : null
+  }
+
+  private pickResources(
+    slot: TimeRange,
+    service: Service,
+    bookings: Booking[],
+    preferredIds: string[] = []
+  ): Resource[] | null {
+    const candidates = service.resources || []
+
+    // Without resources the studio is a single room shared by every booking that has none
+    if (candidates.length === 0) {
+      const studioBookings = bookings.filter(booking => !booking.resource_ids?.length)
+      return this.conflictsWithBookings(slot, service, studioBookings) ? null : []
+    }
+
+    const picked: Resource[] = []
+    const types = Array.from(new Set(candidates.map(resource => resource.type)))
+
+    for (const type of types) {
+      const options = candidates
+        .filter(resource => resource.type === type && resource.active)
+        .sort((a, b) => Number(preferredIds.includes(b.id)) - Number(preferredIds.includes(a.id)))
+
+      const free = options.find(resource => !this.conflictsWithBookings(
+        slot,
+        service,
+        bookings.filter(booking => booking.resource_ids?.includes(resource.id))
+      ))
+
+      if (!free) return null
+      picked.push(free)
+    }
+
+    return picked
+  }
+
+  // True when the slot plus its buffers overlaps an active booking plus that booking's buffers
+  private conflictsWithBookings(slot: TimeRange, service: Service, bookings: Booking[]): boolean {
+    const paddedSlot = padTimeRange(slot, service.buffer_before || 0, service.buffer_after || 0)
+
+    return bookings.some(booking => {
+      if (inactiveBookingStatuses.includes(booking.status)) return false
+      if (isHoldExpired(booking)) return false
+
+      const paddedBooking = padTimeRange(
+        { start: new Date(booking.start_time), end: new Date(booking.end_time) },
+        booking.service?.buffer_before || 0,
+        booking.service?.buffer_after || 0
+      )
+
+      return rangesOverlap(paddedSlot, paddedBooking)
+    })
+  }
+
   private calculateAvailableSlots(
-    studioOpenTime: string,
-    studioCloseTime: string,
-    serviceDurationMinutes: number,
+    windows: TimeRange[],
+    service: Service,
+    slotIntervalMinutes: number,
     existingBookings: Booking[],
-    date: string
+    blockedRanges: TimeRange[]
   ): string[] {
     const slots: string[] = []
-    const slotDuration = serviceDurationMinutes
-    const buffer = 15 // 15 minute buffer between bookings
-
-    // Parse studio hours
-    const [openHour, openMinute] = studioOpenTime.split(':').map(Number)
-    const [closeHour, closeMinute] = studioCloseTime.split(':').map(Number)
-
-    // Create datetime objects for the specific date
-    const studioOpen = new Date(date)
-    studioOpen.setHours(openHour, openMinute, 0, 0)
-
-    const studioClose = new Date(date)
-    studioClose.setHours(closeHour, closeMinute, 0, 0)
-
-    // Generate potential slots
-    const current = new Date(studioOpen)
-    while (current.getTime() + (slotDuration * 60 * 1000) <= studioClose.getTime()) {
-      const slotStart = new Date(current)
-      const slotEnd = new Date(current.getTime() + (slotDuration * 60 * 1000))
-
-      // Check if this slot conflicts with existing bookings
-      const hasConflict = existingBookings.some(booking => {
-        if (booking.status === 'cancelled') return false
-        
-        const bookingStart = new Date(booking.start_time)
-        const bookingEnd = new Date(booking.end_time)
-
-        return (slotStart < bookingEnd && slotEnd > bookingStart)
-      })
+    const slotDuration = service.duration_minutes
 
-      if (!hasConflict) {
-        slots.push(slotStart.toISOString())
-      }
+    for (const window of windows) {
+      // Offer a start time every interval from the window opening; the session
+      // itself must fit inside the window, prep and teardown may run outside it
+      const current = new Date(window.start)
+      while (current.getTime() + (slotDuration * 60 * 1000) <= window.end.getTime()) {
+        const slot = {
+          start: new Date(current),
+          end: new Date(current.getTime() + (slotDuration * 60 * 1000)),
+        }
+
+        // Needs a free resource of each type, with buffers clear of other sessions
+        const hasConflict = this.pickResources(slot, service, existingBookings) === null
+
+        const isBlocked = blockedRanges.some(range => rangesOverlap(slot, range))
+
+        if (!hasConflict && !isBlocked) {
+          slots.push(slot.start.toISOString())
+        }
 
-      // Move to next potential slot (with buffer)
-      current.setMinutes(current.getMinutes() + slotDuration + buffer)
+        // Move to next potential start time
+        current.setMinutes(current.getMinutes() + slotIntervalMinutes)
+      }
     }
 
     return slots
@@ -348,12 +1183,25 @@ export class BookingService {
     }
 
     const { data: bookings, error } = await query
+      .returns<(Booking & { service: Pick<Service, 'name'> | null })[]>()
 
     if (error) throw error
 
-    // Calculate analytics
+    const { data: studio } = await supabase
+      .from('studios')
+      .select('country, currency')
+      .eq('id', studioId)
+      .single<Pick<Studio, 'country' | 'currency'>>()
+
+    // Calculate analytics. total_price_cents is what the client pays, after any promo code
+    // (nothing for sessions paid with package credits; the package was paid for when bought).
+    // Revenue leaves out the tax collected, which goes on to the tax authority.
+    const getRevenueCents = (booking: Booking) => booking.total_price_cents - (booking.tax_cents || 0)
+
     const totalBookings = bookings?.length || 0
-    const totalRevenue = bookings?.reduce((sum, booking) => sum + booking.total_price_cents, 0) || 0
+    const totalRevenue = bookings?.reduce((sum, booking) => sum + getRevenueCents(booking), 0) || 0
+    const taxCollected = bookings?.reduce((sum, booking) => sum + (booking.tax_cents || 0), 0) || 0
+    const feesCollected = bookings?.reduce((sum, booking) => sum + (booking.fee_cents || 0), 0) || 0
 
     // Get current month data
     const now = new Date()
@@ -363,7 +1211,7 @@ export class BookingService {
     ) || []
 
     const thisMonthRevenue = thisMonthBookings.reduce((sum, booking) => 
-      sum + booking.total_price_cents, 0
+      sum + getRevenueCents(booking), 0
     )
 
     // Service popularity
@@ -373,7 +1221,7 @@ export class BookingService {
         acc[serviceName] = { booking_count: 0, revenue_cents: 0 }
       }
       acc[serviceName].booking_count++
-      acc[serviceName].revenue_cents += booking.total_price_cents
+      acc[serviceName].revenue_cents += getRevenueCents(booking)
       return acc
     }, {} as Record<string, { booking_count: number; revenue_cents: number }>) || {}
 
@@ -395,6 +1243,9 @@ export class BookingService {
       total_revenue_cents: totalRevenue,
       bookings_this_month: thisMonthBookings.length,
       revenue_this_month_cents: thisMonthRevenue,
+      tax_collected_cents: taxCollected,
+      fees_collected_cents: feesCollected,
+      currency: getStudioCurrency(studio),
       popular_services: popularServices,
       booking_status_breakdown: statusBreakdown
     }
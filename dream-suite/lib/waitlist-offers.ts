@@ -0,0 +1,139 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { emailService } from './email-service'
+import { Booking, Service, Studio, WaitlistEntry } from '../types/booking'
+import { getStudioTimeZone, getZonedCalendarDate } from '../utils/timezone'
+
+// Server side only: needs a service role client, since offers create bookings and
+// read waitlist entries on behalf of other clients. Used by the API routes.
+
+// How long a waitlister has to claim a freed slot before it goes to the next in line
+export const WAITLIST_OFFER_HOURS = 2
+
+/**
+ * Offer the slot of a cancelled (or expired) booking to the first client waiting
+ * for that service on that day. The slot is held for them as a pending_payment
+ * booking whose hold runs out with the offer, so an unclaimed offer is released
+ * by the hold sweeper and passed on to the next waitlister the same way.
+ * Returns the entry that was offered the slot, or null if nobody was.
+ */
+export const offerFreedSlot = async (
+  supabase: SupabaseClient,
+  freedBookingId: string,
+  baseUrl: string
+): Promise<WaitlistEntry | null> => {
+  const { data: freed, error: freedError } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('id', freedBookingId)
+    .single()
+
+  if (freedError || !freed || freed.status !== 'cancelled') return null
+
+  // An unclaimed offer whose hold ran out goes back to nobody
+  await supabase
+    .from('waitlist_entries')
+    .update({ status: 'expired', claim_token: null, updated_at: new Date().toISOString() })
+    .eq('booking_id', freedBookingId)
+    .eq('status', 'offered')
+
+  const startTime = new Date(freed.start_time)
+  if (startTime.getTime() <= Date.now()) return null
+
+  const [{ data: studio }, { data: service }] = await Promise.all([
+    supabase.from('studios').select('*').eq('id', freed.studio_id).single(),
+    supabase.from('services').select('*').eq('id', freed.service_id).single(),
+  ])
+
+  if (!studio || !service) return null
+
+  const sessionDate = getZonedCalendarDate(startTime, getStudioTimeZone(studio))
+
+  const { data: entry } = await supabase
+    .from('waitlist_entries')
+    .select('*')
+    .eq('service_id', freed.service_id)
+    .eq('status', 'waiting')
+    .lte('earliest_date', sessionDate)
+    .gte('latest_date', sessionDate)
+    .neq('client_email', freed.client_email)
+    .order('created_at')
+    .limit(1)
+    .maybeSingle()
+
+  if (!entry) return null
+
+  // Hold the slot until the offer runs out (but never past the session's start)
+  const offerExpiresAt = new Date(Math.min(
+    Date.now() + WAITLIST_OFFER_HOURS * 60 * 60 * 1000,
+    startTime.getTime()
+  )).toISOString()
+
+  // The database rejects this if someone else already took the slot or it's now
+  // too close to the session to book; either way there's nothing to offer
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .insert({
+      studio_id: freed.studio_id,
+      service_id: freed.service_id,
+      client_name: entry.client_name,
+      client_email: entry.client_email,
+      client_phone: entry.client_phone,
+      start_time: freed.start_time,
+      end_time: freed.end_time,
+      resource_ids: freed.resource_ids || [],
+      total_price_cents: service.price_cents,
+      status: 'pending_payment',
+      hold_expires_at: offerExpiresAt,
+    })
+    .select()
+    .single()
+
+  if (bookingError || !booking) {
+    console.error(`Freed slot of booking ${freedBookingId} can't be offered:`, bookingError?.message)
+    return null
+  }
+
+  const claimToken = crypto.randomUUID()
+
+  const { data: offered, error: offerError } = await supabase
+    .from('waitlist_entries')
+    .update({
+      status: 'offered',
+      booking_id: booking.id,
+      claim_token: claimToken,
+      offer_expires_at: offerExpiresAt,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', entry.id)
+    .eq('status', 'waiting')
+    .select()
+    .single()
+
+  if (offerError || !offered) {
+    // The entry changed underneath us (e.g. the client left the waitlist); free the slot again
+    await supabase
+      .from('bookings')
+      .update({ status: 'cancelled', payment_status: 'expired', updated_at: new Date().toISOString() })
+      .eq('id', booking.id)
+    return null
+  }
+
+  const claimUrl = `${baseUrl}/api/waitlist/claim?token=${claimToken}`
+  const emailSent = await emailService.sendWaitlistOffer(
+    {
+      booking: booking as Booking,
+      service: service as Service,
+      studio: studio as Studio,
+      clientName: entry.client_name,
+      clientEmail: entry.client_email,
+    },
+    claimUrl,
+    offerExpiresAt
+  )
+
+  if (!emailSent) {
+    console.error(`Failed to email waitlist offer for entry ${entry.id}`)
+  }
+
+  return offered
+}
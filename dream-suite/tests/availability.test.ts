@@ -0,0 +1,267 @@
+import {
+  buildAvailabilityWindows,
+  crossesMidnight,
+  expandBlockedTime,
+  getAdvanceBookingViolation,
+  isValidTimeOfDay,
+  isWithinAvailability,
+  mergeTimeRanges,
+  timeToMinutes,
+  validateAvailabilityWindows,
+  windowLengthMinutes,
+} from '../utils/availability'
+import { StudioAvailability } from '../types/booking'
+
+const iso = (ranges: { start: Date; end: Date }[]) =>
+  ranges.map(range => [range.start.toISOString(), range.end.toISOString()])
+
+describe('times of day', () => {
+  it('reads HH:MM and the HH:MM:SS Postgres returns', () => {
+    expect(timeToMinutes('09:30')).toBe(570)
+    expect(timeToMinutes('18:00:00')).toBe(1080)
+  })
+
+  it('only accepts 24h times', () => {
+    expect(isValidTimeOfDay('09:00')).toBe(true)
+    expect(isValidTimeOfDay('23:59:59')).toBe(true)
+    expect(isValidTimeOfDay('9:00')).toBe(false)
+    expect(isValidTimeOfDay('24:00')).toBe(false)
+  })
+
+  it('treats a window that closes before it opens as running past midnight', () => {
+    const overnight = { start_time: '18:00', end_time: '02:00' }
+    expect(crossesMidnight(overnight)).toBe(true)
+    expect(windowLengthMinutes(overnight)).toBe(8 * 60)
+    expect(crossesMidnight({ start_time: '09:00', end_time: '17:00' })).toBe(false)
+  })
+})
+
+describe('mergeTimeRanges', () => {
+  it('combines ranges that overlap or touch', () => {
+    const at = (hour: number) => new Date(Date.UTC(2026, 0, 5, hour))
+
+    expect(mergeTimeRanges([
+      { start: at(14), end: at(16) },
+      { start: at(9), end: at(12) },
+      { start: at(12), end: at(13) },
+      { start: at(15), end: at(18) },
+    ])).toEqual([
+      { start: at(9), end: at(13) },
+      { start: at(14), end: at(18) },
+    ])
+  })
+})
+
+describe('buildAvailabilityWindows', () => {
+  const timeZone = 'America/New_York'
+
+  it('resolves the day\'s windows in the studio\'s time zone', () => {
+    // Monday after clocks went forward: 9 to 5 EDT
+    const windows = buildAvailabilityWindows(
+      [
+        { day_of_week: 1, start_time: '09:00', end_time: '17:00' },
+        { day_of_week: 2, start_time: '09:00', end_time: '17:00' },
+      ],
+      '2026-03-09',
+      timeZone
+    )
+
+    expect(iso(windows)).toEqual([['2026-03-09T13:00:00.000Z', '2026-03-09T21:00:00.000Z']])
+  })
+
+  it('merges split shifts that meet', () => {
+    const windows = buildAvailabilityWindows(
+      [
+        { day_of_week: 1, start_time: '09:00', end_time: '12:00' },
+        { day_of_week: 1, start_time: '12:00', end_time: '17:00' },
+        { day_of_week: 1, start_time: '19:00', end_time: '22:00' },
+      ],
+      '2026-01-05',
+      timeZone
+    )
+
+    expect(iso(windows)).toEqual([
+      ['2026-01-05T14:00:00.000Z', '2026-01-05T22:00:00.000Z'],
+      ['2026-01-06T00:00:00.000Z', '2026-01-06T03:00:00.000Z'],
+    ])
+  })
+
+  it('runs an overnight window into the next day, an hour short across spring forward', () => {
+    // Saturday 8 PM EST to Sunday 4 AM EDT is 7 hours
+    const windows = buildAvailabilityWindows(
+      [{ day_of_week: 6, start_time: '20:00', end_time: '04:00' }],
+      '2026-03-07',
+      timeZone
+    )
+
+    expect(iso(windows)).toEqual([['2026-03-08T01:00:00.000Z', '2026-03-08T08:00:00.000Z']])
+  })
+
+  it('runs an overnight window an hour longer across fall back', () => {
+    // Saturday 8 PM EDT to Sunday 4 AM EST is 9 hours
+    const windows = buildAvailabilityWindows(
+      [{ day_of_week: 6, start_time: '20:00', end_time: '04:00' }],
+      '2026-10-31',
+      timeZone
+    )
+
+    expect(iso(windows)).toEqual([['2026-11-01T00:00:00.000Z', '2026-11-01T09:00:00.000Z']])
+  })
+})
+
+describe('isWithinAvailability', () => {
+  const timeZone = 'America/New_York'
+  const schedule: Pick<StudioAvailability, 'day_of_week' | 'start_time' | 'end_time'>[] = [
+    { day_of_week: 1, start_time: '09:00', end_time: '12:00' },
+    { day_of_week: 1, start_time: '12:00', end_time: '17:00' },
+    { day_of_week: 5, start_time: '20:00', end_time: '02:00' },
+  ]
+  const session = (start: string, end: string) => ({ start: new Date(start), end: new Date(end) })
+
+  it('accepts a session inside a window, including across split shifts that meet', () => {
+    // Monday 11 AM to 2 PM EST
+    expect(isWithinAvailability(schedule, session('2026-01-05T16:00:00Z', '2026-01-05T19:00:00Z'), timeZone)).toBe(true)
+  })
+
+  it('refuses a session at 3 AM or on a closed day', () => {
+    expect(isWithinAvailability(schedule, session('2026-01-05T08:00:00Z', '2026-01-05T09:00:00Z'), timeZone)).toBe(false)
+    // Tuesday
+    expect(isWithinAvailability(schedule, session('2026-01-06T15:00:00Z', '2026-01-06T16:00:00Z'), timeZone)).toBe(false)
+  })
+
+  it('refuses a session running past closing', () => {
+    // Monday 4 PM to 6 PM EST
+    expect(isWithinAvailability(schedule, session('2026-01-05T21:00:00Z', '2026-01-05T23:00:00Z'), timeZone)).toBe(false)
+  })
+
+  it("counts the small hours of Friday's overnight window as Friday's", () => {
+    // Saturday 12:30 AM to 1:30 AM EST
+    expect(isWithinAvailability(schedule, session('2026-01-10T05:30:00Z', '2026-01-10T06:30:00Z'), timeZone)).toBe(true)
+    // Saturday 1:30 AM to 2:30 AM EST
+    expect(isWithinAvailability(schedule, session('2026-01-10T06:30:00Z', '2026-01-10T07:30:00Z'), timeZone)).toBe(false)
+  })
+
+  it('reads the hours in the studio time zone after clocks go forward', () => {
+    // Monday 9 AM EDT, which is 8 AM in January's EST
+    expect(isWithinAvailability(schedule, session('2026-03-09T13:00:00Z', '2026-03-09T14:00:00Z'), timeZone)).toBe(true)
+    expect(isWithinAvailability(schedule, session('2026-03-09T12:00:00Z', '2026-03-09T13:00:00Z'), timeZone)).toBe(false)
+  })
+})
+
+describe('validateAvailabilityWindows', () => {
+  it('accepts a schedule with split shifts and an overnight window', () => {
+    expect(validateAvailabilityWindows([
+      { day_of_week: 1, start_time: '09:00', end_time: '12:00' },
+      { day_of_week: 1, start_time: '13:00', end_time: '17:00' },
+      { day_of_week: 5, start_time: '20:00', end_time: '02:00' },
+      { day_of_week: 6, start_time: '10:00', end_time: '18:00' },
+    ])).toEqual([])
+  })
+
+  it('catches a Saturday overnight window running into Sunday morning', () => {
+    expect(validateAvailabilityWindows([
+      { day_of_week: 6, start_time: '22:00', end_time: '02:00' },
+      { day_of_week: 0, start_time: '01:00', end_time: '05:00' },
+    ])).toEqual(['Saturday 22:00-02:00 overlaps Sunday 01:00-05:00'])
+  })
+
+  it('rejects bad times and windows that open and close together', () => {
+    expect(validateAvailabilityWindows([
+      { day_of_week: 2, start_time: '9am', end_time: '17:00' },
+      { day_of_week: 3, start_time: '10:00', end_time: '10:00' },
+    ])).toEqual([
+      'Tuesday: times must use 24h HH:MM format',
+      "Wednesday 10:00-10:00: opening and closing times can't be the same",
+    ])
+  })
+})
+
+describe('expandBlockedTime', () => {
+  const block = {
+    start_time: '2026-03-02T15:00:00.000Z', // Monday 10 AM EST
+    end_time: '2026-03-02T16:00:00.000Z',
+    recurring: true,
+    recurrence_pattern: 'weekly' as const,
+  }
+
+  it('keeps a weekly block at the same wall clock time across DST', () => {
+    const ranges = expandBlockedTime(
+      block,
+      new Date('2026-03-01T00:00:00Z'),
+      new Date('2026-03-17T00:00:00Z'),
+      'America/New_York'
+    )
+
+    expect(iso(ranges)).toEqual([
+      ['2026-03-02T15:00:00.000Z', '2026-03-02T16:00:00.000Z'],
+      ['2026-03-09T14:00:00.000Z', '2026-03-09T15:00:00.000Z'],
+      ['2026-03-16T14:00:00.000Z', '2026-03-16T15:00:00.000Z'],
+    ])
+  })
+
+  it('stops after the last date an occurrence may start', () => {
+    const ranges = expandBlockedTime(
+      { ...block, recurrence_end: '2026-03-09' },
+      new Date('2026-03-01T00:00:00Z'),
+      new Date('2026-04-01T00:00:00Z'),
+      'America/New_York'
+    )
+
+    expect(ranges.map(range => range.start.toISOString())).toEqual([
+      '2026-03-02T15:00:00.000Z',
+      '2026-03-09T14:00:00.000Z',
+    ])
+  })
+
+  it('skips months without the day of a monthly block', () => {
+    const ranges = expandBlockedTime(
+      {
+        start_time: '2026-01-31T15:00:00.000Z',
+        end_time: '2026-01-31T17:00:00.000Z',
+        recurring: true,
+        recurrence_pattern: 'monthly',
+      },
+      new Date('2026-01-01T00:00:00Z'),
+      new Date('2026-06-01T00:00:00Z'),
+      'UTC'
+    )
+
+    expect(ranges.map(range => range.start.toISOString())).toEqual([
+      '2026-01-31T15:00:00.000Z',
+      '2026-03-31T15:00:00.000Z',
+      '2026-05-31T15:00:00.000Z',
+    ])
+  })
+
+  it('only returns a one-off block that overlaps the range', () => {
+    const oneOff = { ...block, recurring: false }
+
+    expect(expandBlockedTime(oneOff, new Date('2026-03-02T16:00:00Z'), new Date('2026-03-03T00:00:00Z'), 'UTC')).toEqual([])
+    expect(expandBlockedTime(oneOff, new Date('2026-03-02T15:30:00Z'), new Date('2026-03-03T00:00:00Z'), 'UTC')).toHaveLength(1)
+  })
+})
+
+describe('getAdvanceBookingViolation', () => {
+  const now = new Date('2026-05-01T12:00:00Z')
+  const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000)
+
+  it('refuses times inside the minimum notice', () => {
+    expect(getAdvanceBookingViolation({ min_advance_booking_hours: 24 }, hoursFromNow(23), now)).toEqual({
+      code: 'too_soon',
+      message: 'This service must be booked at least 24 hours in advance',
+    })
+    expect(getAdvanceBookingViolation({ min_advance_booking_hours: 24 }, hoursFromNow(24), now)).toBeNull()
+  })
+
+  it('refuses past times when there is no minimum notice', () => {
+    expect(getAdvanceBookingViolation({}, hoursFromNow(-1), now)?.message).toBe('This time has already passed')
+  })
+
+  it('refuses times past the booking horizon', () => {
+    expect(getAdvanceBookingViolation({ max_advance_booking_days: 1 }, hoursFromNow(25), now)).toEqual({
+      code: 'too_far_ahead',
+      message: 'This service can only be booked up to 1 day in advance',
+    })
+    expect(getAdvanceBookingViolation({ max_advance_booking_days: 1 }, hoursFromNow(24), now)).toBeNull()
+  })
+})
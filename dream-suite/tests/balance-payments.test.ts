@@ -0,0 +1,68 @@
+import Stripe from 'stripe'
+import { getBalanceCheckoutSession } from '../lib/balance-payments'
+import { Booking, Studio } from '../types/booking'
+import { createFakeSupabase } from './helpers/fake-supabase'
+
+jest.mock('../lib/email-service', () => ({ emailService: { sendBalancePaymentRequest: jest.fn() } }))
+
+const booking = {
+  id: 'booking-1',
+  studios: { id: 'studio-1', stripe_account_id: 'acct_1', onboarded: true },
+  client_email: 'sam@example.com',
+  currency: 'usd',
+  total_price_cents: 10000,
+  deposit_paid_cents: 2500,
+  final_payment_cents: 0,
+  balance_session_id: 'cs_balance_1',
+} as Booking & { studios: Studio }
+
+const fakeStripe = (existing: Partial<Stripe.Checkout.Session>) => ({
+  checkout: {
+    sessions: {
+      retrieve: jest.fn(async (id: string) => ({ id, url: `https://checkout.test/${id}`, ...existing })),
+      expire: jest.fn(async () => ({})),
+      create: jest.fn(async () => ({ id: 'cs_balance_2', url: 'https://checkout.test/cs_balance_2' })),
+    },
+  },
+}) as unknown as Stripe & {
+  checkout: { sessions: { expire: jest.Mock; create: jest.Mock } }
+}
+
+const setup = () => createFakeSupabase({ bookings: [{ ...booking }] })
+
+describe('getBalanceCheckoutSession', () => {
+  it('opens the checkout already open for the balance again', async () => {
+    const fake = setup()
+    const stripe = fakeStripe({ status: 'open', amount_total: 7500 })
+
+    const session = await getBalanceCheckoutSession(fake.client, stripe, booking, '/success', '/cancel')
+
+    expect(session.id).toBe('cs_balance_1')
+    expect(stripe.checkout.sessions.create).not.toHaveBeenCalled()
+  })
+
+  it('starts a new checkout once the last one has expired, and keeps it on the booking', async () => {
+    const fake = setup()
+    const stripe = fakeStripe({ status: 'expired', amount_total: 7500 })
+
+    const session = await getBalanceCheckoutSession(fake.client, stripe, booking, '/success', '/cancel')
+
+    expect(session.id).toBe('cs_balance_2')
+    expect(stripe.checkout.sessions.expire).not.toHaveBeenCalled()
+    expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(expect.objectContaining({
+      metadata: { booking_id: 'booking-1', payment_type: 'balance' },
+      expires_at: expect.any(Number),
+    }))
+    expect(fake.tables.bookings[0].balance_session_id).toBe('cs_balance_2')
+  })
+
+  it('closes an open checkout for a balance that has changed since', async () => {
+    const fake = setup()
+    const stripe = fakeStripe({ status: 'open', amount_total: 8000 })
+
+    const session = await getBalanceCheckoutSession(fake.client, stripe, booking, '/success', '/cancel')
+
+    expect(stripe.checkout.sessions.expire).toHaveBeenCalledWith('cs_balance_1')
+    expect(session.id).toBe('cs_balance_2')
+  })
+})
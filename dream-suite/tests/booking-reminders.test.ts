@@ -0,0 +1,84 @@
+import { sendDueReminders, sendReminder } from '../lib/booking-reminders'
+import { emailService } from '../lib/email-service'
+import { smsService } from '../lib/sms-service'
+import { createFakeSupabase } from './helpers/fake-supabase'
+
+jest.mock('../lib/email-service', () => ({ emailService: { sendBookingReminder: jest.fn() } }))
+jest.mock('../lib/sms-service', () => ({ smsService: { sendBookingReminder: jest.fn() } }))
+
+const NOW = new Date('2026-05-01T12:00:00Z')
+
+// The dispatcher loads each booking with its service and studio joined in
+const booking = {
+  id: 'booking-1',
+  status: 'confirmed',
+  client_name: 'Sam',
+  client_email: 'sam@example.com',
+  start_time: '2026-05-02T10:00:00.000Z',
+  created_at: '2026-04-20T12:00:00.000Z',
+  services: { id: 'service-1', name: 'Recording' },
+  studios: { id: 'studio-1', name: 'Dream Suite' },
+}
+
+const setup = (reminders: Record<string, any>[] = []) => createFakeSupabase(
+  { bookings: [{ ...booking }], booking_reminders: reminders },
+  { unique: { booking_reminders: [['booking_id', 'reminder_type']] } }
+)
+
+beforeEach(() => {
+  jest.mocked(emailService.sendBookingReminder).mockReset().mockResolvedValue(true)
+  jest.mocked(smsService.sendBookingReminder).mockReset()
+})
+
+describe('sendDueReminders', () => {
+  it('sends the reminder for a booking once, however often it runs', async () => {
+    const fake = setup()
+
+    expect(await sendDueReminders(fake.client, NOW)).toEqual({ sent: 1, skipped: 0, failed: 0 })
+    expect(await sendDueReminders(fake.client, NOW)).toEqual({ sent: 0, skipped: 1, failed: 0 })
+
+    expect(emailService.sendBookingReminder).toHaveBeenCalledTimes(1)
+    expect(smsService.sendBookingReminder).toHaveBeenCalledTimes(1)
+    expect(fake.tables.booking_reminders).toEqual([
+      expect.objectContaining({ booking_id: 'booking-1', reminder_type: '24h', start_time: booking.start_time }),
+    ])
+  })
+
+  it('skips a reminder the studio already sent by hand', async () => {
+    const fake = setup()
+
+    expect(await sendReminder(fake.client, fake.tables.bookings[0] as any, '24h')).toBe('sent')
+    expect(await sendDueReminders(fake.client, NOW)).toEqual({ sent: 0, skipped: 1, failed: 0 })
+    expect(emailService.sendBookingReminder).toHaveBeenCalledTimes(1)
+  })
+
+  it("doesn't remind a booking moved after its reminder went out", async () => {
+    const fake = setup([{ id: 'reminder-1', booking_id: 'booking-1', reminder_type: '1h', start_time: '2026-05-01T09:00:00.000Z' }])
+
+    expect(await sendDueReminders(fake.client, NOW)).toEqual({ sent: 0, skipped: 1, failed: 0 })
+    expect(emailService.sendBookingReminder).not.toHaveBeenCalled()
+  })
+
+  it('lets the next run retry a reminder whose email failed, without texting', async () => {
+    const fake = setup()
+    jest.mocked(emailService.sendBookingReminder).mockResolvedValueOnce(false)
+    const logError = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(await sendDueReminders(fake.client, NOW)).toEqual({ sent: 0, skipped: 0, failed: 1 })
+    expect(fake.tables.booking_reminders).toEqual([])
+    expect(smsService.sendBookingReminder).not.toHaveBeenCalled()
+    logError.mockRestore()
+
+    expect(await sendDueReminders(fake.client, NOW)).toEqual({ sent: 1, skipped: 0, failed: 0 })
+  })
+})
+
+describe('sendReminder', () => {
+  it("won't send a reminder the dispatcher already sent", async () => {
+    const fake = setup()
+    await sendDueReminders(fake.client, NOW)
+
+    expect(await sendReminder(fake.client, fake.tables.bookings[0] as any, '24h')).toBe('already_sent')
+    expect(emailService.sendBookingReminder).toHaveBeenCalledTimes(1)
+  })
+})
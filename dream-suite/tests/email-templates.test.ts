@@ -0,0 +1,98 @@
+import {
+  DEFAULT_BRAND_COLOR,
+  getBrandColor,
+  getStarterTemplate,
+  getVariableNames,
+  renderEmailTemplate,
+  renderTemplateString,
+  validateEmailTemplate,
+} from '../utils/email-templates'
+
+const variables = {
+  client_name: 'Sam',
+  start_time: 'Friday, May 1 at 2:00 PM EDT',
+  total: '$150.00',
+  service: { name: 'Mixing' },
+  studio: { name: 'Night Owl', brand_color: '#112233', cancellation_policy: 'No refund after that.' },
+}
+
+describe('renderTemplateString', () => {
+  it('fills in variables and nested fields, with or without spaces in the braces', () => {
+    expect(renderTemplateString('Hi {{client_name}}, your {{ service.name }} session', variables))
+      .toBe('Hi Sam, your Mixing session')
+  })
+
+  it('leaves unknown variables and whole objects empty', () => {
+    expect(renderTemplateString('[{{nope}}][{{service}}][{{service.name.more}}]', variables)).toBe('[][][]')
+  })
+
+  it("doesn't reach anything it wasn't given", () => {
+    expect(renderTemplateString('{{constructor}}{{toString}}{{service.__proto__}}', variables)).toBe('')
+  })
+})
+
+describe('renderEmailTemplate', () => {
+  it("escapes values in the HTML so a client's name can't add markup", () => {
+    const rendered = renderEmailTemplate(
+      { subject: 'Hi {{client_name}}', html_body: '<p>Hi {{client_name}}</p>', text_body: 'Hi {{client_name}}' },
+      { client_name: '<b>Sam</b> & "Co"' }
+    )
+
+    expect(rendered.htmlBody).toBe('<p>Hi &lt;b&gt;Sam&lt;/b&gt; &amp; &quot;Co&quot;</p>')
+    expect(rendered.textBody).toBe('Hi <b>Sam</b> & "Co"')
+  })
+
+  it('keeps the subject to one line', () => {
+    const rendered = renderEmailTemplate(
+      { subject: '  Booked:\n{{service.name}}  ', html_body: '', text_body: '' },
+      variables
+    )
+
+    expect(rendered.subject).toBe('Booked: Mixing')
+  })
+})
+
+describe('validateEmailTemplate', () => {
+  it('accepts a template using only known variables', () => {
+    expect(validateEmailTemplate(getStarterTemplate('booking-confirmation', variables), variables)).toEqual([])
+  })
+
+  it('needs a subject and body and lists each unknown variable once', () => {
+    expect(validateEmailTemplate(
+      { subject: ' ', html_body: '', text_body: '{{studio.phone}} {{studio.phone}} {{coupon}}', enabled: true },
+      variables
+    )).toEqual(['Enter a subject', 'Enter the email body', 'Unknown variables: {{studio.phone}}, {{coupon}}'])
+  })
+})
+
+describe('template variables', () => {
+  it('lists every variable name, nested ones with dots', () => {
+    expect(getVariableNames(variables)).toEqual([
+      'client_name',
+      'start_time',
+      'total',
+      'service.name',
+      'studio.name',
+      'studio.brand_color',
+      'studio.cancellation_policy',
+    ])
+  })
+
+  it('starts package emails from the package details', () => {
+    const template = getStarterTemplate('package-purchase', {
+      ...variables,
+      package: { name: '10 Hours', code: 'PKG-1', credits: '10' },
+    })
+
+    expect(template.text_body).toContain('Code: {{package.code}}')
+    expect(template.text_body).not.toContain('{{service.name}}')
+  })
+})
+
+describe('getBrandColor', () => {
+  it("uses the studio's color only when it's a valid hex color", () => {
+    expect(getBrandColor({ brand_color: '#AB12cd' })).toBe('#AB12cd')
+    expect(getBrandColor({ brand_color: 'red' })).toBe(DEFAULT_BRAND_COLOR)
+    expect(getBrandColor(null)).toBe(DEFAULT_BRAND_COLOR)
+  })
+})
@@ -0,0 +1,215 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// An in-memory stand-in for the service role client the server libs take. It
+// keeps rows per table and understands the query builder calls those libs make;
+// selected columns and joins are ignored (rows are returned whole, so give them
+// their joined rows up front). Unique columns per table make inserts fail with
+// Postgres's 23505 the way the real constraints do.
+
+type Row = Record<string, any>
+type Filter = (row: Row) => boolean
+
+interface FakeSupabaseOptions {
+  unique?: Record<string, string[][]>
+  rpc?: Record<string, (args: any) => any>
+}
+
+export interface FakeSupabase {
+  client: SupabaseClient
+  tables: Record<string, Row[]>
+  rpcCalls: { name: string; args: any }[]
+}
+
+const matches = (value: any, expected: any) => String(value) === String(expected)
+
+// PostgREST's or=(a.eq.1,b.eq.2), enough for the libs' own uses
+const parseOr = (expression: string): Filter => {
+  const conditions = expression.split(',').map(condition => {
+    const [column, operator, ...rest] = condition.split('.')
+    const value = rest.join('.')
+    if (operator !== 'eq') throw new Error(`Fake supabase: unsupported or() operator ${operator}`)
+    return (row: Row) => matches(row[column], value)
+  })
+  return row => conditions.some(condition => condition(row))
+}
+
+class FakeQuery implements PromiseLike<{ data: any; error: any; count?: number }> {
+  private filters: Filter[] = []
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select'
+  private values: Row[] = []
+  private changes: Row = {}
+  private upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {}
+  private returning = false
+  private ordering: { column: string; ascending: boolean }[] = []
+  private maxRows?: number
+  private expect: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(private fake: FakeSupabase, private table: string, private unique: string[][]) {}
+
+  select() {
+    if (this.action !== 'select') this.returning = true
+    return this
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert'
+    this.values = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.action = 'upsert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.upsertOptions = options
+    return this
+  }
+
+  update(changes: Row) {
+    this.action = 'update'
+    this.changes = changes
+    return this
+  }
+
+  delete() {
+    this.action = 'delete'
+    return this
+  }
+
+  eq(column: string, value: any) { return this.where(row => matches(row[column], value)) }
+  neq(column: string, value: any) { return this.where(row => !matches(row[column], value)) }
+  gt(column: string, value: any) { return this.where(row => row[column] > value) }
+  gte(column: string, value: any) { return this.where(row => row[column] >= value) }
+  lt(column: string, value: any) { return this.where(row => row[column] < value) }
+  lte(column: string, value: any) { return this.where(row => row[column] <= value) }
+  in(column: string, values: any[]) { return this.where(row => values.some(value => matches(row[column], value))) }
+  is(column: string, value: null | boolean) { return this.where(row => (row[column] ?? null) === value) }
+  or(expression: string) { return this.where(parseOr(expression)) }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.ordering.push({ column, ascending: options.ascending !== false })
+    return this
+  }
+
+  limit(count: number) {
+    this.maxRows = count
+    return this
+  }
+
+  single() {
+    this.expect = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.expect = 'maybeSingle'
+    return this
+  }
+
+  returns() {
+    return this
+  }
+
+  then<T1 = any, T2 = never>(
+    onfulfilled?: ((value: { data: any; error: any }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected)
+  }
+
+  private where(filter: Filter) {
+    this.filters.push(filter)
+    return this
+  }
+
+  private get rows(): Row[] {
+    return (this.fake.tables[this.table] ||= [])
+  }
+
+  private conflictWith(row: Row, keys: string[][]): Row | undefined {
+    return this.rows.find(existing =>
+      keys.some(columns => columns.every(column => matches(existing[column], row[column])))
+    )
+  }
+
+  private run(): { data: any; error: any } {
+    let result: Row[]
+
+    switch (this.action) {
+      case 'insert': {
+        result = []
+        for (const value of this.values) {
+          if (this.conflictWith(value, this.unique)) {
+            return { data: null, error: { code: '23505', message: `duplicate key value in ${this.table}` } }
+          }
+          const row = { id: crypto.randomUUID(), ...value }
+          this.rows.push(row)
+          result.push(row)
+        }
+        break
+      }
+
+      case 'upsert': {
+        result = []
+        const keys = this.upsertOptions.onConflict ? [this.upsertOptions.onConflict.split(',')] : this.unique
+        for (const value of this.values) {
+          const existing = this.conflictWith(value, keys)
+          if (existing) {
+            if (this.upsertOptions.ignoreDuplicates) continue
+            Object.assign(existing, value)
+            result.push(existing)
+          } else {
+            const row = { id: crypto.randomUUID(), ...value }
+            this.rows.push(row)
+            result.push(row)
+          }
+        }
+        break
+      }
+
+      case 'update':
+        result = this.rows.filter(row => this.filters.every(filter => filter(row)))
+        result.forEach(row => Object.assign(row, this.changes))
+        break
+
+      case 'delete':
+        result = this.rows.filter(row => this.filters.every(filter => filter(row)))
+        this.fake.tables[this.table] = this.rows.filter(row => !result.includes(row))
+        break
+
+      default:
+        result = this.rows.filter(row => this.filters.every(filter => filter(row)))
+        for (const { column, ascending } of [...this.ordering].reverse()) {
+          result = [...result].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1))
+        }
+        if (this.maxRows !== undefined) result = result.slice(0, this.maxRows)
+    }
+
+    if (this.action !== 'select' && !this.returning) return { data: null, error: null }
+
+    const data = result.map(row => ({ ...row }))
+    if (this.expect === 'many') return { data, error: null }
+    if (data.length > 1 || (this.expect === 'single' && data.length === 0)) {
+      return { data: null, error: { code: 'PGRST116', message: `expected one ${this.table} row, got ${data.length}` } }
+    }
+    return { data: data[0] ?? null, error: null }
+  }
+}
+
+export const createFakeSupabase = (
+  tables: Record<string, Row[]> = {},
+  options: FakeSupabaseOptions = {}
+): FakeSupabase => {
+  const fake = { tables, rpcCalls: [] } as unknown as FakeSupabase
+
+  fake.client = {
+    from: (table: string) => new FakeQuery(fake, table, [['id'], ...(options.unique?.[table] || [])]),
+    rpc: async (name: string, args: any) => {
+      fake.rpcCalls.push({ name, args })
+      const handler = options.rpc?.[name]
+      if (!handler) return { data: null, error: { message: `Fake supabase: no rpc ${name}` } }
+      return { data: await handler(args), error: null }
+    },
+  } as unknown as SupabaseClient
+
+  return fake
+}
@@ -0,0 +1,92 @@
+import { redeemPackageCredits } from '../lib/package-credits'
+import { createFakeSupabase } from './helpers/fake-supabase'
+
+jest.mock('../lib/email-service', () => ({ emailService: { sendPackagePurchase: jest.fn() } }))
+
+const balance = {
+  id: 'purchase-1',
+  studio_id: 'studio-1',
+  code: 'ABCD2345',
+  client_email: 'sam@example.com',
+  credit_type: 'hours',
+  credits_total: 600,
+  credits_used: 0,
+  credits_remaining: 600,
+  categories: [],
+  status: 'active',
+}
+
+const heldBooking = (id: string, start: string) => ({
+  id,
+  client_email: 'Sam@Example.com',
+  start_time: start,
+  end_time: new Date(Date.parse(start) + 2 * 60 * 60 * 1000).toISOString(),
+  status: 'pending_payment',
+  payment_status: 'pending',
+  total_price_cents: 10000,
+  tax_cents: 800,
+  fee_cents: 0,
+  hold_expires_at: '2026-05-01T12:30:00.000Z',
+  stripe_session_id: 'cs_1',
+})
+
+const setup = (bookings: ReturnType<typeof heldBooking>[]) => createFakeSupabase(
+  { package_balances: [balance], bookings: bookings.map(booking => ({ ...booking })), booking_payments: [] },
+  { unique: { booking_payments: [['idempotency_key']] } }
+)
+
+describe('redeemPackageCredits', () => {
+  it('confirms held bookings, drops their checkout and records each in the ledger', async () => {
+    const bookings = [heldBooking('booking-1', '2026-05-08T15:00:00Z'), heldBooking('booking-2', '2026-05-15T15:00:00Z')]
+    const fake = setup(bookings)
+
+    const result = await redeemPackageCredits(fake.client, 'studio-1', ' abcd2345 ', bookings, 'recording')
+
+    expect(result).toEqual({ balance: expect.objectContaining({ credits_used: 240, credits_remaining: 360 }) })
+    expect(fake.tables.bookings[0]).toMatchObject({
+      status: 'confirmed',
+      package_purchase_id: 'purchase-1',
+      package_credits_used: 120,
+      total_price_cents: 0,
+      stripe_session_id: null,
+      hold_expires_at: null,
+      // Left to the ledger's trigger
+      payment_status: 'pending',
+    })
+    expect(fake.tables.booking_payments).toEqual([
+      expect.objectContaining({ booking_id: 'booking-1', kind: 'adjustment', amount_cents: 0, description: 'Paid with 2 hours of package credits' }),
+      expect.objectContaining({ booking_id: 'booking-2', kind: 'adjustment', amount_cents: 0 }),
+    ])
+  })
+
+  it("won't pay for a booking that's no longer held, and puts the rest of the series back", async () => {
+    const bookings = [heldBooking('booking-1', '2026-05-08T15:00:00Z'), heldBooking('booking-2', '2026-05-15T15:00:00Z')]
+    const fake = setup([bookings[0], { ...bookings[1], status: 'confirmed', payment_status: 'paid' }])
+
+    const result = await redeemPackageCredits(fake.client, 'studio-1', 'ABCD2345', bookings, 'recording')
+
+    expect(result).toEqual({ error: 'This time slot is no longer reserved. Please book again.' })
+    expect(fake.tables.bookings[0]).toMatchObject({
+      status: 'pending_payment',
+      package_purchase_id: null,
+      total_price_cents: 10000,
+      tax_cents: 800,
+      stripe_session_id: 'cs_1',
+    })
+    expect(fake.tables.bookings[1]).toMatchObject({ status: 'confirmed', total_price_cents: 10000 })
+    expect(fake.tables.booking_payments).toEqual([])
+  })
+
+  it("only takes the client's own code with enough credits", async () => {
+    const booking = heldBooking('booking-1', '2026-05-08T15:00:00Z')
+
+    expect(await redeemPackageCredits(setup([booking]).client, 'studio-1', 'NOPE', [booking], 'recording'))
+      .toEqual({ error: "That package code isn't valid" })
+    expect(await redeemPackageCredits(setup([booking]).client, 'studio-1', 'ABCD2345', [{ ...booking, client_email: 'alex@example.com' }], 'recording'))
+      .toEqual({ error: 'Use the email address the package was bought with' })
+
+    const long = { ...booking, end_time: new Date(Date.parse(booking.start_time) + 11 * 60 * 60 * 1000).toISOString() }
+    expect(await redeemPackageCredits(setup([long]).client, 'studio-1', 'ABCD2345', [long], 'recording'))
+      .toEqual({ error: 'This package has 10 hours left, not enough for 11 hours' })
+  })
+})
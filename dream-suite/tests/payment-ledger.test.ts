@@ -0,0 +1,110 @@
+import { getRefundSources, recordBookingPayment } from '../lib/payment-ledger'
+import { BookingPayment } from '../types/booking'
+import { createFakeSupabase } from './helpers/fake-supabase'
+
+const setup = () => createFakeSupabase(
+  { booking_payments: [] },
+  { unique: { booking_payments: [['idempotency_key']] } }
+)
+
+let paymentCount = 0
+const payment = (changes: Partial<BookingPayment>): BookingPayment => ({
+  id: `payment-${++paymentCount}`,
+  booking_id: 'booking-1',
+  kind: 'charge',
+  amount_cents: 0,
+  idempotency_key: `key-${paymentCount}`,
+  created_at: new Date(Date.UTC(2026, 4, 1, 12, paymentCount)).toISOString(),
+  ...changes,
+})
+
+describe('recordBookingPayment', () => {
+  it('records a checkout payment once however often it is reported', async () => {
+    const fake = setup()
+    const charge = { booking_id: 'booking-1', kind: 'charge' as const, payment_type: 'full' as const, amount_cents: 10000, stripe_session_id: 'cs_1' }
+
+    // The webhook, then the success page verifying the session, which also knows the payment intent
+    await recordBookingPayment(fake.client, charge)
+    await recordBookingPayment(fake.client, { ...charge, stripe_payment_intent_id: 'pi_1' })
+
+    expect(fake.tables.booking_payments).toEqual([
+      expect.objectContaining({ amount_cents: 10000, idempotency_key: 'charge:cs_1:booking-1' }),
+    ])
+  })
+
+  it('records a payment covering several bookings against each', async () => {
+    const fake = setup()
+
+    for (const bookingId of ['booking-1', 'booking-2']) {
+      await recordBookingPayment(fake.client, { booking_id: bookingId, kind: 'charge', payment_type: 'full', amount_cents: 5000, stripe_session_id: 'cs_1' })
+    }
+
+    expect(fake.tables.booking_payments.map(entry => entry.idempotency_key)).toEqual([
+      'charge:cs_1:booking-1',
+      'charge:cs_1:booking-2',
+    ])
+  })
+
+  it('keys charges made without checkout, refunds and disputes on their Stripe ids', async () => {
+    const fake = setup()
+
+    await recordBookingPayment(fake.client, { booking_id: 'booking-1', kind: 'charge', payment_type: 'balance', amount_cents: 7500, stripe_payment_intent_id: 'pi_2' })
+    await recordBookingPayment(fake.client, { booking_id: 'booking-1', kind: 'refund', amount_cents: -2500, stripe_payment_intent_id: 'pi_2', stripe_refund_id: 're_1' })
+    await recordBookingPayment(fake.client, { booking_id: 'booking-1', kind: 'refund', amount_cents: -2500, stripe_payment_intent_id: 'pi_2', stripe_refund_id: 're_1' })
+    await recordBookingPayment(fake.client, { booking_id: 'booking-1', kind: 'dispute', amount_cents: -5000, stripe_payment_intent_id: 'pi_2', stripe_dispute_id: 'dp_1' })
+
+    expect(fake.tables.booking_payments.map(entry => entry.idempotency_key)).toEqual([
+      'charge:pi_2:booking-1',
+      'refund:re_1:booking-1',
+      'dispute:dp_1:booking-1',
+    ])
+  })
+
+  it('records every adjustment unless it brings its own key', async () => {
+    const fake = setup()
+    const adjustment = { booking_id: 'booking-1', kind: 'adjustment' as const, amount_cents: 1000, description: 'Paid in cash' }
+
+    await recordBookingPayment(fake.client, adjustment)
+    await recordBookingPayment(fake.client, adjustment)
+    await recordBookingPayment(fake.client, { ...adjustment, idempotency_key: 'package:purchase-1:booking-1' })
+    await recordBookingPayment(fake.client, { ...adjustment, idempotency_key: 'package:purchase-1:booking-1' })
+
+    expect(fake.tables.booking_payments).toHaveLength(3)
+  })
+})
+
+describe('getRefundSources', () => {
+  it('refunds a separately paid balance before the deposit', () => {
+    const sources = getRefundSources([
+      payment({ payment_type: 'deposit', amount_cents: 2500, stripe_payment_intent_id: 'pi_deposit' }),
+      payment({ payment_type: 'balance', amount_cents: 7500, stripe_payment_intent_id: 'pi_balance' }),
+    ])
+
+    expect(sources).toEqual([
+      { paymentIntentId: 'pi_balance', cents: 7500, refundedCents: 0 },
+      { paymentIntentId: 'pi_deposit', cents: 2500, refundedCents: 0 },
+    ])
+  })
+
+  it("takes off what's already been refunded and drops payments refunded in full", () => {
+    const sources = getRefundSources([
+      payment({ payment_type: 'deposit', amount_cents: 2500, stripe_payment_intent_id: 'pi_deposit' }),
+      payment({ payment_type: 'balance', amount_cents: 7500, stripe_payment_intent_id: 'pi_balance' }),
+      payment({ kind: 'refund', amount_cents: -7500, stripe_payment_intent_id: 'pi_balance', stripe_refund_id: 're_1' }),
+      payment({ kind: 'refund', amount_cents: -1000, stripe_payment_intent_id: 'pi_deposit', stripe_refund_id: 're_2' }),
+    ])
+
+    expect(sources).toEqual([{ paymentIntentId: 'pi_deposit', cents: 1500, refundedCents: 1000 }])
+  })
+
+  it('leaves out a disputed payment and anything not paid through Stripe', () => {
+    const sources = getRefundSources([
+      payment({ payment_type: 'deposit', amount_cents: 2500, stripe_payment_intent_id: 'pi_deposit' }),
+      payment({ payment_type: 'balance', amount_cents: 7500, stripe_payment_intent_id: 'pi_balance' }),
+      payment({ kind: 'dispute', amount_cents: -7500, stripe_payment_intent_id: 'pi_balance', stripe_dispute_id: 'dp_1' }),
+      payment({ kind: 'adjustment', amount_cents: 1000, description: 'Paid in cash' }),
+    ])
+
+    expect(sources).toEqual([{ paymentIntentId: 'pi_deposit', cents: 2500, refundedCents: 0 }])
+  })
+})
@@ -0,0 +1,132 @@
+import {
+  describeCancellationPolicy,
+  getBalanceDueAt,
+  getBalanceDueCents,
+  getPaidCents,
+  getRefundPercentage,
+  getRefundableCents,
+  summarizeBookingPayments,
+  validateCancellationPolicy,
+} from '../utils/payments'
+
+const now = new Date('2026-05-01T12:00:00Z')
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString()
+
+const policy = {
+  cancellation_full_refund_hours: 48,
+  cancellation_partial_refund_hours: 12,
+  cancellation_partial_refund_percentage: 50,
+}
+
+describe('balances', () => {
+  it('counts the deposit and any final payment against the total', () => {
+    const booking = { total_price_cents: 10000, deposit_paid_cents: 2500, final_payment_cents: 0 }
+
+    expect(getPaidCents(booking)).toBe(2500)
+    expect(getBalanceDueCents(booking)).toBe(7500)
+    expect(getBalanceDueCents({ ...booking, final_payment_cents: 7500 })).toBe(0)
+  })
+
+  it('never owes less than nothing', () => {
+    expect(getBalanceDueCents({ total_price_cents: 5000, deposit_paid_cents: 6000, final_payment_cents: 0 })).toBe(0)
+  })
+
+  it('is due a day before the session, or when it ends', () => {
+    const booking = { start_time: '2026-05-10T15:00:00Z', end_time: '2026-05-10T18:00:00Z' }
+
+    expect(getBalanceDueAt(booking).toISOString()).toBe('2026-05-09T15:00:00.000Z')
+    expect(getBalanceDueAt(booking, { balance_due_timing: 'after_session' }).toISOString()).toBe('2026-05-10T18:00:00.000Z')
+  })
+})
+
+describe('getRefundPercentage', () => {
+  it('refunds in full up to and including the full refund cutoff', () => {
+    expect(getRefundPercentage({ start_time: hoursFromNow(48) }, policy, now)).toBe(100)
+    expect(getRefundPercentage({ start_time: hoursFromNow(47.99) }, policy, now)).toBe(50)
+  })
+
+  it('refunds the partial percentage up to the partial cutoff, then nothing', () => {
+    expect(getRefundPercentage({ start_time: hoursFromNow(12) }, policy, now)).toBe(50)
+    expect(getRefundPercentage({ start_time: hoursFromNow(11.99) }, policy, now)).toBe(0)
+    expect(getRefundPercentage({ start_time: hoursFromNow(-1) }, policy, now)).toBe(0)
+  })
+
+  it('uses the default policy for a studio without one', () => {
+    expect(getRefundPercentage({ start_time: hoursFromNow(24) }, null, now)).toBe(50)
+    expect(getRefundPercentage({ start_time: hoursFromNow(24) }, { cancellation_partial_refund_percentage: 25 }, now)).toBe(25)
+  })
+
+  it('goes straight to nothing when the cutoffs are the same', () => {
+    const noPartial = { ...policy, cancellation_partial_refund_hours: 48 }
+
+    expect(getRefundPercentage({ start_time: hoursFromNow(48) }, noPartial, now)).toBe(100)
+    expect(getRefundPercentage({ start_time: hoursFromNow(47) }, noPartial, now)).toBe(0)
+  })
+})
+
+describe('getRefundableCents', () => {
+  const booking = {
+    start_time: hoursFromNow(24),
+    deposit_paid_cents: 2500,
+    final_payment_cents: 7499,
+    refunded_cents: 0,
+  }
+
+  it('applies the policy to everything paid, rounded to the cent', () => {
+    expect(getRefundableCents(booking, policy, now)).toBe(5000)
+  })
+
+  it('takes off what was already refunded', () => {
+    expect(getRefundableCents({ ...booking, refunded_cents: 3000 }, policy, now)).toBe(2000)
+    expect(getRefundableCents({ ...booking, refunded_cents: 6000 }, policy, now)).toBe(0)
+  })
+
+  it('has nothing to refund on an unpaid booking', () => {
+    expect(getRefundableCents({ ...booking, deposit_paid_cents: 0, final_payment_cents: 0 }, policy, now)).toBe(0)
+  })
+})
+
+describe('cancellation policies', () => {
+  it('describes the partial refund only when there is one', () => {
+    expect(describeCancellationPolicy(policy)).toBe(
+      'Full refund if cancelled at least 48 hours before your session, 50% refund from 12 hours before; no refund after that.'
+    )
+    expect(describeCancellationPolicy({ ...policy, cancellation_partial_refund_percentage: 0 })).toBe(
+      'Full refund if cancelled at least 48 hours before your session; no refund after that.'
+    )
+  })
+
+  it('accepts the default policy and one with no partial refund', () => {
+    expect(validateCancellationPolicy(policy)).toEqual([])
+    expect(validateCancellationPolicy({ ...policy, cancellation_partial_refund_hours: 48 })).toEqual([])
+  })
+
+  it('needs the partial cutoff to come after the full one', () => {
+    expect(validateCancellationPolicy({ ...policy, cancellation_partial_refund_hours: 72 })).toEqual([
+      'The partial refund cutoff must be closer to the session than the full refund cutoff',
+    ])
+  })
+
+  it('rejects fractional or negative hours and percentages over 100', () => {
+    expect(validateCancellationPolicy({
+      cancellation_full_refund_hours: 1.5,
+      cancellation_partial_refund_hours: -1,
+      cancellation_partial_refund_percentage: 101,
+    })).toEqual([
+      'Full refund hours must be a whole number of hours',
+      'Partial refund hours must be a whole number of hours',
+      'Partial refund percentage must be between 0 and 100',
+    ])
+  })
+})
+
+describe('summarizeBookingPayments', () => {
+  it('nets refunds and disputes, which are stored as negative amounts, off the charges', () => {
+    expect(summarizeBookingPayments([
+      { kind: 'charge', amount_cents: 2500 },
+      { kind: 'charge', amount_cents: 7500 },
+      { kind: 'refund', amount_cents: -1000 },
+      { kind: 'dispute', amount_cents: -7500 },
+    ])).toEqual({ paidCents: 10000, refundedCents: 1000, disputedCents: 7500, netCents: 1500 })
+  })
+})
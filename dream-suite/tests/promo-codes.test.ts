@@ -0,0 +1,106 @@
+import {
+  describePromoDiscount,
+  getPromoCodeProblem,
+  getPromoDiscountCents,
+  normalizePromoCode,
+  validatePromoCodeForm,
+} from '../utils/promo-codes'
+
+describe('getPromoDiscountCents', () => {
+  it('takes a percentage off, rounded to the cent', () => {
+    expect(getPromoDiscountCents({ discount_type: 'percent', discount_value: 15 }, 10000)).toBe(1500)
+    expect(getPromoDiscountCents({ discount_type: 'percent', discount_value: 15 }, 3333)).toBe(500)
+    expect(getPromoDiscountCents({ discount_type: 'percent', discount_value: 100 }, 4999)).toBe(4999)
+  })
+
+  it('takes a fixed amount off', () => {
+    expect(getPromoDiscountCents({ discount_type: 'fixed', discount_value: 2000 }, 10000)).toBe(2000)
+  })
+
+  it('never takes the price below zero', () => {
+    expect(getPromoDiscountCents({ discount_type: 'fixed', discount_value: 5000 }, 3000)).toBe(3000)
+    expect(getPromoDiscountCents({ discount_type: 'fixed', discount_value: 5000 }, 0)).toBe(0)
+  })
+
+  it('never adds to the price', () => {
+    expect(getPromoDiscountCents({ discount_type: 'fixed', discount_value: -500 }, 3000)).toBe(0)
+    expect(getPromoDiscountCents({ discount_type: 'percent', discount_value: -10 }, 3000)).toBe(0)
+  })
+})
+
+describe('promo code text', () => {
+  it('matches codes however they were typed', () => {
+    expect(normalizePromoCode('  summer-24 ')).toBe('SUMMER-24')
+  })
+
+  it("shows a fixed discount in the studio's currency", () => {
+    expect(describePromoDiscount({ discount_type: 'percent', discount_value: 20 }, 'usd')).toBe('20% off')
+    expect(describePromoDiscount({ discount_type: 'fixed', discount_value: 1500 }, 'usd')).toBe('$15.00 off')
+    expect(describePromoDiscount({ discount_type: 'fixed', discount_value: 1500 }, 'jpy')).toBe('¥1,500 off')
+  })
+})
+
+describe('getPromoCodeProblem', () => {
+  const now = new Date('2026-05-01T12:00:00Z')
+  const promo = { active: true, expires_at: '2026-06-01T00:00:00Z', service_ids: [] as string[] }
+
+  it('allows an active code on any service when none are listed', () => {
+    expect(getPromoCodeProblem(promo, 'service-1', now)).toBeNull()
+  })
+
+  it('refuses inactive codes', () => {
+    expect(getPromoCodeProblem({ ...promo, active: false }, 'service-1', now)).toBe('This promo code is no longer active')
+  })
+
+  it('refuses codes from the moment they expire', () => {
+    expect(getPromoCodeProblem({ ...promo, expires_at: now.toISOString() }, 'service-1', now))
+      .toBe('This promo code has expired')
+    expect(getPromoCodeProblem({ ...promo, expires_at: undefined }, 'service-1', now)).toBeNull()
+  })
+
+  it('only allows the services a code is limited to', () => {
+    const limited = { ...promo, service_ids: ['service-1'] }
+
+    expect(getPromoCodeProblem(limited, 'service-1', now)).toBeNull()
+    expect(getPromoCodeProblem(limited, 'service-2', now)).toBe("This promo code can't be used for this service")
+  })
+})
+
+describe('validatePromoCodeForm', () => {
+  const form = {
+    code: 'summer24',
+    discount_type: 'percent' as const,
+    discount_value: '20',
+    expires_at: '',
+    max_uses: '',
+    service_ids: [],
+  }
+
+  it('accepts a code with no expiry or usage limit', () => {
+    expect(validatePromoCodeForm(form)).toEqual([])
+    expect(validatePromoCodeForm({ ...form, expires_at: '2026-12-31', max_uses: '50' })).toEqual([])
+  })
+
+  it('checks the code itself', () => {
+    expect(validatePromoCodeForm({ ...form, code: 'ab' })).toEqual(['Codes are 3 to 32 letters, numbers, dashes or underscores'])
+    expect(validatePromoCodeForm({ ...form, code: 'SUMMER 24' })).toHaveLength(1)
+  })
+
+  it('needs a whole percentage from 1 to 100', () => {
+    expect(validatePromoCodeForm({ ...form, discount_value: '0' })).toEqual(['Percent off must be a whole number from 1 to 100'])
+    expect(validatePromoCodeForm({ ...form, discount_value: '101' })).toHaveLength(1)
+    expect(validatePromoCodeForm({ ...form, discount_value: '12.5' })).toHaveLength(1)
+  })
+
+  it('needs a fixed amount above zero', () => {
+    expect(validatePromoCodeForm({ ...form, discount_type: 'fixed', discount_value: '12.50' })).toEqual([])
+    expect(validatePromoCodeForm({ ...form, discount_type: 'fixed', discount_value: '0' })).toEqual(['Enter the amount off'])
+  })
+
+  it('checks the expiry date and usage limit', () => {
+    expect(validatePromoCodeForm({ ...form, expires_at: '12/31/2026', max_uses: '0' })).toEqual([
+      'Enter the expiry date as YYYY-MM-DD',
+      'Usage limit must be a whole number, or empty for unlimited',
+    ])
+  })
+})
@@ -0,0 +1,95 @@
+import {
+  MAX_SERIES_OCCURRENCES,
+  describeRecurrenceRule,
+  expandRecurrence,
+  formatRecurrenceRule,
+  getSeriesFrequencyLabel,
+  parseRecurrenceRule,
+  shiftOccurrence,
+} from '../utils/recurrence'
+
+describe('recurrence rules', () => {
+  it('reads the rules series use, with or without the RRULE prefix', () => {
+    expect(parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=8')).toEqual({ interval: 2, count: 8 })
+    expect(parseRecurrenceRule('FREQ=WEEKLY;COUNT=4')).toEqual({ interval: 1, count: 4 })
+  })
+
+  it('writes rules it can read back', () => {
+    const rule = { interval: 2 as const, count: 6 }
+    expect(parseRecurrenceRule(formatRecurrenceRule(rule))).toEqual(rule)
+  })
+
+  it('refuses other frequencies and intervals', () => {
+    expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=5')).toThrow('Unsupported recurrence rule')
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=3;COUNT=5')).toThrow('Unsupported recurrence rule')
+  })
+
+  it('needs a count within the series limit', () => {
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY')).toThrow('COUNT')
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;COUNT=0')).toThrow('COUNT')
+    expect(() => parseRecurrenceRule(`FREQ=WEEKLY;COUNT=${MAX_SERIES_OCCURRENCES + 1}`)).toThrow('COUNT')
+    expect(parseRecurrenceRule(`FREQ=WEEKLY;COUNT=${MAX_SERIES_OCCURRENCES}`).count).toBe(MAX_SERIES_OCCURRENCES)
+  })
+
+  it('describes a rule, or just "Recurring" when it can\'t be read', () => {
+    expect(describeRecurrenceRule({ interval: 2, count: 8 })).toBe('Every 2 weeks, 8 sessions')
+    expect(describeRecurrenceRule({ interval: 1, count: 1 })).toBe('Every week, 1 session')
+    expect(getSeriesFrequencyLabel({ recurrence_rule: 'FREQ=MONTHLY;COUNT=3' })).toBe('Recurring')
+  })
+})
+
+describe('expandRecurrence', () => {
+  it('keeps weekly sessions at the same wall clock time across spring forward', () => {
+    // Saturdays at 7 PM in New York, three hours each
+    const sessions = expandRecurrence('2026-02-22T00:00:00Z', 180, { interval: 1, count: 4 }, 'America/New_York')
+
+    expect(sessions.map(session => [session.start.toISOString(), session.end.toISOString()])).toEqual([
+      ['2026-02-22T00:00:00.000Z', '2026-02-22T03:00:00.000Z'],
+      ['2026-03-01T00:00:00.000Z', '2026-03-01T03:00:00.000Z'],
+      ['2026-03-08T00:00:00.000Z', '2026-03-08T03:00:00.000Z'],
+      ['2026-03-14T23:00:00.000Z', '2026-03-15T02:00:00.000Z'],
+    ])
+  })
+
+  it('spaces fortnightly sessions two weeks apart across fall back', () => {
+    // Mondays at 10 AM in London
+    const sessions = expandRecurrence('2026-10-19T09:00:00Z', 60, { interval: 2, count: 3 }, 'Europe/London')
+
+    expect(sessions.map(session => session.start.toISOString())).toEqual([
+      '2026-10-19T09:00:00.000Z',
+      '2026-11-02T10:00:00.000Z',
+      '2026-11-16T10:00:00.000Z',
+    ])
+  })
+
+  it('never makes more sessions than a series may have', () => {
+    const sessions = expandRecurrence('2026-01-05T15:00:00Z', 60, { interval: 1, count: 100 }, 'UTC')
+    expect(sessions).toHaveLength(MAX_SERIES_OCCURRENCES)
+  })
+})
+
+describe('shiftOccurrence', () => {
+  it('moves a later session by the same days to the new wall clock time', () => {
+    // Sunday 7 PM EST moved to Monday 8 PM; the next Sunday (after spring forward) follows
+    const moved = shiftOccurrence(
+      '2026-03-08T23:00:00Z',
+      '2026-03-02T00:00:00Z',
+      '2026-03-03T01:00:00Z',
+      'America/New_York'
+    )
+
+    expect(moved.toISOString()).toBe('2026-03-10T00:00:00.000Z')
+  })
+
+  it('moves a session across midnight in the studio\'s zone, not UTC', () => {
+    // 11 PM moved to 1 AM the next day in Tokyo
+    const moved = shiftOccurrence(
+      '2026-01-19T14:00:00Z',
+      '2026-01-12T14:00:00Z',
+      '2026-01-12T16:00:00Z',
+      'Asia/Tokyo'
+    )
+
+    expect(moved.toISOString()).toBe('2026-01-19T16:00:00.000Z')
+  })
+})
@@ -0,0 +1,79 @@
+import { getSmsBody, isOptInMessage, isOptOutMessage, normalizePhoneNumber } from '../utils/sms'
+
+describe('normalizePhoneNumber', () => {
+  it('reads US and Canadian numbers with or without the 1', () => {
+    expect(normalizePhoneNumber('(555) 555-0123')).toBe('+15555550123')
+    expect(normalizePhoneNumber('1-555-555-0123')).toBe('+15555550123')
+    expect(normalizePhoneNumber('555.555.0123', 'ca')).toBe('+15555550123')
+  })
+
+  it('keeps the country code given with + or 00', () => {
+    expect(normalizePhoneNumber('+44 20 7946 0958')).toBe('+442079460958')
+    expect(normalizePhoneNumber('0044 20 7946 0958', 'GB')).toBe('+442079460958')
+  })
+
+  it('needs a country code outside +1 countries', () => {
+    expect(normalizePhoneNumber('020 7946 0958', 'GB')).toBeNull()
+    expect(normalizePhoneNumber('5555550123', 'GB')).toBeNull()
+  })
+
+  it('refuses numbers that are too short, too long or start with 0', () => {
+    expect(normalizePhoneNumber('555-0123')).toBeNull()
+    expect(normalizePhoneNumber('+1234567890123456')).toBeNull()
+    expect(normalizePhoneNumber('+0 555 555 0123')).toBeNull()
+  })
+})
+
+describe('opt out and opt in replies', () => {
+  it('reads the keywords whatever the case and punctuation', () => {
+    expect(isOptOutMessage(' stop ')).toBe(true)
+    expect(isOptOutMessage('Unsubscribe.')).toBe(true)
+    expect(isOptInMessage('start')).toBe(true)
+    expect(isOptInMessage('YES!')).toBe(true)
+  })
+
+  it('ignores messages that only mention them', () => {
+    expect(isOptOutMessage('please stop texting me')).toBe(false)
+    expect(isOptInMessage('yes see you then')).toBe(false)
+  })
+})
+
+describe('getSmsBody', () => {
+  const details = {
+    booking: { start_time: '2026-07-15T18:00:00Z' },
+    service: { name: 'Mixing' },
+    studio: { name: 'Night Owl', address: '1 Main St', phone: '555-0100', timezone: 'America/New_York' },
+  }
+  const sessionTime = 'Wednesday, July 15, 2026 at 2:00 PM EDT'
+
+  it('confirms a booking', () => {
+    expect(getSmsBody({ type: 'booking-confirmation' }, details))
+      .toBe(`Night Owl: your Mixing is confirmed for ${sessionTime}.`)
+  })
+
+  it('reminds the client a day or an hour ahead', () => {
+    expect(getSmsBody({ type: 'booking-reminder', reminderType: '24h' }, details))
+      .toBe(`Night Owl: reminder, your Mixing is tomorrow: ${sessionTime} at 1 Main St.`)
+    expect(getSmsBody({ type: 'booking-reminder', reminderType: '1h' }, { ...details, studio: { ...details.studio, address: undefined } }))
+      .toBe(`Night Owl: reminder, your Mixing is in 1 hour: ${sessionTime}.`)
+  })
+
+  it("gives the client's own time when they're elsewhere", () => {
+    expect(getSmsBody({ type: 'booking-reschedule' }, { ...details, booking: { ...details.booking, client_timezone: 'America/Los_Angeles' } }))
+      .toBe(`Night Owl: your Mixing has moved to ${sessionTime} (11:00 AM PDT your time).`)
+  })
+
+  it('cancels a booking with the reason and studio phone', () => {
+    expect(getSmsBody({ type: 'booking-cancellation', reason: 'Studio closed' }, details))
+      .toBe(`Night Owl: your Mixing on ${sessionTime} has been cancelled. Reason: Studio closed. Questions? Call 555-0100.`)
+  })
+
+  it('counts the later sessions of a cancelled series', () => {
+    const noPhone = { ...details, studio: { ...details.studio, phone: undefined } }
+
+    expect(getSmsBody({ type: 'booking-cancellation', sessionCount: 2 }, noPhone))
+      .toBe(`Night Owl: your Mixing on ${sessionTime} and 1 later session have been cancelled.`)
+    expect(getSmsBody({ type: 'booking-cancellation', sessionCount: 4 }, noPhone))
+      .toBe(`Night Owl: your Mixing on ${sessionTime} and 3 later sessions have been cancelled.`)
+  })
+})
@@ -0,0 +1,199 @@
+import Stripe from 'stripe'
+import { processStripeEvent } from '../lib/stripe-webhooks'
+import { offerFreedSlot } from '../lib/waitlist-offers'
+import { createFakeSupabase } from './helpers/fake-supabase'
+
+jest.mock('../lib/booking-emails', () => ({ sendBookingEmails: jest.fn() }))
+jest.mock('../lib/email-service', () => ({
+  emailService: { sendBookingCancellation: jest.fn(async () => true), sendDisputeNotice: jest.fn(async () => true) },
+}))
+jest.mock('../lib/package-credits', () => ({ activatePackagePurchase: jest.fn() }))
+jest.mock('../lib/waitlist-offers', () => ({ offerFreedSlot: jest.fn() }))
+
+const BASE_URL = 'https://dreamsuite.test'
+
+const bookingId = (n: number) => `00000000-0000-4000-8000-00000000000${n}`
+
+let eventCount = 0
+const stripeEvent = (type: string, object: object): Stripe.Event =>
+  ({ id: `evt_${++eventCount}`, type, data: { object } }) as unknown as Stripe.Event
+
+const fakeStripe = () => ({
+  paymentIntents: { retrieve: jest.fn(async (id: string) => ({ id, transfer_data: null })) },
+  refunds: { create: jest.fn(async () => ({ id: 're_1' })) },
+}) as unknown as Stripe & {
+  refunds: { create: jest.Mock }
+}
+
+const setup = (bookings: Record<string, any>[]) => createFakeSupabase(
+  { bookings, stripe_events: [], booking_payments: [] },
+  { unique: { booking_payments: [['idempotency_key']] } }
+)
+
+beforeEach(() => {
+  jest.mocked(offerFreedSlot).mockReset()
+})
+
+describe('checkout.session.expired', () => {
+  it('cancels a booking still waiting on that checkout and offers its slot', async () => {
+    const fake = setup([{ id: bookingId(1), status: 'pending_payment', stripe_session_id: 'cs_1' }])
+
+    const result = await processStripeEvent(
+      fake.client,
+      fakeStripe(),
+      stripeEvent('checkout.session.expired', { id: 'cs_1', metadata: { booking_id: bookingId(1) } }),
+      BASE_URL
+    )
+
+    expect(result).toBe('processed')
+    expect(fake.tables.bookings[0]).toMatchObject({ status: 'cancelled', payment_status: 'expired' })
+    expect(offerFreedSlot).toHaveBeenCalledWith(fake.client, bookingId(1), BASE_URL)
+  })
+
+  it('leaves a booking paid through a later checkout alone', async () => {
+    const fake = setup([
+      { id: bookingId(1), status: 'confirmed', payment_status: 'paid', stripe_session_id: 'cs_2', series_id: 'series-1' },
+      { id: bookingId(2), status: 'confirmed', payment_status: 'paid', stripe_session_id: 'cs_2', series_id: 'series-1' },
+    ])
+
+    await processStripeEvent(
+      fake.client,
+      fakeStripe(),
+      stripeEvent('checkout.session.expired', { id: 'cs_1', metadata: { booking_id: bookingId(1), series_id: 'series-1' } }),
+      BASE_URL
+    )
+
+    expect(fake.tables.bookings.map(booking => booking.status)).toEqual(['confirmed', 'confirmed'])
+    expect(offerFreedSlot).not.toHaveBeenCalled()
+  })
+
+  it('leaves a booking that moved to a new checkout on hold', async () => {
+    const fake = setup([{ id: bookingId(1), status: 'pending_payment', stripe_session_id: 'cs_2' }])
+
+    await processStripeEvent(
+      fake.client,
+      fakeStripe(),
+      stripeEvent('checkout.session.expired', { id: 'cs_1', metadata: { booking_id: bookingId(1) } }),
+      BASE_URL
+    )
+
+    expect(fake.tables.bookings[0].status).toBe('pending_payment')
+    expect(offerFreedSlot).not.toHaveBeenCalled()
+  })
+
+  it('releases the rest of a series held for the checkout', async () => {
+    const fake = setup([
+      { id: bookingId(1), status: 'pending_payment', stripe_session_id: 'cs_1', series_id: 'series-1' },
+      { id: bookingId(2), status: 'pending_payment', stripe_session_id: 'cs_1', series_id: 'series-1' },
+      { id: bookingId(3), status: 'confirmed', stripe_session_id: 'cs_0', series_id: 'series-1' },
+    ])
+
+    await processStripeEvent(
+      fake.client,
+      fakeStripe(),
+      stripeEvent('checkout.session.expired', { id: 'cs_1', metadata: { booking_id: bookingId(1), series_id: 'series-1' } }),
+      BASE_URL
+    )
+
+    expect(fake.tables.bookings.map(booking => booking.status)).toEqual(['cancelled', 'cancelled', 'confirmed'])
+    expect(jest.mocked(offerFreedSlot).mock.calls.map(call => call[1])).toEqual([bookingId(1), bookingId(2)])
+  })
+})
+
+describe('checkout.session.completed', () => {
+  const completed = (id: string) => stripeEvent('checkout.session.completed', {
+    id: 'cs_1',
+    payment_intent: 'pi_1',
+    amount_total: 10000,
+    metadata: { booking_id: id, is_deposit: 'false' },
+  })
+
+  it('confirms the booking waiting on it and records the payment', async () => {
+    const fake = setup([{ id: bookingId(1), status: 'pending_payment', stripe_session_id: 'cs_1' }])
+
+    await processStripeEvent(fake.client, fakeStripe(), completed(bookingId(1)), BASE_URL)
+
+    expect(fake.tables.bookings[0]).toMatchObject({ status: 'confirmed', stripe_payment_intent_id: 'pi_1' })
+    expect(fake.tables.booking_payments).toEqual([
+      expect.objectContaining({ kind: 'charge', payment_type: 'full', amount_cents: 10000, idempotency_key: `charge:cs_1:${bookingId(1)}` }),
+    ])
+  })
+
+  it('refunds a checkout paid after the booking was paid with package credits', async () => {
+    const fake = setup([{ id: bookingId(1), status: 'confirmed', stripe_session_id: null, package_purchase_id: 'purchase-1' }])
+    const stripe = fakeStripe()
+
+    await processStripeEvent(fake.client, stripe, completed(bookingId(1)), BASE_URL)
+
+    expect(stripe.refunds.create).toHaveBeenCalledWith(
+      expect.objectContaining({ payment_intent: 'pi_1' }),
+      { idempotencyKey: 'unbooked-refund-cs_1' }
+    )
+    expect(fake.tables.booking_payments.map(payment => [payment.kind, payment.amount_cents])).toEqual([
+      ['charge', 10000],
+      ['refund', -10000],
+    ])
+    expect(fake.tables.bookings[0].stripe_session_id).toBeNull()
+  })
+})
+
+describe('processStripeEvent', () => {
+  const completed = () => stripeEvent('checkout.session.completed', {
+    id: 'cs_1',
+    payment_intent: 'pi_1',
+    amount_total: 10000,
+    metadata: { booking_id: bookingId(1), is_deposit: 'false' },
+  })
+
+  it('handles an event Stripe sends twice once', async () => {
+    const fake = setup([{ id: bookingId(1), status: 'pending_payment', stripe_session_id: 'cs_1' }])
+    const event = completed()
+
+    expect(await processStripeEvent(fake.client, fakeStripe(), event, BASE_URL)).toBe('processed')
+    expect(await processStripeEvent(fake.client, fakeStripe(), event, BASE_URL)).toBe('duplicate')
+
+    expect(fake.tables.booking_payments).toHaveLength(1)
+    expect(fake.tables.stripe_events).toEqual([
+      expect.objectContaining({ id: event.id, status: 'processed', booking_id: bookingId(1) }),
+    ])
+  })
+
+  it('takes up an event that failed when it comes again', async () => {
+    const event = completed()
+    const fake = setup([{ id: bookingId(1), status: 'pending_payment', stripe_session_id: 'cs_1' }])
+    fake.tables.stripe_events.push({ id: event.id, status: 'failed', attempts: 1, last_error: 'Timed out', updated_at: new Date().toISOString() })
+
+    expect(await processStripeEvent(fake.client, fakeStripe(), event, BASE_URL)).toBe('processed')
+    expect(fake.tables.stripe_events[0]).toMatchObject({ status: 'processed', attempts: 2, last_error: null })
+    expect(fake.tables.bookings[0].status).toBe('confirmed')
+  })
+
+  it("leaves an event another delivery is still processing, unless it's been at it too long", async () => {
+    const event = completed()
+    const fake = setup([{ id: bookingId(1), status: 'pending_payment', stripe_session_id: 'cs_1' }])
+    fake.tables.stripe_events.push({ id: event.id, status: 'processing', attempts: 1, updated_at: new Date().toISOString() })
+
+    expect(await processStripeEvent(fake.client, fakeStripe(), event, BASE_URL)).toBe('duplicate')
+    expect(fake.tables.bookings[0].status).toBe('pending_payment')
+
+    fake.tables.stripe_events[0].updated_at = new Date(Date.now() - 10 * 60 * 1000).toISOString()
+    expect(await processStripeEvent(fake.client, fakeStripe(), event, BASE_URL)).toBe('processed')
+  })
+
+  it('handles a booking id that was edited into something else as no booking', async () => {
+    const fake = setup([{ id: bookingId(1), status: 'pending_payment', stripe_session_id: 'cs_1' }])
+    const logError = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await processStripeEvent(
+      fake.client,
+      fakeStripe(),
+      stripeEvent('checkout.session.expired', { id: 'cs_1', metadata: { booking_id: 'booking 1' } }),
+      BASE_URL
+    )
+    logError.mockRestore()
+
+    expect(result).toBe('processed')
+    expect(fake.tables.stripe_events[0]).toMatchObject({ status: 'processed', booking_id: null, studio_id: null })
+    expect(fake.tables.bookings[0].status).toBe('pending_payment')
+  })
+})
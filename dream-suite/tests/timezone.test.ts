@@ -0,0 +1,108 @@
+import {
+  addCalendarDays,
+  formatCalendarDate,
+  formatTimeForStudioAndClient,
+  getCalendarDayOfWeek,
+  getStudioTimeZone,
+  getTimeZoneOffsetMinutes,
+  getZonedCalendarDate,
+  getZonedDateParts,
+  zonedDateTimeToUtc,
+} from '../utils/timezone'
+
+const NEW_YORK = 'America/New_York'
+
+describe('getTimeZoneOffsetMinutes', () => {
+  it('follows DST', () => {
+    expect(getTimeZoneOffsetMinutes(new Date('2026-01-15T12:00:00Z'), NEW_YORK)).toBe(-300)
+    expect(getTimeZoneOffsetMinutes(new Date('2026-07-15T12:00:00Z'), NEW_YORK)).toBe(-240)
+  })
+
+  it('handles zones a fraction of an hour from UTC', () => {
+    expect(getTimeZoneOffsetMinutes(new Date('2026-01-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330)
+    expect(getTimeZoneOffsetMinutes(new Date('2026-01-15T12:00:00Z'), 'Asia/Kathmandu')).toBe(345)
+  })
+})
+
+describe('zonedDateTimeToUtc', () => {
+  it('reads a wall clock time in the zone', () => {
+    expect(zonedDateTimeToUtc('2026-01-15', 9 * 60, NEW_YORK).toISOString()).toBe('2026-01-15T14:00:00.000Z')
+    expect(zonedDateTimeToUtc('2026-07-15', 9 * 60, NEW_YORK).toISOString()).toBe('2026-07-15T13:00:00.000Z')
+  })
+
+  it('rolls minutes past midnight into the next day', () => {
+    expect(zonedDateTimeToUtc('2026-01-15', 26 * 60, NEW_YORK).toISOString()).toBe('2026-01-16T07:00:00.000Z')
+  })
+
+  it('moves a time skipped by spring forward an hour later', () => {
+    // 2:30 AM doesn't exist on March 8; it's read as 3:30 AM EDT
+    const date = zonedDateTimeToUtc('2026-03-08', 2 * 60 + 30, NEW_YORK)
+
+    expect(date.toISOString()).toBe('2026-03-08T07:30:00.000Z')
+    expect(getZonedDateParts(date, NEW_YORK)).toMatchObject({ hour: 3, minute: 30 })
+  })
+
+  it('takes the first of the two times repeated by fall back', () => {
+    // 1:30 AM happens twice on November 1; the EDT one comes first
+    expect(zonedDateTimeToUtc('2026-11-01', 90, NEW_YORK).toISOString()).toBe('2026-11-01T05:30:00.000Z')
+  })
+
+  it('keeps midnight on the right day either side of a change', () => {
+    expect(zonedDateTimeToUtc('2026-03-08', 0, NEW_YORK).toISOString()).toBe('2026-03-08T05:00:00.000Z')
+    expect(zonedDateTimeToUtc('2026-03-09', 0, NEW_YORK).toISOString()).toBe('2026-03-09T04:00:00.000Z')
+  })
+})
+
+describe('calendar dates', () => {
+  it('gives the date an instant falls on in the zone', () => {
+    const instant = new Date('2026-01-01T03:00:00Z')
+
+    expect(getZonedCalendarDate(instant, 'America/Los_Angeles')).toBe('2025-12-31')
+    expect(getZonedCalendarDate(instant, 'Asia/Tokyo')).toBe('2026-01-01')
+  })
+
+  it('adds days across month, year and leap day boundaries', () => {
+    expect(addCalendarDays('2026-12-31', 1)).toBe('2027-01-01')
+    expect(addCalendarDays('2028-02-28', 1)).toBe('2028-02-29')
+    expect(addCalendarDays('2026-03-01', -1)).toBe('2026-02-28')
+    // Whole days, even across a DST change
+    expect(addCalendarDays('2026-03-07', 2)).toBe('2026-03-09')
+  })
+
+  it('gives the day of the week of a date', () => {
+    expect(getCalendarDayOfWeek('2026-03-08')).toBe(0)
+    expect(getCalendarDayOfWeek('2026-03-14')).toBe(6)
+  })
+
+  it('formats a date without shifting it to the day before', () => {
+    expect(formatCalendarDate('2026-03-08', { month: 'short', day: 'numeric' })).toBe('Mar 8')
+  })
+})
+
+describe('formatTimeForStudioAndClient', () => {
+  it('shows the studio time alone when the client reads the same', () => {
+    expect(formatTimeForStudioAndClient('2026-01-15T19:00:00Z', NEW_YORK, 'America/Toronto')).toBe('2:00 PM EST')
+  })
+
+  it("adds the client's own time when they're elsewhere", () => {
+    expect(formatTimeForStudioAndClient('2026-01-15T19:00:00Z', NEW_YORK, 'America/Los_Angeles'))
+      .toBe('2:00 PM EST (11:00 AM PST your time)')
+  })
+
+  it('formats a range', () => {
+    expect(formatTimeForStudioAndClient('2026-07-15T18:00:00Z', NEW_YORK, undefined, '2026-07-15T21:00:00Z'))
+      .toBe('2:00 PM - 5:00 PM EDT')
+  })
+
+  it('ignores a client zone it does not know', () => {
+    expect(formatTimeForStudioAndClient('2026-01-15T19:00:00Z', NEW_YORK, 'Mars/Olympus')).toBe('2:00 PM EST')
+  })
+})
+
+describe('getStudioTimeZone', () => {
+  it('falls back to UTC without a valid zone', () => {
+    expect(getStudioTimeZone({ timezone: 'Europe/Paris' })).toBe('Europe/Paris')
+    expect(getStudioTimeZone({ timezone: 'Nowhere/Special' })).toBe('UTC')
+    expect(getStudioTimeZone(null)).toBe('UTC')
+  })
+})
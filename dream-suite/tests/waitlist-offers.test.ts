@@ -0,0 +1,101 @@
+import { offerFreedSlot } from '../lib/waitlist-offers'
+import { emailService } from '../lib/email-service'
+import { createFakeSupabase } from './helpers/fake-supabase'
+
+jest.mock('../lib/email-service', () => ({ emailService: { sendWaitlistOffer: jest.fn(async () => true) } }))
+
+const BASE_URL = 'https://dreamsuite.test'
+
+// 10pm on Friday 7 June in New York is already Saturday 8 June in UTC
+const freed = {
+  id: 'booking-1',
+  studio_id: 'studio-1',
+  service_id: 'service-1',
+  client_name: 'Sam',
+  client_email: 'sam@example.com',
+  start_time: '2030-06-08T02:00:00.000Z',
+  end_time: '2030-06-08T04:00:00.000Z',
+  resource_ids: ['room-a'],
+  status: 'cancelled',
+}
+
+const entry = (id: string, changes: Record<string, any> = {}) => ({
+  id,
+  studio_id: 'studio-1',
+  service_id: 'service-1',
+  client_name: `Client ${id}`,
+  client_email: `${id}@example.com`,
+  earliest_date: '2030-06-07',
+  latest_date: '2030-06-07',
+  status: 'waiting',
+  created_at: '2030-05-01T12:00:00.000Z',
+  ...changes,
+})
+
+const setup = (bookings: Record<string, any>[], entries: Record<string, any>[]) => createFakeSupabase({
+  bookings: bookings.map(booking => ({ ...booking })),
+  waitlist_entries: entries,
+  studios: [{ id: 'studio-1', name: 'Dream Suite', timezone: 'America/New_York' }],
+  services: [{ id: 'service-1', name: 'Recording', price_cents: 12000 }],
+})
+
+beforeEach(() => {
+  jest.mocked(emailService.sendWaitlistOffer).mockClear()
+})
+
+describe('offerFreedSlot', () => {
+  it("holds the slot for the first client waiting on that day in the studio's time zone", async () => {
+    const fake = setup([freed], [
+      entry('later', { created_at: '2030-05-02T12:00:00.000Z' }),
+      entry('next-day', { earliest_date: '2030-06-08', latest_date: '2030-06-08' }),
+      entry('first'),
+    ])
+
+    const offered = await offerFreedSlot(fake.client, 'booking-1', BASE_URL)
+
+    expect(offered).toMatchObject({ id: 'first', status: 'offered' })
+    const held = fake.tables.bookings.find(booking => booking.id === offered!.booking_id)
+    expect(held).toMatchObject({
+      client_email: 'first@example.com',
+      start_time: freed.start_time,
+      resource_ids: ['room-a'],
+      total_price_cents: 12000,
+      status: 'pending_payment',
+      hold_expires_at: offered!.offer_expires_at,
+    })
+    expect(emailService.sendWaitlistOffer).toHaveBeenCalledWith(
+      expect.objectContaining({ clientEmail: 'first@example.com' }),
+      `${BASE_URL}/api/waitlist/claim?token=${offered!.claim_token}`,
+      offered!.offer_expires_at
+    )
+  })
+
+  it('passes an unclaimed offer on to the next client in line', async () => {
+    const fake = setup([freed], [
+      entry('first', { status: 'offered', booking_id: 'booking-1', claim_token: 'token-1' }),
+      entry('second'),
+    ])
+
+    const offered = await offerFreedSlot(fake.client, 'booking-1', BASE_URL)
+
+    expect(fake.tables.waitlist_entries[0]).toMatchObject({ status: 'expired', claim_token: null })
+    expect(offered).toMatchObject({ id: 'second', status: 'offered' })
+  })
+
+  it("doesn't offer a slot back to the client who gave it up", async () => {
+    const fake = setup([freed], [entry('sam', { client_email: 'sam@example.com' })])
+
+    expect(await offerFreedSlot(fake.client, 'booking-1', BASE_URL)).toBeNull()
+    expect(fake.tables.bookings).toHaveLength(1)
+  })
+
+  it('offers nothing for a booking that still stands or a slot already past', async () => {
+    const kept = setup([{ ...freed, status: 'confirmed' }], [entry('first')])
+    expect(await offerFreedSlot(kept.client, 'booking-1', BASE_URL)).toBeNull()
+
+    const past = setup([{ ...freed, start_time: '2020-06-08T02:00:00.000Z' }], [entry('first', { earliest_date: '2020-06-07', latest_date: '2020-06-07' })])
+    expect(await offerFreedSlot(past.client, 'booking-1', BASE_URL)).toBeNull()
+
+    expect(emailService.sendWaitlistOffer).not.toHaveBeenCalled()
+  })
+})
@@ -13,9 +13,24 @@ export interface Studio {
   website?: string
   instagram?: string
   owner_id: string
-  stripe_account_id?: string
+  stripe_account_id?: string // Stripe Connect account the studio is paid out to
+  timezone: string // IANA zone, e.g. "America/New_York"; studio hours are wall clock times here
+  slot_interval_minutes: 15 | 30 | 60 // how often a bookable start time is offered
+  balance_due_timing: 'before_session' | 'after_session' // when the rest is collected after a deposit
+  cancellation_full_refund_hours: number // cancelling at least this far ahead refunds everything paid
+  cancellation_partial_refund_hours: number // ...at least this far ahead refunds the percentage below
+  cancellation_partial_refund_percentage: number // closer to the session nothing is refunded
+  country: string // ISO 3166 code, e.g. "US"; decides the currency
+  currency: string // lower case ISO 4217, e.g. "usd"; prices are in its smallest unit
+  tax_rate_percent: number // sales tax / VAT added to each booking's price, 0 for none
+  tax_label: string // how the tax is named on checkout and receipts, e.g. "VAT"
+  booking_fee_cents: number // flat fee added to each booking
+  processing_fee_percent: number // added on the price plus tax, to cover card fees
+  logo_url?: string // shown at the top of client emails
+  brand_color?: string // hex, e.g. "#2081C3"; the header color of client emails
+  sms_enabled: boolean // clients can opt in to texts about their bookings
   subscription_status: 'active' | 'inactive' | 'trial' | 'past_due'
-  onboarded: boolean
+  onboarded: boolean // the connected account can take payments; only then is the booking page public
   created_at: string
   updated_at: string
 }
@@ -32,10 +47,28 @@ export interface Service {
   deposit_percentage?: number
   max_advance_booking_days?: number
   min_advance_booking_hours?: number
+  buffer_before: number // minutes of prep time kept free before a session
+  buffer_after: number // minutes of teardown time kept free after a session
   active: boolean
   stripe_price_id?: string
   created_at: string
   updated_at: string
+
+  // Relations
+  resources?: Resource[] // needs one free resource of each type listed
+}
+
+// A bookable room, engineer or gear package. Sessions that use a resource can't
+// overlap each other, while different resources can be booked at the same time.
+export interface Resource {
+  id: string
+  studio_id: string
+  name: string
+  type: 'room' | 'engineer' | 'gear'
+  color: string // hex, used to color-code the admin calendar
+  active: boolean
+  created_at: string
+  updated_at: string
 }
 
 export interface Booking {
@@ -45,15 +78,41 @@ export interface Booking {
   client_name: string
   client_email: string
   client_phone?: string
+  sms_opt_in?: boolean // the client asked for texts at client_phone, if the studio sends them
+  client_timezone?: string // IANA zone of the client's device when they booked
   start_time: string
   end_time: string
   status: 'pending_payment' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show'
-  payment_status: 'pending' | 'paid' | 'deposit_paid' | 'partially_paid' | 'failed' | 'expired' | 'refunded'
-  total_price_cents: number
-  deposit_paid_cents?: number
-  final_payment_cents?: number
+  payment_status: 'pending' | 'paid' | 'deposit_paid' | 'partially_paid' | 'failed' | 'expired' | 'refunded' | 'partially_refunded'
+  total_price_cents: number // what the client pays: after any promo code discount, with tax and fees
+  currency?: string // the studio's currency when booked
+  tax_cents?: number // tax and fees are added by the server at checkout
+  tax_rate_percent?: number
+  fee_cents?: number
+  original_price_cents?: number // the price before the discount, when a promo code was used
+  discount_cents?: number
+  promo_code_id?: string
+  promo_code?: string // the code as entered, kept for display
+  package_purchase_id?: string // paid for with prepaid package credits instead of a card
+  package_credits_used?: number // minutes for an hours package, 1 for a sessions package
+  // payment_status (once anything is paid) and the amounts below are kept up to
+  // date from the booking_payments ledger; read them, don't write them
+  deposit_paid_cents?: number // paid at checkout when the service takes a deposit
+  final_payment_cents?: number // paid toward the rest (the full price when paid in one go)
+  refunded_cents?: number // refunded so far, out of deposit_paid_cents + final_payment_cents
+  refunded_at?: string
   stripe_session_id?: string
+  hold_expires_at?: string // a pending_payment booking reserves its slot until this time
+  resource_ids?: string[] // empty when the service doesn't use resources
+  series_id?: string
+  series_index?: number // 0-based position within the series
   stripe_payment_intent_id?: string
+  stripe_customer_id?: string // saved card from checkout, charged for the balance
+  balance_payment_intent_id?: string // the separate payment of the balance, when there was one
+  balance_session_id?: string // the latest Checkout session for the balance
+  balance_requested_at?: string // when the balance was charged or a payment link emailed
+  confirmation_sent_at?: string // when the client was emailed their confirmation
+  dispute_status?: BookingDispute['status'] // set once a payment on the booking is disputed
   notes?: string
   internal_notes?: string
   created_at: string
@@ -62,14 +121,212 @@ export interface Booking {
   // Relations
   studio?: Studio
   service?: Service
+  resources?: Resource[] // rooms, engineers and gear assigned to the session (from resource_ids)
+}
+
+// One entry in a booking's payment ledger. Never changed once written: a mistake
+// is corrected with an adjustment. Money in is positive, money back out negative.
+export interface BookingPayment {
+  id: string
+  booking_id: string
+  kind: 'charge' | 'refund' | 'dispute' | 'adjustment'
+  payment_type?: 'deposit' | 'balance' | 'full' // charges only
+  amount_cents: number
+  stripe_session_id?: string
+  stripe_payment_intent_id?: string
+  stripe_refund_id?: string
+  stripe_dispute_id?: string
+  description?: string
+  idempotency_key: string // e.g. "charge:pi_123:<booking id>"; recording it twice is a no-op
+  created_at: string
+}
+
+// A numbered invoice for a booking, or receipt for one of its charges. Numbered in
+// sequence per studio (INV-00001, RCT-00001); the document is rendered on request.
+export interface Invoice {
+  id: string
+  studio_id: string
+  booking_id: string
+  payment_id?: string // receipts only
+  kind: 'invoice' | 'receipt'
+  sequence_number: number
+  invoice_number: string
+  access_token: string // in download links, so clients can open them without signing in
+  issued_at: string
+}
+
+// An invoice or receipt with its download links (/api/invoices/booking)
+export interface InvoiceDownload extends Pick<Invoice, 'id' | 'kind' | 'invoice_number' | 'issued_at'> {
+  pdf_url: string
+  html_url: string
+}
+
+// A reminder email sent for a booking, for the session time it was about
+export interface BookingReminder {
+  id: string
+  booking_id: string
+  reminder_type: '24h' | '1h'
+  start_time: string
+  sent_at: string
+}
+
+// A discount code a studio gives out. Checked and applied by the server at checkout.
+export interface PromoCode {
+  id: string
+  studio_id: string
+  code: string // upper case; clients can enter it in any case
+  discount_type: 'percent' | 'fixed'
+  discount_value: number // percent off, or cents off each booking
+  expires_at?: string
+  max_uses?: number // a series counts as one use
+  service_ids: string[] // empty applies to every service
+  active: boolean
+  created_at: string
+  updated_at: string
 }
 
+// Prepaid hours or sessions a studio sells, e.g. "10 hours of recording"
+export interface ServicePackage {
+  id: string
+  studio_id: string
+  name: string
+  description?: string
+  credit_type: 'hours' | 'sessions'
+  credit_amount: number // hours or sessions granted
+  price_cents: number
+  categories: Service['category'][] // service categories the credits cover; empty covers all
+  valid_days?: number | null // days the credits last after purchase; null never expires
+  active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// A client's purchase of a package, with the package's terms as they were bought.
+// Credits are minutes for an hours package, sessions otherwise.
+export interface PackagePurchase {
+  id: string
+  package_id?: string
+  studio_id: string
+  package_name: string
+  client_name: string
+  client_email: string
+  credit_type: ServicePackage['credit_type']
+  credits_total: number
+  categories: Service['category'][]
+  price_cents: number // before tax
+  tax_cents: number
+  currency: string
+  code: string // emailed to the client, who enters it at checkout to use the credits
+  status: 'pending_payment' | 'active' | 'cancelled'
+  valid_days?: number
+  purchased_at?: string
+  expires_at?: string
+  stripe_session_id?: string
+  stripe_payment_intent_id?: string
+  created_at: string
+  updated_at: string
+}
+
+// A purchase with its credits used by bookings that weren't cancelled (package_balances)
+export interface PackageBalance extends PackagePurchase {
+  credits_used: number
+  credits_remaining: number
+}
+
+// A chargeback on a booking's payment, kept in step with Stripe's charge.dispute.* events
+export interface BookingDispute {
+  id: string
+  booking_id: string
+  stripe_dispute_id: string
+  stripe_payment_intent_id?: string
+  amount_cents: number
+  currency: string
+  reason?: string // Stripe's reason code, e.g. "fraudulent" or "product_not_received"
+  status: 'warning_needs_response' | 'warning_under_review' | 'warning_closed' | 'needs_response' | 'under_review' | 'won' | 'lost'
+  evidence_due_by?: string // the studio's deadline to respond through Stripe
+  created_at: string
+  updated_at: string
+}
+
+// A Stripe webhook event as it was received. Each is handled once, and one that
+// failed can be replayed from the admin booking screen.
+export interface StripeEventRecord {
+  id: string // Stripe's event id (evt_...)
+  type: string
+  booking_id?: string // from the event object's metadata, when it has one
+  studio_id?: string // the studio it's about; none for the platform's own events
+  payload: Record<string, any>
+  status: 'processing' | 'processed' | 'failed'
+  attempts: number
+  last_error?: string
+  processed_at?: string
+  created_at: string
+  updated_at: string
+}
+
+// A studio's Stripe Connect account as Stripe reports it (/api/connect/status)
+export interface ConnectStatus {
+  connected: boolean // has a connected account, onboarded or not
+  onboarded: boolean
+  details_submitted: boolean
+  charges_enabled: boolean
+  payouts_enabled: boolean
+  requirements_due: string[] // what Stripe still needs from the studio
+}
+
+// Sessions booked together on a weekly or biweekly pattern (e.g. a lockout every
+// Tuesday for 8 weeks). Each session is its own Booking pointing back at the series.
+export interface BookingSeries {
+  id: string
+  studio_id: string
+  service_id: string
+  client_name: string
+  client_email: string
+  recurrence_rule: string // RRULE subset, e.g. "FREQ=WEEKLY;INTERVAL=2;COUNT=8"
+  payment_mode: 'series' | 'per_session' // one checkout for every session, or pay as you go
+  status: 'active' | 'cancelled'
+  created_at: string
+  updated_at: string
+}
+
+// Which sessions of a series an edit or cancellation applies to
+export type SeriesEditScope = 'this' | 'following' | 'all'
+
+export interface SeriesOccurrencePreview {
+  start_time: string
+  end_time: string
+  available: boolean
+  reason?: string // why the session can't be booked
+}
+
+// A client waiting for a fully booked service. When a matching slot frees up the
+// first entry in line is offered it: the slot is held for them as a pending booking
+// until offer_expires_at, and the emailed claim link takes them to payment.
+export interface WaitlistEntry {
+  id: string
+  studio_id: string
+  service_id: string
+  client_name: string
+  client_email: string
+  client_phone?: string
+  earliest_date: string // calendar dates ("YYYY-MM-DD") in the studio's time zone
+  latest_date: string
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled'
+  booking_id?: string // the held booking while an offer is out
+  claim_token?: string
+  offer_expires_at?: string
+  created_at: string
+  updated_at: string
+}
+
+// A studio can have several windows per day (split shifts). A window whose
+// end_time is at or before its start_time runs past midnight into the next day.
 export interface StudioAvailability {
   id: string
   studio_id: string
   day_of_week: 0 | 1 | 2 | 3 | 4 | 5 | 6 // 0 = Sunday
   start_time: string // "09:00"
-  end_time: string // "17:00"
+  end_time: string // "17:00", or "02:00" for an overnight window
   active: boolean
 }
 
@@ -80,9 +337,14 @@ export interface StudioBlockedTime {
   end_time: string
   reason?: string
   recurring?: boolean
+  recurrence_pattern?: 'weekly' | 'monthly'
+  recurrence_end?: string // "2025-12-31", last date an occurrence may start (inclusive)
   created_at: string
 }
 
+// Why a booking was refused, so the booking UI can react (e.g. reload times)
+export type BookingErrorCode = 'too_soon' | 'too_far_ahead' | 'slot_unavailable'
+
 // Form Types
 export interface CreateServiceForm {
   name: string
@@ -94,6 +356,34 @@ export interface CreateServiceForm {
   deposit_percentage?: number
   max_advance_booking_days?: number
   min_advance_booking_hours?: number
+  buffer_before: number
+  buffer_after: number
+  resource_ids: string[]
+}
+
+export interface CreateResourceForm {
+  name: string
+  type: Resource['type']
+  color: string
+}
+
+export interface CreatePackageForm {
+  name: string
+  description: string
+  credit_type: ServicePackage['credit_type']
+  credit_amount: string // as typed
+  price: string // dollars, as typed
+  categories: Service['category'][]
+  valid_days: string // empty for no expiry
+}
+
+export interface CreatePromoCodeForm {
+  code: string
+  discount_type: PromoCode['discount_type']
+  discount_value: string // as typed: a percentage, or dollars for a fixed discount
+  expires_at: string // "YYYY-MM-DD" in the studio's time zone, or empty for no expiry
+  max_uses: string // empty for unlimited
+  service_ids: string[]
 }
 
 export interface CreateBookingForm {
@@ -101,13 +391,45 @@ export interface CreateBookingForm {
   client_name: string
   client_email: string
   client_phone?: string
+  sms_opt_in?: boolean
   start_time: string
   notes?: string
 }
 
+export interface JoinWaitlistForm {
+  service_id: string
+  client_name: string
+  client_email: string
+  client_phone?: string
+  earliest_date: string
+  latest_date: string
+}
+
+export interface CreateBlockedTimeForm {
+  start_time: string
+  end_time: string
+  reason?: string
+  recurring: boolean
+  recurrence_pattern?: StudioBlockedTime['recurrence_pattern']
+  recurrence_end?: string
+}
+
+export interface EmailTemplateForm {
+  subject: string
+  html_body: string
+  text_body: string
+  enabled: boolean
+}
+
 export interface StudioSettingsForm {
   name: string
   email: string
+  timezone: string
+  slot_interval_minutes: Studio['slot_interval_minutes']
+  balance_due_timing: Studio['balance_due_timing']
+  cancellation_full_refund_hours: number
+  cancellation_partial_refund_hours: number
+  cancellation_partial_refund_percentage: number
   phone?: string
   address?: string
   city?: string
@@ -147,9 +469,12 @@ export interface DaySchedule {
 // Analytics Types
 export interface StudioAnalytics {
   total_bookings: number
-  total_revenue_cents: number
+  total_revenue_cents: number // what clients paid less tax, which isn't the studio's
   bookings_this_month: number
   revenue_this_month_cents: number
+  tax_collected_cents: number
+  fees_collected_cents: number // booking and processing fees, part of revenue
+  currency: string
   popular_services: Array<{
     service_name: string
     booking_count: number
@@ -165,4 +490,91 @@ export interface StripeWebhookEvent {
     object: any
   }
   created: number
-}
\ No newline at end of file
+}
+// Email Types
+export type EmailType =
+  | 'booking-confirmation'
+  | 'booking-reminder'
+  | 'booking-cancellation'
+  | 'status-update'
+  | 'studio-notification'
+  | 'waitlist-offer'
+  | 'balance-request'
+  | 'dispute-notice'
+  | 'package-purchase'
+
+// The emails clients get, which a studio can replace with its own template
+export type CustomEmailType = Exclude<EmailType, 'studio-notification' | 'dispute-notice'>
+
+// Values a template's {{variables}} are filled from; nested ones are {{service.name}}
+export interface EmailTemplateVariables {
+  [name: string]: string | EmailTemplateVariables
+}
+
+// A studio's own version of one client email (email_templates)
+export interface StudioEmailTemplate {
+  id: string
+  studio_id: string
+  type: CustomEmailType
+  subject: string
+  html_body: string
+  text_body?: string
+  enabled: boolean // off keeps the template but sends the built-in email
+  created_at: string
+  updated_at: string
+}
+
+// Body of POST /api/email/send. The subject and bodies are the built-in email;
+// with studioId and variables the studio's own template is used instead, if it has one.
+export interface SendEmailRequest {
+  type: EmailType
+  to: string
+  subject: string
+  htmlBody: string
+  textBody?: string
+  bookingId?: string
+  purchaseId?: string
+  reminderType?: '24h' | '1h'
+  studioId?: string
+  variables?: EmailTemplateVariables
+}
+
+// SMS Types
+// The texts a client can get about a booking
+export type SmsType =
+  | 'booking-confirmation'
+  | 'booking-reminder'
+  | 'booking-reschedule'
+  | 'booking-cancellation'
+
+// Body of POST /api/sms/send. The server writes the text from the booking. It goes
+// to the booking's client_phone, and only when the studio sends texts, the client
+// opted in and the number hasn't replied STOP.
+export interface SendSmsRequest {
+  type: SmsType
+  bookingId: string
+  reminderType?: '24h' | '1h'
+  reason?: string // why a booking was cancelled
+  sessionCount?: number // sessions of a series cancelled, starting with this booking
+}
+
+// An email or text that was sent, or failed to be (notifications). Delivery updates
+// come from the provider's webhook; Resend and Twilio report them.
+export interface Notification {
+  id: string
+  studio_id?: string
+  booking_id?: string
+  purchase_id?: string
+  channel: 'email' | 'sms'
+  type: EmailType | SmsType
+  recipient: string // an email address, or an E.164 phone number for a text
+  subject?: string // emails only
+  provider: string
+  provider_message_id?: string
+  status: 'sent' | 'delayed' | 'delivered' | 'bounced' | 'complained' | 'failed'
+  error?: string
+  payload: SendEmailRequest | SendSmsRequest
+  resend_of?: string
+  created_at: string
+  updated_at: string
+}
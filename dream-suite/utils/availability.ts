@@ -0,0 +1,274 @@
+import { BookingErrorCode, Service, StudioAvailability, StudioBlockedTime } from '../types/booking'
+import {
+  addCalendarDays,
+  getCalendarDayOfWeek,
+  getZonedCalendarDate,
+  getZonedDateParts,
+  toCalendarDate,
+  zonedDateTimeToUtc,
+} from './timezone'
+
+export interface TimeRange {
+  start: Date
+  end: Date
+}
+
+export type AvailabilityWindowInput = Pick<StudioAvailability, 'day_of_week' | 'start_time' | 'end_time'>
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(:[0-5]\d)?$/
+
+// Parse "HH:MM" (or "HH:MM:SS" as returned by Postgres TIME columns) into minutes after midnight
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + (minutes || 0)
+}
+
+export const isValidTimeOfDay = (time: string): boolean => TIME_OF_DAY_PATTERN.test(time.trim())
+
+// A window that closes at or before it opens runs past midnight (e.g. 18:00 - 02:00)
+export const crossesMidnight = (window: Pick<StudioAvailability, 'start_time' | 'end_time'>): boolean => {
+  return timeToMinutes(window.end_time) <= timeToMinutes(window.start_time)
+}
+
+export const windowLengthMinutes = (window: Pick<StudioAvailability, 'start_time' | 'end_time'>): number => {
+  const length = timeToMinutes(window.end_time) - timeToMinutes(window.start_time)
+  return length > 0 ? length : length + 24 * 60
+}
+
+export const getDayOfWeek = (date: string): StudioAvailability['day_of_week'] => {
+  return getCalendarDayOfWeek(date) as StudioAvailability['day_of_week']
+}
+
+export const rangesOverlap = (a: TimeRange, b: TimeRange): boolean => {
+  return a.start.getTime() < b.end.getTime() && a.end.getTime() > b.start.getTime()
+}
+
+// Widen a range by prep time before it and teardown time after it
+export const padTimeRange = (range: TimeRange, beforeMinutes: number, afterMinutes: number): TimeRange => {
+  return {
+    start: new Date(range.start.getTime() - beforeMinutes * 60 * 1000),
+    end: new Date(range.end.getTime() + afterMinutes * 60 * 1000),
+  }
+}
+
+// Sort ranges and combine any that overlap or touch into a single continuous range
+export const mergeTimeRanges = (ranges: TimeRange[]): TimeRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start.getTime() - b.start.getTime())
+  const merged: TimeRange[] = []
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range.start.getTime() <= last.end.getTime()) {
+      if (range.end.getTime() > last.end.getTime()) {
+        last.end = new Date(range.end)
+      }
+    } else {
+      merged.push({ start: new Date(range.start), end: new Date(range.end) })
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Resolve the open windows that start on the given calendar date in the studio's
+ * time zone. Windows that cross midnight end on the following day, and adjacent
+ * or overlapping windows are merged so a session may run across the boundary
+ * between them. Each edge is converted on its own, so a window spanning a DST
+ * change is an hour shorter or longer in real time, as it is on the wall clock.
+ */
+export const buildAvailabilityWindows = (
+  availability: AvailabilityWindowInput[],
+  date: string,
+  timeZone: string
+): TimeRange[] => {
+  const dayOfWeek = getDayOfWeek(date)
+  const ranges: TimeRange[] = []
+
+  for (const window of availability) {
+    if (window.day_of_week !== dayOfWeek) continue
+
+    const endDate = crossesMidnight(window) ? addCalendarDays(date, 1) : date
+    const start = zonedDateTimeToUtc(date, timeToMinutes(window.start_time), timeZone)
+    const end = zonedDateTimeToUtc(endDate, timeToMinutes(window.end_time), timeZone)
+
+    ranges.push({ start, end })
+  }
+
+  return mergeTimeRanges(ranges)
+}
+
+/**
+ * Whether a session is inside the studio's opening hours: within an open window
+ * of the day it starts on in the studio's time zone, or an overnight window from
+ * the day before. As with offered slots, prep and teardown may run outside.
+ */
+export const isWithinAvailability = (
+  availability: AvailabilityWindowInput[],
+  range: TimeRange,
+  timeZone: string
+): boolean => {
+  const date = getZonedCalendarDate(range.start, timeZone)
+  const windows = mergeTimeRanges([
+    ...buildAvailabilityWindows(availability, addCalendarDays(date, -1), timeZone),
+    ...buildAvailabilityWindows(availability, date, timeZone),
+  ])
+
+  return windows.some(window =>
+    window.start.getTime() <= range.start.getTime() && range.end.getTime() <= window.end.getTime()
+  )
+}
+
+/**
+ * Validate a weekly schedule: every window needs valid times, and windows on the
+ * same day (including overnight spill into the next day) must not overlap.
+ * Returns a list of human readable problems, empty when the schedule is valid.
+ */
+export const validateAvailabilityWindows = (availability: AvailabilityWindowInput[]): string[] => {
+  const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+  const errors: string[] = []
+  const weekMinutes = 7 * 24 * 60
+
+  const spans: Array<{ start: number; end: number; label: string }> = []
+
+  for (const window of availability) {
+    const label = `${dayNames[window.day_of_week]} ${window.start_time}-${window.end_time}`
+
+    if (!isValidTimeOfDay(window.start_time) || !isValidTimeOfDay(window.end_time)) {
+      errors.push(`${dayNames[window.day_of_week]}: times must use 24h HH:MM format`)
+      continue
+    }
+
+    if (timeToMinutes(window.start_time) === timeToMinutes(window.end_time)) {
+      errors.push(`${label}: opening and closing times can't be the same`)
+      continue
+    }
+
+    const start = window.day_of_week * 24 * 60 + timeToMinutes(window.start_time)
+    spans.push({ start, end: start + windowLengthMinutes(window), label })
+  }
+
+  // Compare on a circular week so Saturday overnight windows can collide with Sunday mornings
+  for (let i = 0; i < spans.length; i++) {
+    for (let j = i + 1; j < spans.length; j++) {
+      const a = spans[i]
+      const b = spans[j]
+      const overlaps = [-weekMinutes, 0, weekMinutes].some(shift =>
+        a.start < b.end + shift && b.start + shift < a.end
+      )
+
+      if (overlaps) {
+        errors.push(`${a.label} overlaps ${b.label}`)
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Expand a blocked time into the concrete ranges that fall inside [rangeStart, rangeEnd).
+ * Recurring blocks repeat weekly or on the same day of each month (months without
+ * that day are skipped) until recurrence_end, keeping their original length.
+ * Occurrences keep the same wall clock start in the studio's time zone across DST.
+ */
+export const expandBlockedTime = (
+  block: Pick<StudioBlockedTime, 'start_time' | 'end_time' | 'recurring' | 'recurrence_pattern' | 'recurrence_end'>,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string
+): TimeRange[] => {
+  const range = { start: rangeStart, end: rangeEnd }
+  const firstStart = new Date(block.start_time)
+  const durationMs = new Date(block.end_time).getTime() - firstStart.getTime()
+
+  if (!block.recurring || !block.recurrence_pattern) {
+    const occurrence = { start: firstStart, end: new Date(firstStart.getTime() + durationMs) }
+    return rangesOverlap(occurrence, range) ? [occurrence] : []
+  }
+
+  const first = getZonedDateParts(firstStart, timeZone)
+  const firstDate = toCalendarDate(first.year, first.month, first.day)
+  const startMinutes = first.hour * 60 + first.minute
+
+  const until = block.recurrence_end
+    ? zonedDateTimeToUtc(addCalendarDays(block.recurrence_end, 1), 0, timeZone)
+    : null
+
+  const weekMs = 7 * 24 * 60 * 60 * 1000
+  const ranges: TimeRange[] = []
+
+  // Skip weekly occurrences that end before the range instead of walking from the first one
+  // (one week of slack absorbs DST shifts between the first occurrence and the range)
+  let index = block.recurrence_pattern === 'weekly'
+    ? Math.max(0, Math.floor((rangeStart.getTime() - durationMs - firstStart.getTime()) / weekMs) - 1)
+    : 0
+
+  for (;; index++) {
+    let occurrenceDate: string
+    if (block.recurrence_pattern === 'weekly') {
+      occurrenceDate = addCalendarDays(firstDate, index * 7)
+    } else {
+      const monthIndex = first.month - 1 + index
+      occurrenceDate = toCalendarDate(first.year + Math.floor(monthIndex / 12), (monthIndex % 12) + 1, first.day)
+    }
+
+    const start = zonedDateTimeToUtc(occurrenceDate, startMinutes, timeZone)
+
+    if (start.getTime() >= rangeEnd.getTime()) break
+    if (until && start.getTime() >= until.getTime()) break
+    // Skip months without this day (e.g. the 31st) rather than rolling into the next month
+    if (block.recurrence_pattern === 'monthly' && addCalendarDays(occurrenceDate, 0) !== occurrenceDate) continue
+
+    const occurrence = { start, end: new Date(start.getTime() + durationMs) }
+    if (rangesOverlap(occurrence, range)) {
+      ranges.push(occurrence)
+    }
+  }
+
+  return ranges
+}
+
+export type AdvanceBookingRules = Pick<Service, 'min_advance_booking_hours' | 'max_advance_booking_days'>
+
+// Earliest and latest start times a service can be booked for right now (latest is null when unlimited)
+export const getAdvanceBookingWindow = (
+  service: AdvanceBookingRules,
+  now: Date = new Date()
+): { earliest: Date; latest: Date | null } => {
+  const earliest = new Date(now.getTime() + (service.min_advance_booking_hours || 0) * 60 * 60 * 1000)
+  const latest = service.max_advance_booking_days
+    ? new Date(now.getTime() + service.max_advance_booking_days * 24 * 60 * 60 * 1000)
+    : null
+
+  return { earliest, latest }
+}
+
+// Why a start time breaks the service's advance booking rules (message is client facing), or null if it's allowed
+export const getAdvanceBookingViolation = (
+  service: AdvanceBookingRules,
+  startTime: Date,
+  now: Date = new Date()
+): { code: BookingErrorCode; message: string } | null => {
+  const { earliest, latest } = getAdvanceBookingWindow(service, now)
+
+  if (startTime.getTime() < earliest.getTime()) {
+    const hours = service.min_advance_booking_hours || 0
+    return {
+      code: 'too_soon',
+      message: hours > 0
+        ? `This service must be booked at least ${hours} hour${hours === 1 ? '' : 's'} in advance`
+        : 'This time has already passed',
+    }
+  }
+
+  if (latest && startTime.getTime() > latest.getTime()) {
+    const days = service.max_advance_booking_days!
+    return {
+      code: 'too_far_ahead',
+      message: `This service can only be booked up to ${days} day${days === 1 ? '' : 's'} in advance`,
+    }
+  }
+
+  return null
+}
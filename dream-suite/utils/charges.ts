@@ -0,0 +1,165 @@
+import { Booking, Studio } from '../types/booking'
+
+// Amounts are kept in the currency's smallest unit (the *_cents fields), which for
+// zero decimal currencies like JPY is the whole unit
+const ZERO_DECIMAL_CURRENCIES = ['bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf']
+
+// The currency a studio charges in follows its country; anywhere not listed uses USD
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  US: 'usd',
+  CA: 'cad',
+  MX: 'mxn',
+  GB: 'gbp',
+  IE: 'eur',
+  FR: 'eur',
+  DE: 'eur',
+  NL: 'eur',
+  BE: 'eur',
+  LU: 'eur',
+  AT: 'eur',
+  ES: 'eur',
+  PT: 'eur',
+  IT: 'eur',
+  FI: 'eur',
+  GR: 'eur',
+  SE: 'sek',
+  NO: 'nok',
+  DK: 'dkk',
+  CH: 'chf',
+  PL: 'pln',
+  AU: 'aud',
+  NZ: 'nzd',
+  JP: 'jpy',
+  SG: 'sgd',
+  HK: 'hkd',
+  BR: 'brl',
+}
+
+export const SUPPORTED_COUNTRIES = Object.keys(COUNTRY_CURRENCIES)
+
+export const getCurrencyForCountry = (country?: string | null): string => {
+  return COUNTRY_CURRENCIES[(country || '').trim().toUpperCase()] || 'usd'
+}
+
+export const getStudioCurrency = (studio?: Partial<Pick<Studio, 'currency' | 'country'>> | null): string => {
+  return studio?.currency || getCurrencyForCountry(studio?.country)
+}
+
+const getMinorUnitsPerMajor = (currency: string): number => {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase()) ? 1 : 100
+}
+
+// "12.50" typed by a studio in its currency, to the amount kept (1250)
+export const toMinorUnits = (amount: number, currency: string): number => {
+  return Math.round(amount * getMinorUnitsPerMajor(currency))
+}
+
+export const fromMinorUnits = (cents: number, currency: string): number => {
+  return cents / getMinorUnitsPerMajor(currency)
+}
+
+export const formatMoney = (cents: number, currency: string = 'usd'): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(fromMinorUnits(cents, currency))
+}
+
+type StudioCharges = Pick<Studio, 'tax_rate_percent' | 'booking_fee_cents' | 'processing_fee_percent'>
+
+export const validateStudioCharges = (charges: Pick<Studio, 'country'> & StudioCharges): string[] => {
+  const problems: string[] = []
+  const { country, tax_rate_percent, booking_fee_cents, processing_fee_percent } = charges
+
+  if (!COUNTRY_CURRENCIES[(country || '').toUpperCase()]) {
+    problems.push(`Country must be one of ${SUPPORTED_COUNTRIES.join(', ')}`)
+  }
+  if (!Number.isFinite(tax_rate_percent) || tax_rate_percent < 0 || tax_rate_percent >= 100) {
+    problems.push('Tax rate must be a percentage from 0 up to 100')
+  }
+  if (!Number.isInteger(booking_fee_cents) || booking_fee_cents < 0) {
+    problems.push("Booking fee can't be negative")
+  }
+  if (!Number.isFinite(processing_fee_percent) || processing_fee_percent < 0 || processing_fee_percent > 10) {
+    problems.push('Processing fee must be between 0 and 10 percent')
+  }
+
+  return problems
+}
+
+export interface BookingCharges {
+  tax_cents: number
+  tax_rate_percent: number
+  fee_cents: number
+  total_price_cents: number
+}
+
+/**
+ * What a client pays for a session priced at `priceCents` (after any discount):
+ * the studio's tax on the price, then its booking fee and a processing fee on
+ * the price plus tax.
+ */
+export const calculateBookingCharges = (
+  priceCents: number,
+  studio?: Partial<StudioCharges> | null
+): BookingCharges => {
+  const taxRate = Number(studio?.tax_rate_percent || 0)
+  const taxCents = Math.round(priceCents * taxRate / 100)
+  const processingCents = Math.round((priceCents + taxCents) * Number(studio?.processing_fee_percent || 0) / 100)
+  const feeCents = priceCents > 0 ? (studio?.booking_fee_cents || 0) + processingCents : 0
+
+  return {
+    tax_cents: taxCents,
+    tax_rate_percent: taxRate,
+    fee_cents: feeCents,
+    total_price_cents: priceCents + taxCents + feeCents,
+  }
+}
+
+// The session's own price, after any discount but before tax and fees
+export const getPreTaxPriceCents = (
+  booking: Pick<Booking, 'total_price_cents' | 'tax_cents' | 'fee_cents'>
+): number => {
+  return booking.total_price_cents - (booking.tax_cents || 0) - (booking.fee_cents || 0)
+}
+
+export interface ChargeLine {
+  label: string
+  cents: number
+}
+
+// The lines of a booking's price as the client sees them on checkout and receipts
+export const getChargeLines = (
+  booking: Pick<Booking, 'total_price_cents' | 'tax_cents' | 'tax_rate_percent' | 'fee_cents' | 'original_price_cents' | 'discount_cents' | 'promo_code'>,
+  serviceName: string,
+  taxLabel: string = 'Tax'
+): ChargeLine[] => {
+  const lines: ChargeLine[] = [
+    { label: serviceName, cents: booking.original_price_cents ?? getPreTaxPriceCents(booking) },
+  ]
+
+  if (booking.discount_cents) {
+    lines.push({ label: `Discount${booking.promo_code ? ` (${booking.promo_code})` : ''}`, cents: -booking.discount_cents })
+  }
+  if (booking.tax_cents) {
+    lines.push({ label: `${taxLabel} (${Number(booking.tax_rate_percent || 0)}%)`, cents: booking.tax_cents })
+  }
+  if (booking.fee_cents) {
+    lines.push({ label: 'Booking fee', cents: booking.fee_cents })
+  }
+
+  return lines
+}
+
+/**
+ * Share `amountCents` (a deposit, say) across lines in proportion to their
+ * amounts, so the shares add up to exactly the amount.
+ */
+export const splitAmountAcrossLines = (lines: ChargeLine[], amountCents: number): ChargeLine[] => {
+  const totalCents = lines.reduce((sum, line) => sum + line.cents, 0)
+  if (totalCents <= 0) return lines.map(line => ({ ...line, cents: 0 }))
+
+  const shares = lines.map(line => ({ ...line, cents: Math.floor(line.cents * amountCents / totalCents) }))
+  shares[0].cents += amountCents - shares.reduce((sum, line) => sum + line.cents, 0)
+  return shares
+}
@@ -0,0 +1,131 @@
+import { CustomEmailType, EmailTemplateForm, EmailTemplateVariables, Studio } from '../types/booking'
+
+export const CUSTOM_EMAIL_TYPES: { type: CustomEmailType; label: string; description: string }[] = [
+  { type: 'booking-confirmation', label: 'Confirmation', description: 'Sent when a booking is paid for and confirmed' },
+  { type: 'booking-reminder', label: 'Reminder', description: 'Sent 24 hours and 1 hour before the session' },
+  { type: 'booking-cancellation', label: 'Cancellation', description: 'Sent when a booking is cancelled' },
+  { type: 'status-update', label: 'Status Update', description: "Sent when you change a booking's status" },
+  { type: 'waitlist-offer', label: 'Waitlist Offer', description: 'Offers a freed slot to the next client waiting for it' },
+  { type: 'balance-request', label: 'Balance Due', description: 'Asks the client to pay the rest after a deposit' },
+  { type: 'package-purchase', label: 'Package Purchase', description: 'Sends a client the code for the package they bought' },
+]
+
+export const DEFAULT_BRAND_COLOR = '#2081C3'
+
+export const isValidBrandColor = (color: string): boolean => /^#[0-9A-Fa-f]{6}$/.test(color)
+
+export const getBrandColor = (studio?: Pick<Studio, 'brand_color'> | null): string => {
+  return studio?.brand_color && isValidBrandColor(studio.brand_color) ? studio.brand_color : DEFAULT_BRAND_COLOR
+}
+
+// {{name}} or {{name.field}}, with optional spaces inside the braces. Nothing else
+// is interpreted, so a template can't run code or reach anything it isn't given.
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)\s*\}\}/g
+
+const lookupVariable = (variables: EmailTemplateVariables, name: string): string | undefined => {
+  let value: string | EmailTemplateVariables | undefined = variables
+
+  for (const part of name.split('.')) {
+    if (typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, part)) return undefined
+    value = value[part]
+  }
+
+  return typeof value === 'string' ? value : undefined
+}
+
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Fill in a template's {{variables}}. Unknown ones come out empty; pass escape
+ * for HTML so a client's name can't add markup to the email.
+ */
+export const renderTemplateString = (
+  template: string,
+  variables: EmailTemplateVariables,
+  escape: (value: string) => string = value => value
+): string => {
+  return template.replace(VARIABLE_PATTERN, (_, name: string) => escape(lookupVariable(variables, name) ?? ''))
+}
+
+export const renderEmailTemplate = (
+  template: Pick<EmailTemplateForm, 'subject' | 'html_body' | 'text_body'>,
+  variables: EmailTemplateVariables
+): { subject: string; htmlBody: string; textBody: string } => {
+  return {
+    // Subjects are one line of plain text
+    subject: renderTemplateString(template.subject, variables).replace(/\s+/g, ' ').trim(),
+    htmlBody: renderTemplateString(template.html_body, variables, escapeHtml),
+    textBody: renderTemplateString(template.text_body || '', variables),
+  }
+}
+
+// Every variable name available, e.g. "client_name" and "service.name"
+export const getVariableNames = (variables: EmailTemplateVariables, prefix = ''): string[] => {
+  return Object.entries(variables).flatMap(([name, value]) =>
+    typeof value === 'string' ? [`${prefix}${name}`] : getVariableNames(value, `${prefix}${name}.`)
+  )
+}
+
+export const validateEmailTemplate = (
+  form: EmailTemplateForm,
+  variables: EmailTemplateVariables
+): string[] => {
+  const problems: string[] = []
+
+  if (!form.subject.trim()) problems.push('Enter a subject')
+  if (!form.html_body.trim()) problems.push('Enter the email body')
+
+  const unknown = new Set<string>()
+  for (const text of [form.subject, form.html_body, form.text_body]) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      if (lookupVariable(variables, match[1]) === undefined) unknown.add(match[1])
+    }
+  }
+  if (unknown.size > 0) {
+    problems.push(`Unknown variables: ${Array.from(unknown).map(name => `{{${name}}}`).join(', ')}`)
+  }
+
+  return problems
+}
+
+// Somewhere to start a studio's own template from, using only the variables the email has
+export const getStarterTemplate = (
+  type: CustomEmailType,
+  variables: EmailTemplateVariables
+): EmailTemplateForm => {
+  const label = CUSTOM_EMAIL_TYPES.find(custom => custom.type === type)?.label || 'Update'
+  const details = typeof variables.package === 'object'
+    ? [['Package', 'package.name'], ['Code', 'package.code'], ['Credits', 'package.credits']]
+    : [['Service', 'service.name'], ['When', 'start_time'], ['Total', 'total']]
+
+  return {
+    subject: `${label} - {{studio.name}}`,
+    html_body: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <div style="background-color: {{studio.brand_color}}; color: white; padding: 20px; text-align: center;">
+${lookupVariable(variables, 'studio.logo_url') ? `    <img src="{{studio.logo_url}}" alt="{{studio.name}}" style="max-height: 60px;">\n` : ''}    <h1>{{studio.name}}</h1>
+  </div>
+  <div style="padding: 20px;">
+    <h3>Hi {{client_name}},</h3>
+${details.map(([name, variable]) => `    <p><strong>${name}:</strong> {{${variable}}}</p>`).join('\n')}
+    <p>{{studio.cancellation_policy}}</p>
+    <p>See you soon,<br>The {{studio.name}} Team</p>
+  </div>
+</div>`,
+    text_body: `Hi {{client_name}},
+
+${details.map(([name, variable]) => `${name}: {{${variable}}}`).join('\n')}
+
+{{studio.cancellation_policy}}
+
+See you soon,
+The {{studio.name}} Team`,
+    enabled: true,
+  }
+}
@@ -0,0 +1,62 @@
+import { CreatePackageForm, PackageBalance, Service, ServicePackage } from '../types/booking'
+
+// What a package grants, in the units its credits are kept in (minutes or sessions)
+export const getPackageCredits = (pkg: Pick<ServicePackage, 'credit_type' | 'credit_amount'>): number => {
+  return pkg.credit_type === 'hours' ? pkg.credit_amount * 60 : pkg.credit_amount
+}
+
+// An hours package pays for the session's length, a sessions package for one session
+export const getBookingCreditCost = (
+  creditType: ServicePackage['credit_type'],
+  durationMinutes: number
+): number => {
+  return creditType === 'hours' ? durationMinutes : 1
+}
+
+export const formatCredits = (creditType: ServicePackage['credit_type'], credits: number): string => {
+  if (creditType === 'sessions') return `${credits} session${credits === 1 ? '' : 's'}`
+
+  const hours = Math.round(credits / 60 * 100) / 100
+  return `${hours} hour${hours === 1 ? '' : 's'}`
+}
+
+/**
+ * Why a client's package can't pay for a booking, or null if it can. The
+ * database checks the balance again when the credits are used.
+ */
+export const getPackageCreditProblem = (
+  balance: Pick<PackageBalance, 'status' | 'expires_at' | 'categories' | 'credit_type' | 'credits_remaining'>,
+  category: Service['category'],
+  creditsNeeded: number,
+  now: Date = new Date()
+): string | null => {
+  if (balance.status !== 'active') return "This package hasn't been paid for"
+  if (balance.expires_at && new Date(balance.expires_at).getTime() <= now.getTime()) {
+    return 'This package has expired'
+  }
+  if (balance.categories.length > 0 && !balance.categories.includes(category)) {
+    return "This package can't be used for this service"
+  }
+  if (balance.credits_remaining < creditsNeeded) {
+    return `This package has ${formatCredits(balance.credit_type, balance.credits_remaining)} left, ` +
+      `not enough for ${formatCredits(balance.credit_type, creditsNeeded)}`
+  }
+  return null
+}
+
+export const validatePackageForm = (form: CreatePackageForm): string[] => {
+  const problems: string[] = []
+
+  if (!form.name.trim()) problems.push('Give the package a name')
+  if (!Number.isInteger(Number(form.credit_amount)) || Number(form.credit_amount) < 1) {
+    problems.push(`Enter how many ${form.credit_type} the package includes`)
+  }
+  if (!Number.isFinite(Number(form.price)) || Number(form.price) < 0.5) {
+    problems.push('Price must be at least $0.50')
+  }
+  if (form.valid_days.trim() && (!Number.isInteger(Number(form.valid_days)) || Number(form.valid_days) < 1)) {
+    problems.push('Days valid must be a whole number, or empty to never expire')
+  }
+
+  return problems
+}
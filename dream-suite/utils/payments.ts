@@ -0,0 +1,176 @@
+import { Booking, BookingDispute, BookingPayment, Studio } from '../types/booking'
+
+// Studios collecting before the session charge the balance this long ahead of it
+export const BALANCE_DUE_HOURS_BEFORE_SESSION = 24
+
+export const getBalanceDueCents = (
+  booking: Pick<Booking, 'total_price_cents' | 'deposit_paid_cents' | 'final_payment_cents'>
+): number => {
+  return Math.max(0, booking.total_price_cents - (booking.deposit_paid_cents || 0) - (booking.final_payment_cents || 0))
+}
+
+// When the remaining balance is collected: a day before the session, or once it has ended
+export const getBalanceDueAt = (
+  booking: Pick<Booking, 'start_time' | 'end_time'>,
+  studio?: Pick<Studio, 'balance_due_timing'> | null
+): Date => {
+  if (studio?.balance_due_timing === 'after_session') return new Date(booking.end_time)
+  return new Date(new Date(booking.start_time).getTime() - BALANCE_DUE_HOURS_BEFORE_SESSION * 60 * 60 * 1000)
+}
+
+export const describeBalanceDue = (studio?: Pick<Studio, 'balance_due_timing'> | null): string => {
+  return studio?.balance_due_timing === 'after_session'
+    ? 'after your session'
+    : `${BALANCE_DUE_HOURS_BEFORE_SESSION} hours before your session`
+}
+
+type CancellationPolicy = Pick<
+  Studio,
+  'cancellation_full_refund_hours' | 'cancellation_partial_refund_hours' | 'cancellation_partial_refund_percentage'
+>
+
+// Full refund 48h or more out, 50% from 12h, nothing after that
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  cancellation_full_refund_hours: 48,
+  cancellation_partial_refund_hours: 12,
+  cancellation_partial_refund_percentage: 50,
+}
+
+const withDefaultPolicy = (studio?: Partial<CancellationPolicy> | null): CancellationPolicy => ({
+  cancellation_full_refund_hours:
+    studio?.cancellation_full_refund_hours ?? DEFAULT_CANCELLATION_POLICY.cancellation_full_refund_hours,
+  cancellation_partial_refund_hours:
+    studio?.cancellation_partial_refund_hours ?? DEFAULT_CANCELLATION_POLICY.cancellation_partial_refund_hours,
+  cancellation_partial_refund_percentage:
+    studio?.cancellation_partial_refund_percentage ?? DEFAULT_CANCELLATION_POLICY.cancellation_partial_refund_percentage,
+})
+
+export const validateCancellationPolicy = (policy: CancellationPolicy): string[] => {
+  const problems: string[] = []
+  const { cancellation_full_refund_hours, cancellation_partial_refund_hours, cancellation_partial_refund_percentage } = policy
+
+  if (!Number.isInteger(cancellation_full_refund_hours) || cancellation_full_refund_hours < 0) {
+    problems.push('Full refund hours must be a whole number of hours')
+  }
+  if (!Number.isInteger(cancellation_partial_refund_hours) || cancellation_partial_refund_hours < 0) {
+    problems.push('Partial refund hours must be a whole number of hours')
+  } else if (cancellation_partial_refund_hours > cancellation_full_refund_hours) {
+    problems.push('The partial refund cutoff must be closer to the session than the full refund cutoff')
+  }
+  if (
+    !Number.isInteger(cancellation_partial_refund_percentage) ||
+    cancellation_partial_refund_percentage < 0 ||
+    cancellation_partial_refund_percentage > 100
+  ) {
+    problems.push('Partial refund percentage must be between 0 and 100')
+  }
+
+  return problems
+}
+
+// The percentage of what was paid that cancelling now gets back
+export const getRefundPercentage = (
+  booking: Pick<Booking, 'start_time'>,
+  studio?: Partial<CancellationPolicy> | null,
+  now: Date = new Date()
+): number => {
+  const policy = withDefaultPolicy(studio)
+  const hoursBefore = (new Date(booking.start_time).getTime() - now.getTime()) / (60 * 60 * 1000)
+
+  if (hoursBefore >= policy.cancellation_full_refund_hours) return 100
+  if (hoursBefore >= policy.cancellation_partial_refund_hours) return policy.cancellation_partial_refund_percentage
+  return 0
+}
+
+export const getPaidCents = (
+  booking: Pick<Booking, 'deposit_paid_cents' | 'final_payment_cents'>
+): number => {
+  return (booking.deposit_paid_cents || 0) + (booking.final_payment_cents || 0)
+}
+
+// What's left to refund on a booking, optionally capped by the cancellation policy
+export const getRefundableCents = (
+  booking: Pick<Booking, 'start_time' | 'deposit_paid_cents' | 'final_payment_cents' | 'refunded_cents'>,
+  studio?: Partial<CancellationPolicy> | null,
+  now: Date = new Date()
+): number => {
+  const policyCents = Math.round(getPaidCents(booking) * getRefundPercentage(booking, studio, now) / 100)
+  return Math.max(0, policyCents - (booking.refunded_cents || 0))
+}
+
+export const describeCancellationPolicy = (studio?: Partial<CancellationPolicy> | null): string => {
+  const policy = withDefaultPolicy(studio)
+  const parts = [`Full refund if cancelled at least ${policy.cancellation_full_refund_hours} hours before your session`]
+
+  if (
+    policy.cancellation_partial_refund_percentage > 0 &&
+    policy.cancellation_partial_refund_hours < policy.cancellation_full_refund_hours
+  ) {
+    parts.push(`${policy.cancellation_partial_refund_percentage}% refund from ${policy.cancellation_partial_refund_hours} hours before`)
+  }
+
+  return `${parts.join(', ')}; no refund after that.`
+}
+
+// Totals of a booking's payment ledger. The paid and refunded amounts on the booking
+// itself are derived the same way (see payment-ledger-setup.sql).
+export const summarizeBookingPayments = (
+  payments: Pick<BookingPayment, 'kind' | 'amount_cents'>[]
+): { paidCents: number; refundedCents: number; disputedCents: number; netCents: number } => {
+  let paidCents = 0
+  let refundedCents = 0
+  let disputedCents = 0
+
+  for (const payment of payments) {
+    if (payment.kind === 'refund') refundedCents -= payment.amount_cents
+    else if (payment.kind === 'dispute') disputedCents -= payment.amount_cents
+    else paidCents += payment.amount_cents
+  }
+
+  return { paidCents, refundedCents, disputedCents, netCents: paidCents - refundedCents - disputedCents }
+}
+
+export const describeBookingPayment = (payment: Pick<BookingPayment, 'kind' | 'payment_type'>): string => {
+  switch (payment.kind) {
+    case 'charge':
+      if (payment.payment_type === 'deposit') return 'Deposit'
+      if (payment.payment_type === 'balance') return 'Balance Payment'
+      return 'Payment'
+    case 'refund':
+      return 'Refund'
+    case 'dispute':
+      return 'Dispute'
+    default:
+      return 'Adjustment'
+  }
+}
+
+// A dispute the studio can still respond to (or that Stripe is still deciding)
+export const isDisputeOpen = (status: BookingDispute['status']): boolean => {
+  return status === 'needs_response' || status === 'warning_needs_response' ||
+    status === 'under_review' || status === 'warning_under_review'
+}
+
+export const describeDisputeStatus = (status: BookingDispute['status']): string => {
+  switch (status) {
+    case 'warning_needs_response':
+    case 'needs_response':
+      return 'Needs response'
+    case 'warning_under_review':
+    case 'under_review':
+      return 'Under review'
+    case 'warning_closed':
+      return 'Closed (inquiry)'
+    case 'won':
+      return 'Won'
+    case 'lost':
+      return 'Lost'
+  }
+}
+
+// Stripe's reason codes ("product_not_received") as text
+export const describeDisputeReason = (reason?: string): string => {
+  if (!reason) return 'No reason given'
+  const text = reason.replace(/_/g, ' ')
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
@@ -0,0 +1,66 @@
+import { CreatePromoCodeForm, PromoCode } from '../types/booking'
+import { formatMoney } from './charges'
+
+type PromoDiscount = Pick<PromoCode, 'discount_type' | 'discount_value'>
+
+// Codes are stored upper case and matched however the client typed them
+export const normalizePromoCode = (code: string): string => {
+  return code.trim().toUpperCase()
+}
+
+// The discount on one booking's price. A fixed discount never takes it below zero.
+export const getPromoDiscountCents = (promo: PromoDiscount, priceCents: number): number => {
+  const discount = promo.discount_type === 'percent'
+    ? Math.round(priceCents * promo.discount_value / 100)
+    : promo.discount_value
+  return Math.min(Math.max(0, discount), priceCents)
+}
+
+// A fixed discount is in the studio's currency, like its prices
+export const describePromoDiscount = (promo: PromoDiscount, currency: string): string => {
+  return promo.discount_type === 'percent'
+    ? `${promo.discount_value}% off`
+    : `${formatMoney(promo.discount_value, currency)} off`
+}
+
+/**
+ * Why a code can't be used on a service right now, or null if it can. The usage
+ * limit needs the bookings that used it and is checked separately.
+ */
+export const getPromoCodeProblem = (
+  promo: Pick<PromoCode, 'active' | 'expires_at' | 'service_ids'>,
+  serviceId: string,
+  now: Date = new Date()
+): string | null => {
+  if (!promo.active) return 'This promo code is no longer active'
+  if (promo.expires_at && new Date(promo.expires_at).getTime() <= now.getTime()) {
+    return 'This promo code has expired'
+  }
+  if (promo.service_ids.length > 0 && !promo.service_ids.includes(serviceId)) {
+    return "This promo code can't be used for this service"
+  }
+  return null
+}
+
+export const validatePromoCodeForm = (form: CreatePromoCodeForm): string[] => {
+  const problems: string[] = []
+  const value = Number(form.discount_value)
+
+  if (!/^[A-Z0-9_-]{3,32}$/.test(normalizePromoCode(form.code))) {
+    problems.push('Codes are 3 to 32 letters, numbers, dashes or underscores')
+  }
+  if (form.discount_type === 'percent' && (!Number.isInteger(value) || value < 1 || value > 100)) {
+    problems.push('Percent off must be a whole number from 1 to 100')
+  }
+  if (form.discount_type === 'fixed' && (!Number.isFinite(value) || value <= 0)) {
+    problems.push('Enter the amount off')
+  }
+  if (form.expires_at.trim() && !/^\d{4}-\d{2}-\d{2}$/.test(form.expires_at.trim())) {
+    problems.push('Enter the expiry date as YYYY-MM-DD')
+  }
+  if (form.max_uses.trim() && (!Number.isInteger(Number(form.max_uses)) || Number(form.max_uses) < 1)) {
+    problems.push('Usage limit must be a whole number, or empty for unlimited')
+  }
+
+  return problems
+}
@@ -0,0 +1,100 @@
+import { BookingSeries } from '../types/booking'
+import { TimeRange } from './availability'
+import {
+  addCalendarDays,
+  getZonedCalendarDate,
+  getZonedDateParts,
+  toCalendarDate,
+  zonedDateTimeToUtc,
+} from './timezone'
+
+// The subset of RFC 5545 RRULE that booking series use, e.g. "FREQ=WEEKLY;INTERVAL=2;COUNT=8"
+export interface RecurrenceRule {
+  interval: 1 | 2 // weeks between sessions
+  count: number
+}
+
+export const MAX_SERIES_OCCURRENCES = 52
+
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  return `FREQ=WEEKLY;INTERVAL=${rule.interval};COUNT=${rule.count}`
+}
+
+export const parseRecurrenceRule = (value: string): RecurrenceRule => {
+  const parts: Record<string, string> = {}
+  for (const part of value.replace(/^RRULE:/, '').split(';')) {
+    const [key, partValue] = part.split('=')
+    if (key && partValue) parts[key.toUpperCase()] = partValue
+  }
+
+  const interval = Number(parts.INTERVAL || 1)
+  const count = Number(parts.COUNT)
+
+  if (parts.FREQ !== 'WEEKLY' || (interval !== 1 && interval !== 2)) {
+    throw new Error(`Unsupported recurrence rule: ${value}`)
+  }
+
+  if (!Number.isInteger(count) || count < 1 || count > MAX_SERIES_OCCURRENCES) {
+    throw new Error(`Recurrence rules need a COUNT between 1 and ${MAX_SERIES_OCCURRENCES}`)
+  }
+
+  return { interval: interval as RecurrenceRule['interval'], count }
+}
+
+export const describeRecurrenceRule = (rule: RecurrenceRule): string => {
+  const frequency = rule.interval === 1 ? 'Every week' : 'Every 2 weeks'
+  return `${frequency}, ${rule.count} session${rule.count === 1 ? '' : 's'}`
+}
+
+export const getSeriesFrequencyLabel = (series: Pick<BookingSeries, 'recurrence_rule'>): string => {
+  try {
+    return describeRecurrenceRule(parseRecurrenceRule(series.recurrence_rule))
+  } catch {
+    return 'Recurring'
+  }
+}
+
+/**
+ * Every session in a series, starting with the first. Sessions keep the same
+ * wall clock start in the studio's time zone, so a 7pm lockout stays at 7pm
+ * when clocks change.
+ */
+export const expandRecurrence = (
+  firstStart: string,
+  durationMinutes: number,
+  rule: RecurrenceRule,
+  timeZone: string
+): TimeRange[] => {
+  const first = getZonedDateParts(new Date(firstStart), timeZone)
+  const firstDate = toCalendarDate(first.year, first.month, first.day)
+  const startMinutes = first.hour * 60 + first.minute
+
+  const occurrences: TimeRange[] = []
+  for (let index = 0; index < Math.min(rule.count, MAX_SERIES_OCCURRENCES); index++) {
+    const date = addCalendarDays(firstDate, index * 7 * rule.interval)
+    const start = zonedDateTimeToUtc(date, startMinutes, timeZone)
+    occurrences.push({ start, end: new Date(start.getTime() + durationMinutes * 60 * 1000) })
+  }
+
+  return occurrences
+}
+
+/**
+ * Where a session lands when the series is moved: the same number of calendar
+ * days as the session being edited, at its new wall clock start time.
+ */
+export const shiftOccurrence = (
+  occurrenceStart: string,
+  editedStart: string,
+  newEditedStart: string,
+  timeZone: string
+): Date => {
+  const dayDelta = Math.round(
+    (Date.parse(getZonedCalendarDate(new Date(newEditedStart), timeZone)) -
+      Date.parse(getZonedCalendarDate(new Date(editedStart), timeZone))) / (24 * 60 * 60 * 1000)
+  )
+
+  const newStart = getZonedDateParts(new Date(newEditedStart), timeZone)
+  const date = addCalendarDays(getZonedCalendarDate(new Date(occurrenceStart), timeZone), dayDelta)
+  return zonedDateTimeToUtc(date, newStart.hour * 60 + newStart.minute, timeZone)
+}
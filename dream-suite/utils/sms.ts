@@ -0,0 +1,91 @@
+import { Booking, SendSmsRequest, Service, Studio } from '../types/booking'
+import { formatDateInTimeZone, formatTimeForStudioAndClient, getStudioTimeZone } from './timezone'
+
+// Countries that share the +1 calling code, where a number is often given without it
+const NANP_COUNTRIES = ['US', 'CA']
+
+/**
+ * A phone number as a text can be sent to it (E.164, e.g. "+15555550123"), or null
+ * if it can't be one. Numbers without a country code are read as the studio's
+ * country's; only +1 countries can be given that way.
+ */
+export const normalizePhoneNumber = (phone: string, country: string = 'US'): string | null => {
+  const trimmed = phone.trim()
+  const digits = trimmed.replace(/\D/g, '')
+
+  let normalized: string
+  if (trimmed.startsWith('+')) {
+    normalized = `+${digits}`
+  } else if (trimmed.startsWith('00')) {
+    normalized = `+${digits.slice(2)}`
+  } else if (NANP_COUNTRIES.includes(country.toUpperCase()) && digits.length === 10) {
+    normalized = `+1${digits}`
+  } else if (NANP_COUNTRIES.includes(country.toUpperCase()) && digits.length === 11 && digits.startsWith('1')) {
+    normalized = `+${digits}`
+  } else {
+    return null
+  }
+
+  return /^\+[1-9]\d{7,14}$/.test(normalized) ? normalized : null
+}
+
+// The replies carriers treat as unsubscribing and resubscribing; Twilio stops
+// and starts delivery on the same words
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE']
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES']
+
+const getKeyword = (message: string): string => message.trim().toUpperCase().replace(/[^A-Z]/g, '')
+
+export const isOptOutMessage = (message: string): boolean => OPT_OUT_KEYWORDS.includes(getKeyword(message))
+
+export const isOptInMessage = (message: string): boolean => OPT_IN_KEYWORDS.includes(getKeyword(message))
+
+// Added to every text, as carriers expect
+export const SMS_OPT_OUT_FOOTER = 'Reply STOP to opt out.'
+
+// What a text about a booking is written from
+export interface SmsBookingDetails {
+  booking: Pick<Booking, 'start_time' | 'client_timezone'>
+  service: Pick<Service, 'name'>
+  studio: Pick<Studio, 'name' | 'address' | 'phone' | 'timezone'>
+}
+
+const getSessionTime = ({ booking, studio }: SmsBookingDetails): string => {
+  const timeZone = getStudioTimeZone(studio)
+  return `${formatDateInTimeZone(booking.start_time, timeZone)} at ${formatTimeForStudioAndClient(booking.start_time, timeZone, booking.client_timezone)}`
+}
+
+/**
+ * The text for a booking, without the opt out line (sendSms adds that)
+ */
+export const getSmsBody = (
+  request: Omit<SendSmsRequest, 'bookingId'>,
+  details: SmsBookingDetails
+): string => {
+  const { service, studio } = details
+  const sessionTime = getSessionTime(details)
+
+  switch (request.type) {
+    case 'booking-confirmation':
+      return `${studio.name}: your ${service.name} is confirmed for ${sessionTime}.`
+
+    case 'booking-reminder': {
+      const timeFrame = request.reminderType === '1h' ? 'in 1 hour' : 'tomorrow'
+      const address = studio.address ? ` at ${studio.address}` : ''
+      return `${studio.name}: reminder, your ${service.name} is ${timeFrame}: ${sessionTime}${address}.`
+    }
+
+    case 'booking-reschedule':
+      return `${studio.name}: your ${service.name} has moved to ${sessionTime}.`
+
+    case 'booking-cancellation': {
+      const sessionCount = request.sessionCount || 1
+      const sessions = sessionCount > 1
+        ? `${service.name} on ${sessionTime} and ${sessionCount - 1} later session${sessionCount === 2 ? '' : 's'} have`
+        : `${service.name} on ${sessionTime} has`
+      return `${studio.name}: your ${sessions} been cancelled.` +
+        (request.reason ? ` Reason: ${request.reason}.` : '') +
+        (studio.phone ? ` Questions? Call ${studio.phone}.` : '')
+    }
+  }
+}
@@ -0,0 +1,192 @@
+// Time zone helpers built on Intl so studio-local times survive DST changes
+// without pulling in a date library. Calendar dates are "YYYY-MM-DD" strings.
+
+export interface ZonedDateParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  weekday: number // 0 = Sunday
+}
+
+const weekdayIndex: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+}
+
+const partsFormatters: Record<string, Intl.DateTimeFormat> = {}
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!partsFormatters[timeZone]) {
+    partsFormatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    })
+  }
+  return partsFormatters[timeZone]
+}
+
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch {
+    return 'UTC'
+  }
+}
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Wall clock reading of an instant in the given zone
+export const getZonedDateParts = (date: Date, timeZone: string): ZonedDateParts => {
+  const values: Record<string, string> = {}
+  for (const part of getPartsFormatter(timeZone).formatToParts(date)) {
+    values[part.type] = part.value
+  }
+
+  return {
+    year: Number(values.year),
+    month: Number(values.month),
+    day: Number(values.day),
+    hour: Number(values.hour) % 24,
+    minute: Number(values.minute),
+    weekday: weekdayIndex[values.weekday],
+  }
+}
+
+// Minutes the zone is ahead of UTC at the given instant (e.g. -300 for New York in winter)
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  const parts = getZonedDateParts(date, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+  const instant = Math.floor(date.getTime() / 60000) * 60000
+  return Math.round((asUtc - instant) / 60000)
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` reads `date` plus
+ * `minutesAfterMidnight`. Minutes past 24h roll into following days. Times that
+ * don't exist (the hour skipped when clocks spring forward) resolve using the
+ * offset in effect before the change, landing an hour later on the clock.
+ */
+export const zonedDateTimeToUtc = (date: string, minutesAfterMidnight: number, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutesAfterMidnight)
+
+  const firstGuess = wallClock - getTimeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60000
+  const offset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone)
+  const result = wallClock - offset * 60000
+
+  // The offset didn't hold at the result, so the wall time falls in a DST gap
+  if (getTimeZoneOffsetMinutes(new Date(result), timeZone) !== offset) {
+    return new Date(firstGuess)
+  }
+
+  return new Date(result)
+}
+
+export const toCalendarDate = (year: number, month: number, day: number): string => {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+// Calendar date ("YYYY-MM-DD") an instant falls on in the given zone
+export const getZonedCalendarDate = (date: Date, timeZone: string): string => {
+  const parts = getZonedDateParts(date, timeZone)
+  return toCalendarDate(parts.year, parts.month, parts.day)
+}
+
+export const addCalendarDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number)
+  const result = new Date(Date.UTC(year, month - 1, day + days))
+  return toCalendarDate(result.getUTCFullYear(), result.getUTCMonth() + 1, result.getUTCDate())
+}
+
+export const getCalendarDayOfWeek = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+}
+
+// Format a calendar date without letting the device zone shift it to the previous day
+export const formatCalendarDate = (date: string, options: Intl.DateTimeFormatOptions): string => {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day, 12)).toLocaleDateString('en-US', {
+    ...options,
+    timeZone: 'UTC',
+  })
+}
+
+export const formatDateInTimeZone = (dateString: string, timeZone: string): string => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone,
+  })
+}
+
+export const formatTimeInTimeZone = (
+  dateString: string,
+  timeZone: string,
+  includeZoneName = false
+): string => {
+  return new Date(dateString).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZone,
+    ...(includeZoneName ? { timeZoneName: 'short' as const } : {}),
+  })
+}
+
+// Short zone label such as "EST" or "GMT+1" for the given instant
+export const getTimeZoneAbbreviation = (date: Date, timeZone: string): string => {
+  const zonePart = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find(part => part.type === 'timeZoneName')
+
+  return zonePart?.value || timeZone
+}
+
+/**
+ * "2:00 PM EST" for the studio, with the client's own reading appended when they
+ * are in a different zone: "2:00 PM EST (11:00 AM PST your time)". Pass an end
+ * time to format a range instead: "2:00 PM - 5:00 PM EST".
+ */
+export const formatTimeForStudioAndClient = (
+  dateString: string,
+  studioTimeZone: string,
+  clientTimeZone?: string,
+  endDateString?: string,
+  clientLabel = 'your time'
+): string => {
+  const formatIn = (timeZone: string) => endDateString
+    ? `${formatTimeInTimeZone(dateString, timeZone)} - ${formatTimeInTimeZone(endDateString, timeZone, true)}`
+    : formatTimeInTimeZone(dateString, timeZone, true)
+
+  const studioTime = formatIn(studioTimeZone)
+  if (!clientTimeZone || !isValidTimeZone(clientTimeZone)) return studioTime
+
+  const date = new Date(dateString)
+  if (getTimeZoneOffsetMinutes(date, clientTimeZone) === getTimeZoneOffsetMinutes(date, studioTimeZone)) {
+    return studioTime
+  }
+
+  return `${studioTime} (${formatIn(clientTimeZone)} ${clientLabel})`
+}
+
+// Studios created before time zones were tracked fall back to UTC until the owner sets one
+export const getStudioTimeZone = (studio?: { timezone?: string } | null): string => {
+  return studio?.timezone && isValidTimeZone(studio.timezone) ? studio.timezone : 'UTC'
+}
@@ -0,0 +1,39 @@
+-- Email Templates: studio branding and studio-written versions of the client emails
+-- Run this in your Supabase SQL Editor after reminders-setup.sql
+
+-- Shown in the header of the built-in client emails
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS logo_url TEXT;
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS brand_color TEXT
+  CHECK (brand_color ~ '^(#[0-9A-Fa-f]{6})?$');
+
+-- A studio's own version of one client email. Its subject and bodies can use
+-- {{variables}} (e.g. {{client_name}}, {{service.name}}, {{start_time}}), which
+-- are filled in when it's sent; without an enabled template the built-in email
+-- goes out.
+CREATE TABLE IF NOT EXISTS email_templates (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  studio_id UUID REFERENCES studios(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN (
+    'booking-confirmation', 'booking-reminder', 'booking-cancellation', 'status-update',
+    'waitlist-offer', 'balance-request', 'package-purchase'
+  )),
+  subject TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  text_body TEXT,
+  enabled BOOLEAN DEFAULT true NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  UNIQUE (studio_id, type)
+);
+
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+
+-- Only the studio's owner sees its templates; the email route reads them with the service role
+CREATE POLICY "Studio owners can manage their email templates" ON email_templates
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = email_templates.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,149 @@
+-- Invoices: sequentially numbered invoices per booking and receipts per payment
+-- Run this in your Supabase SQL Editor after taxes-setup.sql
+
+-- Each studio numbers its invoices and its receipts in their own sequence, with
+-- no gaps: INV-00001, INV-00002, ... and RCT-00001, ...
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS next_invoice_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS next_receipt_number INTEGER NOT NULL DEFAULT 1;
+
+-- Owners can't renumber their invoices. issue_invoice can run inside an owner's
+-- own request (confirming a booking), which is when the trigger depth is above 1.
+CREATE OR REPLACE FUNCTION protect_studio_invoice_numbers()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') AND pg_trigger_depth() = 1 THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.next_invoice_number := 1;
+      NEW.next_receipt_number := 1;
+    ELSE
+      NEW.next_invoice_number := OLD.next_invoice_number;
+      NEW.next_receipt_number := OLD.next_receipt_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_studio_invoice_numbers ON studios;
+CREATE TRIGGER protect_studio_invoice_numbers BEFORE INSERT OR UPDATE ON studios
+  FOR EACH ROW EXECUTE FUNCTION protect_studio_invoice_numbers();
+
+-- An invoice is for a booking (payment_id null), a receipt for one charge in its
+-- payment ledger. The document itself is rendered from the booking and ledger.
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  studio_id UUID REFERENCES studios(id) ON DELETE CASCADE NOT NULL,
+  booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  payment_id UUID REFERENCES booking_payments(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('invoice', 'receipt')),
+  sequence_number INTEGER NOT NULL,
+  invoice_number TEXT NOT NULL,
+  -- Lets the client download the document from their email without signing in
+  access_token UUID DEFAULT uuid_generate_v4() NOT NULL UNIQUE,
+  issued_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  UNIQUE (studio_id, kind, sequence_number),
+  CHECK ((kind = 'receipt') = (payment_id IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_booking ON invoices(booking_id) WHERE kind = 'invoice';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_payment ON invoices(payment_id) WHERE kind = 'receipt';
+
+-- Issue a booking's invoice (p_payment_id null) or a payment's receipt, or return
+-- the one already issued. Locking the studio row while numbering means two
+-- requests can't take the same number or leave a gap.
+CREATE OR REPLACE FUNCTION issue_invoice(p_booking_id UUID, p_payment_id UUID DEFAULT NULL)
+RETURNS invoices AS $$
+DECLARE
+  v_studio_id UUID;
+  v_kind TEXT := CASE WHEN p_payment_id IS NULL THEN 'invoice' ELSE 'receipt' END;
+  v_sequence INTEGER;
+  v_invoice invoices;
+BEGIN
+  SELECT studio_id INTO v_studio_id FROM bookings WHERE id = p_booking_id;
+  IF v_studio_id IS NULL THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id;
+  END IF;
+
+  PERFORM 1 FROM studios WHERE id = v_studio_id FOR UPDATE;
+
+  SELECT * INTO v_invoice FROM invoices
+  WHERE booking_id = p_booking_id
+  AND kind = v_kind
+  AND payment_id IS NOT DISTINCT FROM p_payment_id;
+
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  IF v_kind = 'invoice' THEN
+    UPDATE studios SET next_invoice_number = next_invoice_number + 1
+    WHERE id = v_studio_id
+    RETURNING next_invoice_number - 1 INTO v_sequence;
+  ELSE
+    UPDATE studios SET next_receipt_number = next_receipt_number + 1
+    WHERE id = v_studio_id
+    RETURNING next_receipt_number - 1 INTO v_sequence;
+  END IF;
+
+  INSERT INTO invoices (studio_id, booking_id, payment_id, kind, sequence_number, invoice_number)
+  VALUES (
+    v_studio_id,
+    p_booking_id,
+    p_payment_id,
+    v_kind,
+    v_sequence,
+    CASE WHEN v_kind = 'invoice' THEN 'INV-' ELSE 'RCT-' END || lpad(v_sequence::TEXT, 5, '0')
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server issues invoices
+REVOKE EXECUTE ON FUNCTION issue_invoice(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- A receipt for every charge as it's recorded, so receipts are numbered in the
+-- order payments came in
+CREATE OR REPLACE FUNCTION issue_payment_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.kind = 'charge' THEN
+    PERFORM issue_invoice(NEW.booking_id, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS issue_payment_receipt ON booking_payments;
+CREATE TRIGGER issue_payment_receipt AFTER INSERT ON booking_payments
+  FOR EACH ROW EXECUTE FUNCTION issue_payment_receipt();
+
+-- And an invoice for a booking once it's confirmed
+CREATE OR REPLACE FUNCTION issue_booking_invoice()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'confirmed' AND OLD.status IS DISTINCT FROM 'confirmed' THEN
+    PERFORM issue_invoice(NEW.id, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS issue_booking_invoice ON bookings;
+CREATE TRIGGER issue_booking_invoice AFTER UPDATE OF status ON bookings
+  FOR EACH ROW EXECUTE FUNCTION issue_booking_invoice();
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Studio owners can view their invoices" ON invoices
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = invoices.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,38 @@
+-- Notifications: a log of every email sent, and whether it was delivered
+-- Run this in your Supabase SQL Editor after email-templates-setup.sql
+
+-- One row per email. The send route (lib/notifications.ts) records it as sent or
+-- failed; the email provider's webhook then moves it to delivered, delayed,
+-- bounced or complained. payload is what was sent, so it can be sent again.
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  studio_id UUID REFERENCES studios(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  purchase_id UUID REFERENCES package_purchases(id) ON DELETE SET NULL,
+  type TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  provider TEXT NOT NULL, -- resend, smtp or outbox (see lib/email-transport.ts)
+  provider_message_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'delayed', 'delivered', 'bounced', 'complained', 'failed')),
+  error TEXT, -- why it failed or bounced
+  payload JSONB NOT NULL,
+  resend_of UUID REFERENCES notifications(id) ON DELETE SET NULL, -- the notification this one sent again
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_booking_id ON notifications(booking_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_provider_message_id ON notifications(provider, provider_message_id);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Written by the server (service role) only; studio owners can read theirs
+CREATE POLICY "Studio owners can view their notifications" ON notifications
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = notifications.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,196 @@
+-- Packages: prepaid hours or sessions clients buy up front and book with later
+-- Run this in your Supabase SQL Editor after promo-codes-setup.sql
+
+-- What a studio sells, e.g. "10 hours of recording"
+CREATE TABLE IF NOT EXISTS service_packages (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  studio_id UUID REFERENCES studios(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  credit_type TEXT NOT NULL CHECK (credit_type IN ('hours', 'sessions')),
+  credit_amount INTEGER NOT NULL CHECK (credit_amount > 0),
+  price_cents INTEGER NOT NULL CHECK (price_cents > 0),
+  -- Service categories the credits can be used on; empty means any
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  -- Credits expire this many days after purchase; NULL never expires
+  valid_days INTEGER CHECK (valid_days IS NULL OR valid_days > 0),
+  active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_packages_studio_id ON service_packages(studio_id);
+
+-- A client's purchase of a package. The package's terms are copied so editing the
+-- package later doesn't change what was bought. Credits are counted in minutes
+-- for hour packages and in sessions otherwise.
+CREATE TABLE IF NOT EXISTS package_purchases (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  package_id UUID REFERENCES service_packages(id) ON DELETE SET NULL,
+  studio_id UUID REFERENCES studios(id) ON DELETE CASCADE NOT NULL,
+  package_name TEXT NOT NULL,
+  client_name TEXT NOT NULL,
+  client_email TEXT NOT NULL,
+  credit_type TEXT NOT NULL CHECK (credit_type IN ('hours', 'sessions')),
+  credits_total INTEGER NOT NULL CHECK (credits_total > 0),
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  price_cents INTEGER NOT NULL,
+  -- Emailed to the client; entered at checkout to book with the credits
+  code TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending_payment' CHECK (status IN ('pending_payment', 'active', 'cancelled')),
+  valid_days INTEGER,
+  purchased_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  stripe_session_id TEXT,
+  stripe_payment_intent_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_purchases_studio_id ON package_purchases(studio_id, status);
+
+-- Bookings paid for with credits. Cancelling the booking gives the credits back.
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS package_purchase_id UUID REFERENCES package_purchases(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS package_credits_used INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_package_purchase_id ON bookings(package_purchase_id) WHERE package_purchase_id IS NOT NULL;
+
+-- Each purchase with what's been used and what's left
+CREATE OR REPLACE VIEW package_balances WITH (security_invoker = true) AS
+SELECT
+  package_purchases.*,
+  COALESCE(used.credits, 0)::INTEGER AS credits_used,
+  (package_purchases.credits_total - COALESCE(used.credits, 0))::INTEGER AS credits_remaining
+FROM package_purchases
+LEFT JOIN (
+  SELECT package_purchase_id, SUM(package_credits_used) AS credits
+  FROM bookings
+  WHERE package_purchase_id IS NOT NULL AND status <> 'cancelled'
+  GROUP BY package_purchase_id
+) used ON used.package_purchase_id = package_purchases.id;
+
+-- Credits are redeemed by the server once it has checked the code (see
+-- lib/package-credits.ts), never by the client's own insert or a studio's edit.
+-- The balance is checked again here so two bookings can't spend the same credits.
+CREATE OR REPLACE FUNCTION enforce_booking_package_credits()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_purchase package_purchases%ROWTYPE;
+  v_used INTEGER;
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.package_purchase_id := NULL;
+      NEW.package_credits_used := 0;
+    ELSE
+      NEW.package_purchase_id := OLD.package_purchase_id;
+      NEW.package_credits_used := OLD.package_credits_used;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.package_purchase_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.package_purchase_id IS NOT DISTINCT FROM OLD.package_purchase_id THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_purchase FROM package_purchases WHERE id = NEW.package_purchase_id FOR UPDATE;
+
+  IF v_purchase.status <> 'active' OR (v_purchase.expires_at IS NOT NULL AND v_purchase.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Package is not active' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM(package_credits_used), 0) INTO v_used
+  FROM bookings
+  WHERE package_purchase_id = NEW.package_purchase_id
+  AND status <> 'cancelled'
+  AND id <> NEW.id;
+
+  IF v_used + NEW.package_credits_used > v_purchase.credits_total THEN
+    RAISE EXCEPTION 'Not enough package credits' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_booking_package_credits ON bookings;
+CREATE TRIGGER enforce_booking_package_credits BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_booking_package_credits();
+
+-- A booking paid with credits costs nothing; the server records the redemption in
+-- the ledger as a zero adjustment, which marks it paid (replaces the function in
+-- payment-ledger-setup.sql)
+CREATE OR REPLACE FUNCTION apply_booking_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_deposit INTEGER;
+  v_final INTEGER;
+  v_refunded INTEGER;
+  v_total INTEGER;
+  v_package_purchase_id UUID;
+BEGIN
+  SELECT
+    COALESCE(SUM(amount_cents) FILTER (WHERE kind = 'charge' AND payment_type = 'deposit'), 0),
+    COALESCE(SUM(amount_cents) FILTER (
+      WHERE (kind = 'charge' AND payment_type IS DISTINCT FROM 'deposit') OR kind = 'adjustment'
+    ), 0),
+    COALESCE(-SUM(amount_cents) FILTER (WHERE kind = 'refund'), 0)
+  INTO v_deposit, v_final, v_refunded
+  FROM booking_payments
+  WHERE booking_id = NEW.booking_id;
+
+  SELECT total_price_cents, package_purchase_id INTO v_total, v_package_purchase_id
+  FROM bookings WHERE id = NEW.booking_id;
+
+  UPDATE bookings
+  SET deposit_paid_cents = v_deposit,
+      final_payment_cents = v_final,
+      refunded_cents = v_refunded,
+      refunded_at = CASE WHEN NEW.kind = 'refund' THEN NEW.created_at ELSE refunded_at END,
+      payment_status = CASE
+        WHEN v_refunded > 0 AND v_refunded >= v_deposit + v_final THEN 'refunded'
+        WHEN v_refunded > 0 THEN 'partially_refunded'
+        WHEN v_deposit + v_final > 0 AND v_deposit + v_final >= v_total THEN 'paid'
+        WHEN v_package_purchase_id IS NOT NULL AND v_deposit + v_final >= v_total THEN 'paid'
+        WHEN v_deposit > 0 AND v_final = 0 THEN 'deposit_paid'
+        WHEN v_deposit + v_final > 0 THEN 'partially_paid'
+        ELSE payment_status
+      END,
+      updated_at = TIMEZONE('utc', NOW())
+  WHERE id = NEW.booking_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE service_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE package_purchases ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can see the packages on sale
+CREATE POLICY "Active packages are viewable by everyone" ON service_packages
+  FOR SELECT USING (active = true);
+
+CREATE POLICY "Studio owners can manage their packages" ON service_packages
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = service_packages.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
+
+-- Purchases are recorded by the server (service role); studio owners can read them
+CREATE POLICY "Studio owners can view their package purchases" ON package_purchases
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = package_purchases.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,116 @@
+-- Payment Ledger: every charge, refund, dispute and adjustment on a booking
+-- Run this in your Supabase SQL Editor after refunds-setup.sql
+
+-- Append only. Amounts are signed: money in from the client is positive, money
+-- going back out (refunds, disputes) is negative.
+CREATE TABLE IF NOT EXISTS booking_payments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('charge', 'refund', 'dispute', 'adjustment')),
+  payment_type TEXT CHECK (payment_type IN ('deposit', 'balance', 'full')),
+  amount_cents INTEGER NOT NULL,
+  stripe_session_id TEXT,
+  stripe_payment_intent_id TEXT,
+  stripe_refund_id TEXT,
+  stripe_dispute_id TEXT,
+  description TEXT,
+  -- Stripe events and retried requests record the same payment more than once
+  idempotency_key TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_payments_booking_id ON booking_payments(booking_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_booking_payments_payment_intent ON booking_payments(stripe_payment_intent_id);
+
+CREATE OR REPLACE FUNCTION prevent_booking_payment_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'booking_payments is append only; record an adjustment instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_booking_payment_changes ON booking_payments;
+CREATE TRIGGER prevent_booking_payment_changes BEFORE UPDATE OR DELETE ON booking_payments
+  FOR EACH ROW EXECUTE FUNCTION prevent_booking_payment_changes();
+
+-- The paid and refunded amounts on bookings, and payment_status once anything has
+-- been paid, are now derived from the ledger. Nothing else should write them.
+CREATE OR REPLACE FUNCTION apply_booking_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_deposit INTEGER;
+  v_final INTEGER;
+  v_refunded INTEGER;
+  v_total INTEGER;
+BEGIN
+  SELECT
+    COALESCE(SUM(amount_cents) FILTER (WHERE kind = 'charge' AND payment_type = 'deposit'), 0),
+    COALESCE(SUM(amount_cents) FILTER (
+      WHERE (kind = 'charge' AND payment_type IS DISTINCT FROM 'deposit') OR kind = 'adjustment'
+    ), 0),
+    COALESCE(-SUM(amount_cents) FILTER (WHERE kind = 'refund'), 0)
+  INTO v_deposit, v_final, v_refunded
+  FROM booking_payments
+  WHERE booking_id = NEW.booking_id;
+
+  SELECT total_price_cents INTO v_total FROM bookings WHERE id = NEW.booking_id;
+
+  UPDATE bookings
+  SET deposit_paid_cents = v_deposit,
+      final_payment_cents = v_final,
+      refunded_cents = v_refunded,
+      refunded_at = CASE WHEN NEW.kind = 'refund' THEN NEW.created_at ELSE refunded_at END,
+      payment_status = CASE
+        WHEN v_refunded > 0 AND v_refunded >= v_deposit + v_final THEN 'refunded'
+        WHEN v_refunded > 0 THEN 'partially_refunded'
+        WHEN v_deposit + v_final > 0 AND v_deposit + v_final >= v_total THEN 'paid'
+        WHEN v_deposit > 0 AND v_final = 0 THEN 'deposit_paid'
+        WHEN v_deposit + v_final > 0 THEN 'partially_paid'
+        ELSE payment_status
+      END,
+      updated_at = TIMEZONE('utc', NOW())
+  WHERE id = NEW.booking_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_booking_payment ON booking_payments;
+CREATE TRIGGER apply_booking_payment AFTER INSERT ON booking_payments
+  FOR EACH ROW EXECUTE FUNCTION apply_booking_payment();
+
+ALTER TABLE booking_payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments are recorded by the server (service role); studio owners can read them
+CREATE POLICY "Studio owners can view their booking payments" ON booking_payments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      JOIN studios ON studios.id = bookings.studio_id
+      WHERE bookings.id = booking_payments.booking_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
+
+-- Bring in what was paid and refunded before the ledger existed
+INSERT INTO booking_payments (booking_id, kind, payment_type, amount_cents, stripe_session_id, stripe_payment_intent_id, description, idempotency_key, created_at)
+SELECT id, 'charge', 'deposit', deposit_paid_cents, stripe_session_id, stripe_payment_intent_id,
+  'Recorded before the payment ledger', 'backfill:deposit:' || id, created_at
+FROM bookings
+WHERE deposit_paid_cents > 0
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO booking_payments (booking_id, kind, payment_type, amount_cents, stripe_payment_intent_id, description, idempotency_key, created_at)
+SELECT id, 'charge', CASE WHEN deposit_paid_cents > 0 THEN 'balance' ELSE 'full' END, final_payment_cents,
+  COALESCE(balance_payment_intent_id, stripe_payment_intent_id),
+  'Recorded before the payment ledger', 'backfill:final:' || id, created_at
+FROM bookings
+WHERE final_payment_cents > 0
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO booking_payments (booking_id, kind, amount_cents, description, idempotency_key, created_at)
+SELECT id, 'refund', -refunded_cents, 'Recorded before the payment ledger', 'backfill:refund:' || id,
+  COALESCE(refunded_at, updated_at)
+FROM bookings
+WHERE refunded_cents > 0
+ON CONFLICT (idempotency_key) DO NOTHING;
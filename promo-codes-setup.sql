@@ -0,0 +1,99 @@
+-- Promo Codes: discounts studios offer on their services at checkout
+-- Run this in your Supabase SQL Editor after disputes-setup.sql
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  studio_id UUID REFERENCES studios(id) ON DELETE CASCADE NOT NULL,
+  -- Stored upper case; clients can type it in any case
+  code TEXT NOT NULL CHECK (code <> '' AND code = UPPER(code)),
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  -- Percent off, or cents off each booking
+  discount_value INTEGER NOT NULL CHECK (discount_value > 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  -- Empty means every service
+  service_ids UUID[] NOT NULL DEFAULT '{}',
+  active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  UNIQUE (studio_id, code),
+  CHECK (discount_type <> 'percent' OR discount_value <= 100)
+);
+
+-- total_price_cents stays what the client pays (after any discount), so deposits,
+-- balances, refunds and revenue all work from the discounted price
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS original_price_cents INTEGER;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS discount_cents INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES promo_codes(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS promo_code TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_promo_code_id ON bookings(promo_code_id) WHERE promo_code_id IS NOT NULL;
+
+-- Discounts are applied by the server once it has checked the code (see
+-- lib/promo-codes.ts), never by the client's own insert or a studio's edit. The
+-- usage limit is checked again here so two checkouts can't both take the last use.
+CREATE OR REPLACE FUNCTION enforce_booking_promo_code()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_max_uses INTEGER;
+  v_used INTEGER;
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.original_price_cents := NULL;
+      NEW.discount_cents := 0;
+      NEW.promo_code_id := NULL;
+      NEW.promo_code := NULL;
+    ELSE
+      NEW.original_price_cents := OLD.original_price_cents;
+      NEW.discount_cents := OLD.discount_cents;
+      NEW.promo_code_id := OLD.promo_code_id;
+      NEW.promo_code := OLD.promo_code;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.promo_code_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.promo_code_id IS NOT DISTINCT FROM OLD.promo_code_id THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT max_uses INTO v_max_uses FROM promo_codes WHERE id = NEW.promo_code_id FOR UPDATE;
+
+  IF v_max_uses IS NOT NULL THEN
+    -- A series counts as one use
+    SELECT COUNT(DISTINCT COALESCE(series_id, id)) INTO v_used
+    FROM bookings
+    WHERE promo_code_id = NEW.promo_code_id
+    AND status <> 'cancelled'
+    AND COALESCE(series_id, id) <> COALESCE(NEW.series_id, NEW.id);
+
+    IF v_used >= v_max_uses THEN
+      RAISE EXCEPTION 'Promo code has been used up' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_booking_promo_code ON bookings;
+CREATE TRIGGER enforce_booking_promo_code BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION enforce_booking_promo_code();
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes are checked by the server, so clients can't list them
+CREATE POLICY "Studio owners can manage their promo codes" ON promo_codes
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = promo_codes.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
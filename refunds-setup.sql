@@ -0,0 +1,24 @@
+-- Refunds: cancellation policy per studio and partially refunded bookings
+-- Run this in your Supabase SQL Editor after balance-payments-setup.sql
+
+-- Cancelling at least full_refund_hours before the session refunds everything paid,
+-- at least partial_refund_hours before refunds partial_refund_percentage, and
+-- anything closer refunds nothing
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS cancellation_full_refund_hours INTEGER NOT NULL DEFAULT 48
+  CHECK (cancellation_full_refund_hours >= 0);
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS cancellation_partial_refund_hours INTEGER NOT NULL DEFAULT 12
+  CHECK (cancellation_partial_refund_hours >= 0);
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS cancellation_partial_refund_percentage INTEGER NOT NULL DEFAULT 50
+  CHECK (cancellation_partial_refund_percentage BETWEEN 0 AND 100);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS refunded_cents INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP WITH TIME ZONE;
+
+-- A balance paid separately from the deposit is refunded from its own payment
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS balance_payment_intent_id TEXT;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_payment_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_payment_status_check
+  CHECK (payment_status IN (
+    'pending', 'deposit_paid', 'paid', 'partially_paid', 'failed', 'expired', 'refunded', 'partially_refunded'
+  ));
@@ -0,0 +1,33 @@
+-- Booking Reminders: the 24h and 1h reminder emails sent for each booking
+-- Run this in your Supabase SQL Editor after invoices-setup.sql
+
+-- One row per reminder sent, with the session time it was about. The reminder
+-- dispatcher inserts the row before sending, so each reminder goes out once even
+-- if two runs overlap. A booking moved after a reminder went out isn't reminded
+-- again; the client was told its new time when it moved.
+CREATE TABLE IF NOT EXISTS booking_reminders (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  reminder_type TEXT NOT NULL CHECK (reminder_type IN ('24h', '1h')),
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  UNIQUE (booking_id, reminder_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_booking_id ON booking_reminders(booking_id);
+
+-- The dispatcher looks for confirmed bookings starting soon
+CREATE INDEX IF NOT EXISTS idx_bookings_status_start_time ON bookings(status, start_time);
+
+ALTER TABLE booking_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Reminders are recorded by the server (service role); studio owners can read them
+CREATE POLICY "Studio owners can view their booking reminders" ON booking_reminders
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      JOIN studios ON studios.id = bookings.studio_id
+      WHERE bookings.id = booking_reminders.booking_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
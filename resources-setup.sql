@@ -0,0 +1,109 @@
+-- Resources: rooms, engineers and gear packages scheduled independently
+-- Run this in your Supabase SQL Editor after booking-conflicts-setup.sql
+
+CREATE TABLE IF NOT EXISTS resources (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  studio_id UUID REFERENCES studios(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('room', 'engineer', 'gear')),
+  color TEXT NOT NULL DEFAULT '#2081C3',
+  active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Resources a service can use: a booking needs one free resource of each type listed
+CREATE TABLE IF NOT EXISTS service_resources (
+  service_id UUID REFERENCES services(id) ON DELETE CASCADE NOT NULL,
+  resource_id UUID REFERENCES resources(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (service_id, resource_id)
+);
+
+-- Resources assigned to a booking. Kept in sync from bookings.resource_ids by the
+-- trigger below so the booking and its resources are written in one statement.
+CREATE TABLE IF NOT EXISTS booking_resources (
+  booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+  resource_id UUID REFERENCES resources(id) ON DELETE CASCADE NOT NULL,
+  occupied_range TSTZRANGE,
+  active BOOLEAN NOT NULL DEFAULT true,
+  PRIMARY KEY (booking_id, resource_id)
+);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS resource_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_resources_studio_id ON resources(studio_id);
+CREATE INDEX IF NOT EXISTS idx_booking_resources_resource_id ON booking_resources(resource_id);
+
+CREATE TRIGGER update_resources_updated_at BEFORE UPDATE ON resources
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Runs as the owner so clients creating a booking can write its resource rows
+CREATE OR REPLACE FUNCTION sync_booking_resources()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM booking_resources
+  WHERE booking_id = NEW.id
+    AND NOT (resource_id = ANY(NEW.resource_ids));
+
+  INSERT INTO booking_resources (booking_id, resource_id)
+  SELECT NEW.id, unnest(NEW.resource_ids)
+  ON CONFLICT DO NOTHING;
+
+  UPDATE booking_resources
+  SET occupied_range = NEW.occupied_range,
+      active = NEW.status NOT IN ('cancelled', 'no_show')
+  WHERE booking_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_booking_resources ON bookings;
+CREATE TRIGGER sync_booking_resources AFTER INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION sync_booking_resources();
+
+-- A resource can't be in two active sessions at once (fails with exclusion_violation, 23P01)
+ALTER TABLE booking_resources DROP CONSTRAINT IF EXISTS booking_resources_no_overlap;
+ALTER TABLE booking_resources ADD CONSTRAINT booking_resources_no_overlap
+  EXCLUDE USING gist (resource_id WITH =, occupied_range WITH &&)
+  WHERE (active);
+
+-- The studio-wide check now only covers bookings without resources (the studio as one room)
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE bookings ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (studio_id WITH =, occupied_range WITH &&)
+  WHERE (status NOT IN ('cancelled', 'no_show') AND cardinality(resource_ids) = 0);
+
+ALTER TABLE resources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_resources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_resources ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can view resources and their assignments (needed to compute public availability)
+CREATE POLICY "Resources are viewable by everyone" ON resources
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service resources are viewable by everyone" ON service_resources
+  FOR SELECT USING (true);
+
+CREATE POLICY "Booking resources are viewable by everyone" ON booking_resources
+  FOR SELECT USING (true);
+
+-- Studio owners can manage their resources and which services use them
+CREATE POLICY "Studio owners can manage their resources" ON resources
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = resources.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Studio owners can manage their service resources" ON service_resources
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM services
+      JOIN studios ON studios.id = services.studio_id
+      WHERE services.id = service_resources.service_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,21 @@
+-- SMS: text message confirmations, reminders, reschedules and cancellations
+-- Run this in your Supabase SQL Editor after notifications-setup.sql
+
+-- A studio turns texts on for its clients; a client opts in when booking
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS sms_enabled BOOLEAN DEFAULT false NOT NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS sms_opt_in BOOLEAN DEFAULT false NOT NULL;
+
+-- Numbers that replied STOP (E.164, e.g. +15555550123). They get no texts from
+-- any studio until they reply START, whatever their bookings say.
+CREATE TABLE IF NOT EXISTS sms_opt_outs (
+  phone TEXT PRIMARY KEY,
+  opted_out_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- Written and read by the server (service role) only
+ALTER TABLE sms_opt_outs ENABLE ROW LEVEL SECURITY;
+
+-- Texts are logged alongside emails; they have no subject
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS channel TEXT DEFAULT 'email' NOT NULL
+  CHECK (channel IN ('email', 'sms'));
+ALTER TABLE notifications ALTER COLUMN subject DROP NOT NULL;
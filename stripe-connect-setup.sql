@@ -0,0 +1,32 @@
+-- Stripe Connect: studios are paid out through their own connected accounts
+-- Run this in your Supabase SQL Editor after stripe-events-setup.sql
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_studios_stripe_account_id
+  ON studios(stripe_account_id) WHERE stripe_account_id IS NOT NULL;
+
+-- The connected account and whether it can take payments are set by the server from
+-- Stripe (see lib/stripe-connect.ts), never by the studio owner's own client
+CREATE OR REPLACE FUNCTION protect_studio_connect_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.stripe_account_id := NULL;
+      NEW.onboarded := false;
+    ELSE
+      NEW.stripe_account_id := OLD.stripe_account_id;
+      NEW.onboarded := OLD.onboarded;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_studio_connect_fields ON studios;
+CREATE TRIGGER protect_studio_connect_fields BEFORE INSERT OR UPDATE ON studios
+  FOR EACH ROW EXECUTE FUNCTION protect_studio_connect_fields();
+
+-- onboarded now means "can take payments". Studios without a connected account
+-- stop being bookable until they set up payouts from their studio settings.
+UPDATE studios SET onboarded = false WHERE stripe_account_id IS NULL AND onboarded = true;
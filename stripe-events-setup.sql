@@ -0,0 +1,39 @@
+-- Stripe Events: every webhook event received, so each is handled exactly once
+-- Run this in your Supabase SQL Editor after payment-ledger-setup.sql
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY, -- Stripe's event id (evt_...)
+  type TEXT NOT NULL,
+  -- From the event object's metadata. Not a foreign key: the event is kept even if
+  -- it names a booking that doesn't exist (or no longer does).
+  booking_id UUID,
+  -- The studio the event is about: the booking's or package purchase's, or the one
+  -- whose connected account it came from. Events without one are the platform's.
+  studio_id UUID REFERENCES studios(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_error TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_booking_id ON stripe_events(booking_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_studio_id ON stripe_events(studio_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_failed ON stripe_events(created_at) WHERE status = 'failed';
+
+CREATE TRIGGER update_stripe_events_updated_at BEFORE UPDATE ON stripe_events
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by the webhook (service role); studio owners can see their studio's
+CREATE POLICY "Studio owners can view their Stripe events" ON stripe_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = stripe_events.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
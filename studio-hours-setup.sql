@@ -0,0 +1,32 @@
+-- Studio Hours: multiple windows per day and overnight windows
+-- Run this in your Supabase SQL Editor after supabase-setup.sql
+
+-- Align column names with the app (start_time / end_time / active)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_name = 'studio_availability' AND column_name = 'open_time') THEN
+    ALTER TABLE studio_availability RENAME COLUMN open_time TO start_time;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_name = 'studio_availability' AND column_name = 'close_time') THEN
+    ALTER TABLE studio_availability RENAME COLUMN close_time TO end_time;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_name = 'studio_availability' AND column_name = 'is_available') THEN
+    ALTER TABLE studio_availability RENAME COLUMN is_available TO active;
+  END IF;
+END $$;
+
+-- Allow several windows per day (e.g. 10:00-14:00 and 18:00-02:00)
+ALTER TABLE studio_availability DROP CONSTRAINT IF EXISTS studio_availability_studio_id_day_of_week_key;
+
+-- A window ending at or before its start runs past midnight, so only identical times are invalid
+ALTER TABLE studio_availability DROP CONSTRAINT IF EXISTS studio_availability_window_check;
+ALTER TABLE studio_availability ADD CONSTRAINT studio_availability_window_check
+  CHECK (start_time <> end_time);
+
+CREATE INDEX IF NOT EXISTS idx_studio_availability_day
+  ON studio_availability(studio_id, day_of_week, start_time);
@@ -0,0 +1,8 @@
+-- Studio Time Zones: compute availability in each studio's own zone
+-- Run this in your Supabase SQL Editor after supabase-setup.sql
+
+-- IANA zone name (e.g. America/New_York); existing studios start on UTC until the owner sets theirs
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+-- Zone the client booked from, so emails can show the time on their own clock
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS client_timezone TEXT;
@@ -0,0 +1,51 @@
+-- Taxes & Fees: per-studio sales tax, booking and processing fees, and currency
+-- Run this in your Supabase SQL Editor after packages-setup.sql
+
+-- The currency follows the studio's country (see utils/charges.ts) and is set
+-- from the app when the country changes
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS country TEXT NOT NULL DEFAULT 'US';
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'usd';
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS tax_rate_percent NUMERIC(6, 3) NOT NULL DEFAULT 0
+  CHECK (tax_rate_percent >= 0 AND tax_rate_percent < 100);
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS tax_label TEXT NOT NULL DEFAULT 'Sales tax';
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS booking_fee_cents INTEGER NOT NULL DEFAULT 0
+  CHECK (booking_fee_cents >= 0);
+ALTER TABLE studios ADD COLUMN IF NOT EXISTS processing_fee_percent NUMERIC(5, 2) NOT NULL DEFAULT 0
+  CHECK (processing_fee_percent >= 0 AND processing_fee_percent <= 10);
+
+-- total_price_cents now includes these. The price of the session itself is
+-- total_price_cents - tax_cents - fee_cents.
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'usd';
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS tax_cents INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS tax_rate_percent NUMERIC(6, 3) NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS fee_cents INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE package_purchases ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'usd';
+ALTER TABLE package_purchases ADD COLUMN IF NOT EXISTS tax_cents INTEGER NOT NULL DEFAULT 0;
+
+-- Tax and fees are added by the server at checkout (see lib/booking-charges.ts).
+-- A client's own insert is in the studio's currency with nothing added yet.
+CREATE OR REPLACE FUNCTION protect_booking_charges()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      SELECT currency INTO NEW.currency FROM studios WHERE id = NEW.studio_id;
+      NEW.tax_cents := 0;
+      NEW.tax_rate_percent := 0;
+      NEW.fee_cents := 0;
+    ELSE
+      NEW.currency := OLD.currency;
+      NEW.tax_cents := OLD.tax_cents;
+      NEW.tax_rate_percent := OLD.tax_rate_percent;
+      NEW.fee_cents := OLD.fee_cents;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS protect_booking_charges ON bookings;
+CREATE TRIGGER protect_booking_charges BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION protect_booking_charges();
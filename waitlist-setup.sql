@@ -0,0 +1,54 @@
+-- Waitlist: clients queue for fully booked services and are offered freed slots
+-- Run this in your Supabase SQL Editor after booking-holds-setup.sql
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  studio_id UUID REFERENCES studios(id) ON DELETE CASCADE NOT NULL,
+  service_id UUID REFERENCES services(id) ON DELETE CASCADE NOT NULL,
+  client_name TEXT NOT NULL,
+  client_email TEXT NOT NULL,
+  client_phone TEXT,
+  earliest_date DATE NOT NULL, -- studio-local dates the client can make
+  latest_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'cancelled')),
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL, -- pending booking holding the offered slot
+  claim_token TEXT UNIQUE,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  CHECK (latest_date >= earliest_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_queue
+  ON waitlist_entries(service_id, created_at) WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_booking_id ON waitlist_entries(booking_id);
+
+CREATE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can join a waitlist (offers and claims run server side with the service role)
+CREATE POLICY "Anyone can join a waitlist" ON waitlist_entries
+  FOR INSERT WITH CHECK (status = 'waiting' AND booking_id IS NULL AND claim_token IS NULL);
+
+-- Clients can view their own entries by email
+CREATE POLICY "Clients can view their waitlist entries" ON waitlist_entries
+  FOR SELECT USING (
+    client_email = auth.jwt() ->> 'email'
+    OR EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = waitlist_entries.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );
+
+-- Studio owners can manage their waitlist
+CREATE POLICY "Studio owners can manage their waitlist" ON waitlist_entries
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM studios
+      WHERE studios.id = waitlist_entries.studio_id
+      AND studios.owner_id = auth.uid()
+    )
+  );